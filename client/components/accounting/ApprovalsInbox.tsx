@@ -0,0 +1,363 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  approveTransaction,
+  createApprovalRule,
+  deleteApprovalRule,
+  loadApprovalInbox,
+  loadApprovalRules,
+  rejectTransaction,
+} from "@/services/accounting";
+import type {
+  ApprovalInboxItem,
+  ApprovalLevel,
+  ApprovalRule,
+  Transaction,
+} from "@shared/accounting";
+
+const LEVEL_LABELS: Record<ApprovalLevel, string> = {
+  accountant: "محاسب",
+  manager: "مدير",
+};
+
+const LEVEL_PRESETS: { value: string; levels: ApprovalLevel[] }[] = [
+  { value: "accountant", levels: ["accountant"] },
+  { value: "manager", levels: ["manager"] },
+  { value: "accountant,manager", levels: ["accountant", "manager"] },
+  { value: "manager,manager", levels: ["manager", "manager"] },
+];
+
+const inputClass =
+  "rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2";
+
+function levelsLabel(levels: ApprovalLevel[]) {
+  return levels.map((level) => LEVEL_LABELS[level]).join(" ثم ");
+}
+
+export default function ApprovalsInbox({
+  canManageRules,
+  onDecision,
+}: {
+  canManageRules: boolean;
+  onDecision: (transaction: Transaction) => void;
+}) {
+  const [items, setItems] = useState<ApprovalInboxItem[]>([]);
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<Transaction | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [ruleForm, setRuleForm] = useState({
+    type: "",
+    minAmount: "",
+    levels: "accountant,manager",
+  });
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [inbox, currentRules] = await Promise.all([
+        loadApprovalInbox(),
+        loadApprovalRules(),
+      ]);
+      setItems(inbox);
+      setRules(currentRules);
+    } catch (error: any) {
+      toast.error(error?.message || "تعذر تحميل صندوق الاعتمادات");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const approve = async (transaction: Transaction) => {
+    try {
+      setBusyId(transaction.id);
+      const updated = await approveTransaction(transaction.id);
+      onDecision(updated);
+      toast.success(
+        updated.approved
+          ? "تم اعتماد المعاملة"
+          : "تم تسجيل موافقتك وبانتظار المستوى التالي",
+      );
+      await load();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر اعتماد المعاملة";
+      toast.error("فشل اعتماد المعاملة", { description: message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const submitReject = async () => {
+    if (!rejecting) return;
+    if (!rejectReason.trim()) {
+      toast.error("يرجى إدخال سبب الرفض");
+      return;
+    }
+    try {
+      setBusyId(rejecting.id);
+      const updated = await rejectTransaction(rejecting.id, rejectReason);
+      onDecision(updated);
+      toast.success("تم رفض المعاملة");
+      setRejecting(null);
+      await load();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر رفض المعاملة";
+      toast.error("فشل رفض المعاملة", { description: message });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const addRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const minAmount = Number(ruleForm.minAmount);
+    if (!Number.isFinite(minAmount) || minAmount < 0) {
+      toast.error("قيمة الحد غير صحيحة");
+      return;
+    }
+    const preset = LEVEL_PRESETS.find((p) => p.value === ruleForm.levels);
+    try {
+      const rule = await createApprovalRule({
+        type:
+          ruleForm.type === "revenue" || ruleForm.type === "expense"
+            ? ruleForm.type
+            : null,
+        minAmount,
+        levels: preset?.levels ?? ["accountant"],
+      });
+      setRules((prev) =>
+        [...prev, rule].sort((a, b) => a.minAmount - b.minAmount),
+      );
+      setRuleForm((prev) => ({ ...prev, minAmount: "" }));
+      toast.success("تمت إضافة القاعدة");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر إضافة القاعدة";
+      toast.error("فشل إضافة القاعدة", { description: message });
+    }
+  };
+
+  const removeRule = async (id: string) => {
+    try {
+      await deleteApprovalRule(id);
+      setRules((prev) => prev.filter((rule) => rule.id !== id));
+      toast.success("تم حذف القاعدة");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر حذف القاعدة";
+      toast.error("فشل حذف القاعدة", { description: message });
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto">
+        <h2 className="font-bold mb-3">بانتظار اعتمادك</h2>
+        {loading ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            جاري التحميل...
+          </div>
+        ) : items.length === 0 ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            لا توجد معاملات بانتظار اعتمادك
+          </div>
+        ) : (
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">التاريخ</th>
+                <th className="py-2">الوصف</th>
+                <th className="py-2">المبلغ</th>
+                <th className="py-2">مسار الاعتماد</th>
+                <th className="py-2">المستوى المطلوب</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(({ transaction, levels, approvals, nextLevel }) => (
+                <tr key={transaction.id} className="border-t">
+                  <td className="py-2">{transaction.date}</td>
+                  <td className="py-2">{transaction.description}</td>
+                  <td className="py-2">
+                    {transaction.amount.toLocaleString()} ج.م
+                  </td>
+                  <td className="py-2">
+                    {levelsLabel(levels)}
+                    <span className="text-xs text-slate-500 mr-2">
+                      ({approvals.length}/{levels.length})
+                    </span>
+                  </td>
+                  <td className="py-2">{LEVEL_LABELS[nextLevel]}</td>
+                  <td className="py-2 space-x-2 space-x-reverse">
+                    <button
+                      className="rounded-md bg-indigo-600 text-white px-3 py-1 disabled:cursor-not-allowed disabled:opacity-50"
+                      onClick={() => void approve(transaction)}
+                      disabled={busyId === transaction.id}
+                    >
+                      اعتماد
+                    </button>
+                    <button
+                      className="rounded-md bg-red-600 text-white px-3 py-1 disabled:cursor-not-allowed disabled:opacity-50"
+                      onClick={() => {
+                        setRejecting(transaction);
+                        setRejectReason("");
+                      }}
+                      disabled={busyId === transaction.id}
+                    >
+                      رفض
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow space-y-3">
+        <h2 className="font-bold">قواعد الاعتماد</h2>
+        <p className="text-xs text-slate-500">
+          تُطبق القاعدة ذات الحد الأعلى المطابق لقيمة المعاملة، وبدون قواعد يكفي
+          اعتماد محاسب واحد.
+        </p>
+        {rules.length > 0 && (
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">النوع</th>
+                <th className="py-2">من مبلغ</th>
+                <th className="py-2">المستويات</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr key={rule.id} className="border-t">
+                  <td className="py-2">
+                    {rule.type === "revenue"
+                      ? "إيراد"
+                      : rule.type === "expense"
+                        ? "مصروف"
+                        : "الكل"}
+                  </td>
+                  <td className="py-2">
+                    {rule.minAmount.toLocaleString()} ج.م
+                  </td>
+                  <td className="py-2">{levelsLabel(rule.levels)}</td>
+                  <td className="py-2">
+                    {canManageRules && (
+                      <button
+                        className="text-red-600 hover:underline"
+                        onClick={() => void removeRule(rule.id)}
+                      >
+                        حذف
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {canManageRules && (
+          <form onSubmit={addRule} className="flex flex-wrap items-end gap-3">
+            <div className="flex flex-col">
+              <label className="text-sm text-slate-600 mb-1">النوع</label>
+              <select
+                className={inputClass}
+                value={ruleForm.type}
+                onChange={(e) =>
+                  setRuleForm((prev) => ({ ...prev, type: e.target.value }))
+                }
+              >
+                <option value="">الكل</option>
+                <option value="revenue">إيراد</option>
+                <option value="expense">مصروف</option>
+              </select>
+            </div>
+            <div className="flex flex-col">
+              <label className="text-sm text-slate-600 mb-1">من مبلغ</label>
+              <input
+                type="number"
+                className={inputClass}
+                value={ruleForm.minAmount}
+                onChange={(e) =>
+                  setRuleForm((prev) => ({
+                    ...prev,
+                    minAmount: e.target.value,
+                  }))
+                }
+              />
+            </div>
+            <div className="flex flex-col">
+              <label className="text-sm text-slate-600 mb-1">المستويات</label>
+              <select
+                className={inputClass}
+                value={ruleForm.levels}
+                onChange={(e) =>
+                  setRuleForm((prev) => ({ ...prev, levels: e.target.value }))
+                }
+              >
+                {LEVEL_PRESETS.map((preset) => (
+                  <option key={preset.value} value={preset.value}>
+                    {levelsLabel(preset.levels)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button className="rounded-md bg-indigo-600 px-4 py-2 text-white">
+              إضافة قاعدة
+            </button>
+          </form>
+        )}
+      </div>
+
+      <Dialog
+        open={Boolean(rejecting)}
+        onOpenChange={(next) => !next && setRejecting(null)}
+      >
+        <DialogContent dir="rtl" className="text-right">
+          <DialogHeader>
+            <DialogTitle className="text-right">رفض المعاملة</DialogTitle>
+          </DialogHeader>
+          <div className="text-sm text-slate-600">{rejecting?.description}</div>
+          <textarea
+            className={`${inputClass} w-full`}
+            placeholder="سبب الرفض"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+          />
+          <DialogFooter className="gap-2">
+            <button
+              className="rounded-md bg-red-600 px-4 py-2 text-white disabled:opacity-50"
+              onClick={() => void submitReject()}
+              disabled={busyId === rejecting?.id}
+            >
+              رفض
+            </button>
+            <button
+              className="rounded-md border px-4 py-2"
+              onClick={() => setRejecting(null)}
+            >
+              إلغاء
+            </button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+}
@@ -0,0 +1,295 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { loadAuditLog } from "@/services/accounting";
+import { listUsers } from "@/services/users";
+import type { User } from "@shared/api";
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+} from "@shared/accounting";
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: "إنشاء",
+  update: "تعديل",
+  delete: "حذف",
+  approve: "اعتماد",
+  reverse: "عكس",
+  archive: "أرشفة",
+  pay: "سداد",
+  reject: "رفض",
+  resubmit: "إعادة إرسال",
+  login: "تسجيل دخول",
+};
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  transaction: "معاملة",
+  inventory_item: "مادة مخزون",
+  inventory_movement: "حركة مخزون",
+  project: "مشروع",
+  project_cost: "تكلفة مشروع",
+  project_sale: "بيع وحدة",
+  installment: "قسط",
+  approval_rule: "قاعدة اعتماد",
+  category: "تصنيف",
+  recurring_template: "معاملة متكررة",
+  money_account: "خزينة / حساب بنكي",
+  money_transfer: "تحويل بين الحسابات",
+  bank_statement: "كشف بنكي",
+  bank_statement_line: "بند كشف بنكي",
+  cheque: "شيك",
+  late_fee: "غرامة تأخير",
+  late_fee_policy: "سياسة غرامات التأخير",
+  installment_reschedule: "إعادة جدولة أقساط",
+  customer: "عميل",
+  property_unit: "وحدة عقارية",
+  unit_reservation: "حجز وحدة",
+  user: "مستخدم",
+};
+
+const inputClass =
+  "rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2";
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object"
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function display(value: unknown) {
+  if (value === undefined || value === null || value === "") return "-";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/** Field-by-field differences between the before and after snapshots. */
+function fieldChanges(entry: AuditLogEntry) {
+  const before = asRecord(entry.before);
+  const after = asRecord(entry.after);
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys]
+    .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+    .map((key) => ({ field: key, before: before[key], after: after[key] }));
+}
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [filters, setFilters] = useState({
+    actorId: "",
+    action: "",
+    entityType: "",
+    entityId: "",
+    from: "",
+    to: "",
+  });
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setEntries(
+        await loadAuditLog({
+          actorId: filters.actorId || null,
+          action: (filters.action || null) as AuditAction | null,
+          entityType: (filters.entityType || null) as AuditEntityType | null,
+          entityId: filters.entityId.trim() || null,
+          from: filters.from || null,
+          to: filters.to || null,
+        }),
+      );
+    } catch (error: any) {
+      toast.error(error?.message || "تعذر تحميل سجل التدقيق");
+    } finally {
+      setLoading(false);
+    }
+  }, [filters]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    listUsers()
+      .then(setUsers)
+      .catch((error) => console.error("Failed to load users", error));
+  }, []);
+
+  const userName = (id?: string | null) =>
+    id ? (users.find((u) => u.id === id)?.name ?? id.slice(0, 8)) : "النظام";
+
+  const setFilter = (key: keyof typeof filters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <section className="space-y-4">
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow flex flex-wrap items-end gap-3">
+        <div className="flex flex-col">
+          <label className="text-sm text-slate-600 mb-1">المستخدم</label>
+          <select
+            className={inputClass}
+            value={filters.actorId}
+            onChange={(e) => setFilter("actorId", e.target.value)}
+          >
+            <option value="">الكل</option>
+            {users.map((u) => (
+              <option key={u.id} value={u.id}>
+                {u.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm text-slate-600 mb-1">الإجراء</label>
+          <select
+            className={inputClass}
+            value={filters.action}
+            onChange={(e) => setFilter("action", e.target.value)}
+          >
+            <option value="">الكل</option>
+            {Object.entries(ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm text-slate-600 mb-1">الكيان</label>
+          <select
+            className={inputClass}
+            value={filters.entityType}
+            onChange={(e) => setFilter("entityType", e.target.value)}
+          >
+            <option value="">الكل</option>
+            {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm text-slate-600 mb-1">المعرف</label>
+          <input
+            className={inputClass}
+            value={filters.entityId}
+            onChange={(e) => setFilter("entityId", e.target.value)}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm text-slate-600 mb-1">من</label>
+          <input
+            type="date"
+            className={inputClass}
+            value={filters.from}
+            onChange={(e) => setFilter("from", e.target.value)}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm text-slate-600 mb-1">إلى</label>
+          <input
+            type="date"
+            className={inputClass}
+            value={filters.to}
+            onChange={(e) => setFilter("to", e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto">
+        {loading ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            جاري التحميل...
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            لا توجد سجلات مطابقة
+          </div>
+        ) : (
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">الوقت</th>
+                <th className="py-2">المستخدم</th>
+                <th className="py-2">الإجراء</th>
+                <th className="py-2">الكيان</th>
+                <th className="py-2">عنوان IP</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => {
+                const changes = fieldChanges(entry);
+                return (
+                  <Fragment key={entry.id}>
+                    <tr className="border-t">
+                      <td className="py-2">
+                        {new Date(entry.createdAt).toLocaleString("ar-EG")}
+                      </td>
+                      <td className="py-2">{userName(entry.actorId)}</td>
+                      <td className="py-2">{ACTION_LABELS[entry.action]}</td>
+                      <td className="py-2">
+                        {ENTITY_LABELS[entry.entityType]}
+                        <span className="text-xs text-slate-500 mr-2">
+                          {entry.entityId.slice(0, 8)}
+                        </span>
+                      </td>
+                      <td className="py-2">{entry.ip || "-"}</td>
+                      <td className="py-2">
+                        {changes.length > 0 && (
+                          <button
+                            className="text-indigo-600 hover:underline"
+                            onClick={() =>
+                              setExpanded(
+                                expanded === entry.id ? null : entry.id,
+                              )
+                            }
+                          >
+                            {expanded === entry.id
+                              ? "إخفاء"
+                              : `التغييرات (${changes.length})`}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {expanded === entry.id && (
+                      <tr>
+                        <td colSpan={6} className="bg-slate-50 p-3">
+                          <table className="w-full text-right text-xs">
+                            <thead>
+                              <tr className="text-slate-600">
+                                <th className="py-1">الحقل</th>
+                                <th className="py-1">قبل</th>
+                                <th className="py-1">بعد</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {changes.map((change) => (
+                                <tr key={change.field} className="border-t">
+                                  <td className="py-1 font-mono">
+                                    {change.field}
+                                  </td>
+                                  <td className="py-1 text-rose-700">
+                                    {display(change.before)}
+                                  </td>
+                                  <td className="py-1 text-emerald-700">
+                                    {display(change.after)}
+                                  </td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
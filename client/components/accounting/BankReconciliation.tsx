@@ -0,0 +1,612 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import {
+  createFromStatementLine,
+  fetchReconciliationReport,
+  ignoreStatementLine,
+  importBankStatement,
+  loadStatementLines,
+  matchStatementLine,
+  reopenStatementLine,
+} from "@/services/accounting";
+import type {
+  BankReconciliationReport,
+  BankStatementFormat,
+  BankStatementLine,
+  BankStatementLineStatus,
+  CsvColumnMapping,
+  MoneyAccount,
+  Transaction,
+  TransactionCategory,
+} from "@shared/accounting";
+
+const STATUS_LABELS: Record<BankStatementLineStatus, string> = {
+  unmatched: "غير مطابق",
+  matched: "مطابق",
+  created: "أُنشئت معاملة",
+  ignored: "متجاهل",
+};
+
+const STATUS_STYLES: Record<BankStatementLineStatus, string> = {
+  unmatched: "bg-amber-100 text-amber-700",
+  matched: "bg-emerald-100 text-emerald-700",
+  created: "bg-indigo-100 text-indigo-700",
+  ignored: "bg-slate-200 text-slate-700",
+};
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white";
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+const money = (value: number) => `${value.toLocaleString()} ج.م`;
+
+/** Column mappings are remembered per account; each bank exports its own. */
+const mappingKey = (accountId: string) => `bank_csv_mapping:${accountId}`;
+
+const emptyMapping = (): CsvColumnMapping => ({
+  date: "",
+  description: "",
+  amount: "",
+  debit: "",
+  credit: "",
+  reference: "",
+  balance: "",
+  dateFormat: "",
+  delimiter: ",",
+  hasHeader: true,
+});
+
+function savedMapping(accountId: string): CsvColumnMapping {
+  try {
+    const raw = localStorage.getItem(mappingKey(accountId));
+    return raw ? { ...emptyMapping(), ...JSON.parse(raw) } : emptyMapping();
+  } catch {
+    return emptyMapping();
+  }
+}
+
+const MAPPING_FIELDS: { key: keyof CsvColumnMapping; label: string }[] = [
+  { key: "date", label: "عمود التاريخ" },
+  { key: "description", label: "عمود البيان" },
+  { key: "amount", label: "عمود المبلغ (بإشارة)" },
+  { key: "debit", label: "عمود المدين / السحب" },
+  { key: "credit", label: "عمود الدائن / الإيداع" },
+  { key: "reference", label: "عمود المرجع" },
+  { key: "balance", label: "عمود الرصيد" },
+  { key: "dateFormat", label: "صيغة التاريخ (مثل DD/MM/YYYY)" },
+  { key: "delimiter", label: "الفاصل" },
+];
+
+/**
+ * Imports bank statements for a bank account and reconciles each line with
+ * the books: match it, book a transaction for it, or ignore it.
+ */
+export default function BankReconciliation({
+  accounts,
+  transactions,
+  categories,
+  onTransactionCreated,
+}: {
+  accounts: MoneyAccount[];
+  transactions: Transaction[];
+  categories: TransactionCategory[];
+  onTransactionCreated: (transaction: Transaction) => void;
+}) {
+  const banks = accounts.filter((a) => a.kind === "bank" && a.active);
+  const [accountId, setAccountId] = useState("");
+  const [format, setFormat] = useState<BankStatementFormat>("csv");
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(emptyMapping);
+  const [importing, setImporting] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<
+    BankStatementLineStatus | ""
+  >("unmatched");
+  const [lines, setLines] = useState<BankStatementLine[]>([]);
+  const [picks, setPicks] = useState<Record<string, string>>({});
+  const [creating, setCreating] = useState<BankStatementLine | null>(null);
+  const [createForm, setCreateForm] = useState({
+    description: "",
+    categoryId: "",
+  });
+  const [asOf, setAsOf] = useState(today);
+  const [report, setReport] = useState<BankReconciliationReport | null>(null);
+
+  useEffect(() => {
+    if (!accountId && banks.length) setAccountId(banks[0].id);
+  }, [accountId, banks]);
+
+  useEffect(() => {
+    if (accountId) setMapping(savedMapping(accountId));
+  }, [accountId]);
+
+  const loadLines = useCallback(async () => {
+    if (!accountId) return;
+    try {
+      setLines(await loadStatementLines(accountId, statusFilter || null));
+    } catch (error) {
+      toast.error("تعذر تحميل بنود الكشف", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, [accountId, statusFilter]);
+
+  useEffect(() => {
+    void loadLines();
+  }, [loadLines]);
+
+  const transactionById = useMemo(
+    () => new Map(transactions.map((t) => [t.id, t])),
+    [transactions],
+  );
+
+  // The server rejects anything else; this only narrows the picker.
+  const candidatesFor = (line: BankStatementLine) =>
+    transactions.filter(
+      (t) =>
+        t.moneyAccountId === accountId &&
+        t.approved &&
+        !t.reversalOf &&
+        !t.reversedBy &&
+        (t.type === "revenue" ? t.amount : -t.amount) === line.amount,
+    );
+
+  const replaceLine = (updated: BankStatementLine) =>
+    setLines((prev) =>
+      statusFilter && updated.status !== statusFilter
+        ? prev.filter((l) => l.id !== updated.id)
+        : prev.map((l) => (l.id === updated.id ? updated : l)),
+    );
+
+  const runImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accountId || !file) {
+      toast.error("اختر الحساب والملف");
+      return;
+    }
+    try {
+      setImporting(true);
+      const result = await importBankStatement(accountId, {
+        format,
+        content: await file.text(),
+        fileName: file.name,
+        mapping: format === "csv" ? mapping : null,
+      });
+      if (format === "csv") {
+        localStorage.setItem(mappingKey(accountId), JSON.stringify(mapping));
+      }
+      toast.success(
+        `تم استيراد ${result.lines.length} بند، منها ${result.autoMatched} مطابقة تلقائياً`,
+        {
+          description: result.duplicates
+            ? `تم تخطي ${result.duplicates} بند مستورد سابقاً`
+            : undefined,
+        },
+      );
+      setFile(null);
+      await loadLines();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر استيراد الكشف";
+      toast.error("فشل الاستيراد", { description: message });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const act = async (action: () => Promise<BankStatementLine>) => {
+    try {
+      replaceLine(await action());
+      setReport(null);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تحديث البند";
+      toast.error("فشلت العملية", { description: message });
+    }
+  };
+
+  const submitCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!creating) return;
+    try {
+      const { line, transaction } = await createFromStatementLine(creating.id, {
+        description: createForm.description || null,
+        categoryId: createForm.categoryId || null,
+      });
+      replaceLine(line);
+      onTransactionCreated(transaction);
+      setCreating(null);
+      setReport(null);
+      toast.success("تم إنشاء المعاملة من البند");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر إنشاء المعاملة";
+      toast.error("فشل الإنشاء", { description: message });
+    }
+  };
+
+  const loadReport = async () => {
+    if (!accountId) return;
+    try {
+      setReport(await fetchReconciliationReport(accountId, asOf));
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تحميل التقرير";
+      toast.error("فشل التحميل", { description: message });
+    }
+  };
+
+  if (!banks.length) {
+    return (
+      <div className="rounded-xl p-6 bg-white border border-slate-200 shadow text-sm text-slate-600">
+        أضف حساباً بنكياً من تبويب الخزائن والبنوك أولاً.
+      </div>
+    );
+  }
+
+  return (
+    <section className="space-y-6">
+      <form
+        onSubmit={runImport}
+        className="bg-white border border-slate-200 rounded-xl p-4 shadow space-y-3"
+      >
+        <h3 className="font-semibold">استيراد كشف بنكي</h3>
+        <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+          <select
+            className={inputClass}
+            value={accountId}
+            onChange={(e) => {
+              setAccountId(e.target.value);
+              setReport(null);
+            }}
+          >
+            {banks.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+          <select
+            className={inputClass}
+            value={format}
+            onChange={(e) => setFormat(e.target.value as BankStatementFormat)}
+          >
+            <option value="csv">CSV</option>
+            <option value="ofx">OFX</option>
+            <option value="mt940">MT940</option>
+          </select>
+          <input
+            type="file"
+            className={inputClass}
+            accept=".csv,.txt,.ofx,.qfx,.sta,.mt940"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+        </div>
+        {format === "csv" && (
+          <div className="space-y-2">
+            <p className="text-xs text-slate-500">
+              أدخل أسماء الأعمدة كما في الصف الأول، أو أرقامها (1، 2، ...) إذا
+              لم يكن للملف صف عناوين. يكفي عمود المبلغ أو عمودا المدين والدائن
+              معاً.
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+              {MAPPING_FIELDS.map(({ key, label }) => (
+                <input
+                  key={key}
+                  className={inputClass}
+                  placeholder={label}
+                  aria-label={label}
+                  value={String(mapping[key] ?? "")}
+                  onChange={(e) =>
+                    setMapping({ ...mapping, [key]: e.target.value })
+                  }
+                />
+              ))}
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={mapping.hasHeader ?? true}
+                  onChange={(e) =>
+                    setMapping({ ...mapping, hasHeader: e.target.checked })
+                  }
+                />
+                الملف به صف عناوين
+              </label>
+            </div>
+          </div>
+        )}
+        <button
+          className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+          disabled={importing}
+        >
+          {importing ? "جاري الاستيراد..." : "استيراد"}
+        </button>
+      </form>
+
+      {creating && (
+        <form
+          onSubmit={submitCreate}
+          className="bg-indigo-50 border border-indigo-200 rounded-xl p-4 shadow space-y-3"
+        >
+          <h3 className="font-semibold">
+            إنشاء معاملة من بند {creating.date} ({money(creating.amount)})
+          </h3>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <input
+              className={inputClass}
+              placeholder={creating.description || "الوصف"}
+              value={createForm.description}
+              onChange={(e) =>
+                setCreateForm({ ...createForm, description: e.target.value })
+              }
+            />
+            <select
+              className={inputClass}
+              value={createForm.categoryId}
+              onChange={(e) =>
+                setCreateForm({ ...createForm, categoryId: e.target.value })
+              }
+            >
+              <option value="">بدون تصنيف</option>
+              {categories
+                .filter(
+                  (c) =>
+                    c.active &&
+                    (!c.type ||
+                      c.type ===
+                        (creating.amount >= 0 ? "revenue" : "expense")),
+                )
+                .map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <button className="rounded-md bg-indigo-600 px-4 py-2 text-white">
+              إنشاء
+            </button>
+            <button
+              type="button"
+              className="rounded-md border px-4 py-2 bg-white"
+              onClick={() => setCreating(null)}
+            >
+              إلغاء
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-semibold">بنود الكشف</h3>
+          <select
+            className="rounded-md border-2 border-slate-200 px-3 py-1 bg-white"
+            value={statusFilter}
+            onChange={(e) =>
+              setStatusFilter(e.target.value as BankStatementLineStatus | "")
+            }
+          >
+            <option value="">الكل</option>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {lines.length === 0 ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            لا توجد بنود.
+          </div>
+        ) : (
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">التاريخ</th>
+                <th className="py-2">البيان</th>
+                <th className="py-2">المرجع</th>
+                <th className="py-2">المبلغ</th>
+                <th className="py-2">الحالة</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((line) => {
+                const linked = line.transactionId
+                  ? transactionById.get(line.transactionId)
+                  : undefined;
+                const candidates =
+                  line.status === "unmatched" ? candidatesFor(line) : [];
+                return (
+                  <tr key={line.id} className="border-t align-top">
+                    <td className="py-2">{line.date}</td>
+                    <td className="py-2">
+                      {line.description}
+                      {linked && (
+                        <div className="text-xs text-slate-500 mt-1">
+                          ↔ {linked.date} - {linked.description}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2">{line.reference || "—"}</td>
+                    <td
+                      className={`py-2 ${line.amount < 0 ? "text-rose-600" : "text-emerald-700"}`}
+                    >
+                      {money(line.amount)}
+                    </td>
+                    <td className="py-2">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs ${STATUS_STYLES[line.status]}`}
+                      >
+                        {STATUS_LABELS[line.status]}
+                      </span>
+                    </td>
+                    <td className="py-2 space-y-1">
+                      {line.status === "unmatched" ? (
+                        <>
+                          {candidates.length > 0 && (
+                            <div className="flex gap-1">
+                              <select
+                                className="rounded-md border px-2 py-1 bg-white max-w-48"
+                                value={picks[line.id] ?? ""}
+                                onChange={(e) =>
+                                  setPicks({
+                                    ...picks,
+                                    [line.id]: e.target.value,
+                                  })
+                                }
+                              >
+                                <option value="">اختر معاملة</option>
+                                {candidates.map((t) => (
+                                  <option key={t.id} value={t.id}>
+                                    {t.date} - {t.description}
+                                  </option>
+                                ))}
+                              </select>
+                              <button
+                                className="text-emerald-600 hover:underline disabled:opacity-50"
+                                disabled={!picks[line.id]}
+                                onClick={() =>
+                                  void act(() =>
+                                    matchStatementLine(line.id, picks[line.id]),
+                                  )
+                                }
+                              >
+                                مطابقة
+                              </button>
+                            </div>
+                          )}
+                          <div className="space-x-2 space-x-reverse whitespace-nowrap">
+                            <button
+                              className="text-indigo-600 hover:underline"
+                              onClick={() => {
+                                setCreating(line);
+                                setCreateForm({
+                                  description: "",
+                                  categoryId: "",
+                                });
+                              }}
+                            >
+                              إنشاء معاملة
+                            </button>
+                            <button
+                              className="text-slate-600 hover:underline"
+                              onClick={() =>
+                                void act(() => ignoreStatementLine(line.id))
+                              }
+                            >
+                              تجاهل
+                            </button>
+                          </div>
+                        </>
+                      ) : line.status !== "created" ? (
+                        <button
+                          className="text-amber-600 hover:underline"
+                          onClick={() =>
+                            void act(() => reopenStatementLine(line.id))
+                          }
+                        >
+                          تراجع
+                        </button>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+        <div className="flex flex-wrap items-end justify-between gap-2">
+          <h3 className="font-semibold">تقرير التسوية</h3>
+          <div className="flex items-end gap-2">
+            <input
+              type="date"
+              className={inputClass}
+              aria-label="حتى تاريخ"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+            />
+            <button
+              className="rounded-md border border-indigo-300 px-3 py-2 text-indigo-700 whitespace-nowrap"
+              onClick={() => void loadReport()}
+            >
+              عرض التقرير
+            </button>
+          </div>
+        </div>
+        {report && (
+          <>
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-slate-500">رصيد الدفاتر</div>
+                <div className="text-lg font-bold">
+                  {money(report.bookBalance)}
+                </div>
+              </div>
+              <div className="rounded-lg border p-3">
+                <div className="text-xs text-slate-500">
+                  رصيد البنك
+                  {report.bankBalanceReported ? "" : " (محسوب من البنود)"}
+                </div>
+                <div className="text-lg font-bold">
+                  {money(report.bankBalance)}
+                </div>
+              </div>
+              <div
+                className={`rounded-lg border p-3 ${report.difference === 0 ? "border-emerald-300" : "border-rose-300"}`}
+              >
+                <div className="text-xs text-slate-500">الفرق</div>
+                <div
+                  className={`text-lg font-bold ${report.difference === 0 ? "text-emerald-700" : "text-rose-600"}`}
+                >
+                  {money(report.difference)}
+                </div>
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div>
+                <h4 className="font-medium mb-2">
+                  بنود بالبنك غير مسجلة بالدفاتر (
+                  {report.unreconciledLines.length})
+                </h4>
+                <ul className="text-sm space-y-1">
+                  {report.unreconciledLines.map((l) => (
+                    <li key={l.id} className="flex justify-between gap-2">
+                      <span>
+                        {l.date} - {l.description}
+                      </span>
+                      <span>{money(l.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div>
+                <h4 className="font-medium mb-2">
+                  معاملات بالدفاتر لم تظهر بالبنك (
+                  {report.outstandingTransactions.length})
+                </h4>
+                <ul className="text-sm space-y-1">
+                  {report.outstandingTransactions.map((t) => (
+                    <li key={t.id} className="flex justify-between gap-2">
+                      <span>
+                        {t.date} - {t.description}
+                      </span>
+                      <span>
+                        {money(t.type === "revenue" ? t.amount : -t.amount)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,411 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  applyCategoryBackfill,
+  createCategory,
+  deleteCategory,
+  loadCategorySuggestions,
+  updateCategory,
+} from "@/services/accounting";
+import type {
+  CategorySuggestion,
+  TransType,
+  TransactionCategory,
+} from "@shared/accounting";
+
+const inputClass =
+  "rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2";
+
+const TYPE_LABELS: Record<string, string> = {
+  "": "الكل",
+  revenue: "إيراد",
+  expense: "مصروف",
+};
+
+function splitKeywords(value: string) {
+  return value
+    .split(/[,،\n]/)
+    .map((k) => k.trim())
+    .filter(Boolean);
+}
+
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback;
+}
+
+/**
+ * Category taxonomy maintenance plus the one-off backfill that proposes
+ * categories for uncategorized transactions from their descriptions.
+ */
+export default function Categories({
+  categories,
+  canManage,
+  onCategoriesChange,
+  onBackfilled,
+}: {
+  categories: TransactionCategory[];
+  canManage: boolean;
+  onCategoriesChange: (categories: TransactionCategory[]) => void;
+  onBackfilled: () => void;
+}) {
+  const [form, setForm] = useState({
+    code: "",
+    name: "",
+    type: "",
+    keywords: "",
+  });
+  const [editing, setEditing] = useState<{
+    id: string;
+    name: string;
+    keywords: string;
+  } | null>(null);
+  const [suggestions, setSuggestions] = useState<CategorySuggestion[] | null>(
+    null,
+  );
+  const [chosen, setChosen] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  const replace = (category: TransactionCategory) =>
+    onCategoriesChange(
+      categories.map((c) => (c.id === category.id ? category : c)),
+    );
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.code.trim() || !form.name.trim()) {
+      toast.error("يرجى إدخال الرمز والاسم");
+      return;
+    }
+    try {
+      const category = await createCategory({
+        code: form.code,
+        name: form.name,
+        type: (form.type || null) as TransType | null,
+        keywords: splitKeywords(form.keywords),
+      });
+      onCategoriesChange([...categories, category]);
+      setForm({ code: "", name: "", type: "", keywords: "" });
+      toast.success("تمت إضافة التصنيف");
+    } catch (error) {
+      toast.error("فشل إضافة التصنيف", {
+        description: errorMessage(error, "تعذر إضافة التصنيف"),
+      });
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editing) return;
+    try {
+      replace(
+        await updateCategory(editing.id, {
+          name: editing.name,
+          keywords: splitKeywords(editing.keywords),
+        }),
+      );
+      setEditing(null);
+      toast.success("تم حفظ التصنيف");
+    } catch (error) {
+      toast.error("فشل الحفظ", {
+        description: errorMessage(error, "تعذر حفظ التصنيف"),
+      });
+    }
+  };
+
+  const toggleActive = async (category: TransactionCategory) => {
+    try {
+      replace(
+        category.active
+          ? await deleteCategory(category.id)
+          : await updateCategory(category.id, { active: true }),
+      );
+    } catch (error) {
+      toast.error("تعذر تحديث التصنيف", {
+        description: errorMessage(error, "تعذر تحديث التصنيف"),
+      });
+    }
+  };
+
+  const suggest = async () => {
+    try {
+      setBusy(true);
+      const result = await loadCategorySuggestions();
+      setSuggestions(result);
+      setChosen(
+        Object.fromEntries(result.map((s) => [s.transaction.id, s.categoryId])),
+      );
+    } catch (error) {
+      toast.error("تعذر تحميل الاقتراحات", {
+        description: errorMessage(error, "تعذر تحميل الاقتراحات"),
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const applySuggestions = async () => {
+    const assignments = Object.entries(chosen)
+      .filter(([, categoryId]) => categoryId)
+      .map(([transactionId, categoryId]) => ({ transactionId, categoryId }));
+    if (!assignments.length) {
+      toast.error("لم يتم اختيار أي تصنيف");
+      return;
+    }
+    try {
+      setBusy(true);
+      const { updated } = await applyCategoryBackfill(assignments);
+      toast.success(`تم تصنيف ${updated} معاملة`);
+      setSuggestions(null);
+      setChosen({});
+      onBackfilled();
+    } catch (error) {
+      toast.error("فشل تطبيق التصنيفات", {
+        description: errorMessage(error, "تعذر تطبيق التصنيفات"),
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const categoryName = (id: string) =>
+    categories.find((c) => c.id === id)?.name ?? "-";
+
+  return (
+    <section className="space-y-6">
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+        <h3 className="font-semibold">تصنيفات المعاملات</h3>
+        <table className="w-full text-right text-sm">
+          <thead>
+            <tr className="text-slate-600">
+              <th className="py-2">الرمز</th>
+              <th className="py-2">الاسم</th>
+              <th className="py-2">النوع</th>
+              <th className="py-2">الكلمات المفتاحية</th>
+              <th className="py-2">الحالة</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {categories.map((category) => (
+              <tr key={category.id} className="border-t">
+                <td className="py-2 font-mono">{category.code}</td>
+                <td className="py-2">
+                  {editing?.id === category.id ? (
+                    <input
+                      className={inputClass}
+                      value={editing.name}
+                      onChange={(e) =>
+                        setEditing({ ...editing, name: e.target.value })
+                      }
+                    />
+                  ) : (
+                    category.name
+                  )}
+                </td>
+                <td className="py-2">{TYPE_LABELS[category.type ?? ""]}</td>
+                <td className="py-2">
+                  {editing?.id === category.id ? (
+                    <input
+                      className={`${inputClass} w-full`}
+                      value={editing.keywords}
+                      onChange={(e) =>
+                        setEditing({ ...editing, keywords: e.target.value })
+                      }
+                    />
+                  ) : (
+                    <span className="text-xs text-slate-500">
+                      {category.keywords.join("، ") || "-"}
+                    </span>
+                  )}
+                </td>
+                <td className="py-2">
+                  {category.active ? (
+                    <span className="px-2 py-1 rounded-full text-xs bg-emerald-100 text-emerald-700">
+                      نشط
+                    </span>
+                  ) : (
+                    <span className="px-2 py-1 rounded-full text-xs bg-slate-200 text-slate-700">
+                      موقوف
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 space-x-2 space-x-reverse">
+                  {canManage &&
+                    (editing?.id === category.id ? (
+                      <>
+                        <button
+                          className="text-indigo-600 hover:underline"
+                          onClick={() => void saveEdit()}
+                        >
+                          حفظ
+                        </button>
+                        <button
+                          className="text-slate-600 hover:underline"
+                          onClick={() => setEditing(null)}
+                        >
+                          إلغاء
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          className="text-indigo-600 hover:underline"
+                          onClick={() =>
+                            setEditing({
+                              id: category.id,
+                              name: category.name,
+                              keywords: category.keywords.join("، "),
+                            })
+                          }
+                        >
+                          تعديل
+                        </button>
+                        <button
+                          className={
+                            category.active
+                              ? "text-red-600 hover:underline"
+                              : "text-emerald-600 hover:underline"
+                          }
+                          onClick={() => void toggleActive(category)}
+                        >
+                          {category.active ? "إيقاف" : "تفعيل"}
+                        </button>
+                      </>
+                    ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {canManage && (
+          <form onSubmit={add} className="flex flex-wrap items-end gap-3">
+            <div className="flex flex-col">
+              <label className="text-sm text-slate-600 mb-1">الرمز</label>
+              <input
+                className={inputClass}
+                placeholder="insurance"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+              />
+            </div>
+            <div className="flex flex-col">
+              <label className="text-sm text-slate-600 mb-1">الاسم</label>
+              <input
+                className={inputClass}
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="flex flex-col">
+              <label className="text-sm text-slate-600 mb-1">النوع</label>
+              <select
+                className={inputClass}
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value })}
+              >
+                {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col flex-1 min-w-[12rem]">
+              <label className="text-sm text-slate-600 mb-1">
+                الكلمات المفتاحية (مفصولة بفواصل)
+              </label>
+              <input
+                className={inputClass}
+                value={form.keywords}
+                onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+              />
+            </div>
+            <button className="rounded-md bg-indigo-600 px-4 py-2 text-white">
+              إضافة تصنيف
+            </button>
+          </form>
+        )}
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold">تصنيف المعاملات السابقة</h3>
+          <button
+            className="rounded-md border border-indigo-300 px-3 py-1 text-indigo-700 disabled:opacity-50"
+            onClick={() => void suggest()}
+            disabled={busy}
+          >
+            اقتراح تصنيفات
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">
+          تُقترح التصنيفات من الكلمات المفتاحية في وصف المعاملات غير المصنفة.
+          راجع الاقتراحات قبل تطبيقها.
+        </p>
+        {suggestions &&
+          (suggestions.length === 0 ? (
+            <div className="py-6 text-center text-sm text-slate-500">
+              لا توجد معاملات غير مصنفة تطابق الكلمات المفتاحية
+            </div>
+          ) : (
+            <>
+              <table className="w-full text-right text-sm">
+                <thead>
+                  <tr className="text-slate-600">
+                    <th className="py-2">التاريخ</th>
+                    <th className="py-2">الوصف</th>
+                    <th className="py-2">المبلغ</th>
+                    <th className="py-2">المقترح</th>
+                    <th className="py-2">التصنيف</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {suggestions.map(({ transaction, categoryId }) => (
+                    <tr key={transaction.id} className="border-t">
+                      <td className="py-2">{transaction.date}</td>
+                      <td className="py-2">{transaction.description}</td>
+                      <td className="py-2">
+                        {transaction.amount.toLocaleString()} ج.م
+                      </td>
+                      <td className="py-2">{categoryName(categoryId)}</td>
+                      <td className="py-2">
+                        <select
+                          className={inputClass}
+                          value={chosen[transaction.id] ?? ""}
+                          onChange={(e) =>
+                            setChosen((prev) => ({
+                              ...prev,
+                              [transaction.id]: e.target.value,
+                            }))
+                          }
+                        >
+                          <option value="">تجاهل</option>
+                          {categories
+                            .filter(
+                              (c) =>
+                                c.active &&
+                                (!c.type || c.type === transaction.type),
+                            )
+                            .map((c) => (
+                              <option key={c.id} value={c.id}>
+                                {c.name}
+                              </option>
+                            ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+                onClick={() => void applySuggestions()}
+                disabled={busy}
+              >
+                تطبيق التصنيفات
+              </button>
+            </>
+          ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,410 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  bounceCheque,
+  clearCheque,
+  depositCheque,
+  loadCheques,
+  registerCheque,
+} from "@/services/accounting";
+import type {
+  Cheque,
+  ChequeActionResult,
+  ChequeStatus,
+  Installment,
+  MoneyAccount,
+} from "@shared/accounting";
+
+export const CHEQUE_STATUS_LABELS: Record<ChequeStatus, string> = {
+  received: "مستلم",
+  deposited: "مودع بالبنك",
+  cleared: "محصل",
+  bounced: "مرتد",
+};
+
+const STATUS_STYLES: Record<ChequeStatus, string> = {
+  received: "bg-slate-200 text-slate-700",
+  deposited: "bg-amber-100 text-amber-700",
+  cleared: "bg-emerald-100 text-emerald-700",
+  bounced: "bg-rose-100 text-rose-700",
+};
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white";
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+export function ChequeStatusBadge({ status }: { status: ChequeStatus }) {
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs ${STATUS_STYLES[status]}`}>
+      {CHEQUE_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+/** Records the post-dated cheque a buyer handed over for an installment. */
+export function ChequeIntakeForm({
+  installment,
+  onRegistered,
+  onCancel,
+}: {
+  installment: Installment;
+  onRegistered: (cheque: Cheque) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState({
+    number: "",
+    bank: "",
+    dueDate: installment.dueDate,
+    receivedAt: today(),
+  });
+  const [saving, setSaving] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.number.trim() || !form.bank.trim() || !form.dueDate) {
+      toast.error("يرجى إدخال رقم الشيك والبنك وتاريخ الاستحقاق");
+      return;
+    }
+    try {
+      setSaving(true);
+      const cheque = await registerCheque({
+        installmentId: installment.id,
+        ...form,
+      });
+      onRegistered(cheque);
+      toast.success("تم تسجيل الشيك");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تسجيل الشيك";
+      toast.error("فشل التسجيل", { description: message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="grid gap-2 sm:grid-cols-2 xl:grid-cols-5 items-end"
+    >
+      <input
+        className={inputClass}
+        placeholder="رقم الشيك"
+        value={form.number}
+        onChange={(e) => setForm({ ...form, number: e.target.value })}
+      />
+      <input
+        className={inputClass}
+        placeholder="البنك المسحوب عليه"
+        value={form.bank}
+        onChange={(e) => setForm({ ...form, bank: e.target.value })}
+      />
+      <label className="text-xs text-slate-500">
+        تاريخ الاستحقاق
+        <input
+          type="date"
+          className={inputClass}
+          value={form.dueDate}
+          onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+        />
+      </label>
+      <label className="text-xs text-slate-500">
+        تاريخ الاستلام
+        <input
+          type="date"
+          className={inputClass}
+          value={form.receivedAt}
+          onChange={(e) => setForm({ ...form, receivedAt: e.target.value })}
+        />
+      </label>
+      <div className="flex gap-2">
+        <button
+          className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+          disabled={saving}
+        >
+          حفظ
+        </button>
+        <button
+          type="button"
+          className="rounded-md border px-4 py-2"
+          onClick={onCancel}
+        >
+          إلغاء
+        </button>
+      </div>
+    </form>
+  );
+}
+
+type PendingAction =
+  | { kind: "deposit"; cheque: Cheque }
+  | { kind: "clear"; cheque: Cheque }
+  | { kind: "bounce"; cheque: Cheque };
+
+/**
+ * The cheque register: cheques on hand by due date, and the deposit, clear
+ * and bounce steps that move them onto the books.
+ */
+export default function Cheques({
+  accounts,
+  onPosted,
+}: {
+  accounts: MoneyAccount[];
+  onPosted: (result: ChequeActionResult) => void;
+}) {
+  const banks = accounts.filter((a) => a.kind === "bank" && a.active);
+  const [statusFilter, setStatusFilter] = useState<ChequeStatus | "">("");
+  const [cheques, setCheques] = useState<Cheque[]>([]);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [form, setForm] = useState({
+    date: today(),
+    moneyAccountId: "",
+    reason: "",
+    fee: "",
+  });
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setCheques(await loadCheques({ status: statusFilter || null }));
+    } catch (error) {
+      toast.error("تعذر تحميل الشيكات", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const accountName = (id?: string | null) =>
+    accounts.find((a) => a.id === id)?.name ?? "—";
+
+  const open = (action: PendingAction) => {
+    setPending(action);
+    setForm({
+      date: today(),
+      moneyAccountId: banks[0]?.id ?? "",
+      reason: "",
+      fee: "",
+    });
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pending) return;
+    const { cheque } = pending;
+    try {
+      setSaving(true);
+      if (pending.kind === "deposit") {
+        if (!form.moneyAccountId) {
+          toast.error("اختر الحساب البنكي");
+          return;
+        }
+        await depositCheque(cheque.id, form.moneyAccountId, form.date);
+        toast.success("تم تسجيل إيداع الشيك");
+      } else if (pending.kind === "clear") {
+        onPosted(await clearCheque(cheque.id, form.date));
+        toast.success("تم تحصيل الشيك وسداد القسط");
+      } else {
+        if (!form.reason.trim()) {
+          toast.error("يرجى إدخال سبب الارتداد");
+          return;
+        }
+        onPosted(
+          await bounceCheque(cheque.id, {
+            reason: form.reason.trim(),
+            date: form.date,
+            fee: form.fee ? Number(form.fee) : null,
+          }),
+        );
+        toast.success("تم تسجيل ارتداد الشيك");
+      }
+      setPending(null);
+      await load();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تحديث الشيك";
+      toast.error("فشلت العملية", { description: message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      {pending && (
+        <form
+          onSubmit={submit}
+          className="bg-indigo-50 border border-indigo-200 rounded-xl p-4 shadow space-y-3"
+        >
+          <h3 className="font-semibold">
+            {pending.kind === "deposit"
+              ? "إيداع"
+              : pending.kind === "clear"
+                ? "تحصيل"
+                : "ارتداد"}{" "}
+            الشيك رقم {pending.cheque.number} (
+            {pending.cheque.amount.toLocaleString()} ج.م)
+          </h3>
+          <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+            <input
+              type="date"
+              className={inputClass}
+              aria-label="التاريخ"
+              value={form.date}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+            />
+            {pending.kind === "deposit" && (
+              <select
+                className={inputClass}
+                value={form.moneyAccountId}
+                onChange={(e) =>
+                  setForm({ ...form, moneyAccountId: e.target.value })
+                }
+              >
+                <option value="">اختر الحساب البنكي</option>
+                {banks.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {pending.kind === "bounce" && (
+              <>
+                <input
+                  className={inputClass}
+                  placeholder="سبب الارتداد"
+                  value={form.reason}
+                  onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  className={inputClass}
+                  placeholder="رسوم على المشتري (اختياري)"
+                  value={form.fee}
+                  onChange={(e) => setForm({ ...form, fee: e.target.value })}
+                />
+              </>
+            )}
+          </div>
+          {pending.kind === "bounce" && pending.cheque.status === "cleared" && (
+            <p className="text-xs text-rose-600">
+              سيتم عكس سداد القسط وإعادته غير مسدد.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <button
+              className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+              disabled={saving}
+            >
+              تأكيد
+            </button>
+            <button
+              type="button"
+              className="rounded-md border px-4 py-2 bg-white"
+              onClick={() => setPending(null)}
+            >
+              إلغاء
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-semibold">سجل الشيكات</h3>
+          <select
+            className="rounded-md border-2 border-slate-200 px-3 py-1 bg-white"
+            value={statusFilter}
+            onChange={(e) =>
+              setStatusFilter(e.target.value as ChequeStatus | "")
+            }
+          >
+            <option value="">الكل</option>
+            {Object.entries(CHEQUE_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {cheques.length === 0 ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            لا توجد شيكات. تُسجل الشيكات من خطة أقساط المشروع.
+          </div>
+        ) : (
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">الاستحقاق</th>
+                <th className="py-2">رقم الشيك</th>
+                <th className="py-2">البنك</th>
+                <th className="py-2">المشتري / الوحدة</th>
+                <th className="py-2">المبلغ</th>
+                <th className="py-2">الحالة</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {cheques.map((c) => (
+                <tr key={c.id} className="border-t align-top">
+                  <td className="py-2">{c.dueDate}</td>
+                  <td className="py-2">{c.number}</td>
+                  <td className="py-2">{c.bank}</td>
+                  <td className="py-2">
+                    {c.buyer} - {c.unitNo}
+                  </td>
+                  <td className="py-2">{c.amount.toLocaleString()}</td>
+                  <td className="py-2">
+                    <ChequeStatusBadge status={c.status} />
+                    {c.moneyAccountId && (
+                      <div className="text-xs text-slate-500 mt-1">
+                        {accountName(c.moneyAccountId)}
+                      </div>
+                    )}
+                    {c.bounceReason && (
+                      <div className="text-xs text-rose-600 mt-1">
+                        {c.bounceReason}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 space-x-2 space-x-reverse whitespace-nowrap">
+                    {c.status === "received" && (
+                      <button
+                        className="text-indigo-600 hover:underline"
+                        onClick={() => open({ kind: "deposit", cheque: c })}
+                      >
+                        إيداع
+                      </button>
+                    )}
+                    {c.status === "deposited" && (
+                      <button
+                        className="text-emerald-600 hover:underline"
+                        onClick={() => open({ kind: "clear", cheque: c })}
+                      >
+                        تحصيل
+                      </button>
+                    )}
+                    {(c.status === "deposited" || c.status === "cleared") && (
+                      <button
+                        className="text-rose-600 hover:underline"
+                        onClick={() => open({ kind: "bounce", cheque: c })}
+                      >
+                        ارتداد
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,457 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  createCustomer,
+  loadCustomerStatement,
+  loadCustomers,
+  updateCustomer,
+} from "@/services/accounting";
+import type {
+  Customer,
+  CustomerInput,
+  CustomerStatement,
+} from "@shared/accounting";
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white";
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+const money = (value: number) => `${value.toLocaleString()} ج.م`;
+
+/** A picked customer, or the details of a new one to create with the sale. */
+export interface CustomerChoice {
+  customerId: string;
+  name: string;
+  nationalId: string;
+  phone: string;
+}
+
+export const emptyCustomerChoice = (): CustomerChoice => ({
+  customerId: "",
+  name: "",
+  nationalId: "",
+  phone: "",
+});
+
+export const isCustomerChosen = (choice: CustomerChoice) =>
+  Boolean(choice.customerId || choice.name.trim());
+
+/** The picked customer, creating it first when the details are new. */
+export async function resolveCustomerChoice(
+  choice: CustomerChoice,
+  customers: Customer[],
+): Promise<{ customer: Customer; created: boolean }> {
+  const existing = customers.find((c) => c.id === choice.customerId);
+  if (existing) return { customer: existing, created: false };
+  const customer = await createCustomer({
+    name: choice.name,
+    nationalId: choice.nationalId || null,
+    phones: choice.phone ? [choice.phone] : [],
+  });
+  return { customer, created: true };
+}
+
+/** Picks the buyer of a sale from the customer list or enters a new one. */
+export function CustomerPicker({
+  customers,
+  value,
+  onChange,
+}: {
+  customers: Customer[];
+  value: CustomerChoice;
+  onChange: (value: CustomerChoice) => void;
+}) {
+  return (
+    <div className="grid gap-3">
+      <select
+        className={inputClass}
+        value={value.customerId}
+        onChange={(e) =>
+          onChange({ ...emptyCustomerChoice(), customerId: e.target.value })
+        }
+      >
+        <option value="">عميل جديد</option>
+        {customers.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.name}
+            {c.nationalId ? ` - ${c.nationalId}` : ""}
+          </option>
+        ))}
+      </select>
+      {!value.customerId && (
+        <div className="grid grid-cols-3 gap-3">
+          <input
+            className={inputClass}
+            placeholder="اسم المشتري"
+            value={value.name}
+            onChange={(e) => onChange({ ...value, name: e.target.value })}
+          />
+          <input
+            className={inputClass}
+            placeholder="الرقم القومي (اختياري)"
+            value={value.nationalId}
+            onChange={(e) => onChange({ ...value, nationalId: e.target.value })}
+          />
+          <input
+            className={inputClass}
+            placeholder="الهاتف (اختياري)"
+            value={value.phone}
+            onChange={(e) => onChange({ ...value, phone: e.target.value })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Opens a customer's statement of account in a print window. */
+export function printCustomerStatement(statement: CustomerStatement) {
+  const { customer } = statement;
+  const sales = statement.sales
+    .map(
+      (s) =>
+        `<tr><td>${s.projectName}</td><td>${s.unitNo}</td><td>${s.date}</td><td>${money(s.price)}</td><td>${money(s.balance)}</td></tr>`,
+    )
+    .join("");
+  const lines = statement.lines
+    .map(
+      (l) =>
+        `<tr><td>${l.date}</td><td>${l.description}</td><td>${l.debit ? money(l.debit) : ""}</td><td>${l.credit ? money(l.credit) : ""}</td><td>${money(l.balance)}</td></tr>`,
+    )
+    .join("");
+  const html = `<!doctype html><html dir="rtl"><head><meta charset="utf-8"><title>كشف حساب ${customer.name}</title>
+      <style>body{font-family:Arial,system-ui;padding:24px} h1{font-size:20px;margin-bottom:12px} h2{font-size:16px;margin-top:20px}
+      table{width:100%;border-collapse:collapse;margin-top:8px} th,td{border:1px solid #ddd;padding:8px} th{background:#f1f5f9}
+      .totals{margin-top:16px;font-weight:bold}</style>
+    </head><body>
+      <h1>كشف حساب عميل</h1>
+      <div>العميل: <strong>${customer.name}</strong></div>
+      ${customer.nationalId ? `<div>الرقم القومي: ${customer.nationalId}</div>` : ""}
+      ${customer.phones.length ? `<div>الهاتف: ${customer.phones.join(" ، ")}</div>` : ""}
+      ${customer.address ? `<div>العنوان: ${customer.address}</div>` : ""}
+      <div>حتى تاريخ: ${statement.asOf}</div>
+      <h2>الوحدات المشتراة</h2>
+      <table><thead><tr><th>المشروع</th><th>الوحدة</th><th>تاريخ البيع</th><th>السعر</th><th>المتبقي</th></tr></thead>
+        <tbody>${sales}</tbody>
+      </table>
+      <h2>الحركات</h2>
+      <table><thead><tr><th>التاريخ</th><th>البيان</th><th>مدين</th><th>دائن</th><th>الرصيد</th></tr></thead>
+        <tbody>${lines}</tbody>
+      </table>
+      <div class="totals">الرصيد المستحق: ${money(statement.balance)} — منها متأخرات: ${money(statement.overdue)}</div>
+      <script>window.print()</script>
+    </body></html>`;
+  const win = window.open("", "_blank");
+  if (!win) return;
+  win.document.write(html);
+  win.document.close();
+}
+
+const emptyForm = () => ({
+  name: "",
+  nationalId: "",
+  phones: "",
+  address: "",
+});
+
+const toInput = (form: ReturnType<typeof emptyForm>): CustomerInput => ({
+  name: form.name,
+  nationalId: form.nationalId || null,
+  phones: form.phones
+    .split(/[,،]/)
+    .map((p) => p.trim())
+    .filter(Boolean),
+  address: form.address || null,
+});
+
+/**
+ * The customer register: buyers' contact details and a statement of
+ * everything each one bought and paid across projects.
+ */
+export default function Customers() {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [search, setSearch] = useState("");
+  const [form, setForm] = useState(emptyForm);
+  const [editing, setEditing] = useState<Customer | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [statement, setStatement] = useState<CustomerStatement | null>(null);
+  const [asOf, setAsOf] = useState(today);
+
+  const load = useCallback(async () => {
+    try {
+      setCustomers(await loadCustomers(search.trim() || undefined));
+    } catch (error) {
+      toast.error("تعذر تحميل العملاء", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, [search]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      toast.error("يرجى إدخال اسم العميل");
+      return;
+    }
+    try {
+      setSaving(true);
+      if (editing) {
+        await updateCustomer(editing.id, toInput(form));
+        toast.success("تم تحديث بيانات العميل");
+      } else {
+        await createCustomer(toInput(form));
+        toast.success("تمت إضافة العميل");
+      }
+      setEditing(null);
+      setForm(emptyForm());
+      await load();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر حفظ العميل";
+      toast.error("فشل الحفظ", { description: message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const startEdit = (customer: Customer) => {
+    setEditing(customer);
+    setForm({
+      name: customer.name,
+      nationalId: customer.nationalId ?? "",
+      phones: customer.phones.join(", "),
+      address: customer.address ?? "",
+    });
+  };
+
+  const openStatement = async (id: string) => {
+    try {
+      setStatement(await loadCustomerStatement(id, asOf));
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تحميل كشف الحساب";
+      toast.error("فشل التحميل", { description: message });
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <form
+        onSubmit={save}
+        className="bg-white border border-slate-200 rounded-xl p-4 shadow space-y-3"
+      >
+        <h3 className="font-semibold">
+          {editing ? `تعديل بيانات ${editing.name}` : "إضافة عميل"}
+        </h3>
+        <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+          <input
+            className={inputClass}
+            placeholder="الاسم"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <input
+            className={inputClass}
+            placeholder="الرقم القومي"
+            value={form.nationalId}
+            onChange={(e) => setForm({ ...form, nationalId: e.target.value })}
+          />
+          <input
+            className={inputClass}
+            placeholder="الهواتف (مفصولة بفاصلة)"
+            value={form.phones}
+            onChange={(e) => setForm({ ...form, phones: e.target.value })}
+          />
+          <input
+            className={inputClass}
+            placeholder="العنوان"
+            value={form.address}
+            onChange={(e) => setForm({ ...form, address: e.target.value })}
+          />
+        </div>
+        {editing && (
+          <p className="text-xs text-slate-500">
+            تغيير الاسم يُحدّث اسم المشتري على كل مبيعات العميل وأقساطه.
+          </p>
+        )}
+        <div className="flex gap-2">
+          <button
+            className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+            disabled={saving}
+          >
+            {editing ? "حفظ" : "إضافة"}
+          </button>
+          {editing && (
+            <button
+              type="button"
+              className="rounded-md border px-4 py-2"
+              onClick={() => {
+                setEditing(null);
+                setForm(emptyForm());
+              }}
+            >
+              إلغاء
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-semibold">العملاء</h3>
+          <div className="flex flex-wrap gap-2">
+            <input
+              className="rounded-md border-2 border-slate-200 px-3 py-1"
+              placeholder="بحث بالاسم أو الرقم القومي أو الهاتف"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <input
+              type="date"
+              className="rounded-md border-2 border-slate-200 px-3 py-1"
+              aria-label="كشف الحساب حتى"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+            />
+          </div>
+        </div>
+        {customers.length === 0 ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            لا يوجد عملاء.
+          </div>
+        ) : (
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">الاسم</th>
+                <th className="py-2">الرقم القومي</th>
+                <th className="py-2">الهواتف</th>
+                <th className="py-2">العنوان</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {customers.map((c) => (
+                <tr key={c.id} className="border-t">
+                  <td className="py-2">{c.name}</td>
+                  <td className="py-2">{c.nationalId || "—"}</td>
+                  <td className="py-2">{c.phones.join(" ، ") || "—"}</td>
+                  <td className="py-2">{c.address || "—"}</td>
+                  <td className="py-2 space-x-2 space-x-reverse whitespace-nowrap">
+                    <button
+                      className="text-indigo-600 hover:underline"
+                      onClick={() => void openStatement(c.id)}
+                    >
+                      كشف الحساب
+                    </button>
+                    <button
+                      className="text-slate-600 hover:underline"
+                      onClick={() => startEdit(c)}
+                    >
+                      تعديل
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {statement && (
+        <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="font-semibold">
+              كشف حساب: {statement.customer.name} (حتى {statement.asOf})
+            </h3>
+            <div className="flex gap-2">
+              <button
+                className="rounded-md bg-indigo-600 px-3 py-2 text-white"
+                onClick={() => printCustomerStatement(statement)}
+              >
+                طباعة
+              </button>
+              <button
+                className="rounded-md border px-3 py-2"
+                onClick={() => setStatement(null)}
+              >
+                إغلاق
+              </button>
+            </div>
+          </div>
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">المشروع</th>
+                <th className="py-2">الوحدة</th>
+                <th className="py-2">تاريخ البيع</th>
+                <th className="py-2">السعر</th>
+                <th className="py-2">الأقساط</th>
+                <th className="py-2">المتبقي</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statement.sales.map((s) => (
+                <tr key={s.id} className="border-t">
+                  <td className="py-2">{s.projectName}</td>
+                  <td className="py-2">{s.unitNo}</td>
+                  <td className="py-2">{s.date}</td>
+                  <td className="py-2">{money(s.price)}</td>
+                  <td className="py-2">
+                    {s.installments.filter((i) => i.paid).length} /{" "}
+                    {s.installments.length}
+                  </td>
+                  <td className="py-2 font-semibold">{money(s.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">التاريخ</th>
+                <th className="py-2">البيان</th>
+                <th className="py-2">مدين</th>
+                <th className="py-2">دائن</th>
+                <th className="py-2">الرصيد</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statement.lines.map((line, index) => (
+                <tr key={`${line.saleId}-${index}`} className="border-t">
+                  <td className="py-2">{line.date}</td>
+                  <td className="py-2">{line.description}</td>
+                  <td className="py-2">
+                    {line.debit ? money(line.debit) : ""}
+                  </td>
+                  <td className="py-2">
+                    {line.credit ? money(line.credit) : ""}
+                  </td>
+                  <td className="py-2 font-semibold">{money(line.balance)}</td>
+                </tr>
+              ))}
+              <tr className="border-t font-semibold">
+                <td className="py-2" colSpan={2}>
+                  الإجمالي
+                </td>
+                <td className="py-2">{money(statement.totalDebit)}</td>
+                <td className="py-2">{money(statement.totalCredit)}</td>
+                <td className="py-2">{money(statement.balance)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {statement.overdue > 0 && (
+            <div className="text-sm text-rose-600">
+              متأخرات مستحقة: {money(statement.overdue)}
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
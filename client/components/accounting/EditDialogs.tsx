@@ -0,0 +1,512 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  updateInventoryItem,
+  updateProject,
+  updateProjectCost,
+  updateProjectSale,
+  updateTransaction,
+} from "@/services/accounting";
+import type {
+  Customer,
+  InventoryItem,
+  MoneyAccount,
+  Project,
+  ProjectCost,
+  PropertyUnit,
+  ProjectCostUpdateResult,
+  ProjectSale,
+  ProjectSaleUpdateResult,
+  Transaction,
+  TransactionCategory,
+} from "@shared/accounting";
+
+interface EditField {
+  name: string;
+  label: string;
+  type?: "text" | "number" | "date" | "textarea" | "select";
+  options?: { value: string; label: string }[];
+  disabled?: boolean;
+}
+
+type Values = Record<string, string>;
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 disabled:bg-slate-100";
+
+/**
+ * Form dialog shared by the edit actions. `onSave` receives the raw string
+ * values; a rejected promise keeps the dialog open and shows the message.
+ */
+function EditDialog({
+  open,
+  title,
+  note,
+  fields,
+  initial,
+  onSave,
+  onClose,
+}: {
+  open: boolean;
+  title: string;
+  note?: string;
+  fields: EditField[];
+  initial: Values;
+  onSave: (values: Values) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [values, setValues] = useState<Values>(initial);
+  const [saving, setSaving] = useState(false);
+
+  // Reset only when the dialog is (re)opened for a new target.
+  useEffect(() => {
+    if (open) setValues(initial);
+  }, [open]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await onSave(values);
+      toast.success("تم حفظ التعديلات");
+      onClose();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر حفظ التعديلات";
+      toast.error("فشل الحفظ", { description: message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onClose()}>
+      <DialogContent dir="rtl" className="text-right">
+        <DialogHeader>
+          <DialogTitle className="text-right">{title}</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={submit} className="grid gap-3">
+          {fields.map((field) => (
+            <label key={field.name} className="flex flex-col gap-1 text-sm">
+              <span className="text-slate-600">{field.label}</span>
+              {field.type === "textarea" ? (
+                <textarea
+                  className={inputClass}
+                  value={values[field.name] ?? ""}
+                  disabled={field.disabled}
+                  onChange={(e) =>
+                    setValues((prev) => ({
+                      ...prev,
+                      [field.name]: e.target.value,
+                    }))
+                  }
+                />
+              ) : field.type === "select" ? (
+                <select
+                  className={inputClass}
+                  value={values[field.name] ?? ""}
+                  disabled={field.disabled}
+                  onChange={(e) =>
+                    setValues((prev) => ({
+                      ...prev,
+                      [field.name]: e.target.value,
+                    }))
+                  }
+                >
+                  {field.options?.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={field.type ?? "text"}
+                  className={inputClass}
+                  value={values[field.name] ?? ""}
+                  disabled={field.disabled}
+                  onChange={(e) =>
+                    setValues((prev) => ({
+                      ...prev,
+                      [field.name]: e.target.value,
+                    }))
+                  }
+                />
+              )}
+            </label>
+          ))}
+          {note && <div className="text-xs text-slate-500">{note}</div>}
+          <DialogFooter className="gap-2">
+            <button
+              className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+              disabled={saving}
+            >
+              {saving ? "جاري الحفظ..." : "حفظ"}
+            </button>
+            <button
+              type="button"
+              className="rounded-md border px-4 py-2"
+              onClick={onClose}
+            >
+              إلغاء
+            </button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function positive(value: string, message: string) {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) throw new Error(message);
+  return parsed;
+}
+
+export function TransactionEditDialog({
+  transaction,
+  categories,
+  moneyAccounts,
+  onClose,
+  onSaved,
+}: {
+  transaction: Transaction | null;
+  categories: TransactionCategory[];
+  moneyAccounts: MoneyAccount[];
+  onClose: () => void;
+  onSaved: (updated: Transaction) => void;
+}) {
+  const generated = transaction ? transaction.sourceType !== "manual" : false;
+  const approved = Boolean(transaction?.approved);
+  const categoryOptions = categories
+    .filter(
+      (c) =>
+        c.id === transaction?.categoryId ||
+        (c.active && (!c.type || c.type === transaction?.type)),
+    )
+    .map((c) => ({ value: c.id, label: c.name }));
+  const accountOptions = moneyAccounts
+    .filter((a) => a.active || a.id === transaction?.moneyAccountId)
+    .map((a) => ({ value: a.id, label: a.name }));
+  return (
+    <EditDialog
+      open={Boolean(transaction)}
+      title="تعديل المعاملة"
+      note={
+        approved
+          ? "المعاملة معتمدة؛ يمكن تغيير التصنيف فقط."
+          : generated
+            ? "هذه المعاملة مولدة من مستند مصدر؛ عدّل المبلغ والتاريخ من المستند نفسه."
+            : undefined
+      }
+      fields={[
+        {
+          name: "date",
+          label: "التاريخ",
+          type: "date",
+          disabled: generated || approved,
+        },
+        {
+          name: "type",
+          label: "النوع",
+          type: "select",
+          disabled: generated || approved,
+          options: [
+            { value: "revenue", label: "إيراد" },
+            { value: "expense", label: "مصروف" },
+          ],
+        },
+        { name: "description", label: "الوصف", disabled: approved },
+        {
+          name: "amount",
+          label: "المبلغ",
+          type: "number",
+          disabled: generated || approved,
+        },
+        {
+          name: "categoryId",
+          label: "التصنيف",
+          type: "select",
+          options: [{ value: "", label: "بدون تصنيف" }, ...categoryOptions],
+        },
+        {
+          name: "moneyAccountId",
+          label: "الخزينة / الحساب",
+          type: "select",
+          disabled: generated || approved,
+          options: [{ value: "", label: "الخزينة العامة" }, ...accountOptions],
+        },
+      ]}
+      initial={{
+        date: transaction?.date ?? "",
+        type: transaction?.type ?? "expense",
+        description: transaction?.description ?? "",
+        amount: String(transaction?.amount ?? ""),
+        categoryId: transaction?.categoryId ?? "",
+        moneyAccountId: transaction?.moneyAccountId ?? "",
+      }}
+      onSave={async (values) => {
+        if (!transaction) return;
+        const categoryId = values.categoryId || null;
+        const updated = await updateTransaction(
+          transaction.id,
+          approved
+            ? { categoryId }
+            : generated
+              ? { description: values.description, categoryId }
+              : {
+                  date: values.date,
+                  type: values.type === "revenue" ? "revenue" : "expense",
+                  description: values.description,
+                  amount: positive(values.amount, "قيمة غير صحيحة"),
+                  categoryId,
+                  moneyAccountId: values.moneyAccountId || null,
+                },
+        );
+        onSaved(updated);
+      }}
+      onClose={onClose}
+    />
+  );
+}
+
+export function InventoryItemEditDialog({
+  item,
+  onClose,
+  onSaved,
+}: {
+  item: InventoryItem | null;
+  onClose: () => void;
+  onSaved: (updated: InventoryItem) => void;
+}) {
+  return (
+    <EditDialog
+      open={Boolean(item)}
+      title="تعديل المادة"
+      note="الكميات تتغير فقط من خلال الاستلام والصرف."
+      fields={[
+        { name: "name", label: "اسم المادة" },
+        { name: "unit", label: "الوحدة" },
+        { name: "min", label: "الحد الأدنى", type: "number" },
+      ]}
+      initial={{
+        name: item?.name ?? "",
+        unit: item?.unit ?? "",
+        min: String(item?.min ?? ""),
+      }}
+      onSave={async (values) => {
+        if (!item) return;
+        const min = Number(values.min);
+        if (!Number.isFinite(min) || min < 0) {
+          throw new Error("قيمة غير صحيحة");
+        }
+        onSaved(
+          await updateInventoryItem(item.id, {
+            name: values.name,
+            unit: values.unit,
+            min,
+          }),
+        );
+      }}
+      onClose={onClose}
+    />
+  );
+}
+
+export function ProjectEditDialog({
+  project,
+  onClose,
+  onSaved,
+}: {
+  project: Project | null;
+  onClose: () => void;
+  onSaved: (updated: Project) => void;
+}) {
+  return (
+    <EditDialog
+      open={Boolean(project)}
+      title="تعديل المشروع"
+      fields={[
+        { name: "name", label: "اسم المشروع" },
+        { name: "location", label: "الموقع" },
+        { name: "floors", label: "عدد الأدوار", type: "number" },
+        { name: "units", label: "عدد الوحدات", type: "number" },
+      ]}
+      initial={{
+        name: project?.name ?? "",
+        location: project?.location ?? "",
+        floors: String(project?.floors ?? ""),
+        units: String(project?.units ?? ""),
+      }}
+      onSave={async (values) => {
+        if (!project) return;
+        onSaved(
+          await updateProject(project.id, {
+            name: values.name,
+            location: values.location,
+            floors: positive(values.floors, "قيمة غير صحيحة"),
+            units: positive(values.units, "قيمة غير صحيحة"),
+          }),
+        );
+      }}
+      onClose={onClose}
+    />
+  );
+}
+
+export function ProjectCostEditDialog({
+  cost,
+  onClose,
+  onSaved,
+}: {
+  cost: ProjectCost | null;
+  onClose: () => void;
+  onSaved: (result: ProjectCostUpdateResult) => void;
+}) {
+  return (
+    <EditDialog
+      open={Boolean(cost)}
+      title="تعديل التكلفة"
+      note="إذا كانت المعاملة المرتبطة معتمدة فيجب عكسها قبل تعديل المبلغ أو التاريخ."
+      fields={[
+        {
+          name: "type",
+          label: "النوع",
+          type: "select",
+          options: [
+            { value: "construction", label: "إنشاء" },
+            { value: "operation", label: "تشغيل" },
+            { value: "expense", label: "مصروفات" },
+            { value: "other", label: "أخرى" },
+          ],
+        },
+        { name: "customTypeLabel", label: "نوع التكلفة (عند اختيار أخرى)" },
+        { name: "amount", label: "المبلغ", type: "number" },
+        { name: "date", label: "التاريخ", type: "date" },
+        { name: "note", label: "ملاحظة", type: "textarea" },
+      ]}
+      initial={{
+        type: cost?.type ?? "construction",
+        customTypeLabel: cost?.customTypeLabel ?? "",
+        amount: String(cost?.amount ?? ""),
+        date: cost?.date ?? "",
+        note: cost?.note ?? "",
+      }}
+      onSave={async (values) => {
+        if (!cost) return;
+        const type = values.type as ProjectCost["type"];
+        if (type === "other" && !values.customTypeLabel.trim()) {
+          throw new Error("يرجى إدخال نوع التكلفة");
+        }
+        onSaved(
+          await updateProjectCost(cost.id, {
+            type,
+            customTypeLabel:
+              type === "other" ? values.customTypeLabel.trim() : null,
+            amount: positive(values.amount, "قيمة غير صحيحة"),
+            date: values.date,
+            note: values.note,
+          }),
+        );
+      }}
+      onClose={onClose}
+    />
+  );
+}
+
+export function ProjectSaleEditDialog({
+  sale,
+  hasInstallments,
+  customers,
+  units,
+  onClose,
+  onSaved,
+}: {
+  sale: ProjectSale | null;
+  hasInstallments: boolean;
+  customers: Customer[];
+  units: PropertyUnit[];
+  onClose: () => void;
+  onSaved: (result: ProjectSaleUpdateResult) => void;
+}) {
+  return (
+    <EditDialog
+      open={Boolean(sale)}
+      title="تعديل البيع"
+      note={
+        hasInstallments
+          ? "لا يمكن تعديل سعر بيع له خطة أقساط."
+          : "إذا كانت المعاملة المرتبطة معتمدة فيجب عكسها قبل تعديل السعر أو التاريخ."
+      }
+      fields={[
+        {
+          name: "unitId",
+          label: "الوحدة",
+          type: "select",
+          // The sale's own unit plus any unit it can move to.
+          options: [
+            ...(sale?.unitId ? [] : [{ value: "", label: sale?.unitNo ?? "" }]),
+            ...units
+              .filter((u) => u.id === sale?.unitId || u.status === "available")
+              .map((u) => ({ value: u.id, label: u.unitNo })),
+          ],
+        },
+        {
+          name: "customerId",
+          label: "العميل",
+          type: "select",
+          options: [
+            { value: "", label: "بدون ربط" },
+            ...customers.map((c) => ({ value: c.id, label: c.name })),
+          ],
+        },
+        { name: "buyer", label: "المشتري (عند عدم الربط بعميل)" },
+        {
+          name: "price",
+          label: "السعر",
+          type: "number",
+          disabled: hasInstallments,
+        },
+        { name: "date", label: "التاريخ", type: "date" },
+        { name: "area", label: "المساحة" },
+        { name: "paymentMethod", label: "طريقة الدفع" },
+        { name: "terms", label: "الشروط", type: "textarea" },
+      ]}
+      initial={{
+        unitId: sale?.unitId ?? "",
+        customerId: sale?.customerId ?? "",
+        buyer: sale?.buyer ?? "",
+        price: String(sale?.price ?? ""),
+        date: sale?.date ?? "",
+        area: sale?.area ?? "",
+        paymentMethod: sale?.paymentMethod ?? "",
+        terms: sale?.terms ?? "",
+      }}
+      onSave={async (values) => {
+        if (!sale) return;
+        onSaved(
+          await updateProjectSale(sale.id, {
+            unitId: values.unitId || undefined,
+            buyer: values.buyer,
+            customerId: values.customerId || null,
+            price: hasInstallments
+              ? undefined
+              : positive(values.price, "قيمة غير صحيحة"),
+            date: values.date,
+            area: values.area.trim() || null,
+            paymentMethod: values.paymentMethod.trim() || null,
+            terms: values.terms.trim() || null,
+          }),
+        );
+      }}
+      onClose={onClose}
+    />
+  );
+}
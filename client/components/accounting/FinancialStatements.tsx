@@ -0,0 +1,560 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  loadBalanceSheet,
+  loadIncomeStatement,
+  loadJournalEntries,
+  loadReceivablesAging,
+  loadTrialBalance,
+} from "@/services/accounting";
+import type {
+  AccountBalance,
+  AgingAmounts,
+  AgingBucket,
+  BalanceSheetReport,
+  IncomeStatementReport,
+  JournalEntry,
+  ReceivablesAgingReport,
+  TrialBalanceReport,
+} from "@shared/accounting";
+
+export type StatementKind =
+  "trial-balance" | "balance-sheet" | "income-statement" | "receivables-aging";
+
+export type FinancialStatement =
+  | { kind: "trial-balance"; report: TrialBalanceReport }
+  | { kind: "balance-sheet"; report: BalanceSheetReport }
+  | { kind: "income-statement"; report: IncomeStatementReport }
+  | { kind: "receivables-aging"; report: ReceivablesAgingReport };
+
+export const STATEMENT_KINDS: StatementKind[] = [
+  "trial-balance",
+  "balance-sheet",
+  "income-statement",
+  "receivables-aging",
+];
+
+const AGING_LABELS: Record<AgingBucket, string> = {
+  current: "غير مستحق",
+  "1-30": "1-30 يوم",
+  "31-60": "31-60 يوم",
+  "61-90": "61-90 يوم",
+  "90+": "أكثر من 90 يوم",
+};
+
+const AGING_BUCKETS = Object.keys(AGING_LABELS) as AgingBucket[];
+
+export function isStatementKind(value: string): value is StatementKind {
+  return (STATEMENT_KINDS as string[]).includes(value);
+}
+
+export async function fetchStatement(
+  kind: StatementKind,
+  from: string,
+  to: string,
+  categoryId?: string | null,
+): Promise<FinancialStatement> {
+  if (kind === "trial-balance") {
+    return { kind, report: await loadTrialBalance(to, categoryId) };
+  }
+  if (kind === "balance-sheet") {
+    return { kind, report: await loadBalanceSheet(to, categoryId) };
+  }
+  if (kind === "receivables-aging") {
+    return { kind, report: await loadReceivablesAging(to) };
+  }
+  return { kind, report: await loadIncomeStatement(from, to, categoryId) };
+}
+
+const money = (value: number) => value.toLocaleString() + " ج.م";
+
+const agingCells = (amounts: AgingAmounts) => [
+  ...AGING_BUCKETS.map((bucket) => money(amounts[bucket])),
+  money(amounts.total),
+];
+
+/** Flattens a statement into the title/headers/rows shape used by the exports. */
+export function statementTable(statement: FinancialStatement) {
+  if (statement.kind === "trial-balance") {
+    const { report } = statement;
+    return {
+      title: "ميزان المراجعة",
+      headers: ["الحساب", "مدين", "دائن"],
+      rows: [
+        ...report.rows.map((r) => [
+          `${r.code} - ${r.name}`,
+          money(r.debit),
+          money(r.credit),
+        ]),
+        ["الإجمالي", money(report.totalDebit), money(report.totalCredit)],
+      ],
+    };
+  }
+  if (statement.kind === "balance-sheet") {
+    const { report } = statement;
+    const section = (label: string, rows: AccountBalance[], total: number) => [
+      [label, ""],
+      ...rows.map((r) => [`${r.code} - ${r.name}`, money(r.balance)]),
+      [`إجمالي ${label}`, money(total)],
+    ];
+    return {
+      title: "الميزانية العمومية",
+      headers: ["البند", "الرصيد"],
+      rows: [
+        ...section("الأصول", report.assets, report.totalAssets),
+        ...section("الخصوم", report.liabilities, report.totalLiabilities),
+        ["حقوق الملكية", ""],
+        ...report.equity.map((r) => [
+          `${r.code} - ${r.name}`,
+          money(r.balance),
+        ]),
+        ["أرباح الفترة الجارية", money(report.currentEarnings)],
+        ["إجمالي حقوق الملكية", money(report.totalEquity)],
+      ],
+    };
+  }
+  if (statement.kind === "receivables-aging") {
+    const { report } = statement;
+    return {
+      title: "أعمار ديون الأقساط",
+      headers: [
+        "المشروع",
+        "الوحدة",
+        "المشتري",
+        "أقدم استحقاق",
+        ...AGING_BUCKETS.map((bucket) => AGING_LABELS[bucket]),
+        "الإجمالي",
+      ],
+      rows: [
+        ...report.projects.flatMap((project) => [
+          ...project.rows.map((r) => [
+            project.projectName,
+            r.unitNo,
+            r.buyer,
+            r.oldestDueDate,
+            ...agingCells(r),
+          ]),
+          [`إجمالي ${project.projectName}`, "", "", "", ...agingCells(project)],
+        ]),
+        ["الإجمالي العام", "", "", "", ...agingCells(report.totals)],
+      ],
+    };
+  }
+  const { report } = statement;
+  return {
+    title: "قائمة الدخل",
+    headers: ["البند", "القيمة"],
+    rows: [
+      ...report.revenue.map((r) => [`${r.code} - ${r.name}`, money(r.balance)]),
+      ["إجمالي الإيرادات", money(report.totalRevenue)],
+      ...report.expenses.map((r) => [
+        `${r.code} - ${r.name}`,
+        money(r.balance),
+      ]),
+      ["إجمالي المصروفات", money(report.totalExpenses)],
+      ["صافي الدخل", money(report.netIncome)],
+    ],
+  };
+}
+
+export default function FinancialStatementView({
+  statement,
+}: {
+  statement: FinancialStatement;
+}) {
+  const [drillAccount, setDrillAccount] = useState<AccountBalance | null>(null);
+
+  useEffect(() => {
+    setDrillAccount(null);
+  }, [statement]);
+
+  if (statement.kind === "receivables-aging") {
+    return <ReceivablesAgingTable report={statement.report} />;
+  }
+
+  const range =
+    statement.kind === "income-statement"
+      ? { from: statement.report.from, to: statement.report.to }
+      : { from: null, to: statement.report.asOf };
+
+  return (
+    <div className="space-y-3">
+      {statement.kind === "trial-balance" && (
+        <TrialBalanceTable
+          report={statement.report}
+          onSelect={setDrillAccount}
+        />
+      )}
+      {statement.kind === "balance-sheet" && (
+        <BalanceSheetTable
+          report={statement.report}
+          onSelect={setDrillAccount}
+        />
+      )}
+      {statement.kind === "income-statement" && (
+        <IncomeStatementTable
+          report={statement.report}
+          onSelect={setDrillAccount}
+        />
+      )}
+      {drillAccount && (
+        <AccountEntries
+          account={drillAccount}
+          from={range.from}
+          to={range.to}
+          onClose={() => setDrillAccount(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+function BalanceRow({
+  row,
+  value,
+  onSelect,
+}: {
+  row: AccountBalance;
+  value: number;
+  onSelect: (row: AccountBalance) => void;
+}) {
+  return (
+    <tr
+      className="border-t cursor-pointer hover:bg-slate-50"
+      onClick={() => onSelect(row)}
+    >
+      <td className="py-2">
+        <span className="text-slate-500 ml-2">{row.code}</span>
+        {row.name}
+      </td>
+      <td className="py-2">{money(value)}</td>
+    </tr>
+  );
+}
+
+function TotalRow({ label, value }: { label: string; value: number }) {
+  return (
+    <tr className="border-t font-semibold bg-slate-50">
+      <td className="py-2">{label}</td>
+      <td className="py-2">{money(value)}</td>
+    </tr>
+  );
+}
+
+function TrialBalanceTable({
+  report,
+  onSelect,
+}: {
+  report: TrialBalanceReport;
+  onSelect: (row: AccountBalance) => void;
+}) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-right text-sm">
+        <thead>
+          <tr className="text-slate-600">
+            <th className="py-2">الحساب</th>
+            <th className="py-2">مدين</th>
+            <th className="py-2">دائن</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.rows.map((row) => (
+            <tr
+              key={row.accountId}
+              className="border-t cursor-pointer hover:bg-slate-50"
+              onClick={() => onSelect(row)}
+            >
+              <td className="py-2">
+                <span className="text-slate-500 ml-2">{row.code}</span>
+                {row.name}
+              </td>
+              <td className="py-2">{money(row.debit)}</td>
+              <td className="py-2">{money(row.credit)}</td>
+            </tr>
+          ))}
+          <tr className="border-t font-semibold bg-slate-50">
+            <td className="py-2">الإجمالي</td>
+            <td className="py-2">{money(report.totalDebit)}</td>
+            <td className="py-2">{money(report.totalCredit)}</td>
+          </tr>
+        </tbody>
+      </table>
+      {!report.balanced && (
+        <div className="mt-2 text-sm text-rose-600">
+          ميزان المراجعة غير متوازن
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BalanceSheetTable({
+  report,
+  onSelect,
+}: {
+  report: BalanceSheetReport;
+  onSelect: (row: AccountBalance) => void;
+}) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <table className="w-full text-right text-sm">
+        <thead>
+          <tr className="text-slate-600">
+            <th className="py-2">الأصول</th>
+            <th className="py-2">الرصيد</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.assets.map((row) => (
+            <BalanceRow
+              key={row.accountId}
+              row={row}
+              value={row.balance}
+              onSelect={onSelect}
+            />
+          ))}
+          <TotalRow label="إجمالي الأصول" value={report.totalAssets} />
+        </tbody>
+      </table>
+      <table className="w-full text-right text-sm">
+        <thead>
+          <tr className="text-slate-600">
+            <th className="py-2">الخصوم وحقوق الملكية</th>
+            <th className="py-2">الرصيد</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.liabilities.map((row) => (
+            <BalanceRow
+              key={row.accountId}
+              row={row}
+              value={row.balance}
+              onSelect={onSelect}
+            />
+          ))}
+          <TotalRow label="إجمالي الخصوم" value={report.totalLiabilities} />
+          {report.equity.map((row) => (
+            <BalanceRow
+              key={row.accountId}
+              row={row}
+              value={row.balance}
+              onSelect={onSelect}
+            />
+          ))}
+          <tr className="border-t">
+            <td className="py-2">أرباح الفترة الجارية</td>
+            <td className="py-2">{money(report.currentEarnings)}</td>
+          </tr>
+          <TotalRow label="إجمالي حقوق الملكية" value={report.totalEquity} />
+        </tbody>
+      </table>
+      {!report.balanced && (
+        <div className="text-sm text-rose-600 md:col-span-2">
+          الميزانية غير متوازنة
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ReceivablesAgingTable({ report }: { report: ReceivablesAgingReport }) {
+  if (!report.projects.length) {
+    return (
+      <div className="py-6 text-center text-sm text-slate-500">
+        لا توجد أقساط متبقية.
+      </div>
+    );
+  }
+  const cells = (amounts: AgingAmounts) => (
+    <>
+      {AGING_BUCKETS.map((bucket) => (
+        <td
+          key={bucket}
+          className={`py-2 ${
+            bucket !== "current" && amounts[bucket] > 0 ? "text-rose-600" : ""
+          }`}
+        >
+          {amounts[bucket].toLocaleString()}
+        </td>
+      ))}
+      <td className="py-2 font-semibold">{amounts.total.toLocaleString()}</td>
+    </>
+  );
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-right text-sm">
+        <thead>
+          <tr className="text-slate-600">
+            <th className="py-2">الوحدة / المشتري</th>
+            <th className="py-2">أقدم استحقاق</th>
+            {AGING_BUCKETS.map((bucket) => (
+              <th key={bucket} className="py-2">
+                {AGING_LABELS[bucket]}
+              </th>
+            ))}
+            <th className="py-2">الإجمالي</th>
+          </tr>
+        </thead>
+        {report.projects.map((project) => (
+          <tbody key={project.projectId}>
+            <tr className="border-t bg-slate-50">
+              <td
+                className="py-2 font-semibold"
+                colSpan={AGING_BUCKETS.length + 3}
+              >
+                {project.projectName}
+              </td>
+            </tr>
+            {project.rows.map((row) => (
+              <tr key={row.saleId} className="border-t">
+                <td className="py-2">
+                  {row.unitNo} - {row.buyer}
+                </td>
+                <td className="py-2">{row.oldestDueDate}</td>
+                {cells(row)}
+              </tr>
+            ))}
+            <tr className="border-t font-semibold">
+              <td className="py-2" colSpan={2}>
+                إجمالي {project.projectName}
+              </td>
+              {cells(project)}
+            </tr>
+          </tbody>
+        ))}
+        <tbody>
+          <tr className="border-t-2 font-semibold bg-slate-50">
+            <td className="py-2" colSpan={2}>
+              الإجمالي العام
+            </td>
+            {cells(report.totals)}
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function IncomeStatementTable({
+  report,
+  onSelect,
+}: {
+  report: IncomeStatementReport;
+  onSelect: (row: AccountBalance) => void;
+}) {
+  return (
+    <table className="w-full text-right text-sm">
+      <tbody>
+        {report.revenue.map((row) => (
+          <BalanceRow
+            key={row.accountId}
+            row={row}
+            value={row.balance}
+            onSelect={onSelect}
+          />
+        ))}
+        <TotalRow label="إجمالي الإيرادات" value={report.totalRevenue} />
+        {report.expenses.map((row) => (
+          <BalanceRow
+            key={row.accountId}
+            row={row}
+            value={row.balance}
+            onSelect={onSelect}
+          />
+        ))}
+        <TotalRow label="إجمالي المصروفات" value={report.totalExpenses} />
+        <TotalRow label="صافي الدخل" value={report.netIncome} />
+      </tbody>
+    </table>
+  );
+}
+
+function AccountEntries({
+  account,
+  from,
+  to,
+  onClose,
+}: {
+  account: AccountBalance;
+  from: string | null;
+  to: string;
+  onClose: () => void;
+}) {
+  const [entries, setEntries] = useState<JournalEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEntries(null);
+    loadJournalEntries({
+      accountId: account.accountId,
+      from,
+      to,
+      postedOnly: true,
+    })
+      .then((list) => {
+        if (!cancelled) setEntries(list);
+      })
+      .catch((error) => {
+        console.error("Failed to load journal entries", error);
+        toast.error("تعذر تحميل القيود");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [account.accountId, from, to]);
+
+  return (
+    <div className="border rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="font-semibold">
+          قيود الحساب {account.code} - {account.name}
+        </div>
+        <button
+          onClick={onClose}
+          className="text-sm text-slate-500 hover:text-slate-700"
+        >
+          إغلاق
+        </button>
+      </div>
+      {entries === null ? (
+        <div className="py-4 text-center text-sm text-slate-500">
+          جاري التحميل...
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="py-4 text-center text-sm text-slate-500">
+          لا توجد قيود
+        </div>
+      ) : (
+        <table className="w-full text-right text-sm">
+          <thead>
+            <tr className="text-slate-600">
+              <th className="py-2">التاريخ</th>
+              <th className="py-2">البيان</th>
+              <th className="py-2">مدين</th>
+              <th className="py-2">دائن</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.flatMap((entry) =>
+              entry.lines
+                .filter((line) => line.accountId === account.accountId)
+                .map((line) => (
+                  <tr key={line.id} className="border-t">
+                    <td className="py-2">{entry.date}</td>
+                    <td className="py-2">{line.memo || entry.description}</td>
+                    <td className="py-2">
+                      {line.debit ? money(line.debit) : "-"}
+                    </td>
+                    <td className="py-2">
+                      {line.credit ? money(line.credit) : "-"}
+                    </td>
+                  </tr>
+                )),
+            )}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  closeFiscalPeriod,
+  createFiscalYear,
+  loadFiscalYears,
+  loadPeriodEvents,
+  reopenFiscalPeriod,
+} from "@/services/accounting";
+import type {
+  FiscalPeriod,
+  FiscalPeriodEvent,
+  FiscalYear,
+} from "@shared/accounting";
+
+const monthLabel = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("ar-EG", {
+    month: "long",
+    year: "numeric",
+  });
+
+export default function FiscalPeriods({ canManage }: { canManage: boolean }) {
+  const [years, setYears] = useState<FiscalYear[]>([]);
+  const [events, setEvents] = useState<FiscalPeriodEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [startMonth, setStartMonth] = useState(
+    () => `${new Date().getFullYear()}-01`,
+  );
+  const [reopening, setReopening] = useState<FiscalPeriod | null>(null);
+  const [reason, setReason] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [yearList, eventList] = await Promise.all([
+        loadFiscalYears(),
+        loadPeriodEvents(),
+      ]);
+      setYears(yearList);
+      setEvents(eventList);
+    } catch (error: any) {
+      toast.error(error?.message || "تعذر تحميل الفترات المالية");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const periodById = new Map(
+    years.flatMap((y) => y.periods).map((p) => [p.id, p]),
+  );
+
+  const onCreateYear = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startMonth) return;
+    try {
+      await createFiscalYear({ startDate: `${startMonth}-01` });
+      toast.success("تم إنشاء السنة المالية");
+      await load();
+    } catch (error: any) {
+      toast.error(error?.message || "تعذر إنشاء السنة المالية");
+    }
+  };
+
+  const onClose = async (period: FiscalPeriod) => {
+    if (!confirm(`إقفال فترة ${monthLabel(period.startDate)}؟`)) return;
+    try {
+      await closeFiscalPeriod(period.id);
+      toast.success("تم إقفال الفترة");
+      await load();
+    } catch (error: any) {
+      toast.error(error?.message || "تعذر إقفال الفترة");
+    }
+  };
+
+  const onReopen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reopening || !reason.trim()) return;
+    try {
+      await reopenFiscalPeriod(reopening.id, reason.trim());
+      toast.success("تم إعادة فتح الفترة");
+      setReopening(null);
+      setReason("");
+      await load();
+    } catch (error: any) {
+      toast.error(error?.message || "تعذر إعادة فتح الفترة");
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      {canManage && (
+        <form
+          onSubmit={onCreateYear}
+          className="bg-white border border-slate-200 rounded-xl p-4 shadow flex flex-wrap items-end gap-3"
+        >
+          <div className="flex flex-col">
+            <label className="text-sm text-slate-600 mb-1">
+              بداية السنة المالية
+            </label>
+            <input
+              type="month"
+              className="rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
+              value={startMonth}
+              onChange={(e) => setStartMonth(e.target.value)}
+            />
+          </div>
+          <button className="rounded-md bg-indigo-600 px-4 py-2 text-white">
+            إنشاء سنة مالية
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="py-6 text-center text-sm text-slate-500">
+          جاري التحميل...
+        </div>
+      ) : years.length === 0 ? (
+        <div className="bg-white border border-slate-200 rounded-xl p-6 shadow text-center text-sm text-slate-500">
+          لا توجد سنوات مالية. القيود مسموحة في أي تاريخ حتى يتم إنشاء سنة مالية
+          وإقفال فتراتها.
+        </div>
+      ) : (
+        years.map((year) => (
+          <div
+            key={year.id}
+            className="bg-white border border-slate-200 rounded-xl p-4 shadow"
+          >
+            <div className="font-semibold mb-3">
+              السنة المالية {year.name}
+              <span className="text-sm text-slate-500 mr-2">
+                ({year.startDate} - {year.endDate})
+              </span>
+            </div>
+            <div className="grid gap-2 sm:grid-cols-3 xl:grid-cols-4">
+              {year.periods.map((period) => (
+                <div
+                  key={period.id}
+                  className={`rounded-lg border p-3 ${
+                    period.status === "closed"
+                      ? "border-slate-300 bg-slate-50"
+                      : "border-emerald-200"
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      {monthLabel(period.startDate)}
+                    </span>
+                    <span
+                      className={`text-xs rounded-full px-2 py-0.5 ${
+                        period.status === "closed"
+                          ? "bg-slate-200 text-slate-700"
+                          : "bg-emerald-100 text-emerald-700"
+                      }`}
+                    >
+                      {period.status === "closed" ? "مقفلة" : "مفتوحة"}
+                    </span>
+                  </div>
+                  {canManage && (
+                    <div className="mt-2">
+                      {period.status === "open" ? (
+                        <button
+                          onClick={() => void onClose(period)}
+                          className="text-sm text-rose-600 hover:underline"
+                        >
+                          إقفال الفترة
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setReopening(period);
+                            setReason("");
+                          }}
+                          className="text-sm text-indigo-600 hover:underline"
+                        >
+                          إعادة فتح
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+
+      {reopening && (
+        <form
+          onSubmit={onReopen}
+          className="bg-white border border-indigo-200 rounded-xl p-4 shadow space-y-3"
+        >
+          <div className="font-semibold">
+            إعادة فتح فترة {monthLabel(reopening.startDate)}
+          </div>
+          <textarea
+            className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
+            placeholder="سبب إعادة الفتح (مطلوب)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            required
+          />
+          <div className="flex gap-2">
+            <button
+              className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+              disabled={!reason.trim()}
+            >
+              تأكيد
+            </button>
+            <button
+              type="button"
+              onClick={() => setReopening(null)}
+              className="rounded-md border px-4 py-2"
+            >
+              إلغاء
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow">
+        <div className="font-semibold mb-2">سجل الإقفال وإعادة الفتح</div>
+        {events.length === 0 ? (
+          <div className="py-4 text-center text-sm text-slate-500">
+            لا توجد أحداث
+          </div>
+        ) : (
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">التاريخ</th>
+                <th className="py-2">الفترة</th>
+                <th className="py-2">الإجراء</th>
+                <th className="py-2">السبب</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => {
+                const period = periodById.get(event.periodId);
+                return (
+                  <tr key={event.id} className="border-t">
+                    <td className="py-2">
+                      {event.createdAt
+                        ? new Date(event.createdAt).toLocaleString("ar-EG")
+                        : "-"}
+                    </td>
+                    <td className="py-2">
+                      {period ? monthLabel(period.startDate) : "-"}
+                    </td>
+                    <td className="py-2">
+                      {event.action === "close" ? "إقفال" : "إعادة فتح"}
+                    </td>
+                    <td className="py-2">{event.reason || "-"}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,343 @@
+import { useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { MoneyAccountSelect } from "@/components/accounting/MoneyAccounts";
+import { paySaleInstallments } from "@/services/accounting";
+import type {
+  Installment,
+  InstallmentPayment,
+  InstallmentPaymentResult,
+  MoneyAccount,
+  Project,
+  ProjectSale,
+} from "@shared/accounting";
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white";
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const remainingOf = (inst: Installment) =>
+  round(inst.amount - inst.paidAmount);
+
+/**
+ * Opens the receipt voucher (سند قبض) for a payment in a print window. The
+ * same voucher can be printed again later from the payments list.
+ */
+export function printReceiptVoucher(
+  payment: InstallmentPayment,
+  context: {
+    project: Project;
+    installments: Installment[];
+    moneyAccounts: MoneyAccount[];
+  },
+) {
+  const byId = new Map(context.installments.map((i) => [i.id, i]));
+  const first = byId.get(payment.allocations[0]?.installmentId ?? "");
+  const account = context.moneyAccounts.find(
+    (a) => a.id === payment.moneyAccountId,
+  );
+  const rows = payment.allocations
+    .map((a) => {
+      const inst = byId.get(a.installmentId);
+      return `<tr><td>${inst?.dueDate ?? "-"}</td><td>${inst ? inst.amount.toLocaleString() : "-"}</td><td>${a.amount.toLocaleString()}</td></tr>`;
+    })
+    .join("");
+  const html = `<!doctype html><html dir="rtl"><head><meta charset="utf-8"><title>سند قبض ${payment.receiptNo}</title>
+      <style>body{font-family:Arial,system-ui;padding:24px} h1{font-size:20px;margin-bottom:12px}
+      table{width:100%;border-collapse:collapse;margin-top:12px} th,td{border:1px solid #ddd;padding:8px} th{background:#f1f5f9}
+      .void{color:#e11d48;font-size:28px;font-weight:bold;margin:12px 0} .sign{display:flex;justify-content:space-between;margin-top:48px}</style>
+    </head><body>
+      <h1>سند قبض رقم ${payment.receiptNo}</h1>
+      ${payment.reversed ? `<div class="void">ملغى</div>` : ""}
+      <div>التاريخ: ${payment.date}</div>
+      <div>المشروع: <strong>${context.project.name}</strong> — الموقع: ${context.project.location}</div>
+      <div>استلمنا من: <strong>${first?.buyer ?? "-"}</strong> — الوحدة: ${first?.unitNo ?? "-"}</div>
+      <div>مبلغ وقدره: <strong>${payment.amount.toLocaleString()} ج.م</strong></div>
+      <div>طريقة السداد: ${account?.name ?? "نقدي"}</div>
+      <table><thead><tr><th>استحقاق القسط</th><th>قيمة القسط</th><th>المسدد بهذا السند</th></tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+      <div class="sign"><span>توقيع المستلم: ..................</span><span>توقيع المحاسب: ..................</span></div>
+      <script>window.print()</script>
+    </body></html>`;
+  const win = window.open("", "_blank");
+  if (!win) return;
+  win.document.write(html);
+  win.document.close();
+}
+
+/** Mirrors the server's oldest-first split so the clerk sees it up front. */
+function previewOldestFirst(open: Installment[], amount: number) {
+  let left = round(amount);
+  const shares: { inst: Installment; amount: number }[] = [];
+  for (const inst of open) {
+    if (left <= 0) break;
+    const share = Math.min(remainingOf(inst), left);
+    shares.push({ inst, amount: share });
+    left = round(left - share);
+  }
+  return { shares, excess: left };
+}
+
+/**
+ * Takes one payment from a buyer and spreads it over the sale's open
+ * installments, oldest first or as the clerk splits it.
+ */
+export function InstallmentPaymentForm({
+  sales,
+  installments,
+  moneyAccounts,
+  onPaid,
+}: {
+  sales: ProjectSale[];
+  installments: Installment[];
+  moneyAccounts: MoneyAccount[];
+  onPaid: (result: InstallmentPaymentResult) => void;
+}) {
+  const openBySale = useMemo(() => {
+    const map = new Map<string, Installment[]>();
+    for (const inst of [...installments].sort((a, b) =>
+      a.dueDate.localeCompare(b.dueDate),
+    )) {
+      if (inst.paid) continue;
+      map.set(inst.saleId, [...(map.get(inst.saleId) ?? []), inst]);
+    }
+    return map;
+  }, [installments]);
+  const payableSales = sales.filter((s) => openBySale.has(s.id));
+
+  const [saleId, setSaleId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(today);
+  const [moneyAccountId, setMoneyAccountId] = useState("");
+  const [manual, setManual] = useState(false);
+  const [shares, setShares] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  // Kept across retries of one submission so a resend is not paid twice.
+  const requestKey = useRef(crypto.randomUUID());
+
+  const open = openBySale.get(saleId) ?? [];
+  const manualTotal = round(
+    Object.values(shares).reduce((sum, v) => sum + Number(v || 0), 0),
+  );
+  const preview = previewOldestFirst(open, Number(amount || 0));
+
+  if (!payableSales.length) return null;
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const total = manual ? manualTotal : Number(amount);
+    if (!saleId || !(total > 0)) {
+      toast.error("اختر البيع وأدخل مبلغ الدفعة");
+      return;
+    }
+    try {
+      setSaving(true);
+      const result = await paySaleInstallments(saleId, {
+        amount: total,
+        date,
+        moneyAccountId: moneyAccountId || null,
+        allocations: manual
+          ? Object.entries(shares)
+              .filter(([, v]) => Number(v) > 0)
+              .map(([installmentId, v]) => ({
+                installmentId,
+                amount: Number(v),
+              }))
+          : null,
+        idempotencyKey: requestKey.current,
+      });
+      requestKey.current = crypto.randomUUID();
+      onPaid(result);
+      setAmount("");
+      setShares({});
+      toast.success(
+        `تم تسجيل الدفعة على ${result.payment.allocations.length} قسط`,
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تسجيل الدفعة";
+      toast.error("فشل تسجيل الدفعة", { description: message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="mb-4 rounded-lg border border-slate-200 bg-slate-50 p-3 space-y-3"
+    >
+      <div className="font-medium text-sm">تسجيل دفعة من مشترٍ</div>
+      <div className="grid gap-2 sm:grid-cols-2 xl:grid-cols-5">
+        <select
+          className={inputClass}
+          value={saleId}
+          onChange={(e) => {
+            setSaleId(e.target.value);
+            setShares({});
+          }}
+        >
+          <option value="">اختر الوحدة / المشتري</option>
+          {payableSales.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.unitNo} - {s.buyer}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          className={inputClass}
+          placeholder="المبلغ"
+          value={manual ? String(manualTotal || "") : amount}
+          readOnly={manual}
+          onChange={(e) => setAmount(e.target.value)}
+        />
+        <input
+          type="date"
+          className={inputClass}
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+        />
+        <MoneyAccountSelect
+          accounts={moneyAccounts}
+          value={moneyAccountId}
+          onChange={setMoneyAccountId}
+        />
+        <select
+          className={inputClass}
+          value={manual ? "manual" : "oldest"}
+          onChange={(e) => setManual(e.target.value === "manual")}
+        >
+          <option value="oldest">التوزيع على الأقدم استحقاقاً</option>
+          <option value="manual">توزيع يدوي</option>
+        </select>
+      </div>
+      {saleId && manual && (
+        <div className="grid gap-2 sm:grid-cols-2 xl:grid-cols-4">
+          {open.map((inst) => (
+            <label key={inst.id} className="text-xs text-slate-600">
+              {inst.dueDate} (متبقي {remainingOf(inst).toLocaleString()})
+              <input
+                type="number"
+                min="0"
+                max={remainingOf(inst)}
+                step="0.01"
+                className={inputClass}
+                value={shares[inst.id] ?? ""}
+                onChange={(e) =>
+                  setShares({ ...shares, [inst.id]: e.target.value })
+                }
+              />
+            </label>
+          ))}
+        </div>
+      )}
+      {saleId && !manual && Number(amount) > 0 && (
+        <div className="text-xs text-slate-600">
+          {preview.shares
+            .map(
+              (s) =>
+                `${s.inst.dueDate}: ${s.amount.toLocaleString()}${
+                  s.amount < remainingOf(s.inst) ? " (جزئي)" : ""
+                }`,
+            )
+            .join(" ، ")}
+          {preview.excess > 0 && (
+            <span className="text-rose-600">
+              {" "}
+              — المبلغ يزيد عن المستحق بـ {preview.excess.toLocaleString()}
+            </span>
+          )}
+        </div>
+      )}
+      <button
+        className="rounded-md bg-emerald-600 px-4 py-2 text-white disabled:opacity-50"
+        disabled={saving}
+      >
+        تسجيل الدفعة
+      </button>
+    </form>
+  );
+}
+
+/** Payments received on the project with how each was split. */
+export function InstallmentPaymentHistory({
+  project,
+  payments,
+  installments,
+  moneyAccounts,
+}: {
+  project: Project;
+  payments: InstallmentPayment[];
+  installments: Installment[];
+  moneyAccounts: MoneyAccount[];
+}) {
+  if (!payments.length) return null;
+  const dueDate = (id: string) =>
+    installments.find((i) => i.id === id)?.dueDate ?? "—";
+  const buyer = (payment: InstallmentPayment) => {
+    const inst = installments.find(
+      (i) => i.id === payment.allocations[0]?.installmentId,
+    );
+    return inst ? `${inst.unitNo} - ${inst.buyer}` : "—";
+  };
+  return (
+    <div className="mt-4 overflow-x-auto">
+      <div className="font-medium text-sm mb-2">الدفعات المستلمة</div>
+      <table className="w-full table-auto border-collapse text-sm text-right">
+        <thead>
+          <tr className="text-right bg-slate-50">
+            <th className="px-3 py-2">رقم السند</th>
+            <th className="px-3 py-2">التاريخ</th>
+            <th className="px-3 py-2">الوحدة / المشتري</th>
+            <th className="px-3 py-2">المبلغ</th>
+            <th className="px-3 py-2">التوزيع</th>
+            <th className="px-3 py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {payments.map((p) => (
+            <tr
+              key={p.id}
+              className={`border-t ${p.reversed ? "text-slate-400" : ""}`}
+            >
+              <td className="px-3 py-2">{p.receiptNo}</td>
+              <td className={`px-3 py-2 ${p.reversed ? "line-through" : ""}`}>
+                {p.date}
+              </td>
+              <td className="px-3 py-2">{buyer(p)}</td>
+              <td className="px-3 py-2">{p.amount.toLocaleString()}</td>
+              <td className="px-3 py-2 text-xs">
+                {p.allocations
+                  .map(
+                    (a) =>
+                      `${dueDate(a.installmentId)}: ${a.amount.toLocaleString()}`,
+                  )
+                  .join(" ، ")}
+              </td>
+              <td className="px-3 py-2">
+                <button
+                  className="text-indigo-600 hover:underline"
+                  onClick={() =>
+                    printReceiptVoucher(p, {
+                      project,
+                      installments,
+                      moneyAccounts,
+                    })
+                  }
+                >
+                  سند قبض
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { previewInstallmentPlan } from "@/services/accounting";
+import type {
+  InstallmentFrequency,
+  InstallmentPlan,
+  InstallmentPlanPreview,
+} from "@shared/accounting";
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2";
+
+const FREQUENCY_LABELS: Record<InstallmentFrequency, string> = {
+  monthly: "شهري",
+  quarterly: "ربع سنوي",
+  semiannual: "نصف سنوي",
+  annual: "سنوي",
+};
+
+export interface InstallmentPlanForm {
+  downPayment: string;
+  frequency: InstallmentFrequency;
+  count: string;
+  firstDueDate: string;
+  graceMonths: string;
+  installmentAmount: string;
+  fixedPayments: { dueDate: string; amount: string }[];
+}
+
+export const emptyPlanForm = (): InstallmentPlanForm => ({
+  downPayment: "",
+  frequency: "monthly",
+  count: "",
+  firstDueDate: "",
+  graceMonths: "",
+  installmentAmount: "",
+  fixedPayments: [],
+});
+
+const optionalNumber = (value: string) => (value ? Number(value) : null);
+
+export function toInstallmentPlan(form: InstallmentPlanForm): InstallmentPlan {
+  return {
+    downPayment: optionalNumber(form.downPayment),
+    frequency: form.frequency,
+    count: optionalNumber(form.count),
+    firstDueDate: form.firstDueDate || null,
+    graceMonths: optionalNumber(form.graceMonths),
+    installmentAmount: optionalNumber(form.installmentAmount),
+    fixedPayments: form.fixedPayments
+      .filter((p) => p.dueDate && p.amount)
+      .map((p) => ({ dueDate: p.dueDate, amount: Number(p.amount) })),
+  };
+}
+
+/**
+ * Builds a sale's payment plan: down payment, regular installments at a
+ * chosen frequency and fixed-date payments such as the one due on delivery.
+ * The schedule is previewed on the server before the sale is saved.
+ */
+export default function InstallmentPlanEditor({
+  price,
+  date,
+  value,
+  onChange,
+  allowDownPayment = true,
+}: {
+  price: number;
+  date: string;
+  value: InstallmentPlanForm;
+  onChange: (value: InstallmentPlanForm) => void;
+  allowDownPayment?: boolean;
+}) {
+  const [preview, setPreview] = useState<InstallmentPlanPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const update = (patch: Partial<InstallmentPlanForm>) => {
+    setPreview(null);
+    onChange({ ...value, ...patch });
+  };
+
+  const updateFixed = (
+    index: number,
+    patch: Partial<InstallmentPlanForm["fixedPayments"][number]>,
+  ) =>
+    update({
+      fixedPayments: value.fixedPayments.map((p, i) =>
+        i === index ? { ...p, ...patch } : p,
+      ),
+    });
+
+  const runPreview = async () => {
+    if (!(price > 0)) {
+      toast.error("أدخل سعر الوحدة أولاً");
+      return;
+    }
+    try {
+      setLoading(true);
+      setPreview(
+        await previewInstallmentPlan({
+          price,
+          date,
+          plan: toInstallmentPlan(value),
+        }),
+      );
+    } catch (error) {
+      setPreview(null);
+      toast.error("خطة السداد غير صحيحة", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-3 rounded-lg border border-slate-200 p-3">
+      <div className="grid gap-3 md:grid-cols-2">
+        {allowDownPayment && (
+          <input
+            className={inputClass}
+            placeholder="المقدم (اختياري)"
+            value={value.downPayment}
+            onChange={(e) => update({ downPayment: e.target.value })}
+          />
+        )}
+        <select
+          className={inputClass}
+          value={value.frequency}
+          onChange={(e) =>
+            update({ frequency: e.target.value as InstallmentFrequency })
+          }
+        >
+          {Object.entries(FREQUENCY_LABELS).map(([key, label]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          className={inputClass}
+          placeholder="عدد الأقساط"
+          value={value.count}
+          onChange={(e) => update({ count: e.target.value })}
+        />
+        <input
+          className={inputClass}
+          placeholder="قيمة القسط (تلقائي إن تُرك فارغاً)"
+          value={value.installmentAmount}
+          onChange={(e) => update({ installmentAmount: e.target.value })}
+        />
+        <label className="text-xs text-slate-500">
+          أول استحقاق (افتراضياً بعد فترة من تاريخ البيع)
+          <input
+            type="date"
+            className={inputClass}
+            value={value.firstDueDate}
+            onChange={(e) => update({ firstDueDate: e.target.value })}
+          />
+        </label>
+        <label className="text-xs text-slate-500">
+          فترة سماح (بالأشهر)
+          <input
+            className={inputClass}
+            value={value.graceMonths}
+            onChange={(e) => update({ graceMonths: e.target.value })}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium">
+          دفعات بتاريخ محدد (دفعة الاستلام أو جدول مخصص)
+        </div>
+        {value.fixedPayments.map((p, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="date"
+              className={inputClass}
+              value={p.dueDate}
+              onChange={(e) => updateFixed(index, { dueDate: e.target.value })}
+            />
+            <input
+              className={inputClass}
+              placeholder="المبلغ"
+              value={p.amount}
+              onChange={(e) => updateFixed(index, { amount: e.target.value })}
+            />
+            <button
+              type="button"
+              className="rounded-md border px-3 py-1 text-rose-600"
+              onClick={() =>
+                update({
+                  fixedPayments: value.fixedPayments.filter(
+                    (_, i) => i !== index,
+                  ),
+                })
+              }
+            >
+              حذف
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          className="rounded-md border px-3 py-1 text-sm"
+          onClick={() =>
+            update({
+              fixedPayments: [
+                ...value.fixedPayments,
+                { dueDate: "", amount: "" },
+              ],
+            })
+          }
+        >
+          إضافة دفعة
+        </button>
+      </div>
+
+      <button
+        type="button"
+        className="rounded-md border border-indigo-300 px-3 py-2 text-indigo-700 disabled:opacity-50"
+        disabled={loading}
+        onClick={() => void runPreview()}
+      >
+        معاينة جدول الأقساط
+      </button>
+      {preview && (
+        <div className="overflow-x-auto text-sm">
+          <table className="w-full text-right">
+            <thead>
+              <tr className="bg-slate-50">
+                <th className="px-3 py-1">الاستحقاق</th>
+                <th className="px-3 py-1">المبلغ</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.entries.map((e, index) => (
+                <tr key={index} className="border-t">
+                  <td className="px-3 py-1">{e.dueDate}</td>
+                  <td className="px-3 py-1">{e.amount.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-2 text-xs text-slate-600">
+            المقدم {preview.downPayment.toLocaleString()} + الأقساط{" "}
+            {preview.scheduledTotal.toLocaleString()} ={" "}
+            {(preview.downPayment + preview.scheduledTotal).toLocaleString()}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
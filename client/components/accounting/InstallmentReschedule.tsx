@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import InstallmentPlanEditor, {
+  emptyPlanForm,
+  toInstallmentPlan,
+} from "@/components/accounting/InstallmentPlanEditor";
+import { remainingOf } from "@/components/accounting/InstallmentPayments";
+import { rescheduleSale } from "@/services/accounting";
+import type {
+  Installment,
+  InstallmentReschedule,
+  InstallmentRescheduleResult,
+  ProjectSale,
+} from "@shared/accounting";
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white";
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+/** What is still owed on a sale's plan installments. */
+export const outstandingOf = (installments: Installment[]) =>
+  Math.round(
+    installments
+      .filter((i) => i.kind === "plan")
+      .reduce((sum, i) => sum + remainingOf(i), 0) * 100,
+  ) / 100;
+
+/**
+ * Spreads what a buyer still owes over a new schedule. The old installments
+ * are kept in the reschedule history.
+ */
+export function RescheduleForm({
+  sale,
+  installments,
+  onRescheduled,
+  onCancel,
+}: {
+  sale: ProjectSale;
+  installments: Installment[];
+  onRescheduled: (result: InstallmentRescheduleResult) => void;
+  onCancel: () => void;
+}) {
+  const outstanding = outstandingOf(installments);
+  const [plan, setPlan] = useState(emptyPlanForm);
+  const [date, setDate] = useState(today);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      toast.error("يرجى إدخال سبب إعادة الجدولة");
+      return;
+    }
+    try {
+      setSaving(true);
+      const result = await rescheduleSale(sale.id, {
+        plan: { ...toInstallmentPlan(plan), downPayment: null },
+        reason: reason.trim(),
+        date,
+      });
+      onRescheduled(result);
+      toast.success("تمت إعادة جدولة الأقساط");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذرت إعادة الجدولة";
+      toast.error("فشلت إعادة الجدولة", { description: message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <div className="text-sm font-medium">
+        إعادة جدولة {sale.unitNo} - {sale.buyer}: المتبقي{" "}
+        {outstanding.toLocaleString()} ج.م
+      </div>
+      <div className="grid gap-2 sm:grid-cols-2">
+        <input
+          className={inputClass}
+          placeholder="سبب إعادة الجدولة"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <input
+          type="date"
+          className={inputClass}
+          aria-label="تاريخ إعادة الجدولة"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+        />
+      </div>
+      <InstallmentPlanEditor
+        price={outstanding}
+        date={date}
+        value={plan}
+        onChange={setPlan}
+        allowDownPayment={false}
+      />
+      <div className="flex gap-2">
+        <button
+          className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+          disabled={saving}
+        >
+          تأكيد
+        </button>
+        <button
+          type="button"
+          className="rounded-md border px-4 py-2 bg-white"
+          onClick={onCancel}
+        >
+          إلغاء
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/** Past schedule changes with the installments each one replaced. */
+export function RescheduleHistory({
+  reschedules,
+}: {
+  reschedules: InstallmentReschedule[];
+}) {
+  if (!reschedules.length) return null;
+  const schedule = (list: Installment[]) =>
+    list
+      .map((i) => `${i.dueDate}: ${(i.amount - i.paidAmount).toLocaleString()}`)
+      .join(" ، ");
+  return (
+    <div className="mt-4 overflow-x-auto">
+      <div className="font-medium text-sm mb-2">سجل إعادة الجدولة</div>
+      <table className="w-full table-auto border-collapse text-sm text-right">
+        <thead>
+          <tr className="text-right bg-slate-50">
+            <th className="px-3 py-2">التاريخ</th>
+            <th className="px-3 py-2">الوحدة / المشتري</th>
+            <th className="px-3 py-2">السبب</th>
+            <th className="px-3 py-2">الجدول السابق (المتبقي)</th>
+            <th className="px-3 py-2">الجدول الجديد</th>
+          </tr>
+        </thead>
+        <tbody>
+          {reschedules.map((r) => (
+            <tr key={r.id} className="border-t align-top">
+              <td className="px-3 py-2">{r.date}</td>
+              <td className="px-3 py-2">
+                {r.previous[0]
+                  ? `${r.previous[0].unitNo} - ${r.previous[0].buyer}`
+                  : "—"}
+              </td>
+              <td className="px-3 py-2">{r.reason}</td>
+              <td className="px-3 py-2 text-xs">{schedule(r.previous)}</td>
+              <td className="px-3 py-2 text-xs">{schedule(r.replacement)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
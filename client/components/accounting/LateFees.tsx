@@ -0,0 +1,304 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  accrueLateFees,
+  loadLateFeePolicy,
+  loadLateFees,
+  saveLateFeePolicy,
+  waiveLateFee,
+} from "@/services/accounting";
+import type { LateFee, LateFeeMode, LateFeeStatus } from "@shared/accounting";
+
+const STATUS_LABELS: Record<LateFeeStatus, string> = {
+  charged: "مستحقة",
+  waived: "معفاة",
+};
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white";
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+/**
+ * Late fee settings and the fees charged under them: how overdue
+ * installments are penalised, a manual accrual run and fee waivers.
+ */
+export default function LateFees({ onPosted }: { onPosted: () => void }) {
+  const [policy, setPolicy] = useState({
+    enabled: false,
+    mode: "flat" as LateFeeMode,
+    amount: "",
+    graceDays: "0",
+  });
+  const [statusFilter, setStatusFilter] = useState<LateFeeStatus | "">(
+    "charged",
+  );
+  const [fees, setFees] = useState<LateFee[]>([]);
+  const [asOf, setAsOf] = useState(today);
+  const [waiving, setWaiving] = useState<LateFee | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setFees(await loadLateFees({ status: statusFilter || null }));
+    } catch (error) {
+      toast.error("تعذر تحميل الغرامات", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    loadLateFeePolicy()
+      .then((p) =>
+        setPolicy({
+          enabled: p.enabled,
+          mode: p.mode,
+          amount: p.amount ? String(p.amount) : "",
+          graceDays: String(p.graceDays),
+        }),
+      )
+      .catch(() => undefined);
+  }, []);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setSaving(true);
+      await action();
+    } catch (error) {
+      toast.error(failure, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const savePolicy = (e: React.FormEvent) => {
+    e.preventDefault();
+    void run(async () => {
+      await saveLateFeePolicy({
+        enabled: policy.enabled,
+        mode: policy.mode,
+        amount: Number(policy.amount || 0),
+        graceDays: Number(policy.graceDays || 0),
+      });
+      toast.success("تم حفظ سياسة الغرامات");
+    }, "تعذر حفظ السياسة");
+  };
+
+  const accrue = () =>
+    void run(async () => {
+      const result = await accrueLateFees(asOf);
+      toast.success(`تم احتساب ${result.charged.length} غرامة`, {
+        description: result.failures.length
+          ? `تعذر احتساب ${result.failures.length}`
+          : undefined,
+      });
+      onPosted();
+      await load();
+    }, "تعذر احتساب الغرامات");
+
+  const waive = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!waiving) return;
+    if (!reason.trim()) {
+      toast.error("يرجى إدخال سبب الإعفاء");
+      return;
+    }
+    void run(async () => {
+      await waiveLateFee(waiving.id, { reason: reason.trim() });
+      toast.success("تم الإعفاء من الغرامة");
+      setWaiving(null);
+      setReason("");
+      onPosted();
+      await load();
+    }, "تعذر الإعفاء");
+  };
+
+  return (
+    <section className="space-y-6">
+      <form
+        onSubmit={savePolicy}
+        className="bg-white border border-slate-200 rounded-xl p-4 shadow space-y-3"
+      >
+        <h3 className="font-semibold">غرامات التأخير</h3>
+        <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4 items-end">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={policy.enabled}
+              onChange={(e) =>
+                setPolicy({ ...policy, enabled: e.target.checked })
+              }
+            />
+            تفعيل الغرامات
+          </label>
+          <select
+            className={inputClass}
+            value={policy.mode}
+            onChange={(e) =>
+              setPolicy({ ...policy, mode: e.target.value as LateFeeMode })
+            }
+          >
+            <option value="flat">مبلغ ثابت عن كل شهر تأخير</option>
+            <option value="percent">نسبة من المتبقي عن كل شهر تأخير</option>
+          </select>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            className={inputClass}
+            placeholder={policy.mode === "percent" ? "النسبة %" : "المبلغ"}
+            value={policy.amount}
+            onChange={(e) => setPolicy({ ...policy, amount: e.target.value })}
+          />
+          <label className="text-xs text-slate-500">
+            فترة السماح (بالأيام)
+            <input
+              type="number"
+              min="0"
+              className={inputClass}
+              value={policy.graceDays}
+              onChange={(e) =>
+                setPolicy({ ...policy, graceDays: e.target.value })
+              }
+            />
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-2 items-center">
+          <button
+            className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+            disabled={saving}
+          >
+            حفظ
+          </button>
+          <input
+            type="date"
+            className="rounded-md border-2 border-slate-200 px-3 py-2"
+            aria-label="احتساب حتى"
+            value={asOf}
+            onChange={(e) => setAsOf(e.target.value)}
+          />
+          <button
+            type="button"
+            className="rounded-md border border-indigo-300 px-4 py-2 text-indigo-700 disabled:opacity-50"
+            disabled={saving || !policy.enabled}
+            onClick={accrue}
+          >
+            احتساب الغرامات المستحقة
+          </button>
+        </div>
+      </form>
+
+      {waiving && (
+        <form
+          onSubmit={waive}
+          className="bg-indigo-50 border border-indigo-200 rounded-xl p-4 shadow space-y-3"
+        >
+          <h3 className="font-semibold">
+            إعفاء {waiving.buyer} - {waiving.unitNo} من غرامة{" "}
+            {waiving.amount.toLocaleString()} ج.م
+          </h3>
+          <input
+            className={inputClass}
+            placeholder="سبب الإعفاء"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <button
+              className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+              disabled={saving}
+            >
+              تأكيد
+            </button>
+            <button
+              type="button"
+              className="rounded-md border px-4 py-2 bg-white"
+              onClick={() => setWaiving(null)}
+            >
+              إلغاء
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-semibold">الغرامات المحتسبة</h3>
+          <select
+            className="rounded-md border-2 border-slate-200 px-3 py-1 bg-white"
+            value={statusFilter}
+            onChange={(e) =>
+              setStatusFilter(e.target.value as LateFeeStatus | "")
+            }
+          >
+            <option value="">الكل</option>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {fees.length === 0 ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            لا توجد غرامات.
+          </div>
+        ) : (
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">المشتري / الوحدة</th>
+                <th className="py-2">شهر التأخير</th>
+                <th className="py-2">من</th>
+                <th className="py-2">المبلغ</th>
+                <th className="py-2">الحالة</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {fees.map((f) => (
+                <tr key={f.id} className="border-t align-top">
+                  <td className="py-2">
+                    {f.buyer} - {f.unitNo}
+                  </td>
+                  <td className="py-2">{f.period}</td>
+                  <td className="py-2">{f.periodStart}</td>
+                  <td className="py-2">{f.amount.toLocaleString()}</td>
+                  <td className="py-2">
+                    {STATUS_LABELS[f.status]}
+                    {f.waiveReason && (
+                      <div className="text-xs text-slate-500 mt-1">
+                        {f.waiveReason}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    {f.status === "charged" && (
+                      <button
+                        className="text-rose-600 hover:underline"
+                        onClick={() => {
+                          setWaiving(f);
+                          setReason("");
+                        }}
+                      >
+                        إعفاء
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
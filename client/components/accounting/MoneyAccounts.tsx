@@ -0,0 +1,561 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  createMoneyAccount,
+  createMoneyTransfer,
+  fetchMoneyAccountStatement,
+  loadMoneyTransfers,
+  updateMoneyAccount,
+} from "@/services/accounting";
+import type {
+  MoneyAccount,
+  MoneyAccountKind,
+  MoneyAccountStatement,
+  MoneyTransfer,
+} from "@shared/accounting";
+
+const KIND_LABELS: Record<MoneyAccountKind, string> = {
+  cash: "خزينة",
+  bank: "بنك",
+};
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white";
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+const money = (value: number) => `${value.toLocaleString()} ج.م`;
+
+const emptyAccount = () => ({
+  name: "",
+  kind: "cash" as MoneyAccountKind,
+  bankName: "",
+  accountNumber: "",
+  openingBalance: "",
+  openingDate: today(),
+});
+
+const emptyTransfer = () => ({
+  fromAccountId: "",
+  toAccountId: "",
+  amount: "",
+  date: today(),
+  note: "",
+});
+
+/** Picks the cash box or bank account a payment goes through. */
+export function MoneyAccountSelect({
+  accounts,
+  value,
+  onChange,
+  className = inputClass,
+}: {
+  accounts: MoneyAccount[];
+  value: string;
+  onChange: (id: string) => void;
+  className?: string;
+}) {
+  return (
+    <select
+      className={className}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      <option value="">الخزينة العامة</option>
+      {accounts
+        .filter((a) => a.active || a.id === value)
+        .map((a) => (
+          <option key={a.id} value={a.id}>
+            {a.name}
+          </option>
+        ))}
+    </select>
+  );
+}
+
+/** Account balances for the dashboard. */
+export function MoneyAccountBalances({
+  accounts,
+}: {
+  accounts: MoneyAccount[];
+}) {
+  const active = accounts.filter((a) => a.active);
+  if (!active.length) return null;
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 shadow-md">
+      <h3 className="font-semibold mb-3">أرصدة الخزائن والبنوك</h3>
+      <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+        {active.map((a) => (
+          <div key={a.id} className="rounded-lg border border-slate-200 p-3">
+            <div className="text-xs text-slate-500">
+              {KIND_LABELS[a.kind]}
+              {a.bankName ? ` - ${a.bankName}` : ""}
+            </div>
+            <div className="font-semibold">{a.name}</div>
+            <div
+              className={`mt-1 text-lg font-bold ${a.balance < 0 ? "text-rose-600" : "text-slate-800"}`}
+            >
+              {money(a.balance)}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Cash boxes and bank accounts: opening balances, transfers between them and
+ * a running-balance statement per account.
+ */
+export default function MoneyAccounts({
+  accounts,
+  canManage,
+  canTransfer,
+  onChange,
+}: {
+  accounts: MoneyAccount[];
+  canManage: boolean;
+  canTransfer: boolean;
+  onChange: () => Promise<void>;
+}) {
+  const [form, setForm] = useState(emptyAccount);
+  const [transfer, setTransfer] = useState(emptyTransfer);
+  const [transfers, setTransfers] = useState<MoneyTransfer[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [statement, setStatement] = useState<MoneyAccountStatement | null>(
+    null,
+  );
+  const [range, setRange] = useState({ from: "", to: "" });
+
+  const accountName = (id: string) =>
+    accounts.find((a) => a.id === id)?.name ?? "—";
+
+  useEffect(() => {
+    loadMoneyTransfers()
+      .then(setTransfers)
+      .catch((error) => {
+        toast.error("تعذر تحميل التحويلات", {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      });
+  }, []);
+
+  const addAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      toast.error("يرجى إدخال اسم الحساب");
+      return;
+    }
+    const openingBalance = Number(form.openingBalance || 0);
+    if (!Number.isFinite(openingBalance)) {
+      toast.error("الرصيد الافتتاحي غير صحيح");
+      return;
+    }
+    try {
+      setSaving(true);
+      await createMoneyAccount({
+        name: form.name,
+        kind: form.kind,
+        bankName: form.bankName || null,
+        accountNumber: form.accountNumber || null,
+        openingBalance,
+        openingDate: form.openingDate,
+      });
+      setForm(emptyAccount());
+      await onChange();
+      toast.success("تمت إضافة الحساب");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر إضافة الحساب";
+      toast.error("فشل الحفظ", { description: message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (account: MoneyAccount) => {
+    try {
+      await updateMoneyAccount(account.id, { active: !account.active });
+      await onChange();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تحديث الحساب";
+      toast.error("فشل التحديث", { description: message });
+    }
+  };
+
+  const addTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = Number(transfer.amount);
+    if (
+      !transfer.fromAccountId ||
+      !transfer.toAccountId ||
+      !Number.isFinite(amount) ||
+      amount <= 0
+    ) {
+      toast.error("يرجى اختيار الحسابين وإدخال المبلغ");
+      return;
+    }
+    try {
+      setSaving(true);
+      const created = await createMoneyTransfer({
+        fromAccountId: transfer.fromAccountId,
+        toAccountId: transfer.toAccountId,
+        amount,
+        date: transfer.date,
+        note: transfer.note || null,
+      });
+      setTransfers((prev) => [created, ...prev]);
+      setTransfer(emptyTransfer());
+      await onChange();
+      toast.success("تم تسجيل التحويل");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تسجيل التحويل";
+      toast.error("فشل التحويل", { description: message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openStatement = async (id: string) => {
+    try {
+      setStatement(
+        await fetchMoneyAccountStatement(id, {
+          from: range.from || null,
+          to: range.to || null,
+        }),
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تحميل كشف الحساب";
+      toast.error("فشل التحميل", { description: message });
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      {canManage && (
+        <form
+          onSubmit={addAccount}
+          className="bg-white border border-slate-200 rounded-xl p-4 shadow space-y-3"
+        >
+          <h3 className="font-semibold">إضافة خزينة أو حساب بنكي</h3>
+          <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+            <input
+              className={inputClass}
+              placeholder="اسم الحساب"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <select
+              className={inputClass}
+              value={form.kind}
+              onChange={(e) =>
+                setForm({ ...form, kind: e.target.value as MoneyAccountKind })
+              }
+            >
+              <option value="cash">خزينة</option>
+              <option value="bank">حساب بنكي</option>
+            </select>
+            {form.kind === "bank" && (
+              <>
+                <input
+                  className={inputClass}
+                  placeholder="اسم البنك"
+                  value={form.bankName}
+                  onChange={(e) =>
+                    setForm({ ...form, bankName: e.target.value })
+                  }
+                />
+                <input
+                  className={inputClass}
+                  placeholder="رقم الحساب"
+                  value={form.accountNumber}
+                  onChange={(e) =>
+                    setForm({ ...form, accountNumber: e.target.value })
+                  }
+                />
+              </>
+            )}
+            <input
+              className={inputClass}
+              placeholder="الرصيد الافتتاحي"
+              value={form.openingBalance}
+              onChange={(e) =>
+                setForm({ ...form, openingBalance: e.target.value })
+              }
+            />
+            <div className="flex flex-col">
+              <label className="text-sm text-slate-600 mb-1">
+                تاريخ الرصيد الافتتاحي
+              </label>
+              <input
+                type="date"
+                className={inputClass}
+                value={form.openingDate}
+                onChange={(e) =>
+                  setForm({ ...form, openingDate: e.target.value })
+                }
+              />
+            </div>
+          </div>
+          <button
+            className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+            disabled={saving}
+          >
+            {saving ? "جاري الحفظ..." : "إضافة"}
+          </button>
+        </form>
+      )}
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+        <h3 className="font-semibold">الخزائن والحسابات البنكية</h3>
+        {accounts.length === 0 ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            لا توجد حسابات بعد.
+          </div>
+        ) : (
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">الحساب</th>
+                <th className="py-2">النوع</th>
+                <th className="py-2">البنك / رقم الحساب</th>
+                <th className="py-2">الرصيد الافتتاحي</th>
+                <th className="py-2">الرصيد الحالي</th>
+                <th className="py-2">الحالة</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {accounts.map((account) => (
+                <tr key={account.id} className="border-t">
+                  <td className="py-2">{account.name}</td>
+                  <td className="py-2">{KIND_LABELS[account.kind]}</td>
+                  <td className="py-2">
+                    {[account.bankName, account.accountNumber]
+                      .filter(Boolean)
+                      .join(" / ") || "—"}
+                  </td>
+                  <td className="py-2">{money(account.openingBalance)}</td>
+                  <td className="py-2 font-semibold">
+                    {money(account.balance)}
+                  </td>
+                  <td className="py-2">
+                    {account.active ? (
+                      <span className="px-2 py-1 rounded-full text-xs bg-emerald-100 text-emerald-700">
+                        نشط
+                      </span>
+                    ) : (
+                      <span className="px-2 py-1 rounded-full text-xs bg-slate-200 text-slate-700">
+                        موقوف
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 space-x-2 space-x-reverse whitespace-nowrap">
+                    <button
+                      className="text-indigo-600 hover:underline"
+                      onClick={() => void openStatement(account.id)}
+                    >
+                      كشف الحساب
+                    </button>
+                    {canManage && (
+                      <button
+                        className={
+                          account.active
+                            ? "text-amber-600 hover:underline"
+                            : "text-emerald-600 hover:underline"
+                        }
+                        onClick={() => void toggleActive(account)}
+                      >
+                        {account.active ? "إيقاف" : "تفعيل"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {canTransfer && (
+        <form
+          onSubmit={addTransfer}
+          className="bg-white border border-slate-200 rounded-xl p-4 shadow space-y-3"
+        >
+          <h3 className="font-semibold">تحويل بين الحسابات</h3>
+          <p className="text-xs text-slate-500">
+            التحويلات لا تُسجل كإيراد أو مصروف.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+            <select
+              className={inputClass}
+              value={transfer.fromAccountId}
+              onChange={(e) =>
+                setTransfer({ ...transfer, fromAccountId: e.target.value })
+              }
+            >
+              <option value="">من حساب</option>
+              {accounts
+                .filter((a) => a.active)
+                .map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name}
+                  </option>
+                ))}
+            </select>
+            <select
+              className={inputClass}
+              value={transfer.toAccountId}
+              onChange={(e) =>
+                setTransfer({ ...transfer, toAccountId: e.target.value })
+              }
+            >
+              <option value="">إلى حساب</option>
+              {accounts
+                .filter((a) => a.active && a.id !== transfer.fromAccountId)
+                .map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name}
+                  </option>
+                ))}
+            </select>
+            <input
+              className={inputClass}
+              placeholder="المبلغ"
+              value={transfer.amount}
+              onChange={(e) =>
+                setTransfer({ ...transfer, amount: e.target.value })
+              }
+            />
+            <input
+              type="date"
+              className={inputClass}
+              value={transfer.date}
+              onChange={(e) =>
+                setTransfer({ ...transfer, date: e.target.value })
+              }
+            />
+            <input
+              className={inputClass}
+              placeholder="ملاحظة"
+              value={transfer.note}
+              onChange={(e) =>
+                setTransfer({ ...transfer, note: e.target.value })
+              }
+            />
+          </div>
+          <button
+            className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+            disabled={saving}
+          >
+            تحويل
+          </button>
+          {transfers.length > 0 && (
+            <table className="w-full text-right text-sm">
+              <thead>
+                <tr className="text-slate-600">
+                  <th className="py-2">التاريخ</th>
+                  <th className="py-2">من</th>
+                  <th className="py-2">إلى</th>
+                  <th className="py-2">المبلغ</th>
+                  <th className="py-2">ملاحظة</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transfers.map((t) => (
+                  <tr key={t.id} className="border-t">
+                    <td className="py-2">{t.date}</td>
+                    <td className="py-2">{accountName(t.fromAccountId)}</td>
+                    <td className="py-2">{accountName(t.toAccountId)}</td>
+                    <td className="py-2">{money(t.amount)}</td>
+                    <td className="py-2">{t.note || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </form>
+      )}
+
+      {statement && (
+        <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+          <div className="flex flex-wrap items-end justify-between gap-2">
+            <h3 className="font-semibold">
+              كشف حساب: {statement.account.name}
+            </h3>
+            <div className="flex flex-wrap items-end gap-2">
+              <input
+                type="date"
+                className={inputClass}
+                aria-label="من"
+                value={range.from}
+                onChange={(e) => setRange({ ...range, from: e.target.value })}
+              />
+              <input
+                type="date"
+                className={inputClass}
+                aria-label="إلى"
+                value={range.to}
+                onChange={(e) => setRange({ ...range, to: e.target.value })}
+              />
+              <button
+                className="rounded-md border border-indigo-300 px-3 py-2 text-indigo-700"
+                onClick={() => void openStatement(statement.account.id)}
+              >
+                تحديث
+              </button>
+              <button
+                className="rounded-md border px-3 py-2"
+                onClick={() => setStatement(null)}
+              >
+                إغلاق
+              </button>
+            </div>
+          </div>
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">التاريخ</th>
+                <th className="py-2">البيان</th>
+                <th className="py-2">وارد</th>
+                <th className="py-2">منصرف</th>
+                <th className="py-2">الرصيد</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t text-slate-500">
+                <td className="py-2" colSpan={4}>
+                  رصيد أول المدة
+                </td>
+                <td className="py-2">{money(statement.openingBalance)}</td>
+              </tr>
+              {statement.lines.map((line, index) => (
+                <tr key={`${line.entryId}-${index}`} className="border-t">
+                  <td className="py-2">{line.date}</td>
+                  <td className="py-2">{line.description}</td>
+                  <td className="py-2">
+                    {line.debit ? money(line.debit) : ""}
+                  </td>
+                  <td className="py-2">
+                    {line.credit ? money(line.credit) : ""}
+                  </td>
+                  <td className="py-2 font-semibold">{money(line.balance)}</td>
+                </tr>
+              ))}
+              <tr className="border-t font-semibold">
+                <td className="py-2" colSpan={4}>
+                  الرصيد الختامي
+                </td>
+                <td className="py-2">{money(statement.closingBalance)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,481 @@
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import {
+  createPropertyUnit,
+  deletePropertyUnit,
+  generatePropertyUnits,
+  updatePropertyUnit,
+} from "@/services/accounting";
+import type {
+  Project,
+  PropertyUnit,
+  PropertyUnitStatus,
+} from "@shared/accounting";
+
+export const UNIT_STATUS_LABELS: Record<PropertyUnitStatus, string> = {
+  available: "متاحة",
+  reserved: "محجوزة",
+  sold: "مباعة",
+  delivered: "مستلمة",
+};
+
+const STATUS_CLASSES: Record<PropertyUnitStatus, string> = {
+  available: "bg-emerald-50 border-emerald-300 text-emerald-800",
+  reserved: "bg-amber-50 border-amber-300 text-amber-800",
+  sold: "bg-rose-50 border-rose-300 text-rose-800",
+  delivered: "bg-slate-100 border-slate-300 text-slate-600",
+};
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white";
+
+const optionalNumber = (value: string) => (value ? Number(value) : null);
+
+export const unitLabel = (unit: PropertyUnit) =>
+  `${unit.unitNo}${unit.floor !== null ? ` - الدور ${unit.floor}` : ""}${
+    unit.area ? ` - ${unit.area} م²` : ""
+  }`;
+
+/**
+ * The project's units floor by floor, coloured by status, with the tools to
+ * fill the inventory and keep each unit's details up to date.
+ */
+export default function UnitAvailabilityGrid({
+  project,
+  units,
+  canManage,
+  onChange,
+  onSell,
+  onReserve,
+}: {
+  project: Project;
+  units: PropertyUnit[];
+  canManage: boolean;
+  onChange: (units: PropertyUnit[]) => void;
+  onSell?: (unit: PropertyUnit) => void;
+  onReserve?: (unit: PropertyUnit) => void;
+}) {
+  const [selected, setSelected] = useState<PropertyUnit | null>(null);
+  const [details, setDetails] = useState({
+    type: "",
+    orientation: "",
+    area: "",
+    listPrice: "",
+  });
+  const [generate, setGenerate] = useState(() => ({
+    floors: String(project.floors),
+    unitsPerFloor: String(
+      Math.max(1, Math.ceil(project.units / Math.max(1, project.floors))),
+    ),
+    area: "",
+    type: "",
+    listPrice: "",
+  }));
+  const [single, setSingle] = useState({ unitNo: "", floor: "" });
+  const [saving, setSaving] = useState(false);
+  const editable = canManage && !project.archivedAt;
+
+  const floors = useMemo(() => {
+    const byFloor = new Map<number | null, PropertyUnit[]>();
+    for (const unit of units) {
+      byFloor.set(unit.floor, [...(byFloor.get(unit.floor) ?? []), unit]);
+    }
+    // Top floor first, like the building; units without a floor at the end.
+    return [...byFloor.entries()].sort(([a], [b]) =>
+      a === null ? 1 : b === null ? -1 : b - a,
+    );
+  }, [units]);
+
+  const counts = useMemo(() => {
+    const result: Record<PropertyUnitStatus, number> = {
+      available: 0,
+      reserved: 0,
+      sold: 0,
+      delivered: 0,
+    };
+    for (const unit of units) result[unit.status] += 1;
+    return result;
+  }, [units]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setSaving(true);
+      await action();
+    } catch (error) {
+      toast.error(failure, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const replace = (unit: PropertyUnit) => {
+    onChange(units.map((u) => (u.id === unit.id ? unit : u)));
+    setSelected(unit);
+  };
+
+  const select = (unit: PropertyUnit) => {
+    setSelected(unit);
+    setDetails({
+      type: unit.type ?? "",
+      orientation: unit.orientation ?? "",
+      area: unit.area ? String(unit.area) : "",
+      listPrice: unit.listPrice ? String(unit.listPrice) : "",
+    });
+  };
+
+  const runGenerate = (e: React.FormEvent) => {
+    e.preventDefault();
+    void run(async () => {
+      const result = await generatePropertyUnits(project.id, {
+        floors: Number(generate.floors),
+        unitsPerFloor: Number(generate.unitsPerFloor),
+        area: optionalNumber(generate.area),
+        type: generate.type || null,
+        listPrice: optionalNumber(generate.listPrice),
+      });
+      onChange([...units, ...result.created]);
+      toast.success(`تمت إضافة ${result.created.length} وحدة`, {
+        description: result.skipped.length
+          ? `وحدات موجودة مسبقاً: ${result.skipped.length}`
+          : undefined,
+      });
+    }, "تعذر إنشاء الوحدات");
+  };
+
+  const addSingle = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!single.unitNo.trim()) {
+      toast.error("أدخل رقم الوحدة");
+      return;
+    }
+    void run(async () => {
+      const unit = await createPropertyUnit(project.id, {
+        unitNo: single.unitNo,
+        floor: single.floor === "" ? null : Number(single.floor),
+      });
+      onChange([...units, unit]);
+      setSingle({ unitNo: "", floor: "" });
+      toast.success("تمت إضافة الوحدة");
+    }, "تعذر إضافة الوحدة");
+  };
+
+  const saveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    void run(async () => {
+      replace(
+        await updatePropertyUnit(selected.id, {
+          type: details.type || null,
+          orientation: details.orientation || null,
+          area: optionalNumber(details.area),
+          listPrice: optionalNumber(details.listPrice),
+        }),
+      );
+      toast.success("تم حفظ بيانات الوحدة");
+    }, "تعذر حفظ الوحدة");
+  };
+
+  const setStatus = (status: PropertyUnitStatus) => {
+    if (!selected) return;
+    void run(async () => {
+      replace(await updatePropertyUnit(selected.id, { status }));
+    }, "تعذر تغيير حالة الوحدة");
+  };
+
+  const remove = () => {
+    if (!selected) return;
+    if (!window.confirm(`حذف الوحدة ${selected.unitNo}؟`)) return;
+    void run(async () => {
+      await deletePropertyUnit(selected.id);
+      onChange(units.filter((u) => u.id !== selected.id));
+      setSelected(null);
+      toast.success("تم حذف الوحدة");
+    }, "تعذر حذف الوحدة");
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 shadow space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold">الوحدات حسب الأدوار</h3>
+        <div className="flex flex-wrap gap-2 text-xs">
+          {(Object.keys(UNIT_STATUS_LABELS) as PropertyUnitStatus[]).map(
+            (status) => (
+              <span
+                key={status}
+                className={`rounded border px-2 py-1 ${STATUS_CLASSES[status]}`}
+              >
+                {UNIT_STATUS_LABELS[status]}: {counts[status]}
+              </span>
+            ),
+          )}
+        </div>
+      </div>
+
+      {units.length === 0 ? (
+        <div className="py-4 text-center text-sm text-slate-500">
+          لم تُسجل وحدات لهذا المشروع بعد.
+        </div>
+      ) : (
+        <div className="space-y-2 overflow-x-auto">
+          {floors.map(([floor, floorUnits]) => (
+            <div key={floor ?? "none"} className="flex items-stretch gap-2">
+              <div className="w-20 shrink-0 self-center text-sm text-slate-600">
+                {floor === null ? "غير محدد" : `الدور ${floor}`}
+              </div>
+              {floorUnits.map((unit) => (
+                <button
+                  key={unit.id}
+                  type="button"
+                  onClick={() => select(unit)}
+                  className={`min-w-[5.5rem] rounded-md border-2 px-2 py-1 text-center text-xs ${
+                    STATUS_CLASSES[unit.status]
+                  } ${selected?.id === unit.id ? "ring-2 ring-indigo-500" : ""}`}
+                >
+                  <div className="font-semibold text-sm">{unit.unitNo}</div>
+                  {unit.area ? <div>{unit.area} م²</div> : null}
+                  {unit.listPrice ? (
+                    <div>{unit.listPrice.toLocaleString()}</div>
+                  ) : null}
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <div className="rounded-lg border border-indigo-200 bg-indigo-50 p-3 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="font-medium">
+              الوحدة {selected.unitNo} — {UNIT_STATUS_LABELS[selected.status]}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {onSell &&
+                selected.status === "available" &&
+                !project.archivedAt && (
+                  <button
+                    type="button"
+                    className="rounded-md bg-indigo-600 px-3 py-1 text-white"
+                    onClick={() => onSell(selected)}
+                  >
+                    بيع هذه الوحدة
+                  </button>
+                )}
+              {onReserve &&
+                selected.status === "available" &&
+                !project.archivedAt && (
+                  <button
+                    type="button"
+                    className="rounded-md bg-amber-600 px-3 py-1 text-white"
+                    onClick={() => onReserve(selected)}
+                  >
+                    حجز هذه الوحدة
+                  </button>
+                )}
+              {editable && selected.status === "sold" && (
+                <button
+                  type="button"
+                  className="rounded-md border bg-white px-3 py-1 disabled:opacity-50"
+                  disabled={saving}
+                  onClick={() => setStatus("delivered")}
+                >
+                  تسجيل الاستلام
+                </button>
+              )}
+              {editable && selected.status === "delivered" && (
+                <button
+                  type="button"
+                  className="rounded-md border bg-white px-3 py-1 disabled:opacity-50"
+                  disabled={saving}
+                  onClick={() => setStatus("sold")}
+                >
+                  إلغاء الاستلام
+                </button>
+              )}
+              {editable && selected.status === "available" && (
+                <button
+                  type="button"
+                  className="rounded-md border bg-white px-3 py-1 text-rose-600 disabled:opacity-50"
+                  disabled={saving}
+                  onClick={remove}
+                >
+                  حذف
+                </button>
+              )}
+              <button
+                type="button"
+                className="rounded-md border bg-white px-3 py-1"
+                onClick={() => setSelected(null)}
+              >
+                إغلاق
+              </button>
+            </div>
+          </div>
+          {editable && (
+            <form
+              onSubmit={saveDetails}
+              className="grid gap-2 sm:grid-cols-2 xl:grid-cols-5"
+            >
+              <input
+                className={inputClass}
+                placeholder="النوع (شقة، محل...)"
+                value={details.type}
+                onChange={(e) =>
+                  setDetails({ ...details, type: e.target.value })
+                }
+              />
+              <input
+                className={inputClass}
+                placeholder="الاتجاه (بحري، قبلي...)"
+                value={details.orientation}
+                onChange={(e) =>
+                  setDetails({ ...details, orientation: e.target.value })
+                }
+              />
+              <input
+                type="number"
+                min="0"
+                className={inputClass}
+                placeholder="المساحة (م²)"
+                value={details.area}
+                onChange={(e) =>
+                  setDetails({ ...details, area: e.target.value })
+                }
+              />
+              <input
+                type="number"
+                min="0"
+                className={inputClass}
+                placeholder="سعر القائمة"
+                value={details.listPrice}
+                onChange={(e) =>
+                  setDetails({ ...details, listPrice: e.target.value })
+                }
+              />
+              <button
+                className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+                disabled={saving}
+              >
+                حفظ
+              </button>
+            </form>
+          )}
+          {!editable && (selected.type || selected.orientation) && (
+            <div className="text-sm text-slate-600">
+              {[selected.type, selected.orientation]
+                .filter(Boolean)
+                .join(" — ")}
+            </div>
+          )}
+        </div>
+      )}
+
+      {editable && (
+        <div className="grid gap-3 lg:grid-cols-2">
+          <form
+            onSubmit={runGenerate}
+            className="rounded-lg border border-slate-200 p-3 space-y-2"
+          >
+            <div className="text-sm font-medium">
+              إنشاء الوحدات من عدد الأدوار × الوحدات في الدور
+            </div>
+            <div className="grid gap-2 sm:grid-cols-2">
+              <label className="text-xs text-slate-500">
+                عدد الأدوار
+                <input
+                  type="number"
+                  min="1"
+                  className={inputClass}
+                  value={generate.floors}
+                  onChange={(e) =>
+                    setGenerate({ ...generate, floors: e.target.value })
+                  }
+                />
+              </label>
+              <label className="text-xs text-slate-500">
+                الوحدات في الدور
+                <input
+                  type="number"
+                  min="1"
+                  max="99"
+                  className={inputClass}
+                  value={generate.unitsPerFloor}
+                  onChange={(e) =>
+                    setGenerate({ ...generate, unitsPerFloor: e.target.value })
+                  }
+                />
+              </label>
+              <input
+                type="number"
+                min="0"
+                className={inputClass}
+                placeholder="المساحة (اختياري)"
+                value={generate.area}
+                onChange={(e) =>
+                  setGenerate({ ...generate, area: e.target.value })
+                }
+              />
+              <input
+                type="number"
+                min="0"
+                className={inputClass}
+                placeholder="سعر القائمة (اختياري)"
+                value={generate.listPrice}
+                onChange={(e) =>
+                  setGenerate({ ...generate, listPrice: e.target.value })
+                }
+              />
+              <input
+                className={inputClass}
+                placeholder="النوع (اختياري)"
+                value={generate.type}
+                onChange={(e) =>
+                  setGenerate({ ...generate, type: e.target.value })
+                }
+              />
+            </div>
+            <button
+              className="rounded-md border border-indigo-300 px-4 py-2 text-indigo-700 disabled:opacity-50"
+              disabled={saving}
+            >
+              إنشاء الوحدات
+            </button>
+          </form>
+          <form
+            onSubmit={addSingle}
+            className="rounded-lg border border-slate-200 p-3 space-y-2"
+          >
+            <div className="text-sm font-medium">إضافة وحدة منفردة</div>
+            <div className="grid gap-2 sm:grid-cols-2">
+              <input
+                className={inputClass}
+                placeholder="رقم الوحدة"
+                value={single.unitNo}
+                onChange={(e) =>
+                  setSingle({ ...single, unitNo: e.target.value })
+                }
+              />
+              <input
+                type="number"
+                className={inputClass}
+                placeholder="الدور"
+                value={single.floor}
+                onChange={(e) =>
+                  setSingle({ ...single, floor: e.target.value })
+                }
+              />
+            </div>
+            <button
+              className="rounded-md border px-4 py-2 disabled:opacity-50"
+              disabled={saving}
+            >
+              إضافة
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  createRecurringTemplate,
+  loadRecurringTemplates,
+  previewRecurringTemplate,
+  runRecurringTemplates,
+  updateRecurringTemplate,
+} from "@/services/accounting";
+import type {
+  RecurrenceFrequency,
+  RecurringTemplate,
+  RecurringTemplateInput,
+  Transaction,
+  TransactionCategory,
+  TransType,
+} from "@shared/accounting";
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "يومي",
+  weekly: "أسبوعي",
+  monthly: "شهري",
+  yearly: "سنوي",
+};
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white";
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+const emptyForm = () => ({
+  type: "expense" as TransType,
+  description: "",
+  amount: "",
+  categoryId: "",
+  frequency: "monthly" as RecurrenceFrequency,
+  interval: "1",
+  startDate: today(),
+  endDate: "",
+  maxOccurrences: "",
+});
+
+type Form = ReturnType<typeof emptyForm>;
+
+function toForm(template: RecurringTemplate): Form {
+  return {
+    type: template.type,
+    description: template.description,
+    amount: String(template.amount),
+    categoryId: template.categoryId ?? "",
+    frequency: template.frequency,
+    interval: String(template.interval),
+    startDate: template.startDate,
+    endDate: template.endDate ?? "",
+    maxOccurrences:
+      template.maxOccurrences === null ? "" : String(template.maxOccurrences),
+  };
+}
+
+function toInput(form: Form): RecurringTemplateInput {
+  const amount = Number(form.amount);
+  if (!form.description.trim() || !Number.isFinite(amount) || amount <= 0) {
+    throw new Error("يرجى إدخال الوصف والمبلغ");
+  }
+  return {
+    type: form.type,
+    description: form.description,
+    amount,
+    categoryId: form.categoryId || null,
+    frequency: form.frequency,
+    interval: Number(form.interval) || 1,
+    startDate: form.startDate,
+    endDate: form.endDate || null,
+    maxOccurrences: form.maxOccurrences ? Number(form.maxOccurrences) : null,
+  };
+}
+
+function scheduleLabel(template: RecurringTemplate) {
+  const every =
+    template.interval > 1
+      ? `كل ${template.interval} (${FREQUENCY_LABELS[template.frequency]})`
+      : FREQUENCY_LABELS[template.frequency];
+  const end = template.endDate
+    ? ` حتى ${template.endDate}`
+    : template.maxOccurrences !== null
+      ? ` (${template.maxOccurrences} مرة)`
+      : "";
+  return every + end;
+}
+
+/**
+ * Recurring templates the server turns into pending transactions on their
+ * due dates.
+ */
+export default function Recurring({
+  categories,
+  onCreated,
+}: {
+  categories: TransactionCategory[];
+  onCreated: (transactions: Transaction[]) => void;
+}) {
+  const [templates, setTemplates] = useState<RecurringTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [previews, setPreviews] = useState<Record<string, string[]>>({});
+
+  const load = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTemplates(await loadRecurringTemplates());
+    } catch (error: any) {
+      toast.error(error?.message || "تعذر تحميل المعاملات المتكررة");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const replace = (template: RecurringTemplate) =>
+    setTemplates((prev) =>
+      prev.map((t) => (t.id === template.id ? template : t)),
+    );
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      const input = toInput(form);
+      if (editingId) {
+        replace(await updateRecurringTemplate(editingId, input));
+        setPreviews(({ [editingId]: _stale, ...rest }) => rest);
+        toast.success("تم حفظ المعاملة المتكررة");
+      } else {
+        const template = await createRecurringTemplate(input);
+        setTemplates((prev) => [...prev, template]);
+        toast.success("تمت إضافة المعاملة المتكررة");
+      }
+      setEditingId(null);
+      setForm(emptyForm());
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر حفظ المعاملة المتكررة";
+      toast.error("فشل الحفظ", { description: message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const togglePaused = async (template: RecurringTemplate) => {
+    try {
+      replace(
+        await updateRecurringTemplate(template.id, {
+          paused: !template.paused,
+        }),
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تحديث المعاملة";
+      toast.error("فشل التحديث", { description: message });
+    }
+  };
+
+  const togglePreview = async (template: RecurringTemplate) => {
+    if (previews[template.id]) {
+      setPreviews(({ [template.id]: _open, ...rest }) => rest);
+      return;
+    }
+    try {
+      const dates = await previewRecurringTemplate(template.id, 6);
+      setPreviews((prev) => ({ ...prev, [template.id]: dates }));
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تحميل المواعيد";
+      toast.error("فشل المعاينة", { description: message });
+    }
+  };
+
+  const runNow = async () => {
+    try {
+      setRunning(true);
+      const { created, failures } = await runRecurringTemplates();
+      onCreated(created);
+      if (failures.length) {
+        toast.error(`تعذر إنشاء ${failures.length} معاملة`, {
+          description: failures.map((f) => `${f.date}: ${f.error}`).join("\n"),
+        });
+      } else {
+        toast.success(
+          created.length
+            ? `تم إنشاء ${created.length} معاملة بانتظار الاعتماد`
+            : "لا توجد معاملات مستحقة",
+        );
+      }
+      await load();
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تشغيل الجدولة";
+      toast.error("فشل التشغيل", { description: message });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <form
+        onSubmit={submit}
+        className="bg-white border border-slate-200 rounded-xl p-4 shadow space-y-3"
+      >
+        <h3 className="font-semibold">
+          {editingId ? "تعديل معاملة متكررة" : "إضافة معاملة متكررة"}
+        </h3>
+        <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+          <select
+            className={inputClass}
+            value={form.type}
+            onChange={(e) =>
+              setForm({
+                ...form,
+                type: e.target.value as TransType,
+                categoryId: "",
+              })
+            }
+          >
+            <option value="revenue">إيراد</option>
+            <option value="expense">مصروف</option>
+          </select>
+          <input
+            className={inputClass}
+            placeholder="الوصف"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+          />
+          <input
+            className={inputClass}
+            placeholder="المبلغ"
+            value={form.amount}
+            onChange={(e) => setForm({ ...form, amount: e.target.value })}
+          />
+          <select
+            className={inputClass}
+            value={form.categoryId}
+            onChange={(e) => setForm({ ...form, categoryId: e.target.value })}
+          >
+            <option value="">بدون تصنيف</option>
+            {categories
+              .filter(
+                (c) =>
+                  c.id === form.categoryId ||
+                  (c.active && (!c.type || c.type === form.type)),
+              )
+              .map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+          </select>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={1}
+              className={`${inputClass} w-20`}
+              aria-label="كل"
+              value={form.interval}
+              onChange={(e) => setForm({ ...form, interval: e.target.value })}
+            />
+            <select
+              className={inputClass}
+              value={form.frequency}
+              onChange={(e) =>
+                setForm({
+                  ...form,
+                  frequency: e.target.value as RecurrenceFrequency,
+                })
+              }
+            >
+              {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex flex-col">
+            <label className="text-sm text-slate-600 mb-1">يبدأ في</label>
+            <input
+              type="date"
+              className={inputClass}
+              value={form.startDate}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label className="text-sm text-slate-600 mb-1">
+              ينتهي في (اختياري)
+            </label>
+            <input
+              type="date"
+              className={inputClass}
+              value={form.endDate}
+              onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+            />
+          </div>
+          <div className="flex flex-col">
+            <label className="text-sm text-slate-600 mb-1">
+              عدد المرات (اختياري)
+            </label>
+            <input
+              type="number"
+              min={1}
+              className={inputClass}
+              value={form.maxOccurrences}
+              onChange={(e) =>
+                setForm({ ...form, maxOccurrences: e.target.value })
+              }
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            className="rounded-md bg-indigo-600 px-4 py-2 text-white disabled:opacity-50"
+            disabled={saving}
+          >
+            {saving ? "جاري الحفظ..." : editingId ? "حفظ" : "إضافة"}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              className="rounded-md border px-4 py-2"
+              onClick={() => {
+                setEditingId(null);
+                setForm(emptyForm());
+              }}
+            >
+              إلغاء
+            </button>
+          )}
+        </div>
+      </form>
+
+      <div className="bg-white border border-slate-200 rounded-xl p-4 shadow overflow-x-auto space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-semibold">المعاملات المتكررة</h3>
+          <button
+            className="rounded-md border border-indigo-300 px-3 py-1 text-indigo-700 disabled:opacity-50"
+            onClick={() => void runNow()}
+            disabled={running}
+          >
+            {running ? "جاري الإنشاء..." : "إنشاء المستحق الآن"}
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">
+          تُنشأ المعاملات تلقائياً في مواعيدها كمسودات بانتظار الاعتماد.
+        </p>
+        {loading ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            جاري التحميل...
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="py-6 text-center text-sm text-slate-500">
+            لا توجد معاملات متكررة بعد.
+          </div>
+        ) : (
+          <table className="w-full text-right text-sm">
+            <thead>
+              <tr className="text-slate-600">
+                <th className="py-2">الوصف</th>
+                <th className="py-2">المبلغ</th>
+                <th className="py-2">التكرار</th>
+                <th className="py-2">الموعد القادم</th>
+                <th className="py-2">المنشأ</th>
+                <th className="py-2">الحالة</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map((template) => (
+                <tr key={template.id} className="border-t align-top">
+                  <td className="py-2">
+                    {template.description}
+                    {previews[template.id] && (
+                      <div className="text-xs text-slate-500 mt-1">
+                        {previews[template.id].length
+                          ? previews[template.id].join("، ")
+                          : "لا توجد مواعيد قادمة"}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2">
+                    {template.amount.toLocaleString()} ج.م
+                  </td>
+                  <td className="py-2">{scheduleLabel(template)}</td>
+                  <td className="py-2">{template.nextRunDate ?? "انتهى"}</td>
+                  <td className="py-2">{template.occurrencesCreated}</td>
+                  <td className="py-2">
+                    {template.paused ? (
+                      <span className="px-2 py-1 rounded-full text-xs bg-slate-200 text-slate-700">
+                        متوقف
+                      </span>
+                    ) : (
+                      <span className="px-2 py-1 rounded-full text-xs bg-emerald-100 text-emerald-700">
+                        نشط
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 space-x-2 space-x-reverse whitespace-nowrap">
+                    <button
+                      className="text-indigo-600 hover:underline"
+                      onClick={() => void togglePreview(template)}
+                    >
+                      {previews[template.id] ? "إخفاء" : "المواعيد"}
+                    </button>
+                    <button
+                      className="text-indigo-600 hover:underline"
+                      onClick={() => {
+                        setEditingId(template.id);
+                        setForm(toForm(template));
+                      }}
+                    >
+                      تعديل
+                    </button>
+                    <button
+                      className={
+                        template.paused
+                          ? "text-emerald-600 hover:underline"
+                          : "text-amber-600 hover:underline"
+                      }
+                      onClick={() => void togglePaused(template)}
+                    >
+                      {template.paused ? "استئناف" : "إيقاف"}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
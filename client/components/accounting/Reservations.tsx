@@ -0,0 +1,410 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { cancelReservation, createReservation } from "@/services/accounting";
+import { MoneyAccountSelect } from "@/components/accounting/MoneyAccounts";
+import { unitLabel } from "@/components/accounting/PropertyUnits";
+import {
+  CustomerPicker,
+  emptyCustomerChoice,
+  isCustomerChosen,
+  resolveCustomerChoice,
+} from "@/components/accounting/Customers";
+import type {
+  Customer,
+  MoneyAccount,
+  Project,
+  PropertyUnit,
+  UnitReservation,
+  UnitReservationStatus,
+} from "@shared/accounting";
+
+export const RESERVATION_STATUS_LABELS: Record<UnitReservationStatus, string> =
+  {
+    active: "سارٍ",
+    expired: "منتهي",
+    converted: "تم البيع",
+    cancelled: "ملغى",
+  };
+
+const STATUS_CLASSES: Record<UnitReservationStatus, string> = {
+  active: "bg-amber-100 text-amber-800",
+  expired: "bg-slate-200 text-slate-700",
+  converted: "bg-emerald-100 text-emerald-800",
+  cancelled: "bg-rose-100 text-rose-700",
+};
+
+const inputClass =
+  "w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white";
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+/** Reservations hold a unit for two weeks unless the clerk says otherwise. */
+const DEFAULT_HOLD_DAYS = 14;
+
+const addDays = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const makeForm = (agent: string) => ({
+  unitId: "",
+  deposit: "",
+  date: today(),
+  expiresOn: addDays(today(), DEFAULT_HOLD_DAYS),
+  agent,
+  moneyAccountId: "",
+});
+
+/**
+ * Units held for buyers against a deposit. An active reservation becomes a
+ * sale through `onConvert`; cancelling one refunds the deposit. Expiry only
+ * frees the unit, so expired reservations are flagged until refunded.
+ */
+export default function UnitReservations({
+  project,
+  units,
+  reservations,
+  customers,
+  moneyAccounts,
+  canManage,
+  agentName,
+  reserveUnitId,
+  onChange,
+  onUnitsChange,
+  onCustomerCreated,
+  onConvert,
+}: {
+  project: Project;
+  units: PropertyUnit[];
+  reservations: UnitReservation[];
+  customers: Customer[];
+  moneyAccounts: MoneyAccount[];
+  canManage: boolean;
+  agentName: string;
+  /** A unit picked on the grid to reserve. */
+  reserveUnitId?: string;
+  onChange: (reservations: UnitReservation[]) => void;
+  onUnitsChange: (units: PropertyUnit[]) => void;
+  onCustomerCreated: (customer: Customer) => void;
+  onConvert: (reservation: UnitReservation) => void;
+}) {
+  const [form, setForm] = useState(() => makeForm(agentName));
+  const [customer, setCustomer] = useState(emptyCustomerChoice);
+  const [cancelling, setCancelling] = useState<UnitReservation | null>(null);
+  const [cancelForm, setCancelForm] = useState({
+    reason: "",
+    date: today(),
+    moneyAccountId: "",
+  });
+  const [saving, setSaving] = useState(false);
+  const editable = canManage && !project.archivedAt;
+  const availableUnits = units.filter((u) => u.status === "available");
+  // Archiving reversed the deposits, so nothing is owed on archived projects.
+  const heldDeposits = project.archivedAt
+    ? []
+    : reservations.filter((r) => r.status === "expired");
+  const heldTotal = heldDeposits.reduce((sum, r) => sum + r.deposit, 0);
+
+  useEffect(() => {
+    if (reserveUnitId) {
+      setForm((prev) => ({ ...prev, unitId: reserveUnitId }));
+    }
+  }, [reserveUnitId]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      setSaving(true);
+      await action();
+    } catch (error) {
+      toast.error(failure, {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setUnitStatus = (unitId: string, status: PropertyUnit["status"]) =>
+    onUnitsChange(units.map((u) => (u.id === unitId ? { ...u, status } : u)));
+
+  const reserve = (e: React.FormEvent) => {
+    e.preventDefault();
+    const deposit = Number(form.deposit);
+    if (!form.unitId || !isCustomerChosen(customer)) {
+      toast.error("اختر الوحدة والعميل");
+      return;
+    }
+    if (!Number.isFinite(deposit) || deposit <= 0) {
+      toast.error("قيمة العربون غير صحيحة");
+      return;
+    }
+    void run(async () => {
+      const linked = await resolveCustomerChoice(customer, customers);
+      if (linked.created) onCustomerCreated(linked.customer);
+      const { reservation } = await createReservation({
+        projectId: project.id,
+        unitId: form.unitId,
+        buyer: linked.customer.name,
+        customerId: linked.customer.id,
+        deposit,
+        date: form.date,
+        expiresOn: form.expiresOn,
+        agent: form.agent,
+        moneyAccountId: form.moneyAccountId || null,
+      });
+      onChange([reservation, ...reservations]);
+      setUnitStatus(reservation.unitId, "reserved");
+      setForm(makeForm(agentName));
+      setCustomer(emptyCustomerChoice());
+      toast.success(`تم حجز الوحدة ${reservation.unitNo}`);
+    }, "تعذر تسجيل الحجز");
+  };
+
+  const startCancel = (reservation: UnitReservation) => {
+    setCancelling(reservation);
+    setCancelForm({
+      reason: "",
+      date: today(),
+      moneyAccountId: reservation.moneyAccountId ?? "",
+    });
+  };
+
+  const cancel = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!cancelling) return;
+    if (!cancelForm.reason.trim()) {
+      toast.error("أدخل سبب الإلغاء");
+      return;
+    }
+    void run(async () => {
+      const { reservation } = await cancelReservation(cancelling.id, {
+        reason: cancelForm.reason,
+        date: cancelForm.date,
+        moneyAccountId: cancelForm.moneyAccountId || null,
+      });
+      onChange(
+        reservations.map((r) => (r.id === reservation.id ? reservation : r)),
+      );
+      if (cancelling.status === "active") {
+        setUnitStatus(reservation.unitId, "available");
+      }
+      setCancelling(null);
+      toast.success("تم إلغاء الحجز ورد العربون");
+    }, "تعذر إلغاء الحجز");
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 shadow space-y-4">
+      <h3 className="font-semibold">حجوزات الوحدات</h3>
+
+      {heldDeposits.length > 0 && (
+        <div className="rounded-lg border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+          انتهت {heldDeposits.length} من الحجوزات دون رد العربون، وما زال{" "}
+          {heldTotal.toLocaleString()} ج.م محتجزًا لأصحابها:{" "}
+          {heldDeposits.map((r) => `${r.unitNo} (${r.buyer})`).join("، ")}.
+          {editable && " رد كل عربون من «إلغاء ورد العربون»."}
+        </div>
+      )}
+
+      {editable && (
+        <form
+          onSubmit={reserve}
+          className="grid gap-2 rounded-lg border border-slate-200 p-3 sm:grid-cols-2 xl:grid-cols-3"
+        >
+          <select
+            className={inputClass}
+            value={form.unitId}
+            onChange={(e) => setForm({ ...form, unitId: e.target.value })}
+          >
+            <option value="">اختر الوحدة</option>
+            {availableUnits.map((u) => (
+              <option key={u.id} value={u.id}>
+                {unitLabel(u)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            className={inputClass}
+            placeholder="العربون"
+            value={form.deposit}
+            onChange={(e) => setForm({ ...form, deposit: e.target.value })}
+          />
+          <input
+            className={inputClass}
+            placeholder="مسؤول المبيعات"
+            value={form.agent}
+            onChange={(e) => setForm({ ...form, agent: e.target.value })}
+          />
+          <label className="text-xs text-slate-500">
+            تاريخ الحجز
+            <input
+              type="date"
+              className={inputClass}
+              value={form.date}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+            />
+          </label>
+          <label className="text-xs text-slate-500">
+            ينتهي الحجز في
+            <input
+              type="date"
+              className={inputClass}
+              value={form.expiresOn}
+              onChange={(e) => setForm({ ...form, expiresOn: e.target.value })}
+            />
+          </label>
+          <label className="text-xs text-slate-500">
+            الخزينة المستلمة
+            <MoneyAccountSelect
+              accounts={moneyAccounts}
+              value={form.moneyAccountId}
+              onChange={(moneyAccountId) =>
+                setForm({ ...form, moneyAccountId })
+              }
+            />
+          </label>
+          <div className="sm:col-span-2 xl:col-span-3">
+            <CustomerPicker
+              customers={customers}
+              value={customer}
+              onChange={setCustomer}
+            />
+          </div>
+          <div>
+            <button
+              className="rounded-md bg-amber-600 px-4 py-2 text-white disabled:opacity-50"
+              disabled={saving}
+            >
+              {saving ? "جاري الحفظ..." : "تسجيل الحجز واستلام العربون"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {cancelling && (
+        <form
+          onSubmit={cancel}
+          className="grid gap-2 rounded-lg border border-rose-200 bg-rose-50 p-3 sm:grid-cols-2"
+        >
+          <div className="font-medium sm:col-span-2">
+            إلغاء حجز الوحدة {cancelling.unitNo} ورد عربون{" "}
+            {cancelling.deposit.toLocaleString()} ج.م إلى {cancelling.buyer}
+          </div>
+          <input
+            className={inputClass}
+            placeholder="سبب الإلغاء"
+            value={cancelForm.reason}
+            onChange={(e) =>
+              setCancelForm({ ...cancelForm, reason: e.target.value })
+            }
+          />
+          <input
+            type="date"
+            className={inputClass}
+            value={cancelForm.date}
+            onChange={(e) =>
+              setCancelForm({ ...cancelForm, date: e.target.value })
+            }
+          />
+          <MoneyAccountSelect
+            accounts={moneyAccounts}
+            value={cancelForm.moneyAccountId}
+            onChange={(moneyAccountId) =>
+              setCancelForm({ ...cancelForm, moneyAccountId })
+            }
+          />
+          <div className="flex gap-2">
+            <button
+              className="rounded-md bg-rose-600 px-4 py-2 text-white disabled:opacity-50"
+              disabled={saving}
+            >
+              تأكيد الإلغاء
+            </button>
+            <button
+              type="button"
+              className="rounded-md border bg-white px-3 py-2"
+              onClick={() => setCancelling(null)}
+            >
+              تراجع
+            </button>
+          </div>
+        </form>
+      )}
+
+      {reservations.length === 0 ? (
+        <div className="py-4 text-center text-sm text-slate-500">
+          لا توجد حجوزات لهذا المشروع.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full table-auto border-collapse text-sm text-right">
+            <thead>
+              <tr className="bg-slate-50">
+                <th className="px-3 py-2">الوحدة</th>
+                <th className="px-3 py-2">العميل</th>
+                <th className="px-3 py-2">العربون</th>
+                <th className="px-3 py-2">التاريخ</th>
+                <th className="px-3 py-2">ينتهي في</th>
+                <th className="px-3 py-2">المسؤول</th>
+                <th className="px-3 py-2">الحالة</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {reservations.map((r) => (
+                <tr
+                  key={r.id}
+                  className={`border-t ${heldDeposits.includes(r) ? "bg-amber-50" : ""}`}
+                >
+                  <td className="px-3 py-2">{r.unitNo}</td>
+                  <td className="px-3 py-2">{r.buyer}</td>
+                  <td className="px-3 py-2">{r.deposit.toLocaleString()}</td>
+                  <td className="px-3 py-2">{r.date}</td>
+                  <td className="px-3 py-2">{r.expiresOn}</td>
+                  <td className="px-3 py-2">{r.agent}</td>
+                  <td className="px-3 py-2">
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs ${STATUS_CLASSES[r.status]}`}
+                      title={
+                        heldDeposits.includes(r)
+                          ? "العربون لم يُرد بعد"
+                          : (r.cancelReason ?? undefined)
+                      }
+                    >
+                      {RESERVATION_STATUS_LABELS[r.status]}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2">
+                    {editable && (
+                      <div className="flex gap-2">
+                        {r.status === "active" && (
+                          <button
+                            className="rounded-md bg-indigo-600 px-2 py-1 text-xs text-white"
+                            onClick={() => onConvert(r)}
+                          >
+                            تحويل إلى بيع
+                          </button>
+                        )}
+                        {(r.status === "active" || r.status === "expired") && (
+                          <button
+                            className="rounded-md border px-2 py-1 text-xs text-rose-600"
+                            onClick={() => startCancel(r)}
+                          >
+                            إلغاء ورد العربون
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
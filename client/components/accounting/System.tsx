@@ -3,44 +3,119 @@ import { DollarSign, ArrowUp, ArrowDown, Plus } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/providers/AuthProvider";
 import UserManagement from "@/components/users/UserManagement";
+import FiscalPeriods from "@/components/accounting/FiscalPeriods";
+import AuditLog from "@/components/accounting/AuditLog";
+import ApprovalsInbox from "@/components/accounting/ApprovalsInbox";
+import Categories from "@/components/accounting/Categories";
+import Recurring from "@/components/accounting/Recurring";
+import MoneyAccounts, {
+  MoneyAccountBalances,
+  MoneyAccountSelect,
+} from "@/components/accounting/MoneyAccounts";
+import BankReconciliation from "@/components/accounting/BankReconciliation";
+import Cheques from "@/components/accounting/Cheques";
+import Customers from "@/components/accounting/Customers";
+import LateFees from "@/components/accounting/LateFees";
+import {
+  InventoryItemEditDialog,
+  ProjectEditDialog,
+  TransactionEditDialog,
+} from "@/components/accounting/EditDialogs";
+import FinancialStatementView, {
+  fetchStatement,
+  isStatementKind,
+  statementTable,
+  type FinancialStatement,
+} from "@/components/accounting/FinancialStatements";
 import { toast } from "sonner";
 import {
   approveTransaction,
+  decideTransactions,
+  resubmitTransaction,
   createInventoryItem,
   createProject,
   createTransaction,
   deleteInventoryItem,
   deleteTransaction,
   loadAccountingData,
+  loadCategories,
+  loadMoneyAccounts,
   recordInventoryIssue,
   recordInventoryReceipt,
+  loadTransactionSource,
+  reverseTransaction,
 } from "@/services/accounting";
 import type {
   InventoryItem,
+  MoneyAccount,
   Movement,
   Project,
   ProjectCost,
   ProjectSale,
   Transaction,
+  TransactionCategory,
+  TransactionSourceType,
   TransType,
 } from "@shared/accounting";
 
 const today = () => new Date().toLocaleDateString("en-CA");
 
+type Tab =
+  | "dashboard"
+  | "transactions"
+  | "approvals"
+  | "categories"
+  | "recurring"
+  | "accounts"
+  | "reconciliation"
+  | "cheques"
+  | "lateFees"
+  | "customers"
+  | "inventory"
+  | "projects"
+  | "reports"
+  | "periods"
+  | "audit"
+  | "users";
+
+const SOURCE_LABELS: Record<TransactionSourceType, string> = {
+  sale: "بيع وحدة",
+  cost: "تكلفة مشروع",
+  movement: "حركة مخزون",
+  installment: "قسط",
+  manual: "يدوي",
+};
+
+/** Seeded by the categories migration; the salary report lists this one. */
+const SALARIES_CATEGORY_CODE = "salaries";
+
+const TAB_LABELS: Record<Tab, string> = {
+  dashboard: "لوحة التحكم",
+  transactions: "المعاملات",
+  approvals: "الاعتمادات",
+  categories: "التصنيفات",
+  recurring: "المتكررة",
+  accounts: "الخزائن والبنوك",
+  reconciliation: "التسوية البنكية",
+  cheques: "الشيكات",
+  lateFees: "غرامات التأخير",
+  customers: "العملاء",
+  inventory: "المخزون",
+  projects: "العقارات",
+  reports: "التقارير",
+  periods: "الفترات المالية",
+  audit: "سجل التدقيق",
+  users: "المستخدمون",
+};
+
 export default function AccountingSystem() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const isManager = user?.role === "manager";
   const isAccountant = user?.role === "accountant";
   const isEmployee = user?.role === "employee";
-  const [active, setActive] = useState<
-    | "dashboard"
-    | "transactions"
-    | "inventory"
-    | "projects"
-    | "reports"
-    | "users"
-  >("dashboard");
+  const canEdit = isManager || isAccountant;
+  const [active, setActive] = useState<Tab>("dashboard");
 
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [items, setItems] = useState<InventoryItem[]>([]);
@@ -48,6 +123,8 @@ export default function AccountingSystem() {
   const [projects, setProjects] = useState<Project[]>([]);
   const [costs, setCosts] = useState<ProjectCost[]>([]);
   const [sales, setSales] = useState<ProjectSale[]>([]);
+  const [categories, setCategories] = useState<TransactionCategory[]>([]);
+  const [moneyAccounts, setMoneyAccounts] = useState<MoneyAccount[]>([]);
 
   const [initialLoading, setInitialLoading] = useState(true);
   const [loadingError, setLoadingError] = useState<string | null>(null);
@@ -57,6 +134,8 @@ export default function AccountingSystem() {
     amount: "",
     description: "",
     date: today(),
+    categoryId: "",
+    moneyAccountId: "",
   }));
   const [newItem, setNewItem] = useState({
     name: "",
@@ -70,6 +149,7 @@ export default function AccountingSystem() {
     unitPrice: "",
     supplier: "",
     date: today(),
+    moneyAccountId: "",
   });
   const [issue, setIssue] = useState({
     itemId: "",
@@ -97,6 +177,17 @@ export default function AccountingSystem() {
     string | null
   >(null);
   const [deletingItemId, setDeletingItemId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [batchReason, setBatchReason] = useState("");
+  const [batchBusy, setBatchBusy] = useState(false);
+  const [batchErrors, setBatchErrors] = useState<Record<string, string>>({});
+  const [reversing, setReversing] = useState<Transaction | null>(null);
+  const [reverseReason, setReverseReason] = useState("");
+  const [savingReversal, setSavingReversal] = useState(false);
+  const [editingTransaction, setEditingTransaction] =
+    useState<Transaction | null>(null);
+  const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
 
   const loadData = useCallback(async () => {
     setLoadingError(null);
@@ -125,6 +216,36 @@ export default function AccountingSystem() {
     void loadData();
   }, [loadData]);
 
+  useEffect(() => {
+    loadCategories()
+      .then(setCategories)
+      .catch((error) => {
+        toast.error("تعذر تحميل التصنيفات", {
+          description: error instanceof Error ? error.message : undefined,
+        });
+      });
+  }, []);
+
+  const refreshMoneyAccounts = useCallback(async () => {
+    try {
+      setMoneyAccounts(await loadMoneyAccounts());
+    } catch (error) {
+      toast.error("تعذر تحميل أرصدة الحسابات", {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  }, []);
+
+  // Any posting or approval can move a balance.
+  useEffect(() => {
+    void refreshMoneyAccounts();
+  }, [transactions, refreshMoneyAccounts]);
+
+  const categoryNames = useMemo(
+    () => new Map(categories.map((c) => [c.id, c.name])),
+    [categories],
+  );
+
   const totals = useMemo(() => {
     const rev = transactions
       .filter((t) => t.type === "revenue")
@@ -155,9 +276,18 @@ export default function AccountingSystem() {
         amount,
         approved,
         createdBy: user?.id ?? null,
+        categoryId: quick.categoryId || null,
+        moneyAccountId: quick.moneyAccountId || null,
       });
       setTransactions((prev) => [transaction, ...prev]);
-      setQuick({ type: "revenue", amount: "", description: "", date: today() });
+      setQuick({
+        type: "revenue",
+        amount: "",
+        description: "",
+        date: today(),
+        categoryId: "",
+        moneyAccountId: "",
+      });
       toast.success("تمت إضافة المعاملة");
     } catch (error) {
       const message =
@@ -173,7 +303,11 @@ export default function AccountingSystem() {
       setApprovingId(id);
       const updated = await approveTransaction(id);
       setTransactions((prev) => prev.map((t) => (t.id === id ? updated : t)));
-      toast.success("تم اعتماد المعاملة");
+      toast.success(
+        updated.approved
+          ? "تم اعتماد المعاملة"
+          : "تم تسجيل موافقتك وبانتظار المستوى التالي",
+      );
     } catch (error) {
       const message =
         error instanceof Error ? error.message : "��عذر اعتماد المعاملة";
@@ -183,6 +317,73 @@ export default function AccountingSystem() {
     }
   };
 
+  const handleResubmit = async (id: string) => {
+    try {
+      setApprovingId(id);
+      const updated = await resubmitTransaction(id);
+      setTransactions((prev) => prev.map((t) => (t.id === id ? updated : t)));
+      toast.success("تمت إعادة إرسال المعاملة للاعتماد");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر إعادة إرسال المعاملة";
+      toast.error("فشلت إعادة الإرسال", { description: message });
+    } finally {
+      setApprovingId(null);
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id],
+    );
+
+  /** Approves or rejects every selected transaction; nothing is saved if any fails. */
+  const handleBatch = async (decision: "approve" | "reject") => {
+    if (decision === "reject" && !batchReason.trim()) {
+      toast.error("يرجى إدخال سبب الرفض");
+      return;
+    }
+    try {
+      setBatchBusy(true);
+      const result = await decideTransactions({
+        ids: selectedIds,
+        decision,
+        reason: decision === "reject" ? batchReason : null,
+      });
+      if (!result.applied) {
+        const errors: Record<string, string> = {};
+        for (const r of result.results) {
+          if (!r.ok) errors[r.id] = r.error || "فشل";
+        }
+        setBatchErrors(errors);
+        toast.error("لم يتم تنفيذ أي عملية", {
+          description: `تعذر معالجة ${Object.keys(errors).length} من ${result.results.length} معاملة`,
+        });
+        return;
+      }
+      const updated = new Map(
+        result.results.flatMap((r) =>
+          r.transaction ? [[r.id, r.transaction] as const] : [],
+        ),
+      );
+      setTransactions((prev) => prev.map((t) => updated.get(t.id) ?? t));
+      setSelectedIds([]);
+      setBatchReason("");
+      setBatchErrors({});
+      toast.success(
+        decision === "approve"
+          ? `تمت معالجة اعتماد ${updated.size} معاملة`
+          : `تم رفض ${updated.size} معاملة`,
+      );
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر تنفيذ العملية";
+      toast.error("فشل تنفيذ العملية", { description: message });
+    } finally {
+      setBatchBusy(false);
+    }
+  };
+
   const deleteTrans = async (id: string) => {
     try {
       setDeletingTransactionId(id);
@@ -198,6 +399,76 @@ export default function AccountingSystem() {
     }
   };
 
+  const submitReversal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reversing || !reverseReason.trim()) return;
+    try {
+      setSavingReversal(true);
+      const { original, reversal } = await reverseTransaction(reversing.id, {
+        reason: reverseReason.trim(),
+      });
+      setTransactions((prev) => [
+        reversal,
+        ...prev.map((t) => (t.id === original.id ? original : t)),
+      ]);
+      setReversing(null);
+      setReverseReason("");
+      toast.success("تم عكس المعاملة");
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر عكس المعاملة";
+      toast.error("فشل عكس المعاملة", { description: message });
+    } finally {
+      setSavingReversal(false);
+    }
+  };
+
+  const openSource = async (t: Transaction) => {
+    try {
+      const { document } = await loadTransactionSource(t.id);
+      if (!document) {
+        toast.error("المستند المصدر غير موجود");
+        return;
+      }
+      if (document.type === "movement") {
+        setActive("inventory");
+        return;
+      }
+      const projectId =
+        document.type === "sale"
+          ? document.sale.projectId
+          : document.type === "cost"
+            ? document.cost.projectId
+            : document.installment.projectId;
+      navigate(`/projects/${projectId}`);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "تعذر فتح المستند المصدر";
+      toast.error("تعذر فتح المستند المصدر", { description: message });
+    }
+  };
+
+  // Reversals are listed directly under the transaction they cancel.
+  const pendingIds = useMemo(
+    () =>
+      transactions
+        .filter((t) => t.approvalStatus === "pending")
+        .map((t) => t.id),
+    [transactions],
+  );
+
+  const orderedTransactions = useMemo(() => {
+    const byId = new Map(transactions.map((t) => [t.id, t]));
+    const ordered: Transaction[] = [];
+    for (const t of transactions) {
+      if (t.reversalOf && byId.has(t.reversalOf)) continue;
+      ordered.push(t);
+      const reversal = t.reversedBy ? byId.get(t.reversedBy) : undefined;
+      if (reversal) ordered.push(reversal);
+    }
+    return ordered;
+  }, [transactions]);
+
   const addItem = async () => {
     if (!newItem.name || !newItem.quantity || !newItem.min) {
       toast.error("الرجاء إدخال بيانات المادة كاملة");
@@ -281,6 +552,7 @@ export default function AccountingSystem() {
         date: receive.date,
         approved: isManager || isAccountant,
         createdBy: user?.id ?? null,
+        moneyAccountId: receive.moneyAccountId || null,
       });
       setItems((prev) =>
         prev.map((i) => (i.id === result.item.id ? result.item : i)),
@@ -298,6 +570,7 @@ export default function AccountingSystem() {
         unitPrice: "",
         supplier: "",
         date: today(),
+        moneyAccountId: "",
       });
     } catch (error) {
       const message =
@@ -452,14 +725,24 @@ export default function AccountingSystem() {
         </div>
         <div className="flex w-full flex-wrap gap-2 justify-center sm:justify-start md:w-auto md:justify-end">
           {(() => {
-            const tabs: (typeof active)[] = [
-              "dashboard",
-              "inventory",
-              "projects",
-            ];
-            if (isManager || isAccountant) tabs.splice(1, 0, "transactions");
-            if (isManager || isAccountant) tabs.push("reports");
-            if (isManager) tabs.push("users");
+            const tabs: Tab[] = ["dashboard", "inventory", "projects"];
+            if (isManager || isAccountant) {
+              tabs.splice(
+                1,
+                0,
+                "transactions",
+                "approvals",
+                "categories",
+                "recurring",
+                "accounts",
+                "reconciliation",
+                "cheques",
+                "lateFees",
+                "customers",
+              );
+            }
+            if (isManager || isAccountant) tabs.push("reports", "periods");
+            if (isManager) tabs.push("audit", "users");
             return tabs.map((tab) => (
               <button
                 key={tab}
@@ -470,17 +753,7 @@ export default function AccountingSystem() {
                     : "border-indigo-300 text-indigo-700"
                 }`}
               >
-                {tab === "dashboard"
-                  ? "لوحة التحكم"
-                  : tab === "transactions"
-                    ? "المعاملات"
-                    : tab === "inventory"
-                      ? "المخزون"
-                      : tab === "projects"
-                        ? "العقارات"
-                        : tab === "reports"
-                          ? "التقارير"
-                          : "المستخدمون"}
+                {TAB_LABELS[tab]}
               </button>
             ));
           })()}
@@ -530,14 +803,20 @@ export default function AccountingSystem() {
             />
           </div>
 
+          <MoneyAccountBalances accounts={moneyAccounts} />
+
           <div className="bg-white border border-slate-200 rounded-xl p-4 shadow-md">
             <h3 className="font-semibold mb-3">إضافة معاملة </h3>
-            <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-5">
+            <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-7">
               <select
                 className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white"
                 value={quick.type}
                 onChange={(e) =>
-                  setQuick({ ...quick, type: e.target.value as TransType })
+                  setQuick({
+                    ...quick,
+                    type: e.target.value as TransType,
+                    categoryId: "",
+                  })
                 }
               >
                 <option value="revenue">إيراد</option>
@@ -563,6 +842,29 @@ export default function AccountingSystem() {
                   setQuick({ ...quick, description: e.target.value })
                 }
               />
+              <select
+                className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white"
+                value={quick.categoryId}
+                onChange={(e) =>
+                  setQuick({ ...quick, categoryId: e.target.value })
+                }
+              >
+                <option value="">بدون تصنيف</option>
+                {categories
+                  .filter((c) => c.active && (!c.type || c.type === quick.type))
+                  .map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name}
+                    </option>
+                  ))}
+              </select>
+              <MoneyAccountSelect
+                accounts={moneyAccounts}
+                value={quick.moneyAccountId}
+                onChange={(moneyAccountId) =>
+                  setQuick({ ...quick, moneyAccountId })
+                }
+              />
             </div>
             <div className="mt-3 flex items-center gap-2">
               <button
@@ -580,6 +882,8 @@ export default function AccountingSystem() {
                     amount: "",
                     description: "",
                     date: today(),
+                    categoryId: "",
+                    moneyAccountId: "",
                   })
                 }
                 className="rounded-md border px-3 py-2 bg-white"
@@ -594,21 +898,117 @@ export default function AccountingSystem() {
       {active === "transactions" && (
         <section className="bg-white border border-slate-200 rounded-xl p-4 shadow">
           <h3 className="font-semibold mb-3">المعاملات المالية</h3>
+          {reversing && (
+            <form
+              onSubmit={submitReversal}
+              className="mb-4 rounded-lg border border-amber-200 bg-amber-50 p-3 space-y-2"
+            >
+              <div className="text-sm">
+                عكس المعاملة: <strong>{reversing.description}</strong> (
+                {reversing.amount.toLocaleString()} ج.م)
+              </div>
+              <input
+                className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2 bg-white"
+                placeholder="سبب العكس (مطلوب)"
+                value={reverseReason}
+                onChange={(e) => setReverseReason(e.target.value)}
+              />
+              <div className="flex gap-2">
+                <button
+                  className="rounded-md bg-amber-600 text-white px-3 py-1 disabled:cursor-not-allowed disabled:opacity-50"
+                  disabled={savingReversal || !reverseReason.trim()}
+                >
+                  {savingReversal ? "جاري العكس..." : "تأكيد العكس"}
+                </button>
+                <button
+                  type="button"
+                  className="rounded-md border px-3 py-1 bg-white"
+                  onClick={() => setReversing(null)}
+                >
+                  إلغاء
+                </button>
+              </div>
+            </form>
+          )}
+          {selectedIds.length > 0 && (
+            <div className="mb-4 flex flex-wrap items-center gap-2 rounded-lg border border-indigo-200 bg-indigo-50 p-3 text-sm">
+              <span>تم تحديد {selectedIds.length} معاملة</span>
+              <button
+                className="rounded-md bg-indigo-600 text-white px-3 py-1 disabled:cursor-not-allowed disabled:opacity-50"
+                onClick={() => void handleBatch("approve")}
+                disabled={batchBusy}
+              >
+                اعتماد المحدد
+              </button>
+              <input
+                className="rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-1 bg-white"
+                placeholder="سبب الرفض"
+                value={batchReason}
+                onChange={(e) => setBatchReason(e.target.value)}
+              />
+              <button
+                className="rounded-md bg-red-600 text-white px-3 py-1 disabled:cursor-not-allowed disabled:opacity-50"
+                onClick={() => void handleBatch("reject")}
+                disabled={batchBusy || !batchReason.trim()}
+              >
+                رفض المحدد
+              </button>
+              <button
+                className="rounded-md border px-3 py-1 bg-white"
+                onClick={() => {
+                  setSelectedIds([]);
+                  setBatchErrors({});
+                }}
+              >
+                إلغاء التحديد
+              </button>
+            </div>
+          )}
           <div className="overflow-x-auto">
             <table className="w-full table-auto border-collapse text-sm text-right">
               <thead>
                 <tr className="text-right bg-slate-50">
+                  <th className="px-3 py-2">
+                    {canEdit && (
+                      <input
+                        type="checkbox"
+                        aria-label="تحديد الكل"
+                        checked={
+                          pendingIds.length > 0 &&
+                          pendingIds.every((id) => selectedIds.includes(id))
+                        }
+                        onChange={(e) =>
+                          setSelectedIds(e.target.checked ? pendingIds : [])
+                        }
+                      />
+                    )}
+                  </th>
                   <th className="px-3 py-2">التاريخ</th>
                   <th className="px-3 py-2">النوع</th>
                   <th className="px-3 py-2">الوصف</th>
+                  <th className="px-3 py-2">التصنيف</th>
+                  <th className="px-3 py-2">المصدر</th>
                   <th className="px-3 py-2">المبلغ</th>
                   <th className="px-3 py-2">الحالة</th>
                   <th className="px-3 py-2"></th>
                 </tr>
               </thead>
               <tbody>
-                {transactions.map((t) => (
-                  <tr key={t.id} className="border-t">
+                {orderedTransactions.map((t) => (
+                  <tr
+                    key={t.id}
+                    className={`border-t ${t.reversalOf ? "bg-slate-50 text-slate-600" : ""}`}
+                  >
+                    <td className="px-3 py-2">
+                      {canEdit && t.approvalStatus === "pending" && (
+                        <input
+                          type="checkbox"
+                          aria-label="تحديد"
+                          checked={selectedIds.includes(t.id)}
+                          onChange={() => toggleSelected(t.id)}
+                        />
+                      )}
+                    </td>
                     <td className="px-3 py-2">{t.date}</td>
                     <td className="px-3 py-2">
                       <span
@@ -621,23 +1021,67 @@ export default function AccountingSystem() {
                         {t.type === "revenue" ? "إيراد" : "مصروف"}
                       </span>
                     </td>
-                    <td className="px-3 py-2">{t.description}</td>
+                    <td className="px-3 py-2">
+                      <span className={t.reversedBy ? "line-through" : ""}>
+                        {t.description}
+                      </span>
+                      {t.reversalOf && t.reversalReason && (
+                        <div className="text-xs text-slate-500">
+                          السبب: {t.reversalReason}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {(t.categoryId && categoryNames.get(t.categoryId)) || "-"}
+                    </td>
+                    <td className="px-3 py-2">
+                      {t.sourceType === "manual" || !t.sourceId ? (
+                        SOURCE_LABELS[t.sourceType]
+                      ) : (
+                        <button
+                          className="text-indigo-600 hover:underline"
+                          onClick={() => void openSource(t)}
+                        >
+                          {SOURCE_LABELS[t.sourceType]}
+                        </button>
+                      )}
+                    </td>
                     <td className="px-3 py-2">
                       {t.amount.toLocaleString()} ج.م
                     </td>
                     <td className="px-3 py-2">
-                      {t.approved ? (
+                      {t.reversalOf ? (
+                        <span className="px-2 py-1 rounded-full text-xs bg-slate-200 text-slate-700">
+                          قيد عكسي
+                        </span>
+                      ) : t.reversedBy ? (
+                        <span className="px-2 py-1 rounded-full text-xs bg-slate-200 text-slate-700">
+                          معكوسة
+                        </span>
+                      ) : t.approved ? (
                         <span className="px-2 py-1 rounded-full text-xs bg-emerald-100 text-emerald-700">
                           معتمد
                         </span>
+                      ) : t.approvalStatus === "rejected" ? (
+                        <span
+                          className="px-2 py-1 rounded-full text-xs bg-red-100 text-red-700"
+                          title={t.rejectionReason ?? undefined}
+                        >
+                          مرفوض: {t.rejectionReason}
+                        </span>
                       ) : (
                         <span className="px-2 py-1 rounded-full text-xs bg-amber-100 text-amber-700">
                           بانتظار الاعتماد
                         </span>
                       )}
+                      {batchErrors[t.id] && (
+                        <div className="text-xs text-red-600 mt-1">
+                          {batchErrors[t.id]}
+                        </div>
+                      )}
                     </td>
                     <td className="px-3 py-2 text-right space-x-2 space-x-reverse">
-                      {isManager && !t.approved && (
+                      {canEdit && t.approvalStatus === "pending" && (
                         <button
                           className="rounded-md bg-indigo-600 text-white px-3 py-1 disabled:cursor-not-allowed disabled:opacity-50"
                           onClick={() => void handleApprove(t.id)}
@@ -646,13 +1090,43 @@ export default function AccountingSystem() {
                           {approvingId === t.id ? "جاري الاعتماد" : "اعتماد"}
                         </button>
                       )}
-                      <button
-                        className="rounded-md bg-red-600 text-white px-3 py-1 disabled:cursor-not-allowed disabled:opacity-50"
-                        onClick={() => void deleteTrans(t.id)}
-                        disabled={deletingTransactionId === t.id}
-                      >
-                        {deletingTransactionId === t.id ? "حذف..." : "حذف"}
-                      </button>
+                      {t.approvalStatus === "rejected" && (
+                        <button
+                          className="rounded-md bg-indigo-600 text-white px-3 py-1 disabled:cursor-not-allowed disabled:opacity-50"
+                          onClick={() => void handleResubmit(t.id)}
+                          disabled={approvingId === t.id}
+                        >
+                          إعادة إرسال
+                        </button>
+                      )}
+                      {canEdit && !t.reversalOf && (
+                        <button
+                          className="rounded-md border border-slate-300 px-3 py-1"
+                          onClick={() => setEditingTransaction(t)}
+                        >
+                          تعديل
+                        </button>
+                      )}
+                      {!t.approved && (
+                        <button
+                          className="rounded-md bg-red-600 text-white px-3 py-1 disabled:cursor-not-allowed disabled:opacity-50"
+                          onClick={() => void deleteTrans(t.id)}
+                          disabled={deletingTransactionId === t.id}
+                        >
+                          {deletingTransactionId === t.id ? "حذف..." : "حذف"}
+                        </button>
+                      )}
+                      {t.approved && !t.reversedBy && !t.reversalOf && (
+                        <button
+                          className="rounded-md bg-amber-600 text-white px-3 py-1"
+                          onClick={() => {
+                            setReversing(t);
+                            setReverseReason("");
+                          }}
+                        >
+                          عكس
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -768,6 +1242,13 @@ export default function AccountingSystem() {
                     setReceive({ ...receive, supplier: e.target.value })
                   }
                 />
+                <MoneyAccountSelect
+                  accounts={moneyAccounts}
+                  value={receive.moneyAccountId}
+                  onChange={(moneyAccountId) =>
+                    setReceive({ ...receive, moneyAccountId })
+                  }
+                />
               </div>
               <button
                 onClick={() => void receiveSubmit()}
@@ -860,6 +1341,14 @@ export default function AccountingSystem() {
                     {i.quantity < i.min ? "مخزون منخفض" : "متوفر"}
                   </div>
                 </div>
+                {canEdit && (
+                  <button
+                    className="w-full rounded-md border border-slate-300 px-3 py-1 sm:w-auto"
+                    onClick={() => setEditingItem(i)}
+                  >
+                    تعديل
+                  </button>
+                )}
                 <button
                   className="w-full rounded-md bg-red-600 px-3 py-1 text-white transition-colors disabled:cursor-not-allowed disabled:opacity-50 sm:w-auto"
                   onClick={() => void deleteItem(i.id)}
@@ -1059,12 +1548,22 @@ export default function AccountingSystem() {
                             {t.profit.toLocaleString()} ج.م
                           </span>
                         </div>
-                        <button
-                          className="rounded-md bg-slate-900 text-white px-3 py-1"
-                          onClick={() => navigate(`/projects/${p.id}`)}
-                        >
-                          فتح
-                        </button>
+                        <div className="flex gap-2">
+                          {canEdit && !p.archivedAt && (
+                            <button
+                              className="rounded-md border border-slate-300 px-3 py-1"
+                              onClick={() => setEditingProject(p)}
+                            >
+                              تعديل
+                            </button>
+                          )}
+                          <button
+                            className="rounded-md bg-slate-900 text-white px-3 py-1"
+                            onClick={() => navigate(`/projects/${p.id}`)}
+                          >
+                            فتح
+                          </button>
+                        </div>
                       </div>
                     </div>
                   );
@@ -1083,6 +1582,7 @@ export default function AccountingSystem() {
       {active === "reports" && (
         <ReportsSection
           transactions={transactions}
+          categories={categories}
           projects={projects}
           items={items}
           costs={costs}
@@ -1090,6 +1590,71 @@ export default function AccountingSystem() {
         />
       )}
 
+      {active === "periods" && (isManager || isAccountant) && (
+        <FiscalPeriods canManage={isManager} />
+      )}
+
+      {active === "approvals" && (isManager || isAccountant) && (
+        <ApprovalsInbox
+          canManageRules={isManager}
+          onDecision={(updated) =>
+            setTransactions((prev) =>
+              prev.map((t) => (t.id === updated.id ? updated : t)),
+            )
+          }
+        />
+      )}
+
+      {active === "categories" && (isManager || isAccountant) && (
+        <Categories
+          categories={categories}
+          canManage={isManager}
+          onCategoriesChange={setCategories}
+          onBackfilled={() => void loadData()}
+        />
+      )}
+
+      {active === "recurring" && (isManager || isAccountant) && (
+        <Recurring
+          categories={categories}
+          onCreated={(created) =>
+            setTransactions((prev) => [...created, ...prev])
+          }
+        />
+      )}
+
+      {active === "accounts" && (isManager || isAccountant) && (
+        <MoneyAccounts
+          accounts={moneyAccounts}
+          canManage={isManager}
+          canTransfer={isManager || isAccountant}
+          onChange={refreshMoneyAccounts}
+        />
+      )}
+
+      {active === "reconciliation" && (isManager || isAccountant) && (
+        <BankReconciliation
+          accounts={moneyAccounts}
+          transactions={transactions}
+          categories={categories}
+          onTransactionCreated={(created) =>
+            setTransactions((prev) => [created, ...prev])
+          }
+        />
+      )}
+
+      {active === "cheques" && (isManager || isAccountant) && (
+        <Cheques accounts={moneyAccounts} onPosted={() => void loadData()} />
+      )}
+
+      {active === "lateFees" && (isManager || isAccountant) && (
+        <LateFees onPosted={() => void loadData()} />
+      )}
+
+      {active === "customers" && (isManager || isAccountant) && <Customers />}
+
+      {active === "audit" && isManager && <AuditLog />}
+
       {active === "users" && (
         <section>
           {isManager ? (
@@ -1101,6 +1666,36 @@ export default function AccountingSystem() {
           )}
         </section>
       )}
+
+      <TransactionEditDialog
+        transaction={editingTransaction}
+        categories={categories}
+        moneyAccounts={moneyAccounts}
+        onClose={() => setEditingTransaction(null)}
+        onSaved={(updated) =>
+          setTransactions((prev) =>
+            prev.map((t) => (t.id === updated.id ? updated : t)),
+          )
+        }
+      />
+      <InventoryItemEditDialog
+        item={editingItem}
+        onClose={() => setEditingItem(null)}
+        onSaved={(updated) =>
+          setItems((prev) =>
+            prev.map((i) => (i.id === updated.id ? updated : i)),
+          )
+        }
+      />
+      <ProjectEditDialog
+        project={editingProject}
+        onClose={() => setEditingProject(null)}
+        onSaved={(updated) =>
+          setProjects((prev) =>
+            prev.map((p) => (p.id === updated.id ? updated : p)),
+          )
+        }
+      />
     </div>
   );
 }
@@ -1138,12 +1733,14 @@ function Stat({
 
 function ReportsSection({
   transactions,
+  categories,
   projects,
   items,
   costs,
   sales,
 }: {
   transactions: Transaction[];
+  categories: TransactionCategory[];
   projects: Project[];
   items: InventoryItem[];
   costs: ProjectCost[];
@@ -1159,10 +1756,70 @@ function ReportsSection({
     ).toLocaleDateString("en-CA"),
   );
   const [dateTo, setDateTo] = useState(() => today());
+  const [categoryFilter, setCategoryFilter] = useState("");
+  const [statement, setStatement] = useState<FinancialStatement | null>(null);
+
+  useEffect(() => {
+    if (!isStatementKind(reportType)) {
+      setStatement(null);
+      return;
+    }
+    let cancelled = false;
+    setStatement(null);
+    fetchStatement(reportType, dateFrom, dateTo, categoryFilter || undefined)
+      .then((data) => {
+        if (!cancelled) setStatement(data);
+      })
+      .catch((error) => {
+        console.error("Failed to load financial statement", error);
+        toast.error("تعذر تحميل القائمة المالية");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reportType, dateFrom, dateTo, categoryFilter]);
 
   const filtered = useMemo(
-    () => transactions.filter((t) => t.date >= dateFrom && t.date <= dateTo),
-    [transactions, dateFrom, dateTo],
+    () =>
+      transactions.filter(
+        (t) =>
+          t.date >= dateFrom &&
+          t.date <= dateTo &&
+          (!categoryFilter || t.categoryId === categoryFilter),
+      ),
+    [transactions, dateFrom, dateTo, categoryFilter],
+  );
+
+  const categoryName = useCallback(
+    (id?: string | null) =>
+      (id && categories.find((c) => c.id === id)?.name) || "بدون تصنيف",
+    [categories],
+  );
+
+  // Detail rows grouped by category, each group closed by its subtotal.
+  const categoryRows = useCallback(
+    (rows: Transaction[]) => {
+      const groups = new Map<string, Transaction[]>();
+      for (const t of rows) {
+        const key = t.categoryId ?? "";
+        groups.set(key, [...(groups.get(key) ?? []), t]);
+      }
+      return [...groups.entries()].flatMap(([id, group]) => [
+        ...group.map((t) => [
+          t.date,
+          categoryName(id),
+          t.description,
+          t.amount.toLocaleString() + " ج.م",
+        ]),
+        [
+          "",
+          `إجمالي ${categoryName(id)}`,
+          "",
+          group.reduce((a, b) => a + b.amount, 0).toLocaleString() + " ج.م",
+        ],
+      ]);
+    },
+    [categoryName],
   );
 
   const formatDateLabel = (d: string) => {
@@ -1180,6 +1837,9 @@ function ReportsSection({
   };
 
   const buildReport = useCallback(() => {
+    if (statement && statement.kind === reportType) {
+      return statementTable(statement);
+    }
     if (reportType === "profit-loss") {
       const rev = filtered
         .filter((t) => t.type === "revenue")
@@ -1187,6 +1847,11 @@ function ReportsSection({
       const exp = filtered
         .filter((t) => t.type === "expense")
         .reduce((a, b) => a + b.amount, 0);
+      const byCategory = new Map<string, number>();
+      for (const t of filtered) {
+        const key = `${t.type}:${t.categoryId ?? ""}`;
+        byCategory.set(key, (byCategory.get(key) ?? 0) + t.amount);
+      }
       return {
         title: "تق��ير الأرباح والخسائر",
         headers: ["البند", "القيمة"],
@@ -1194,40 +1859,36 @@ function ReportsSection({
           ["إجمالي الإيرادات", rev.toLocaleString() + " ج.م"],
           ["إجمالي المصروفات", exp.toLocaleString() + " ج.م"],
           ["صافي الربح", (rev - exp).toLocaleString() + " ج.م"],
+          ...[...byCategory.entries()].map(([key, total]) => {
+            const [type, id] = key.split(":");
+            return [
+              `${type === "revenue" ? "إيرادات" : "مصروفات"}: ${categoryName(id)}`,
+              total.toLocaleString() + " ج.م",
+            ];
+          }),
         ],
       };
     }
     if (reportType === "revenue") {
       return {
         title: "تقرير الإيرادات",
-        headers: ["التاريخ", "الوصف", "المبلغ"],
-        rows: filtered
-          .filter((t) => t.type === "revenue")
-          .map((t) => [
-            t.date,
-            t.description,
-            t.amount.toLocaleString() + " ج.م",
-          ]),
+        headers: ["التاريخ", "التصنيف", "الوصف", "المبلغ"],
+        rows: categoryRows(filtered.filter((t) => t.type === "revenue")),
       };
     }
     if (reportType === "expense") {
       return {
         title: "تقرير المصروفات",
-        headers: ["التاريخ", "الوصف", "المبلغ"],
-        rows: filtered
-          .filter((t) => t.type === "expense")
-          .map((t) => [
-            t.date,
-            t.description,
-            t.amount.toLocaleString() + " ج.م",
-          ]),
+        headers: ["التاريخ", "التصنيف", "الوصف", "المبلغ"],
+        rows: categoryRows(filtered.filter((t) => t.type === "expense")),
       };
     }
     if (reportType === "salary") {
+      const salaries = categories.find(
+        (c) => c.code === SALARIES_CATEGORY_CODE,
+      );
       const sal = filtered.filter(
-        (t) =>
-          t.type === "expense" &&
-          /(راتب|salary|مرتبات|موظف)/i.test(t.description),
+        (t) => t.type === "expense" && t.categoryId === salaries?.id,
       );
       return {
         title: "تقرير المرتبات",
@@ -1239,6 +1900,33 @@ function ReportsSection({
         ]),
       };
     }
+    if (reportType === "source") {
+      const groups = new Map<
+        TransactionSourceType,
+        { count: number; revenue: number; expense: number }
+      >();
+      for (const t of filtered) {
+        const group = groups.get(t.sourceType) ?? {
+          count: 0,
+          revenue: 0,
+          expense: 0,
+        };
+        group.count += 1;
+        if (t.type === "revenue") group.revenue += t.amount;
+        else group.expense += t.amount;
+        groups.set(t.sourceType, group);
+      }
+      return {
+        title: "تقرير المعاملات حسب المصدر",
+        headers: ["المصدر", "عدد المعاملات", "الإيرادات", "المصروفات"],
+        rows: [...groups.entries()].map(([type, group]) => [
+          SOURCE_LABELS[type],
+          String(group.count),
+          group.revenue.toLocaleString() + " ج.م",
+          group.expense.toLocaleString() + " ج.م",
+        ]),
+      };
+    }
     if (reportType === "inventory") {
       const rows = items.map((i) => [
         i.name,
@@ -1286,7 +1974,11 @@ function ReportsSection({
     return { title: "تقرير", headers: [], rows: [] };
   }, [
     reportType,
+    statement,
     filtered,
+    categories,
+    categoryName,
+    categoryRows,
     items,
     projects,
     selectedProject,
@@ -1365,6 +2057,27 @@ function ReportsSection({
             <option value="salary">المرتبات</option>
             <option value="project">تقرير مشروع</option>
             <option value="inventory">تقرير المخزون</option>
+            <option value="source">حسب المصدر</option>
+            <option value="trial-balance">ميزان المراجعة</option>
+            <option value="balance-sheet">الميزانية العمومية</option>
+            <option value="income-statement">قائمة الدخل</option>
+            <option value="receivables-aging">أعمار ديون الأقساط</option>
+          </select>
+        </div>
+
+        <div className="flex flex-col">
+          <label className="text-sm text-slate-600 mb-1">التصنيف</label>
+          <select
+            className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
+            value={categoryFilter}
+            onChange={(e) => setCategoryFilter(e.target.value)}
+          >
+            <option value="">كل التصنيفات</option>
+            {categories.map((c) => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
           </select>
         </div>
 
@@ -1431,32 +2144,48 @@ function ReportsSection({
       <div className="border rounded-lg p-3">
         <div className="font-semibold mb-2">نتيجة التقرير</div>
         <div className="text-sm text-slate-600">
-          الفترة: من {formatDateLabel(dateFrom)} إلى {formatDateLabel(dateTo)}
+          {reportType === "receivables-aging"
+            ? `الأرصدة الحالية معمّرة حتى ${formatDateLabel(dateTo)}`
+            : reportType === "trial-balance" || reportType === "balance-sheet"
+              ? `في تاريخ ${formatDateLabel(dateTo)}`
+              : `الفترة: من ${formatDateLabel(dateFrom)} إلى ${formatDateLabel(dateTo)}`}
         </div>
-        <div className="mt-3 grid md:grid-cols-3 gap-3">
-          <Stat
-            value={transactions
-              .filter((t) => t.type === "revenue")
-              .reduce((a, b) => a + b.amount, 0)}
-            label="إجمالي الإيرادات"
-            color="text-emerald-600"
-          />
-          <Stat
-            value={transactions
-              .filter((t) => t.type === "expense")
-              .reduce((a, b) => a + b.amount, 0)}
-            label="إجمالي المصروفات"
-            color="text-rose-600"
-          />
-          <Stat
-            value={transactions.reduce(
-              (a, b) => (b.type === "revenue" ? a + b.amount : a - b.amount),
-              0,
+        {isStatementKind(reportType) ? (
+          <div className="mt-3">
+            {statement ? (
+              <FinancialStatementView statement={statement} />
+            ) : (
+              <div className="py-6 text-center text-sm text-slate-500">
+                جاري التحميل...
+              </div>
             )}
-            label="صافي الربح (ج.م)"
-            color="text-indigo-700"
-          />
-        </div>
+          </div>
+        ) : (
+          <div className="mt-3 grid md:grid-cols-3 gap-3">
+            <Stat
+              value={transactions
+                .filter((t) => t.type === "revenue")
+                .reduce((a, b) => a + b.amount, 0)}
+              label="إجمالي الإيرادات"
+              color="text-emerald-600"
+            />
+            <Stat
+              value={transactions
+                .filter((t) => t.type === "expense")
+                .reduce((a, b) => a + b.amount, 0)}
+              label="إجمالي المصروفات"
+              color="text-rose-600"
+            />
+            <Stat
+              value={transactions.reduce(
+                (a, b) => (b.type === "revenue" ? a + b.amount : a - b.amount),
+                0,
+              )}
+              label="صافي الربح (ج.م)"
+              color="text-indigo-700"
+            />
+          </div>
+        )}
       </div>
     </section>
   );
@@ -3,17 +3,65 @@ import { useEffect, useMemo, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { useAuth } from "@/providers/AuthProvider";
 import { toast } from "sonner";
+import {
+  ProjectCostEditDialog,
+  ProjectEditDialog,
+  ProjectSaleEditDialog,
+} from "@/components/accounting/EditDialogs";
+import { MoneyAccountSelect } from "@/components/accounting/MoneyAccounts";
+import UnitAvailabilityGrid, {
+  unitLabel,
+} from "@/components/accounting/PropertyUnits";
+import UnitReservations from "@/components/accounting/Reservations";
+import {
+  CustomerPicker,
+  emptyCustomerChoice,
+  isCustomerChosen,
+  resolveCustomerChoice,
+} from "@/components/accounting/Customers";
+import {
+  ChequeIntakeForm,
+  ChequeStatusBadge,
+} from "@/components/accounting/Cheques";
+import {
+  InstallmentPaymentForm,
+  InstallmentPaymentHistory,
+  printReceiptVoucher,
+  remainingOf,
+} from "@/components/accounting/InstallmentPayments";
+import InstallmentPlanEditor, {
+  emptyPlanForm,
+  toInstallmentPlan,
+} from "@/components/accounting/InstallmentPlanEditor";
+import {
+  RescheduleForm,
+  RescheduleHistory,
+  outstandingOf,
+} from "@/components/accounting/InstallmentReschedule";
 import {
   createProjectCost,
   createProjectSale,
   deleteProject,
+  loadCheques,
+  loadCustomers,
+  loadInstallmentReschedules,
+  loadMoneyAccounts,
   loadProjectSnapshot,
+  loadReservations,
   payInstallment,
 } from "@/services/accounting";
 import type {
+  Cheque,
+  Customer,
+  Installment,
+  InstallmentPayment,
+  InstallmentReschedule,
+  MoneyAccount,
   ProjectCost,
   ProjectSale,
   ProjectSnapshot,
+  PropertyUnit,
+  UnitReservation,
 } from "@shared/accounting";
 
 const today = () => new Date().toLocaleDateString("en-CA");
@@ -34,25 +82,112 @@ export default function ProjectPage() {
     date: today(),
     note: "",
     customTypeLabel: "",
+    moneyAccountId: "",
   });
   const [newCost, setNewCost] = useState(makeNewCostState);
   const [savingCost, setSavingCost] = useState(false);
 
   const [newSale, setNewSale] = useState({
-    unitNo: "",
-    buyer: "",
+    unitId: "",
     price: "",
     date: today(),
     terms: "",
     area: "",
     paymentMethod: "كاش",
-    downPayment: "",
-    monthlyAmount: "",
-    months: "",
-    firstDueDate: today(),
+    moneyAccountId: "",
   });
+  const [salePlan, setSalePlan] = useState(emptyPlanForm);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [saleCustomer, setSaleCustomer] = useState(emptyCustomerChoice);
+  const [reservations, setReservations] = useState<UnitReservation[]>([]);
+  const [reserveUnitId, setReserveUnitId] = useState<string>();
+  // The reservation the sale form is converting, if any.
+  const [saleReservation, setSaleReservation] =
+    useState<UnitReservation | null>(null);
   const [savingSale, setSavingSale] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [editingProject, setEditingProject] = useState(false);
+  const [editingCost, setEditingCost] = useState<ProjectCost | null>(null);
+  const [editingSale, setEditingSale] = useState<ProjectSale | null>(null);
+  const [moneyAccounts, setMoneyAccounts] = useState<MoneyAccount[]>([]);
+  const [payAccountId, setPayAccountId] = useState("");
+  const [cheques, setCheques] = useState<Cheque[]>([]);
+  const [chequeFor, setChequeFor] = useState<Installment | null>(null);
+  const [reschedules, setReschedules] = useState<InstallmentReschedule[]>([]);
+  const [rescheduleFor, setRescheduleFor] = useState<ProjectSale | null>(null);
+
+  useEffect(() => {
+    if (!canManage) return;
+    loadMoneyAccounts()
+      .then(setMoneyAccounts)
+      .catch(() => setMoneyAccounts([]));
+  }, [canManage]);
+
+  useEffect(() => {
+    loadCustomers()
+      .then(setCustomers)
+      .catch(() => setCustomers([]));
+  }, []);
+
+  useEffect(() => {
+    if (!canManage || !id) return;
+    loadCheques({ projectId: id })
+      .then(setCheques)
+      .catch(() => setCheques([]));
+    loadInstallmentReschedules(id)
+      .then(setReschedules)
+      .catch(() => setReschedules([]));
+  }, [canManage, id]);
+
+  useEffect(() => {
+    if (!id) return;
+    loadReservations({ projectId: id })
+      .then(setReservations)
+      .catch(() => setReservations([]));
+  }, [id]);
+
+  const applyPayment = (
+    payment: InstallmentPayment,
+    updated: Installment[],
+  ) => {
+    const byId = new Map(updated.map((i) => [i.id, i]));
+    setSnapshot((prev) =>
+      prev
+        ? {
+            ...prev,
+            installments: prev.installments.map((x) => byId.get(x.id) ?? x),
+            payments: [
+              payment,
+              ...prev.payments.filter((p) => p.id !== payment.id),
+            ],
+          }
+        : prev,
+    );
+  };
+
+  const printReceipt = (
+    payment: InstallmentPayment,
+    updated: Installment[],
+  ) => {
+    if (!snapshot) return;
+    const byId = new Map(updated.map((i) => [i.id, i]));
+    printReceiptVoucher(payment, {
+      project: snapshot.project,
+      installments: snapshot.installments.map((x) => byId.get(x.id) ?? x),
+      moneyAccounts,
+    });
+  };
+
+  // The cheque that currently stands for each installment, if any.
+  const chequeByInstallment = useMemo(() => {
+    const map = new Map<string, Cheque>();
+    for (const c of cheques) {
+      if (c.status !== "bounced" || !map.has(c.installmentId)) {
+        map.set(c.installmentId, c);
+      }
+    }
+    return map;
+  }, [cheques]);
 
   useEffect(() => {
     let alive = true;
@@ -123,6 +258,7 @@ export default function ProjectPage() {
         note: newCost.note,
         approved: canManage,
         createdBy: user?.id ?? null,
+        moneyAccountId: newCost.moneyAccountId || null,
       });
       setSnapshot((prev) =>
         prev ? { ...prev, costs: [res.cost, ...prev.costs] } : prev,
@@ -139,57 +275,49 @@ export default function ProjectPage() {
 
   const addSale = async () => {
     if (!snapshot || !id) return;
-    if (!newSale.unitNo || !newSale.buyer || !newSale.price)
+    const unit = snapshot.units.find((u) => u.id === newSale.unitId);
+    if (!unit || !isCustomerChosen(saleCustomer) || !newSale.price)
       return toast.error("أكمل بيانات البيع");
     const price = Number(newSale.price);
     if (!Number.isFinite(price) || price <= 0)
       return toast.error("قيمة غير صحيحة");
 
     const isInstallment = newSale.paymentMethod === "تقسيط";
-    let downPaymentNum: number | null = null;
-    let monthlyAmountNum: number | null = null;
-    let monthsNum: number | null = null;
-    let firstDue = null as string | null;
-    if (isInstallment) {
-      monthlyAmountNum = Number(newSale.monthlyAmount);
-      monthsNum = Number(newSale.months);
-      downPaymentNum = newSale.downPayment ? Number(newSale.downPayment) : 0;
-      firstDue = newSale.firstDueDate;
-      if (
-        !Number.isFinite(monthlyAmountNum) ||
-        monthlyAmountNum! <= 0 ||
-        !Number.isFinite(monthsNum) ||
-        monthsNum! <= 0 ||
-        !firstDue
-      ) {
-        return toast.error("أكمل بيانات التقسيط (المقدم اختياري)");
-      }
-    }
 
     try {
       setSavingSale(true);
+      // Only approvers may add customers; anyone else records the name alone.
+      const linked =
+        saleCustomer.customerId || canManage
+          ? await resolveCustomerChoice(saleCustomer, customers)
+          : null;
+      if (linked?.created) setCustomers((prev) => [...prev, linked.customer]);
       const res = await createProjectSale({
         projectId: id,
         projectName: snapshot.project.name,
-        unitNo: newSale.unitNo,
-        buyer: newSale.buyer,
+        unitNo: unit.unitNo,
+        unitId: unit.id,
+        buyer: linked?.customer.name ?? saleCustomer.name,
+        customerId: linked?.customer.id ?? null,
+        reservationId: saleReservation?.id ?? null,
         price,
         date: newSale.date,
         terms: newSale.terms || null,
         area: newSale.area || null,
         paymentMethod: newSale.paymentMethod || null,
-        downPayment: isInstallment ? downPaymentNum : null,
-        monthlyAmount: isInstallment ? monthlyAmountNum : null,
-        months: isInstallment ? monthsNum : null,
-        firstDueDate: isInstallment ? firstDue : null,
+        plan: isInstallment ? toInstallmentPlan(salePlan) : null,
         approved: canManage,
         createdBy: user?.id ?? null,
+        moneyAccountId: newSale.moneyAccountId || null,
       });
       setSnapshot((prev) =>
         prev
           ? {
               ...prev,
               sales: [res.sale, ...prev.sales],
+              units: prev.units.map((u) =>
+                u.id === res.sale.unitId ? { ...u, status: "sold" } : u,
+              ),
               installments:
                 res.installments && res.installments.length
                   ? [...res.installments, ...prev.installments]
@@ -198,18 +326,26 @@ export default function ProjectPage() {
           : prev,
       );
       setNewSale({
-        unitNo: "",
-        buyer: "",
+        unitId: "",
         price: "",
         date: today(),
         terms: "",
         area: "",
         paymentMethod: "كاش",
-        downPayment: "",
-        monthlyAmount: "",
-        months: "",
-        firstDueDate: today(),
+        moneyAccountId: "",
       });
+      setSaleCustomer(emptyCustomerChoice());
+      setSalePlan(emptyPlanForm());
+      if (saleReservation) {
+        setReservations((prev) =>
+          prev.map((r) =>
+            r.id === saleReservation.id
+              ? { ...r, status: "converted", saleId: res.sale.id }
+              : r,
+          ),
+        );
+        setSaleReservation(null);
+      }
       toast.success("تم تسجيل البيع وإصدار الفاتورة");
       printInvoice(res.sale.id);
     } catch (e) {
@@ -242,13 +378,34 @@ export default function ProjectPage() {
     win.document.close();
   };
 
+  // Edits can touch generated transactions and installments, so reload.
+  const reloadSnapshot = async () => {
+    if (!id) return;
+    try {
+      setSnapshot(await loadProjectSnapshot(id));
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : "فشل التحميل";
+      toast.error("تعذر تحميل المشروع", { description: msg });
+    }
+  };
+
   const handleDelete = async () => {
     if (!id) return;
     if (!confirm("هل أنت متأكد من حذف المشروع؟")) return;
     try {
       setDeleting(true);
-      await deleteProject(id);
-      toast.success("تم حذف المشروع");
+      const result = await deleteProject(id);
+      if (result.outcome === "archived") {
+        toast.success("تمت أرشفة المشروع", {
+          description: `توجد قيود معتمدة مرتبطة بالمشروع، فتم عكس ${result.reversed.length} معاملة بدلاً من الحذف`,
+        });
+      } else {
+        toast.success("تم حذف المشروع", {
+          description: result.removedTransactionIds.length
+            ? `وحذف ${result.removedTransactionIds.length} معاملة غير معتمدة مرتبطة به`
+            : undefined,
+        });
+      }
       navigate("/dashboard", { replace: true });
     } catch (e) {
       const msg = e instanceof Error ? e.message : "تعذر الحذف";
@@ -285,6 +442,36 @@ export default function ProjectPage() {
   };
 
   const p = snapshot.project;
+  const availableUnits = snapshot.units.filter(
+    (u) => u.status === "available" || u.id === saleReservation?.unitId,
+  );
+
+  const pickSaleUnit = (unit: PropertyUnit) => {
+    if (unit.id !== saleReservation?.unitId) setSaleReservation(null);
+    setNewSale((prev) => ({
+      ...prev,
+      unitId: unit.id,
+      price: unit.listPrice ? String(unit.listPrice) : prev.price,
+      area: unit.area ? String(unit.area) : prev.area,
+    }));
+  };
+
+  const convertReservation = (reservation: UnitReservation) => {
+    const unit = snapshot.units.find((u) => u.id === reservation.unitId);
+    if (!unit) return;
+    setSaleReservation(reservation);
+    setNewSale((prev) => ({
+      ...prev,
+      unitId: unit.id,
+      price: unit.listPrice ? String(unit.listPrice) : prev.price,
+      area: unit.area ? String(unit.area) : prev.area,
+    }));
+    setSaleCustomer({
+      ...emptyCustomerChoice(),
+      customerId: reservation.customerId ?? "",
+      name: reservation.customerId ? "" : reservation.buyer,
+    });
+  };
 
   return (
     <Layout>
@@ -293,6 +480,11 @@ export default function ProjectPage() {
           <div>
             <h1 className="text-2xl font-extrabold">{p.name}</h1>
             <div className="text-slate-600 text-sm">{p.location}</div>
+            {p.archivedAt && (
+              <span className="mt-1 inline-block rounded-full bg-slate-200 px-2 py-0.5 text-xs text-slate-700">
+                مشروع مؤرشف
+              </span>
+            )}
           </div>
           <div className="flex items-center gap-2">
             <button
@@ -301,16 +493,56 @@ export default function ProjectPage() {
             >
               رجوع
             </button>
+            {canManage && !p.archivedAt && (
+              <button
+                className="rounded-md border px-3 py-2"
+                onClick={() => setEditingProject(true)}
+              >
+                تعديل
+              </button>
+            )}
             <button
               className="rounded-md bg-red-600 text-white px-3 py-2 disabled:opacity-50"
               onClick={() => void handleDelete()}
-              disabled={deleting}
+              disabled={deleting || Boolean(p.archivedAt)}
             >
               {deleting ? "حذف..." : "حذف المشروع"}
             </button>
           </div>
         </div>
 
+        <UnitAvailabilityGrid
+          project={p}
+          units={snapshot.units}
+          canManage={canManage}
+          onChange={(units) =>
+            setSnapshot((prev) => (prev ? { ...prev, units } : prev))
+          }
+          onSell={canManage ? pickSaleUnit : undefined}
+          onReserve={
+            canManage ? (unit) => setReserveUnitId(unit.id) : undefined
+          }
+        />
+
+        <UnitReservations
+          project={p}
+          units={snapshot.units}
+          reservations={reservations}
+          customers={customers}
+          moneyAccounts={moneyAccounts}
+          canManage={canManage}
+          agentName={user?.name ?? ""}
+          reserveUnitId={reserveUnitId}
+          onChange={setReservations}
+          onUnitsChange={(units) =>
+            setSnapshot((prev) => (prev ? { ...prev, units } : prev))
+          }
+          onCustomerCreated={(customer) =>
+            setCustomers((prev) => [...prev, customer])
+          }
+          onConvert={convertReservation}
+        />
+
         <div className="grid gap-4 sm:grid-cols-2">
           <div className="bg-white border border-slate-200 rounded-xl p-4 shadow">
             <h3 className="font-semibold mb-3">تسجيل تكلفة للمشروع</h3>
@@ -372,6 +604,13 @@ export default function ProjectPage() {
                   setNewCost({ ...newCost, note: e.target.value })
                 }
               />
+              <MoneyAccountSelect
+                accounts={moneyAccounts}
+                value={newCost.moneyAccountId}
+                onChange={(moneyAccountId) =>
+                  setNewCost({ ...newCost, moneyAccountId })
+                }
+              />
               <div className="flex gap-2">
                 <button
                   onClick={() => void addCost()}
@@ -394,14 +633,27 @@ export default function ProjectPage() {
             <h3 className="font-semibold mb-3">تسجيل بيع وإصدار فاتورة</h3>
             <div className="grid gap-3">
               <div className="grid grid-cols-2 gap-3">
-                <input
+                <select
                   className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
-                  placeholder="رقم الوحدة"
-                  value={newSale.unitNo}
-                  onChange={(e) =>
-                    setNewSale({ ...newSale, unitNo: e.target.value })
-                  }
-                />
+                  value={newSale.unitId}
+                  onChange={(e) => {
+                    const unit = snapshot.units.find(
+                      (u) => u.id === e.target.value,
+                    );
+                    if (unit) pickSaleUnit(unit);
+                    else {
+                      setSaleReservation(null);
+                      setNewSale({ ...newSale, unitId: "" });
+                    }
+                  }}
+                >
+                  <option value="">اختر الوحدة</option>
+                  {availableUnits.map((u) => (
+                    <option key={u.id} value={u.id}>
+                      {unitLabel(u)}
+                    </option>
+                  ))}
+                </select>
                 <input
                   className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
                   placeholder="السعر"
@@ -411,24 +663,25 @@ export default function ProjectPage() {
                   }
                 />
               </div>
-              <div className="grid grid-cols-2 gap-3">
-                <input
-                  className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
-                  placeholder="اسم المشتري"
-                  value={newSale.buyer}
-                  onChange={(e) =>
-                    setNewSale({ ...newSale, buyer: e.target.value })
-                  }
-                />
-                <input
-                  type="date"
-                  className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
-                  value={newSale.date}
-                  onChange={(e) =>
-                    setNewSale({ ...newSale, date: e.target.value })
-                  }
-                />
-              </div>
+              <CustomerPicker
+                customers={customers}
+                value={saleCustomer}
+                onChange={setSaleCustomer}
+              />
+              {saleReservation && (
+                <div className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                  تحويل حجز {saleReservation.buyer}: يُخصم العربون{" "}
+                  {saleReservation.deposit.toLocaleString()} ج.م من المقدم.
+                </div>
+              )}
+              <input
+                type="date"
+                className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
+                value={newSale.date}
+                onChange={(e) =>
+                  setNewSale({ ...newSale, date: e.target.value })
+                }
+              />
 
               <div className="grid grid-cols-2 gap-3">
                 <input
@@ -452,40 +705,12 @@ export default function ProjectPage() {
               </div>
 
               {newSale.paymentMethod === "تقسيط" && (
-                <div className="grid gap-3 md:grid-cols-2">
-                  <input
-                    className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
-                    placeholder="المقدم (اختياري)"
-                    value={newSale.downPayment}
-                    onChange={(e) =>
-                      setNewSale({ ...newSale, downPayment: e.target.value })
-                    }
-                  />
-                  <input
-                    className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
-                    placeholder="قيمة القسط الشهري"
-                    value={newSale.monthlyAmount}
-                    onChange={(e) =>
-                      setNewSale({ ...newSale, monthlyAmount: e.target.value })
-                    }
-                  />
-                  <input
-                    className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
-                    placeholder="عدد الأشهر"
-                    value={newSale.months}
-                    onChange={(e) =>
-                      setNewSale({ ...newSale, months: e.target.value })
-                    }
-                  />
-                  <input
-                    type="date"
-                    className="w-full rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-2"
-                    value={newSale.firstDueDate}
-                    onChange={(e) =>
-                      setNewSale({ ...newSale, firstDueDate: e.target.value })
-                    }
-                  />
-                </div>
+                <InstallmentPlanEditor
+                  price={Number(newSale.price)}
+                  date={newSale.date}
+                  value={salePlan}
+                  onChange={setSalePlan}
+                />
               )}
 
               <input
@@ -496,6 +721,13 @@ export default function ProjectPage() {
                   setNewSale({ ...newSale, terms: e.target.value })
                 }
               />
+              <MoneyAccountSelect
+                accounts={moneyAccounts}
+                value={newSale.moneyAccountId}
+                onChange={(moneyAccountId) =>
+                  setNewSale({ ...newSale, moneyAccountId })
+                }
+              />
               <div className="flex gap-2">
                 <button
                   onClick={() => void addSale()}
@@ -505,15 +737,16 @@ export default function ProjectPage() {
                   {savingSale ? "جاري التسجيل..." : "تسجيل البيع + فاتورة"}
                 </button>
                 <button
-                  onClick={() =>
+                  onClick={() => {
                     setNewSale({
-                      unitNo: "",
-                      buyer: "",
+                      unitId: "",
                       price: "",
                       date: today(),
                       terms: "",
-                    })
-                  }
+                    });
+                    setSaleCustomer(emptyCustomerChoice());
+                    setSaleReservation(null);
+                  }}
                   className="rounded-md border px-3 py-2 bg-white"
                 >
                   إعادة تعيين
@@ -534,6 +767,7 @@ export default function ProjectPage() {
                     <th className="px-3 py-2">النوع</th>
                     <th className="px-3 py-2">المبلغ</th>
                     <th className="px-3 py-2">ملاحظة</th>
+                    <th className="px-3 py-2"></th>
                   </tr>
                 </thead>
                 <tbody>
@@ -543,6 +777,16 @@ export default function ProjectPage() {
                       <td className="px-3 py-2">{getCostTypeLabel(c)}</td>
                       <td className="px-3 py-2">{c.amount.toLocaleString()}</td>
                       <td className="px-3 py-2">{c.note}</td>
+                      <td className="px-3 py-2 text-right">
+                        {canManage && !p.archivedAt && (
+                          <button
+                            className="rounded-md border px-3 py-1"
+                            onClick={() => setEditingCost(c)}
+                          >
+                            تعديل
+                          </button>
+                        )}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -574,13 +818,35 @@ export default function ProjectPage() {
                       <td className="px-3 py-2">{s.area ?? "-"}</td>
                       <td className="px-3 py-2">{s.paymentMethod ?? "-"}</td>
                       <td className="px-3 py-2">{s.price.toLocaleString()}</td>
-                      <td className="px-3 py-2 text-right">
+                      <td className="px-3 py-2 text-right space-x-2 space-x-reverse">
+                        {canManage && !p.archivedAt && (
+                          <button
+                            className="rounded-md border px-3 py-1"
+                            onClick={() => setEditingSale(s)}
+                          >
+                            تعديل
+                          </button>
+                        )}
                         <button
                           className="rounded-md bg-slate-900 text-white px-3 py-1"
                           onClick={() => printInvoice(s.id)}
                         >
                           فاتورة
                         </button>
+                        {canManage &&
+                          !p.archivedAt &&
+                          outstandingOf(
+                            snapshot.installments.filter(
+                              (i) => i.saleId === s.id,
+                            ),
+                          ) > 0 && (
+                            <button
+                              className="rounded-md border px-3 py-1"
+                              onClick={() => setRescheduleFor(s)}
+                            >
+                              إعادة جدولة
+                            </button>
+                          )}
                       </td>
                     </tr>
                   ))}
@@ -591,7 +857,31 @@ export default function ProjectPage() {
         </div>
 
         <div className="bg-white border border-slate-200 rounded-xl p-4 shadow">
-          <h3 className="font-semibold mb-3">خطة الأقساط</h3>
+          <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+            <h3 className="font-semibold">خطة الأقساط</h3>
+            {canManage && (
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                التحصيل في
+                <MoneyAccountSelect
+                  accounts={moneyAccounts}
+                  value={payAccountId}
+                  onChange={setPayAccountId}
+                  className="rounded-md border-2 border-slate-200 focus:border-indigo-500 outline-none px-3 py-1 bg-white"
+                />
+              </label>
+            )}
+          </div>
+          {canManage && (
+            <InstallmentPaymentForm
+              sales={snapshot.sales}
+              installments={snapshot.installments}
+              moneyAccounts={moneyAccounts}
+              onPaid={(result) => {
+                applyPayment(result.payment, result.installments);
+                printReceipt(result.payment, result.installments);
+              }}
+            />
+          )}
           {snapshot.installments && snapshot.installments.length ? (
             <div className="overflow-x-auto">
               <table className="w-full table-auto border-collapse text-sm text-right">
@@ -601,6 +891,7 @@ export default function ProjectPage() {
                     <th className="px-3 py-2">المبلغ</th>
                     <th className="px-3 py-2">الوحدة</th>
                     <th className="px-3 py-2">المشتري</th>
+                    <th className="px-3 py-2">المتبقي</th>
                     <th className="px-3 py-2">الحالة</th>
                     <th className="px-3 py-2"></th>
                   </tr>
@@ -611,32 +902,63 @@ export default function ProjectPage() {
                       <td className="px-3 py-2">{inst.dueDate}</td>
                       <td className="px-3 py-2">
                         {inst.amount.toLocaleString()}
+                        {inst.kind === "fee" && (
+                          <span className="mr-1 text-xs text-rose-600">
+                            (رسوم)
+                          </span>
+                        )}
                       </td>
                       <td className="px-3 py-2">{inst.unitNo}</td>
                       <td className="px-3 py-2">{inst.buyer}</td>
                       <td className="px-3 py-2">
-                        {inst.paid ? "مسدد" : "غير مسدد"}
+                        {remainingOf(inst).toLocaleString()}
                       </td>
-                      <td className="px-3 py-2 text-right">
+                      <td className="px-3 py-2">
+                        {inst.paid
+                          ? "مسدد"
+                          : inst.paidAmount > 0
+                            ? `مسدد جزئياً (${inst.paidAmount.toLocaleString()})`
+                            : "غير مسدد"}
+                        {chequeByInstallment.has(inst.id) && (
+                          <div className="mt-1 text-xs text-slate-500">
+                            شيك {chequeByInstallment.get(inst.id)!.number}{" "}
+                            <ChequeStatusBadge
+                              status={chequeByInstallment.get(inst.id)!.status}
+                            />
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right space-x-2 space-x-reverse">
+                        {!inst.paid &&
+                          canManage &&
+                          !["received", "deposited"].includes(
+                            chequeByInstallment.get(inst.id)?.status ?? "",
+                          ) && (
+                            <button
+                              className="rounded-md border px-3 py-1"
+                              onClick={() => setChequeFor(inst)}
+                            >
+                              شيك
+                            </button>
+                          )}
                         {!inst.paid && (
                           <button
                             className="rounded-md bg-emerald-600 text-white px-3 py-1"
                             onClick={async () => {
                               try {
-                                const r = await payInstallment(inst.id);
-                                setSnapshot((prev) =>
-                                  prev
-                                    ? {
-                                        ...prev,
-                                        installments: prev.installments.map(
-                                          (x) =>
-                                            x.id === inst.id
-                                              ? r.installment
-                                              : x,
-                                        ),
-                                      }
-                                    : prev,
+                                // Same key for the same balance, so a double
+                                // click settles the installment only once.
+                                const r = await payInstallment(
+                                  inst.id,
+                                  undefined,
+                                  payAccountId || null,
+                                  undefined,
+                                  `pay:${inst.id}:${inst.paidAmount}`,
                                 );
+                                applyPayment(r.payment, [r.installment]);
+                                if (!r.replayed) {
+                                  printReceipt(r.payment, [r.installment]);
+                                }
                                 toast.success("تم تسجيل سداد القسط");
                               } catch (e) {
                                 const msg =
@@ -661,6 +983,59 @@ export default function ProjectPage() {
           ) : (
             <div className="text-sm text-slate-500">لا توجد أقساط مسجلة.</div>
           )}
+          <InstallmentPaymentHistory
+            project={snapshot.project}
+            payments={snapshot.payments ?? []}
+            installments={snapshot.installments}
+            moneyAccounts={moneyAccounts}
+          />
+          <RescheduleHistory reschedules={reschedules} />
+          {rescheduleFor && (
+            <div className="mt-4 rounded-lg border border-indigo-200 bg-indigo-50 p-3">
+              <RescheduleForm
+                key={rescheduleFor.id}
+                sale={rescheduleFor}
+                installments={snapshot.installments.filter(
+                  (i) => i.saleId === rescheduleFor.id,
+                )}
+                onRescheduled={(result) => {
+                  setSnapshot((prev) =>
+                    prev
+                      ? {
+                          ...prev,
+                          installments: [
+                            ...prev.installments.filter(
+                              (i) => i.saleId !== rescheduleFor.id,
+                            ),
+                            ...result.installments,
+                          ].sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+                        }
+                      : prev,
+                  );
+                  setReschedules((prev) => [result.reschedule, ...prev]);
+                  setRescheduleFor(null);
+                }}
+                onCancel={() => setRescheduleFor(null)}
+              />
+            </div>
+          )}
+          {chequeFor && (
+            <div className="mt-4 rounded-lg border border-indigo-200 bg-indigo-50 p-3 space-y-2">
+              <div className="text-sm font-medium">
+                شيك لقسط {chequeFor.dueDate} -{" "}
+                {chequeFor.amount.toLocaleString()} ج.م ({chequeFor.buyer})
+              </div>
+              <ChequeIntakeForm
+                key={chequeFor.id}
+                installment={chequeFor}
+                onRegistered={(cheque) => {
+                  setCheques((prev) => [...prev, cheque]);
+                  setChequeFor(null);
+                }}
+                onCancel={() => setChequeFor(null)}
+              />
+            </div>
+          )}
         </div>
 
         <div className="rounded-lg border p-4 bg-white">
@@ -687,6 +1062,30 @@ export default function ProjectPage() {
           </div>
         </div>
       </div>
+
+      <ProjectEditDialog
+        project={editingProject ? p : null}
+        onClose={() => setEditingProject(false)}
+        onSaved={(updated) =>
+          setSnapshot((prev) => (prev ? { ...prev, project: updated } : prev))
+        }
+      />
+      <ProjectCostEditDialog
+        cost={editingCost}
+        onClose={() => setEditingCost(null)}
+        onSaved={() => void reloadSnapshot()}
+      />
+      <ProjectSaleEditDialog
+        sale={editingSale}
+        customers={customers}
+        units={snapshot.units}
+        hasInstallments={Boolean(
+          editingSale &&
+          snapshot.installments?.some((i) => i.saleId === editingSale.id),
+        )}
+        onClose={() => setEditingSale(null)}
+        onSaved={() => void reloadSnapshot()}
+      />
     </Layout>
   );
 }
@@ -2,21 +2,106 @@ import { apiUrl } from "@/lib/api";
 import { getToken } from "./auth";
 import type {
   AccountingSnapshot,
+  ApprovalInboxItem,
+  ApprovalRule,
+  ApprovalRuleInput,
+  AuditLogEntry,
+  AuditLogQuery,
+  BankReconciliationReport,
+  BankStatementImportInput,
+  BankStatementImportResult,
+  BankStatementLine,
+  BankStatementLineStatus,
+  CategoryAssignment,
+  CategoryBackfillResult,
+  CategorySuggestion,
+  Cheque,
+  ChequeActionResult,
+  ChequeBounceInput,
+  ChequeCreateInput,
+  ChequeQuery,
+  Customer,
+  CustomerInput,
+  CustomerStatement,
+  InstallmentPayment,
+  InstallmentPaymentInput,
+  InstallmentPaymentResult,
+  InstallmentPlanPreview,
+  InstallmentPlanPreviewInput,
+  InstallmentReschedule,
+  InstallmentRescheduleInput,
+  InstallmentRescheduleResult,
   InventoryIssueInput,
   InventoryItem,
   InventoryItemCreateInput,
+  InventoryItemUpdateInput,
   InventoryMovementResult,
   InventoryReceiptInput,
+  LateFee,
+  LateFeeAccrualResult,
+  LateFeePolicy,
+  LateFeePolicyInput,
+  LateFeeQuery,
+  LateFeeWaiveInput,
+  MoneyAccount,
+  MoneyAccountCreateInput,
+  MoneyAccountStatement,
+  MoneyAccountUpdateInput,
+  MoneyTransfer,
+  MoneyTransferInput,
   Project,
   ProjectCostCreateInput,
   ProjectCostCreateResult,
+  ProjectCostUpdateInput,
+  ProjectCostUpdateResult,
   ProjectCreateInput,
+  ProjectDeleteResult,
   ProjectSaleCreateInput,
   ProjectSaleCreateResult,
+  ProjectSaleUpdateInput,
+  ProjectSaleUpdateResult,
+  ProjectUpdateInput,
   ProjectSnapshot,
+  PropertyUnit,
+  PropertyUnitGenerateInput,
+  PropertyUnitGenerateResult,
+  PropertyUnitInput,
+  PropertyUnitUpdateInput,
+  RecurringRunResult,
+  RecurringTemplate,
+  RecurringTemplateInput,
+  RecurringTemplateUpdateInput,
   Transaction,
+  TransactionBatchInput,
+  TransactionBatchResult,
+  TransactionCategory,
+  TransactionCategoryInput,
+  TransactionCategoryUpdateInput,
   TransactionCreateInput,
+  TransactionReverseInput,
+  TransactionReverseResult,
+  TransactionSourceResult,
+  TransactionSourceType,
+  TransactionUpdateInput,
   Installment,
+  JournalEntry,
+  JournalEntryCreateInput,
+  BalanceSheetReport,
+  FiscalPeriod,
+  FiscalPeriodEvent,
+  FiscalYear,
+  FiscalYearCreateInput,
+  IncomeStatementReport,
+  JournalQuery,
+  LedgerAccount,
+  LedgerAccountCreateInput,
+  ReceivablesAgingReport,
+  TrialBalanceReport,
+  UnitReservation,
+  UnitReservationCancelInput,
+  UnitReservationCreateInput,
+  UnitReservationQuery,
+  UnitReservationResult,
 } from "@shared/accounting";
 
 function authHeaders() {
@@ -63,6 +148,76 @@ export async function approveTransaction(id: string): Promise<Transaction> {
   });
 }
 
+export async function rejectTransaction(
+  id: string,
+  reason: string,
+): Promise<Transaction> {
+  return request<Transaction>(`/api/accounting/transactions/${id}/reject`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ reason }),
+  });
+}
+
+export async function decideTransactions(
+  input: TransactionBatchInput,
+): Promise<TransactionBatchResult> {
+  return request<TransactionBatchResult>("/api/accounting/transactions/batch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function resubmitTransaction(id: string): Promise<Transaction> {
+  return request<Transaction>(`/api/accounting/transactions/${id}/resubmit`, {
+    method: "POST",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function loadApprovalInbox(): Promise<ApprovalInboxItem[]> {
+  return request<ApprovalInboxItem[]>(`/api/accounting/approvals/inbox`, {
+    method: "GET",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function loadApprovalRules(): Promise<ApprovalRule[]> {
+  return request<ApprovalRule[]>(`/api/accounting/approval-rules`, {
+    method: "GET",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function createApprovalRule(
+  input: ApprovalRuleInput,
+): Promise<ApprovalRule> {
+  return request<ApprovalRule>(`/api/accounting/approval-rules`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function deleteApprovalRule(id: string): Promise<void> {
+  await request<void>(`/api/accounting/approval-rules/${id}`, {
+    method: "DELETE",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function updateTransaction(
+  id: string,
+  input: TransactionUpdateInput,
+): Promise<Transaction> {
+  return request<Transaction>(`/api/accounting/transactions/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
 export async function deleteTransaction(id: string): Promise<void> {
   await request<void>(`/api/accounting/transactions/${id}`, {
     method: "DELETE",
@@ -70,6 +225,45 @@ export async function deleteTransaction(id: string): Promise<void> {
   });
 }
 
+export async function reverseTransaction(
+  id: string,
+  input: TransactionReverseInput,
+): Promise<TransactionReverseResult> {
+  return request<TransactionReverseResult>(
+    `/api/accounting/transactions/${id}/reverse`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(input),
+    },
+  );
+}
+
+export async function loadTransactionSource(
+  id: string,
+): Promise<TransactionSourceResult> {
+  return request<TransactionSourceResult>(
+    `/api/accounting/transactions/${id}/source`,
+    {
+      method: "GET",
+      headers: { ...authHeaders() },
+    },
+  );
+}
+
+export async function loadSourceTransactions(
+  type: TransactionSourceType,
+  id: string,
+): Promise<Transaction[]> {
+  return request<Transaction[]>(
+    `/api/accounting/sources/${type}/${id}/transactions`,
+    {
+      method: "GET",
+      headers: { ...authHeaders() },
+    },
+  );
+}
+
 export async function createInventoryItem(
   input: InventoryItemCreateInput,
 ): Promise<InventoryItem> {
@@ -80,6 +274,17 @@ export async function createInventoryItem(
   });
 }
 
+export async function updateInventoryItem(
+  id: string,
+  input: InventoryItemUpdateInput,
+): Promise<InventoryItem> {
+  return request<InventoryItem>(`/api/accounting/inventory/items/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
 export async function deleteInventoryItem(id: string): Promise<void> {
   await request<void>(`/api/accounting/inventory/items/${id}`, {
     method: "DELETE",
@@ -156,6 +361,19 @@ export async function createProjectSale(
   );
 }
 
+export async function previewInstallmentPlan(
+  input: InstallmentPlanPreviewInput,
+): Promise<InstallmentPlanPreview> {
+  return request<InstallmentPlanPreview>(
+    "/api/accounting/installment-plans/preview",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(input),
+    },
+  );
+}
+
 export async function loadProjectSnapshot(
   id: string,
 ): Promise<ProjectSnapshot | null> {
@@ -172,8 +390,41 @@ export async function loadProjectSnapshot(
   }
 }
 
-export async function deleteProject(id: string): Promise<void> {
-  await request<void>(`/api/accounting/projects/${id}`, {
+export async function updateProject(
+  id: string,
+  input: ProjectUpdateInput,
+): Promise<Project> {
+  return request<Project>(`/api/accounting/projects/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateProjectCost(
+  id: string,
+  input: ProjectCostUpdateInput,
+): Promise<ProjectCostUpdateResult> {
+  return request<ProjectCostUpdateResult>(`/api/accounting/costs/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateProjectSale(
+  id: string,
+  input: ProjectSaleUpdateInput,
+): Promise<ProjectSaleUpdateResult> {
+  return request<ProjectSaleUpdateResult>(`/api/accounting/sales/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function deleteProject(id: string): Promise<ProjectDeleteResult> {
+  return request<ProjectDeleteResult>(`/api/accounting/projects/${id}`, {
     method: "DELETE",
     headers: { ...authHeaders() },
   });
@@ -182,13 +433,670 @@ export async function deleteProject(id: string): Promise<void> {
 export async function payInstallment(
   id: string,
   date?: string,
-): Promise<{ installment: Installment; transaction: Transaction }> {
-  return request<{ installment: Installment; transaction: Transaction }>(
-    `/api/accounting/installments/${id}/pay`,
+  moneyAccountId?: string | null,
+  amount?: number | null,
+  idempotencyKey?: string,
+): Promise<{
+  installment: Installment;
+  transaction: Transaction;
+  payment: InstallmentPayment;
+  replayed?: boolean;
+}> {
+  return request<{
+    installment: Installment;
+    transaction: Transaction;
+    payment: InstallmentPayment;
+    replayed?: boolean;
+  }>(`/api/accounting/installments/${id}/pay`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+      ...authHeaders(),
+    },
+    body: JSON.stringify({ date, moneyAccountId, amount }),
+  });
+}
+
+export async function paySaleInstallments(
+  saleId: string,
+  input: InstallmentPaymentInput,
+): Promise<InstallmentPaymentResult> {
+  const { idempotencyKey, ...body } = input;
+  return request<InstallmentPaymentResult>(
+    `/api/accounting/sales/${saleId}/payments`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {}),
+        ...authHeaders(),
+      },
+      body: JSON.stringify(body),
+    },
+  );
+}
+
+export async function loadCheques(query: ChequeQuery = {}): Promise<Cheque[]> {
+  return request<Cheque[]>(
+    `/api/accounting/cheques${toQueryString({ ...query })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function registerCheque(
+  input: ChequeCreateInput,
+): Promise<Cheque> {
+  return request<Cheque>("/api/accounting/cheques", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function depositCheque(
+  id: string,
+  moneyAccountId: string,
+  date?: string,
+): Promise<Cheque> {
+  return request<Cheque>(`/api/accounting/cheques/${id}/deposit`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ moneyAccountId, date }),
+  });
+}
+
+export async function clearCheque(
+  id: string,
+  date?: string,
+): Promise<ChequeActionResult> {
+  return request<ChequeActionResult>(`/api/accounting/cheques/${id}/clear`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ date }),
+  });
+}
+
+export async function bounceCheque(
+  id: string,
+  input: ChequeBounceInput,
+): Promise<ChequeActionResult> {
+  return request<ChequeActionResult>(`/api/accounting/cheques/${id}/bounce`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function loadLateFeePolicy(): Promise<LateFeePolicy> {
+  return request<LateFeePolicy>("/api/accounting/late-fees/policy", {
+    method: "GET",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function saveLateFeePolicy(
+  input: LateFeePolicyInput,
+): Promise<LateFeePolicy> {
+  return request<LateFeePolicy>("/api/accounting/late-fees/policy", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function loadLateFees(
+  query: LateFeeQuery = {},
+): Promise<LateFee[]> {
+  return request<LateFee[]>(
+    `/api/accounting/late-fees${toQueryString({ ...query })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function accrueLateFees(
+  asOf?: string,
+): Promise<LateFeeAccrualResult> {
+  return request<LateFeeAccrualResult>("/api/accounting/late-fees/accrue", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ asOf }),
+  });
+}
+
+export async function waiveLateFee(
+  id: string,
+  input: LateFeeWaiveInput,
+): Promise<LateFee> {
+  return request<LateFee>(`/api/accounting/late-fees/${id}/waive`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function rescheduleSale(
+  saleId: string,
+  input: InstallmentRescheduleInput,
+): Promise<InstallmentRescheduleResult> {
+  return request<InstallmentRescheduleResult>(
+    `/api/accounting/sales/${saleId}/reschedule`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(input),
+    },
+  );
+}
+
+export async function loadInstallmentReschedules(
+  projectId: string,
+): Promise<InstallmentReschedule[]> {
+  return request<InstallmentReschedule[]>(
+    `/api/accounting/projects/${projectId}/reschedules`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function loadCustomers(search?: string): Promise<Customer[]> {
+  return request<Customer[]>(
+    `/api/accounting/customers${toQueryString({ q: search })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function createCustomer(input: CustomerInput): Promise<Customer> {
+  return request<Customer>("/api/accounting/customers", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateCustomer(
+  id: string,
+  input: CustomerInput,
+): Promise<Customer> {
+  return request<Customer>(`/api/accounting/customers/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function loadCustomerStatement(
+  id: string,
+  asOf?: string,
+): Promise<CustomerStatement> {
+  return request<CustomerStatement>(
+    `/api/accounting/customers/${id}/statement${toQueryString({ asOf })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function createPropertyUnit(
+  projectId: string,
+  input: PropertyUnitInput,
+): Promise<PropertyUnit> {
+  return request<PropertyUnit>(`/api/accounting/projects/${projectId}/units`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function generatePropertyUnits(
+  projectId: string,
+  input: PropertyUnitGenerateInput,
+): Promise<PropertyUnitGenerateResult> {
+  return request<PropertyUnitGenerateResult>(
+    `/api/accounting/projects/${projectId}/units/generate`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(input),
+    },
+  );
+}
+
+export async function updatePropertyUnit(
+  id: string,
+  input: PropertyUnitUpdateInput,
+): Promise<PropertyUnit> {
+  return request<PropertyUnit>(`/api/accounting/units/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function deletePropertyUnit(id: string): Promise<void> {
+  await request<void>(`/api/accounting/units/${id}`, {
+    method: "DELETE",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function loadReservations(
+  query: UnitReservationQuery = {},
+): Promise<UnitReservation[]> {
+  return request<UnitReservation[]>(
+    `/api/accounting/reservations${toQueryString({
+      projectId: query.projectId,
+      status: query.status,
+    })}`,
+    {
+      method: "GET",
+      headers: { ...authHeaders() },
+    },
+  );
+}
+
+export async function createReservation(
+  input: UnitReservationCreateInput,
+): Promise<UnitReservationResult> {
+  return request<UnitReservationResult>("/api/accounting/reservations", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function cancelReservation(
+  id: string,
+  input: UnitReservationCancelInput,
+): Promise<UnitReservationResult> {
+  return request<UnitReservationResult>(
+    `/api/accounting/reservations/${id}/cancel`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(input),
+    },
+  );
+}
+
+function toQueryString(params: Record<string, string | null | undefined>) {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) search.set(key, value);
+  }
+  const qs = search.toString();
+  return qs ? `?${qs}` : "";
+}
+
+export async function loadLedgerAccounts(): Promise<LedgerAccount[]> {
+  return request<LedgerAccount[]>("/api/accounting/accounts", {
+    method: "GET",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function createLedgerAccount(
+  input: LedgerAccountCreateInput,
+): Promise<LedgerAccount> {
+  return request<LedgerAccount>("/api/accounting/accounts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function loadJournalEntries(
+  query: JournalQuery = {},
+): Promise<JournalEntry[]> {
+  const { postedOnly, ...filters } = query;
+  return request<JournalEntry[]>(
+    `/api/accounting/journal${toQueryString({
+      ...filters,
+      posted: postedOnly ? "1" : null,
+    })}`,
+    {
+      method: "GET",
+      headers: { ...authHeaders() },
+    },
+  );
+}
+
+export async function createJournalEntry(
+  input: Omit<JournalEntryCreateInput, "posted" | "transactionId">,
+): Promise<JournalEntry> {
+  return request<JournalEntry>("/api/accounting/journal", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function loadTrialBalance(
+  asOf: string,
+  categoryId?: string | null,
+): Promise<TrialBalanceReport> {
+  return request<TrialBalanceReport>(
+    `/api/accounting/reports/trial-balance${toQueryString({ asOf, categoryId })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function loadBalanceSheet(
+  asOf: string,
+  categoryId?: string | null,
+): Promise<BalanceSheetReport> {
+  return request<BalanceSheetReport>(
+    `/api/accounting/reports/balance-sheet${toQueryString({ asOf, categoryId })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function loadIncomeStatement(
+  from: string,
+  to: string,
+  categoryId?: string | null,
+): Promise<IncomeStatementReport> {
+  return request<IncomeStatementReport>(
+    `/api/accounting/reports/income-statement${toQueryString({ from, to, categoryId })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function loadReceivablesAging(
+  agingDate: string,
+): Promise<ReceivablesAgingReport> {
+  return request<ReceivablesAgingReport>(
+    `/api/accounting/reports/receivables-aging${toQueryString({ agingDate })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function loadCategories(): Promise<TransactionCategory[]> {
+  return request<TransactionCategory[]>("/api/accounting/categories", {
+    method: "GET",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function createCategory(
+  input: TransactionCategoryInput,
+): Promise<TransactionCategory> {
+  return request<TransactionCategory>("/api/accounting/categories", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateCategory(
+  id: string,
+  input: TransactionCategoryUpdateInput,
+): Promise<TransactionCategory> {
+  return request<TransactionCategory>(`/api/accounting/categories/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function deleteCategory(id: string): Promise<TransactionCategory> {
+  return request<TransactionCategory>(`/api/accounting/categories/${id}`, {
+    method: "DELETE",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function loadCategorySuggestions(): Promise<CategorySuggestion[]> {
+  return request<CategorySuggestion[]>(
+    "/api/accounting/categories/suggestions",
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function applyCategoryBackfill(
+  assignments: CategoryAssignment[],
+): Promise<CategoryBackfillResult> {
+  return request<CategoryBackfillResult>(
+    "/api/accounting/categories/backfill",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ assignments }),
+    },
+  );
+}
+
+export async function loadRecurringTemplates(): Promise<RecurringTemplate[]> {
+  return request<RecurringTemplate[]>("/api/accounting/recurring", {
+    method: "GET",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function createRecurringTemplate(
+  input: RecurringTemplateInput,
+): Promise<RecurringTemplate> {
+  return request<RecurringTemplate>("/api/accounting/recurring", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateRecurringTemplate(
+  id: string,
+  input: RecurringTemplateUpdateInput,
+): Promise<RecurringTemplate> {
+  return request<RecurringTemplate>(`/api/accounting/recurring/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function previewRecurringTemplate(
+  id: string,
+  count?: number,
+): Promise<string[]> {
+  return request<string[]>(
+    `/api/accounting/recurring/${id}/preview${toQueryString({ count: count ? String(count) : null })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function runRecurringTemplates(): Promise<RecurringRunResult> {
+  return request<RecurringRunResult>("/api/accounting/recurring/run", {
+    method: "POST",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function loadMoneyAccounts(): Promise<MoneyAccount[]> {
+  return request<MoneyAccount[]>("/api/accounting/money-accounts", {
+    method: "GET",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function createMoneyAccount(
+  input: MoneyAccountCreateInput,
+): Promise<MoneyAccount> {
+  return request<MoneyAccount>("/api/accounting/money-accounts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function updateMoneyAccount(
+  id: string,
+  input: MoneyAccountUpdateInput,
+): Promise<MoneyAccount> {
+  return request<MoneyAccount>(`/api/accounting/money-accounts/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function fetchMoneyAccountStatement(
+  id: string,
+  range: { from?: string | null; to?: string | null } = {},
+): Promise<MoneyAccountStatement> {
+  return request<MoneyAccountStatement>(
+    `/api/accounting/money-accounts/${id}/statement${toQueryString(range)}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function loadMoneyTransfers(): Promise<MoneyTransfer[]> {
+  return request<MoneyTransfer[]>("/api/accounting/money-transfers", {
+    method: "GET",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function createMoneyTransfer(
+  input: MoneyTransferInput,
+): Promise<MoneyTransfer> {
+  return request<MoneyTransfer>("/api/accounting/money-transfers", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function importBankStatement(
+  moneyAccountId: string,
+  input: BankStatementImportInput,
+): Promise<BankStatementImportResult> {
+  return request<BankStatementImportResult>(
+    `/api/accounting/money-accounts/${moneyAccountId}/bank-statements`,
     {
       method: "POST",
       headers: { "Content-Type": "application/json", ...authHeaders() },
-      body: JSON.stringify({ date }),
+      body: JSON.stringify(input),
+    },
+  );
+}
+
+export async function loadStatementLines(
+  moneyAccountId: string,
+  status?: BankStatementLineStatus | null,
+): Promise<BankStatementLine[]> {
+  return request<BankStatementLine[]>(
+    `/api/accounting/money-accounts/${moneyAccountId}/statement-lines${toQueryString({ status })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function matchStatementLine(
+  id: string,
+  transactionId: string,
+): Promise<BankStatementLine> {
+  return request<BankStatementLine>(
+    `/api/accounting/statement-lines/${id}/match`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify({ transactionId }),
+    },
+  );
+}
+
+export async function createFromStatementLine(
+  id: string,
+  input: { description?: string | null; categoryId?: string | null },
+): Promise<{ line: BankStatementLine; transaction: Transaction }> {
+  return request<{ line: BankStatementLine; transaction: Transaction }>(
+    `/api/accounting/statement-lines/${id}/create`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...authHeaders() },
+      body: JSON.stringify(input),
+    },
+  );
+}
+
+export async function ignoreStatementLine(
+  id: string,
+): Promise<BankStatementLine> {
+  return request<BankStatementLine>(
+    `/api/accounting/statement-lines/${id}/ignore`,
+    { method: "POST", headers: { ...authHeaders() } },
+  );
+}
+
+export async function reopenStatementLine(
+  id: string,
+): Promise<BankStatementLine> {
+  return request<BankStatementLine>(
+    `/api/accounting/statement-lines/${id}/reopen`,
+    { method: "POST", headers: { ...authHeaders() } },
+  );
+}
+
+export async function fetchReconciliationReport(
+  moneyAccountId: string,
+  asOf: string,
+): Promise<BankReconciliationReport> {
+  return request<BankReconciliationReport>(
+    `/api/accounting/money-accounts/${moneyAccountId}/reconciliation${toQueryString({ asOf })}`,
+    { method: "GET", headers: { ...authHeaders() } },
+  );
+}
+
+export async function loadFiscalYears(): Promise<FiscalYear[]> {
+  return request<FiscalYear[]>("/api/accounting/fiscal-years", {
+    method: "GET",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function createFiscalYear(
+  input: FiscalYearCreateInput,
+): Promise<FiscalYear> {
+  return request<FiscalYear>("/api/accounting/fiscal-years", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify(input),
+  });
+}
+
+export async function closeFiscalPeriod(id: string): Promise<FiscalPeriod> {
+  return request<FiscalPeriod>(`/api/accounting/periods/${id}/close`, {
+    method: "POST",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function reopenFiscalPeriod(
+  id: string,
+  reason: string,
+): Promise<FiscalPeriod> {
+  return request<FiscalPeriod>(`/api/accounting/periods/${id}/reopen`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...authHeaders() },
+    body: JSON.stringify({ reason }),
+  });
+}
+
+export async function loadPeriodEvents(): Promise<FiscalPeriodEvent[]> {
+  return request<FiscalPeriodEvent[]>("/api/accounting/periods/events", {
+    method: "GET",
+    headers: { ...authHeaders() },
+  });
+}
+
+export async function loadAuditLog(
+  query: AuditLogQuery = {},
+): Promise<AuditLogEntry[]> {
+  const { limit, ...filters } = query;
+  return request<AuditLogEntry[]>(
+    `/api/accounting/audit${toQueryString({
+      ...filters,
+      limit: limit ? String(limit) : null,
+    })}`,
+    {
+      method: "GET",
+      headers: { ...authHeaders() },
     },
   );
 }
@@ -18,6 +18,7 @@ import {
 import {
   accountingSnapshotHandler,
   approveTransactionHandler,
+  batchTransactionsHandler,
   createInventoryItemHandler,
   createProjectCostHandler,
   createProjectHandler,
@@ -26,13 +27,116 @@ import {
   deleteInventoryItemHandler,
   deleteProjectHandler,
   deleteTransactionHandler,
+  rejectTransactionHandler,
+  resubmitTransactionHandler,
+  reverseTransactionHandler,
+  getTransactionSourceHandler,
+  listSourceTransactionsHandler,
   getProjectDetailsHandler,
   getProjectHandler,
   recordInventoryIssueHandler,
   recordInventoryReceiptHandler,
   payInstallmentHandler,
+  paySaleInstallmentsHandler,
+  previewInstallmentPlanHandler,
+  updateInventoryItemHandler,
+  updateProjectCostHandler,
+  updateProjectHandler,
+  updateProjectSaleHandler,
+  updateTransactionHandler,
 } from "./routes/accounting";
+import {
+  balanceSheetHandler,
+  createAccountHandler,
+  createJournalEntryHandler,
+  incomeStatementHandler,
+  listAccountsHandler,
+  listJournalHandler,
+  receivablesAgingHandler,
+  trialBalanceHandler,
+} from "./routes/ledger";
+import {
+  closePeriodHandler,
+  createFiscalYearHandler,
+  listFiscalYearsHandler,
+  listPeriodEventsHandler,
+  reopenPeriodHandler,
+} from "./routes/periods";
+import { listAuditLogHandler } from "./routes/audit";
+import {
+  approvalInboxHandler,
+  createApprovalRuleHandler,
+  deleteApprovalRuleHandler,
+  listApprovalRulesHandler,
+} from "./routes/approvals";
+import {
+  categoryBackfillHandler,
+  categorySuggestionsHandler,
+  createCategoryHandler,
+  deleteCategoryHandler,
+  listCategoriesHandler,
+  updateCategoryHandler,
+} from "./routes/categories";
+import {
+  createRecurringTemplateHandler,
+  listRecurringTemplatesHandler,
+  previewRecurringTemplateHandler,
+  runRecurringTemplatesHandler,
+  updateRecurringTemplateHandler,
+} from "./routes/recurring";
+import {
+  createMoneyAccountHandler,
+  createMoneyTransferHandler,
+  getMoneyAccountStatementHandler,
+  listMoneyAccountsHandler,
+  listMoneyTransfersHandler,
+  updateMoneyAccountHandler,
+} from "./routes/money-accounts";
+import {
+  createFromStatementLineHandler,
+  ignoreStatementLineHandler,
+  importBankStatementHandler,
+  listStatementLinesHandler,
+  matchStatementLineHandler,
+  reconciliationReportHandler,
+  reopenStatementLineHandler,
+} from "./routes/bank-reconciliation";
+import {
+  bounceChequeHandler,
+  clearChequeHandler,
+  depositChequeHandler,
+  listChequesHandler,
+  registerChequeHandler,
+} from "./routes/cheques";
+import {
+  accrueLateFeesHandler,
+  getLateFeePolicyHandler,
+  listInstallmentReschedulesHandler,
+  listLateFeesHandler,
+  rescheduleSaleHandler,
+  updateLateFeePolicyHandler,
+  waiveLateFeeHandler,
+} from "./routes/collections";
+import {
+  createCustomerHandler,
+  getCustomerStatementHandler,
+  listCustomersHandler,
+  updateCustomerHandler,
+} from "./routes/customers";
+import {
+  createUnitHandler,
+  deleteUnitHandler,
+  generateUnitsHandler,
+  listProjectUnitsHandler,
+  updateUnitHandler,
+} from "./routes/units";
+import {
+  cancelReservationHandler,
+  createReservationHandler,
+  listReservationsHandler,
+} from "./routes/reservations";
 import { initializeMysql } from "./lib/mysql";
+import { requestContext } from "./lib/request-context";
 
 export function createServer() {
   const app = express();
@@ -41,8 +145,10 @@ export function createServer() {
 
   // Middleware
   app.use(cors());
-  app.use(express.json());
+  // Bank statement imports arrive as JSON and can run past the 100kb default.
+  app.use(express.json({ limit: "5mb" }));
   app.use(express.urlencoded({ extended: true }));
+  app.use(requestContext);
 
   // Health
   app.get("/health", (_req, res) => res.status(200).json({ status: "ok" }));
@@ -74,22 +180,175 @@ export function createServer() {
   // Accounting
   app.get("/api/accounting/snapshot", accountingSnapshotHandler);
   app.post("/api/accounting/transactions", createTransactionHandler);
+  app.post("/api/accounting/transactions/batch", batchTransactionsHandler);
   app.post(
     "/api/accounting/transactions/:id/approve",
     approveTransactionHandler,
   );
+  app.post("/api/accounting/transactions/:id/reject", rejectTransactionHandler);
+  app.post(
+    "/api/accounting/transactions/:id/resubmit",
+    resubmitTransactionHandler,
+  );
+  app.put("/api/accounting/transactions/:id", updateTransactionHandler);
   app.delete("/api/accounting/transactions/:id", deleteTransactionHandler);
+  app.post(
+    "/api/accounting/transactions/:id/reverse",
+    reverseTransactionHandler,
+  );
+  app.get(
+    "/api/accounting/transactions/:id/source",
+    getTransactionSourceHandler,
+  );
+  app.get(
+    "/api/accounting/sources/:type/:id/transactions",
+    listSourceTransactionsHandler,
+  );
   app.post("/api/accounting/inventory/items", createInventoryItemHandler);
+  app.put("/api/accounting/inventory/items/:id", updateInventoryItemHandler);
   app.delete("/api/accounting/inventory/items/:id", deleteInventoryItemHandler);
   app.post("/api/accounting/inventory/receipt", recordInventoryReceiptHandler);
   app.post("/api/accounting/inventory/issue", recordInventoryIssueHandler);
   app.post("/api/accounting/projects", createProjectHandler);
   app.get("/api/accounting/projects/:id", getProjectHandler);
   app.get("/api/accounting/projects/:id/details", getProjectDetailsHandler);
+  app.put("/api/accounting/projects/:id", updateProjectHandler);
   app.delete("/api/accounting/projects/:id", deleteProjectHandler);
   app.post("/api/accounting/projects/:id/costs", createProjectCostHandler);
   app.post("/api/accounting/projects/:id/sales", createProjectSaleHandler);
+  app.put("/api/accounting/costs/:id", updateProjectCostHandler);
+  app.put("/api/accounting/sales/:id", updateProjectSaleHandler);
   app.post("/api/accounting/installments/:id/pay", payInstallmentHandler);
+  app.post("/api/accounting/sales/:id/payments", paySaleInstallmentsHandler);
+  app.post(
+    "/api/accounting/installment-plans/preview",
+    previewInstallmentPlanHandler,
+  );
+
+  // General ledger
+  app.get("/api/accounting/accounts", listAccountsHandler);
+  app.post("/api/accounting/accounts", createAccountHandler);
+  app.get("/api/accounting/journal", listJournalHandler);
+  app.post("/api/accounting/journal", createJournalEntryHandler);
+  app.get("/api/accounting/reports/trial-balance", trialBalanceHandler);
+  app.get("/api/accounting/reports/balance-sheet", balanceSheetHandler);
+  app.get("/api/accounting/reports/income-statement", incomeStatementHandler);
+  app.get("/api/accounting/reports/receivables-aging", receivablesAgingHandler);
+
+  // Fiscal periods
+  app.get("/api/accounting/fiscal-years", listFiscalYearsHandler);
+  app.post("/api/accounting/fiscal-years", createFiscalYearHandler);
+  app.get("/api/accounting/periods/events", listPeriodEventsHandler);
+  app.post("/api/accounting/periods/:id/close", closePeriodHandler);
+  app.post("/api/accounting/periods/:id/reopen", reopenPeriodHandler);
+
+  // Audit log
+  app.get("/api/accounting/audit", listAuditLogHandler);
+
+  // Approval workflow
+  app.get("/api/accounting/approvals/inbox", approvalInboxHandler);
+  app.get("/api/accounting/approval-rules", listApprovalRulesHandler);
+  app.post("/api/accounting/approval-rules", createApprovalRuleHandler);
+  app.delete("/api/accounting/approval-rules/:id", deleteApprovalRuleHandler);
+
+  // Transaction categories
+  app.get("/api/accounting/categories", listCategoriesHandler);
+  app.post("/api/accounting/categories", createCategoryHandler);
+  app.get("/api/accounting/categories/suggestions", categorySuggestionsHandler);
+  app.post("/api/accounting/categories/backfill", categoryBackfillHandler);
+  app.put("/api/accounting/categories/:id", updateCategoryHandler);
+  app.delete("/api/accounting/categories/:id", deleteCategoryHandler);
+
+  // Recurring transactions
+  app.get("/api/accounting/recurring", listRecurringTemplatesHandler);
+  app.post("/api/accounting/recurring", createRecurringTemplateHandler);
+  app.post("/api/accounting/recurring/run", runRecurringTemplatesHandler);
+  app.put("/api/accounting/recurring/:id", updateRecurringTemplateHandler);
+  app.get(
+    "/api/accounting/recurring/:id/preview",
+    previewRecurringTemplateHandler,
+  );
+
+  // Money accounts
+  app.get("/api/accounting/money-accounts", listMoneyAccountsHandler);
+  app.post("/api/accounting/money-accounts", createMoneyAccountHandler);
+  app.get("/api/accounting/money-transfers", listMoneyTransfersHandler);
+  app.post("/api/accounting/money-transfers", createMoneyTransferHandler);
+  app.put("/api/accounting/money-accounts/:id", updateMoneyAccountHandler);
+  app.get(
+    "/api/accounting/money-accounts/:id/statement",
+    getMoneyAccountStatementHandler,
+  );
+
+  // Bank reconciliation
+  app.post(
+    "/api/accounting/money-accounts/:id/bank-statements",
+    importBankStatementHandler,
+  );
+  app.get(
+    "/api/accounting/money-accounts/:id/statement-lines",
+    listStatementLinesHandler,
+  );
+  app.get(
+    "/api/accounting/money-accounts/:id/reconciliation",
+    reconciliationReportHandler,
+  );
+  app.post(
+    "/api/accounting/statement-lines/:id/match",
+    matchStatementLineHandler,
+  );
+  app.post(
+    "/api/accounting/statement-lines/:id/create",
+    createFromStatementLineHandler,
+  );
+  app.post(
+    "/api/accounting/statement-lines/:id/ignore",
+    ignoreStatementLineHandler,
+  );
+  app.post(
+    "/api/accounting/statement-lines/:id/reopen",
+    reopenStatementLineHandler,
+  );
+
+  // Cheques
+  app.get("/api/accounting/cheques", listChequesHandler);
+  app.post("/api/accounting/cheques", registerChequeHandler);
+  app.post("/api/accounting/cheques/:id/deposit", depositChequeHandler);
+  app.post("/api/accounting/cheques/:id/clear", clearChequeHandler);
+  app.post("/api/accounting/cheques/:id/bounce", bounceChequeHandler);
+
+  // Overdue installments
+  app.get("/api/accounting/late-fees/policy", getLateFeePolicyHandler);
+  app.put("/api/accounting/late-fees/policy", updateLateFeePolicyHandler);
+  app.get("/api/accounting/late-fees", listLateFeesHandler);
+  app.post("/api/accounting/late-fees/accrue", accrueLateFeesHandler);
+  app.post("/api/accounting/late-fees/:id/waive", waiveLateFeeHandler);
+  app.post("/api/accounting/sales/:id/reschedule", rescheduleSaleHandler);
+  app.get(
+    "/api/accounting/projects/:id/reschedules",
+    listInstallmentReschedulesHandler,
+  );
+
+  // Customers
+  app.get("/api/accounting/customers", listCustomersHandler);
+  app.post("/api/accounting/customers", createCustomerHandler);
+  app.put("/api/accounting/customers/:id", updateCustomerHandler);
+  app.get(
+    "/api/accounting/customers/:id/statement",
+    getCustomerStatementHandler,
+  );
+
+  // Property units
+  app.get("/api/accounting/projects/:id/units", listProjectUnitsHandler);
+  app.post("/api/accounting/projects/:id/units", createUnitHandler);
+  app.post("/api/accounting/projects/:id/units/generate", generateUnitsHandler);
+  app.put("/api/accounting/units/:id", updateUnitHandler);
+  app.delete("/api/accounting/units/:id", deleteUnitHandler);
+
+  // Unit reservations
+  app.get("/api/accounting/reservations", listReservationsHandler);
+  app.post("/api/accounting/reservations", createReservationHandler);
+  app.post("/api/accounting/reservations/:id/cancel", cancelReservationHandler);
 
   return app;
 }
@@ -0,0 +1,53 @@
+import type {
+  CustomerStatementSale,
+  Installment,
+  InstallmentPayment,
+} from "@shared/accounting";
+
+// Test-only factories shared by the specs; nothing in the app imports them.
+
+/** An unpaid 1000 plan installment on sale s1, with `patch` applied. */
+export const installment = (
+  patch: Partial<Installment> & Pick<Installment, "id" | "dueDate">,
+): Installment => ({
+  projectId: "p1",
+  saleId: "s1",
+  unitNo: "A1",
+  buyer: "Buyer",
+  amount: 1000,
+  kind: "plan",
+  paidAmount: 0,
+  paid: false,
+  ...patch,
+});
+
+/** A live receipt 1 on sale s1 with no allocations, with `patch` applied. */
+export const payment = (
+  patch: Partial<InstallmentPayment> &
+    Pick<InstallmentPayment, "id" | "date" | "amount">,
+): InstallmentPayment => ({
+  receiptNo: 1,
+  projectId: "p1",
+  saleId: "s1",
+  transactionId: "t1",
+  allocations: [],
+  reversed: false,
+  ...patch,
+});
+
+/** Sale s1: unit A1 sold for 3000 with nothing scheduled or paid yet. */
+export const sale = (
+  patch: Partial<CustomerStatementSale>,
+): CustomerStatementSale => ({
+  id: "s1",
+  projectId: "p1",
+  projectName: "Tower",
+  unitNo: "A1",
+  buyer: "Buyer",
+  price: 3000,
+  date: "2026-01-01",
+  installments: [],
+  payments: [],
+  balance: 0,
+  ...patch,
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import type { ApprovalDecision, ApprovalRule } from "@shared/accounting";
+import {
+  canSignLevel,
+  currentApprovals,
+  matchApprovalLevels,
+  nextApprovalLevel,
+} from "./approval-levels";
+
+const rules: ApprovalRule[] = [
+  { id: "r1", type: null, minAmount: 10000, levels: ["accountant"] },
+  {
+    id: "r2",
+    type: null,
+    minAmount: 50000,
+    levels: ["accountant", "manager"],
+  },
+  { id: "r3", type: "expense", minAmount: 50000, levels: ["manager"] },
+];
+
+const decision = (
+  kind: ApprovalDecision["decision"],
+  id: string,
+): ApprovalDecision => ({
+  id,
+  transactionId: "t1",
+  decision: kind,
+  createdAt: "2026-01-01T00:00:00.000Z",
+});
+
+describe("matchApprovalLevels", () => {
+  it("should apply the highest threshold the amount reaches", () => {
+    expect(matchApprovalLevels(rules, "revenue", 500)).toEqual(["accountant"]);
+    expect(matchApprovalLevels(rules, "revenue", 10000)).toEqual([
+      "accountant",
+    ]);
+    expect(matchApprovalLevels(rules, "revenue", 75000)).toEqual([
+      "accountant",
+      "manager",
+    ]);
+  });
+
+  it("should prefer a rule for the transaction's type at the same threshold", () => {
+    expect(matchApprovalLevels(rules, "expense", 50000)).toEqual(["manager"]);
+    expect(matchApprovalLevels(rules, "expense", -60000)).toEqual(["manager"]);
+  });
+});
+
+describe("currentApprovals", () => {
+  it("should drop approvals given before the last rejection", () => {
+    const decisions = [
+      decision("approve", "a"),
+      decision("reject", "b"),
+      decision("resubmit", "c"),
+      decision("approve", "d"),
+    ];
+    expect(currentApprovals(decisions).map((d) => d.id)).toEqual(["d"]);
+  });
+});
+
+describe("nextApprovalLevel", () => {
+  it("should walk the levels in order and flag the last one", () => {
+    const levels: ApprovalRule["levels"] = ["accountant", "manager"];
+    expect(nextApprovalLevel(levels, [])).toEqual({
+      level: "accountant",
+      final: false,
+    });
+    expect(nextApprovalLevel(levels, [decision("approve", "a")])).toEqual({
+      level: "manager",
+      final: true,
+    });
+  });
+
+  it("should let only managers sign the manager level", () => {
+    expect(canSignLevel("accountant", "manager")).toBe(false);
+    expect(canSignLevel("manager", "accountant")).toBe(true);
+  });
+});
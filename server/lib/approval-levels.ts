@@ -0,0 +1,58 @@
+import type { Role } from "@shared/api";
+import type {
+  ApprovalDecision,
+  ApprovalLevel,
+  ApprovalRule,
+  TransType,
+} from "@shared/accounting";
+
+export const APPROVAL_LEVELS: ApprovalLevel[] = ["accountant", "manager"];
+
+/** Without rules every transaction needs a single accountant-level approval. */
+const DEFAULT_LEVELS: ApprovalLevel[] = ["accountant"];
+
+export function canSignLevel(role: Role, level: ApprovalLevel) {
+  if (role === "manager") return true;
+  return role === "accountant" && level === "accountant";
+}
+
+/**
+ * The ordered approval levels a transaction of this type and amount needs
+ * under `rules`.
+ */
+export function matchApprovalLevels(
+  rules: ApprovalRule[],
+  type: TransType,
+  amount: number,
+): ApprovalLevel[] {
+  const size = Math.abs(amount);
+  const matching = rules.filter(
+    (rule) =>
+      (rule.type === null || rule.type === type) && rule.minAmount <= size,
+  );
+  if (!matching.length) return DEFAULT_LEVELS;
+  matching.sort(
+    (a, b) =>
+      b.minAmount - a.minAmount ||
+      Number(b.type !== null) - Number(a.type !== null),
+  );
+  return matching[0].levels;
+}
+
+/** Approvals given since the most recent rejection or resubmission. */
+export function currentApprovals(decisions: ApprovalDecision[]) {
+  const lastReset = decisions.reduce(
+    (index, d, i) => (d.decision === "approve" ? index : i),
+    -1,
+  );
+  return decisions.slice(lastReset + 1);
+}
+
+/** The level the next signature is for, and whether it completes approval. */
+export function nextApprovalLevel(
+  levels: ApprovalLevel[],
+  approvals: ApprovalDecision[],
+) {
+  const index = Math.min(approvals.length, levels.length - 1);
+  return { level: levels[index], final: index === levels.length - 1 };
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchStatementLines,
+  parseAmount,
+  parseCsvStatement,
+  parseDate,
+  parseMt940Statement,
+  parseOfxStatement,
+} from "./bank-statements";
+
+describe("parseAmount", () => {
+  it("should read dot and comma decimal marks", () => {
+    expect(parseAmount("1,234.56")).toBe(1234.56);
+    expect(parseAmount("1.234,56")).toBe(1234.56);
+    expect(parseAmount("12,5")).toBe(12.5);
+  });
+
+  it("should read negative amounts", () => {
+    expect(parseAmount("-50")).toBe(-50);
+    expect(parseAmount("(75.25) EGP")).toBe(-75.25);
+  });
+});
+
+describe("parseDate", () => {
+  it("should follow the given field order", () => {
+    expect(parseDate("15/01/2026", "DD/MM/YYYY")).toBe("2026-01-15");
+    expect(parseDate("01-15-26", "MM-DD-YY")).toBe("2026-01-15");
+  });
+
+  it("should reject impossible dates", () => {
+    expect(() => parseDate("31/02/2026", "DD/MM/YYYY")).toThrow();
+  });
+});
+
+describe("parseCsvStatement", () => {
+  it("should map named columns with separate debit and credit", () => {
+    const csv = [
+      "Date;Details;Ref;Debit;Credit;Balance",
+      '15/01/2026;"Rent; January";R-1;1.500,00;;8.500,00',
+      "16/01/2026;Customer deposit;D-9;;2.000,00;10.500,00",
+    ].join("\n");
+    const statement = parseCsvStatement(csv, {
+      date: "Date",
+      description: "Details",
+      reference: "Ref",
+      debit: "Debit",
+      credit: "Credit",
+      balance: "Balance",
+      dateFormat: "DD/MM/YYYY",
+      delimiter: ";",
+    });
+    expect(statement.lines).toEqual([
+      {
+        date: "2026-01-15",
+        amount: -1500,
+        description: "Rent; January",
+        reference: "R-1",
+      },
+      {
+        date: "2026-01-16",
+        amount: 2000,
+        description: "Customer deposit",
+        reference: "D-9",
+      },
+    ]);
+    expect(statement.closingBalance).toBe(10500);
+  });
+
+  it("should name the row that fails to parse", () => {
+    const csv = "date,amount,text\n2026-01-15,abc,x";
+    expect(() =>
+      parseCsvStatement(csv, {
+        date: "date",
+        amount: "amount",
+        description: "text",
+      }),
+    ).toThrow("Row 2");
+  });
+});
+
+describe("parseOfxStatement", () => {
+  it("should read SGML transactions and the ledger balance", () => {
+    const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20260115120000<TRNAMT>-250.00<FITID>A1<NAME>Supplier<MEMO>Cement
+</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20260116<TRNAMT>1000<FITID>A2<CHECKNUM>5512<NAME>Cheque
+</STMTTRN>
+</BANKTRANLIST><LEDGERBAL><BALAMT>750.00<DTASOF>20260116</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+    const statement = parseOfxStatement(ofx);
+    expect(statement.lines).toEqual([
+      {
+        date: "2026-01-15",
+        amount: -250,
+        description: "Supplier - Cement",
+        reference: "A1",
+      },
+      {
+        date: "2026-01-16",
+        amount: 1000,
+        description: "Cheque",
+        reference: "5512",
+      },
+    ]);
+    expect(statement.closingBalance).toBe(750);
+    expect(statement.closingDate).toBe("2026-01-16");
+  });
+});
+
+describe("parseMt940Statement", () => {
+  it("should read movements, narratives and the closing balance", () => {
+    const mt940 = [
+      ":20:STMT1",
+      ":25:EG123456",
+      ":60F:C260114EGP1000,00",
+      ":61:2601150115D250,00NTRFINV-77//B1",
+      ":86:Payment to supplier",
+      "cement order",
+      ":61:2601160116C1000,NCHKNONREF//B2",
+      ":86:Cheque deposit",
+      ":62F:C260116EGP1750,00",
+      "-}",
+    ].join("\n");
+    const statement = parseMt940Statement(mt940);
+    expect(statement.lines).toEqual([
+      {
+        date: "2026-01-15",
+        amount: -250,
+        description: "Payment to supplier cement order",
+        reference: "INV-77",
+      },
+      {
+        date: "2026-01-16",
+        amount: 1000,
+        description: "Cheque deposit",
+        reference: "B2",
+      },
+    ]);
+    expect(statement.closingBalance).toBe(1750);
+  });
+});
+
+describe("matchStatementLines", () => {
+  const candidates = [
+    { id: "t1", date: "2026-01-14", amount: -250, description: "Cement" },
+    { id: "t2", date: "2026-01-18", amount: -250, description: "Bill INV-77" },
+    { id: "t3", date: "2026-01-30", amount: 1000, description: "Deposit" },
+  ];
+
+  it("should prefer a reference hit over the nearest date", () => {
+    const matches = matchStatementLines(
+      [{ date: "2026-01-15", amount: -250, reference: "INV-77" }],
+      candidates,
+    );
+    expect(matches.get(0)).toBe("t2");
+  });
+
+  it("should use each transaction once and respect the date window", () => {
+    const matches = matchStatementLines(
+      [
+        { date: "2026-01-15", amount: -250, reference: null },
+        { date: "2026-01-15", amount: -250, reference: null },
+        { date: "2026-01-16", amount: 1000, reference: null },
+      ],
+      candidates,
+    );
+    expect(matches.get(0)).toBe("t1");
+    expect(matches.get(1)).toBe("t2");
+    expect(matches.has(2)).toBe(false);
+  });
+});
@@ -0,0 +1,373 @@
+import type { BankStatementFormat, CsvColumnMapping } from "@shared/accounting";
+
+export const BANK_STATEMENT_FORMATS: BankStatementFormat[] = [
+  "csv",
+  "ofx",
+  "mt940",
+];
+
+export interface ParsedStatementLine {
+  date: string;
+  /** Deposits positive, withdrawals negative. */
+  amount: number;
+  description: string;
+  reference: string | null;
+}
+
+export interface ParsedStatement {
+  lines: ParsedStatementLine[];
+  closingBalance: number | null;
+  closingDate: string | null;
+}
+
+/** A book transaction as the bank would see it: signed the same way. */
+export interface MatchCandidate {
+  id: string;
+  date: string;
+  amount: number;
+  description: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+function isoDate(year: number, month: number, day: number): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    throw new Error(`Invalid date ${year}-${month}-${day}`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function fullYear(year: number) {
+  return year < 100 ? 2000 + year : year;
+}
+
+/**
+ * Reads an amount the way banks print them: "1,234.56", "1.234,56",
+ * "-50", "(50.00)" or with a trailing currency code.
+ */
+export function parseAmount(raw: string): number {
+  let text = raw.trim().replace(/[^\d,.()+-]/g, "");
+  const negative = /^\(.*\)$/.test(text) || text.startsWith("-");
+  text = text.replace(/[()+-]/g, "");
+  const lastComma = text.lastIndexOf(",");
+  const lastDot = text.lastIndexOf(".");
+  if (lastComma > lastDot) {
+    // A comma is the decimal mark only when two digits or fewer follow it
+    // and no dot came after, as in "1.234,56" or "12,5".
+    text = /,\d{1,2}$/.test(text)
+      ? text.replace(/\./g, "").replace(",", ".")
+      : text.replace(/,/g, "");
+  } else {
+    text = text.replace(/,/g, "");
+  }
+  const value = Number(text);
+  if (!text || !Number.isFinite(value)) {
+    throw new Error(`Invalid amount "${raw}"`);
+  }
+  return round(negative ? -value : value);
+}
+
+/**
+ * Reads a date laid out as `format` (DD, MM and YY or YYYY in any order and
+ * with any separators). Without a format the value must start with an ISO
+ * date.
+ */
+export function parseDate(raw: string, format?: string | null): string {
+  const text = raw.trim();
+  if (!format) {
+    const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+    if (!iso) throw new Error(`Invalid date "${raw}"`);
+    return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+  const order = format.toUpperCase().match(/D+|M+|Y+/g) ?? [];
+  const parts = text.match(/\d+/g) ?? [];
+  if (order.length !== 3 || parts.length < 3) {
+    throw new Error(`Date "${raw}" does not match ${format}`);
+  }
+  const value = (token: string) =>
+    Number(parts[order.findIndex((o) => o[0] === token)]);
+  return isoDate(fullYear(value("Y")), value("M"), value("D"));
+}
+
+function splitCsvRows(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i += 1) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+export function parseCsvStatement(
+  content: string,
+  mapping: CsvColumnMapping,
+): ParsedStatement {
+  if (!mapping.date || !mapping.description) {
+    throw new Error("Map the date and description columns");
+  }
+  if (!mapping.amount && !(mapping.debit && mapping.credit)) {
+    throw new Error("Map an amount column or both debit and credit columns");
+  }
+  const rows = splitCsvRows(
+    content.replace(/^\uFEFF/, ""),
+    mapping.delimiter || ",",
+  );
+  const hasHeader = mapping.hasHeader ?? true;
+  const header = hasHeader ? (rows.shift() ?? []).map((h) => h.trim()) : [];
+  const column = (name: string | null | undefined) => {
+    if (!name) return -1;
+    const index = hasHeader ? header.indexOf(name.trim()) : Number(name) - 1;
+    if (index < 0 || !Number.isInteger(index)) {
+      throw new Error(`Column "${name}" not found`);
+    }
+    return index;
+  };
+  const columns = {
+    date: column(mapping.date),
+    description: column(mapping.description),
+    amount: column(mapping.amount),
+    debit: column(mapping.debit),
+    credit: column(mapping.credit),
+    reference: column(mapping.reference),
+    balance: column(mapping.balance),
+  };
+  const cell = (row: string[], index: number) =>
+    index < 0 ? "" : (row[index] ?? "").trim();
+
+  const lines: ParsedStatementLine[] = [];
+  let closingBalance: number | null = null;
+  let closingDate: string | null = null;
+  rows.forEach((row, index) => {
+    const rowNumber = index + (hasHeader ? 2 : 1);
+    try {
+      const date = parseDate(cell(row, columns.date), mapping.dateFormat);
+      const amount =
+        columns.amount >= 0
+          ? parseAmount(cell(row, columns.amount))
+          : round(
+              (cell(row, columns.credit)
+                ? Math.abs(parseAmount(cell(row, columns.credit)))
+                : 0) -
+                (cell(row, columns.debit)
+                  ? Math.abs(parseAmount(cell(row, columns.debit)))
+                  : 0),
+            );
+      lines.push({
+        date,
+        amount,
+        description: cell(row, columns.description),
+        reference: cell(row, columns.reference) || null,
+      });
+      const balance = cell(row, columns.balance);
+      if (balance && (!closingDate || date >= closingDate)) {
+        closingBalance = parseAmount(balance);
+        closingDate = date;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Row ${rowNumber}: ${message}`);
+    }
+  });
+  return { lines, closingBalance, closingDate };
+}
+
+function ofxValue(block: string, tag: string): string | null {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block);
+  return match ? match[1].trim() : null;
+}
+
+function ofxDate(raw: string) {
+  return isoDate(
+    Number(raw.slice(0, 4)),
+    Number(raw.slice(4, 6)),
+    Number(raw.slice(6, 8)),
+  );
+}
+
+/** OFX 1.x (SGML, unclosed tags) and 2.x (XML) bank statements. */
+export function parseOfxStatement(content: string): ParsedStatement {
+  const blocks = content.match(
+    /<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi,
+  );
+  if (!blocks) throw new Error("No transactions found in the OFX file");
+  const lines = blocks.map((block) => {
+    const posted = ofxValue(block, "DTPOSTED");
+    const amount = ofxValue(block, "TRNAMT");
+    if (!posted || !amount) {
+      throw new Error("OFX transaction without a date or amount");
+    }
+    const name = ofxValue(block, "NAME");
+    const memo = ofxValue(block, "MEMO");
+    return {
+      date: ofxDate(posted),
+      amount: parseAmount(amount),
+      description: [name, memo].filter(Boolean).join(" - "),
+      reference:
+        ofxValue(block, "CHECKNUM") ??
+        ofxValue(block, "REFNUM") ??
+        ofxValue(block, "FITID"),
+    };
+  });
+  const ledger = /<LEDGERBAL>([\s\S]*?)(?:<\/LEDGERBAL>|$)/i.exec(content);
+  const balance = ledger ? ofxValue(ledger[1], "BALAMT") : null;
+  const asOf = ledger ? ofxValue(ledger[1], "DTASOF") : null;
+  return {
+    lines,
+    closingBalance: balance ? parseAmount(balance) : null,
+    closingDate: asOf ? ofxDate(asOf) : null,
+  };
+}
+
+function mt940Date(raw: string) {
+  return isoDate(
+    fullYear(Number(raw.slice(0, 2))),
+    Number(raw.slice(2, 4)),
+    Number(raw.slice(4, 6)),
+  );
+}
+
+const MT940_LINE =
+  /^(\d{6})(\d{4})?(R?[CD])[A-Z]?(\d+,\d*)[NF]([A-Z0-9]{3})([^/\r\n]*)(?:\/\/([^\r\n]*))?/;
+
+const MT940_BALANCE = /^([CD])(\d{6})[A-Z]{3}(\d+,\d*)/;
+
+/** SWIFT MT940: one `:61:` per movement, narrative in the `:86:` after it. */
+export function parseMt940Statement(content: string): ParsedStatement {
+  const fields = content
+    .split(/\r?\n(?=:\d{2}[A-Z]?:)/)
+    .map((chunk) => /^:(\d{2}[A-Z]?):([\s\S]*)$/.exec(chunk.trim()))
+    .filter((m): m is RegExpExecArray => Boolean(m));
+  const lines: ParsedStatementLine[] = [];
+  let closingBalance: number | null = null;
+  let closingDate: string | null = null;
+  for (const [, tag, raw] of fields) {
+    // The last field of a message carries the "-}" trailer.
+    const value = raw.replace(/\r?\n-\}?[\s\S]*$/, "");
+    if (tag === "61") {
+      const match = MT940_LINE.exec(value.trim());
+      if (!match) throw new Error(`Unreadable :61: line "${value.trim()}"`);
+      const [, date, , mark, amount, , reference, bankReference] = match;
+      const magnitude = parseAmount(amount);
+      const credit = mark === "C" || mark === "RD";
+      const ref = reference.trim();
+      lines.push({
+        date: mt940Date(date),
+        amount: credit ? magnitude : -magnitude,
+        description: "",
+        reference:
+          ref && ref !== "NONREF" ? ref : bankReference?.trim() || null,
+      });
+    } else if (tag === "86" && lines.length) {
+      lines[lines.length - 1].description = value.replace(/\r?\n/g, " ").trim();
+    } else if (tag === "62F" || tag === "62M") {
+      const match = MT940_BALANCE.exec(value.trim());
+      if (match) {
+        const magnitude = parseAmount(match[3]);
+        closingBalance = match[1] === "C" ? magnitude : -magnitude;
+        closingDate = mt940Date(match[2]);
+      }
+    }
+  }
+  if (!lines.length) throw new Error("No :61: lines found in the MT940 file");
+  return { lines, closingBalance, closingDate };
+}
+
+export function parseBankStatement(
+  format: BankStatementFormat,
+  content: string,
+  mapping?: CsvColumnMapping | null,
+): ParsedStatement {
+  if (format === "csv") {
+    if (!mapping) throw new Error("CSV imports need a column mapping");
+    return parseCsvStatement(content, mapping);
+  }
+  if (format === "ofx") return parseOfxStatement(content);
+  if (format === "mt940") return parseMt940Statement(content);
+  throw new Error("Unsupported statement format");
+}
+
+function daysApart(a: string, b: string) {
+  return Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+}
+
+/**
+ * Pairs statement lines with book transactions of the same signed amount
+ * dated within `windowDays`. A reference found in the transaction's
+ * description wins over date proximity. Each transaction matches at most
+ * one line; the result maps line index to transaction id.
+ */
+export function matchStatementLines(
+  lines: Pick<ParsedStatementLine, "date" | "amount" | "reference">[],
+  candidates: MatchCandidate[],
+  windowDays = 3,
+): Map<number, string> {
+  const taken = new Set<string>();
+  const matches = new Map<number, string>();
+  const scored = lines.flatMap((line, index) =>
+    candidates
+      .filter(
+        (c) =>
+          round(c.amount) === round(line.amount) &&
+          daysApart(c.date, line.date) <= windowDays,
+      )
+      .map((c) => ({
+        index,
+        id: c.id,
+        referenced: Boolean(
+          line.reference &&
+          c.description.toLowerCase().includes(line.reference.toLowerCase()),
+        ),
+        distance: daysApart(c.date, line.date),
+      })),
+  );
+  scored.sort(
+    (a, b) =>
+      Number(b.referenced) - Number(a.referenced) ||
+      a.distance - b.distance ||
+      a.index - b.index,
+  );
+  for (const pair of scored) {
+    if (matches.has(pair.index) || taken.has(pair.id)) continue;
+    matches.set(pair.index, pair.id);
+    taken.add(pair.id);
+  }
+  return matches;
+}
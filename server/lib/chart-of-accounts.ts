@@ -0,0 +1,78 @@
+import type { AccountType } from "@shared/accounting";
+
+export interface ChartAccountSeed {
+  code: string;
+  name: string;
+  type: AccountType;
+  parentCode: string | null;
+}
+
+// Codes the automatic postings rely on. They are seeded as system accounts
+// and cannot be deactivated from the API.
+export const SYSTEM_ACCOUNTS = {
+  cash: "1100",
+  installmentsReceivable: "1200",
+  inventory: "1300",
+  payables: "2100",
+  customerDeposits: "2200",
+  capital: "3100",
+  retainedEarnings: "3200",
+  unitSales: "4100",
+  otherRevenue: "4900",
+  constructionCosts: "5100",
+  operationCosts: "5200",
+  projectExpenses: "5300",
+  materialsIssued: "5400",
+  generalExpenses: "5900",
+} as const;
+
+export const DEFAULT_CHART_OF_ACCOUNTS: ChartAccountSeed[] = [
+  { code: "1000", name: "الأصول", type: "asset", parentCode: null },
+  {
+    code: "1100",
+    name: "النقدية وما في حكمها",
+    type: "asset",
+    parentCode: "1000",
+  },
+  {
+    code: "1200",
+    name: "أقساط مستحقة التحصيل",
+    type: "asset",
+    parentCode: "1000",
+  },
+  { code: "1300", name: "المخزون", type: "asset", parentCode: "1000" },
+  { code: "2000", name: "الخصوم", type: "liability", parentCode: null },
+  { code: "2100", name: "الموردون", type: "liability", parentCode: "2000" },
+  { code: "3000", name: "حقوق الملكية", type: "equity", parentCode: null },
+  { code: "3100", name: "رأس المال", type: "equity", parentCode: "3000" },
+  {
+    code: "3200",
+    name: "الأرباح المحتجزة",
+    type: "equity",
+    parentCode: "3000",
+  },
+  { code: "4000", name: "الإيرادات", type: "revenue", parentCode: null },
+  {
+    code: "4100",
+    name: "إيرادات بيع الوحدات",
+    type: "revenue",
+    parentCode: "4000",
+  },
+  { code: "4900", name: "إيرادات أخرى", type: "revenue", parentCode: "4000" },
+  { code: "5000", name: "المصروفات", type: "expense", parentCode: null },
+  { code: "5100", name: "تكاليف الإنشاء", type: "expense", parentCode: "5000" },
+  { code: "5200", name: "تكاليف التشغيل", type: "expense", parentCode: "5000" },
+  {
+    code: "5300",
+    name: "مصروفات المشروعات",
+    type: "expense",
+    parentCode: "5000",
+  },
+  {
+    code: "5400",
+    name: "مواد مصروفة للمشروعات",
+    type: "expense",
+    parentCode: "5000",
+  },
+  { code: "5900", name: "مصروفات عامة", type: "expense", parentCode: "5000" },
+];
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { buildCustomerStatement } from "./customer-statement";
+import { installment, payment, sale } from "./__fixtures__/accounting";
+
+const customer = { id: "c1", name: "Buyer", phones: [] };
+
+describe("buildCustomerStatement", () => {
+  it("should run a balance over sales, down payments, fees and receipts", () => {
+    const statement = buildCustomerStatement(
+      customer,
+      [
+        sale({
+          installments: [
+            installment({ id: "i1", dueDate: "2026-02-01", paidAmount: 1000 }),
+            installment({ id: "i2", dueDate: "2026-03-01", paidAmount: 200 }),
+            installment({
+              id: "f1",
+              dueDate: "2026-03-15",
+              amount: 50,
+              kind: "fee",
+            }),
+          ],
+          payments: [
+            payment({ id: "p1", date: "2026-02-01", amount: 1000 }),
+            payment({
+              id: "p2",
+              date: "2026-02-20",
+              amount: 300,
+              receiptNo: 2,
+              reversed: true,
+            }),
+            payment({
+              id: "p3",
+              date: "2026-03-02",
+              amount: 200,
+              receiptNo: 3,
+            }),
+          ],
+        }),
+        sale({ id: "s2", unitNo: "B2", price: 500, date: "2026-02-10" }),
+      ],
+      "2026-04-01",
+    );
+
+    expect(statement.lines.map((l) => [l.date, l.debit, l.credit])).toEqual([
+      ["2026-01-01", 3000, 0],
+      ["2026-01-01", 0, 1000],
+      ["2026-02-01", 0, 1000],
+      ["2026-02-10", 500, 0],
+      ["2026-02-10", 0, 500],
+      ["2026-03-02", 0, 200],
+      ["2026-03-15", 50, 0],
+    ]);
+    expect(statement.lines[statement.lines.length - 1].balance).toBe(850);
+    expect(statement.balance).toBe(850);
+    expect(statement.overdue).toBe(850);
+    expect(statement.totalDebit).toBe(3550);
+    expect(statement.totalCredit).toBe(2700);
+  });
+});
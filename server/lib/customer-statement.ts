@@ -0,0 +1,95 @@
+import type {
+  Customer,
+  CustomerStatement,
+  CustomerStatementLine,
+  CustomerStatementSale,
+} from "@shared/accounting";
+import { roundMoney } from "./row-values";
+
+type StatementEntry = Omit<CustomerStatementLine, "balance">;
+
+function saleEntries(sale: CustomerStatementSale): StatementEntry[] {
+  const unit = `وحدة ${sale.unitNo} - ${sale.projectName}`;
+  const planTotal = roundMoney(
+    sale.installments
+      .filter((i) => i.kind === "plan")
+      .reduce((sum, i) => sum + i.amount, 0),
+  );
+  const paidUpfront = roundMoney(sale.price - planTotal);
+  const entries: StatementEntry[] = [
+    {
+      date: sale.date,
+      saleId: sale.id,
+      description: `بيع ${unit}`,
+      debit: sale.price,
+      credit: 0,
+    },
+  ];
+  if (paidUpfront > 0) {
+    entries.push({
+      date: sale.date,
+      saleId: sale.id,
+      description: planTotal > 0 ? `مقدم ${unit}` : `سداد نقدي ${unit}`,
+      debit: 0,
+      credit: paidUpfront,
+    });
+  }
+  for (const inst of sale.installments) {
+    if (inst.kind !== "fee") continue;
+    entries.push({
+      date: inst.dueDate,
+      saleId: sale.id,
+      description: `رسوم متأخرات ${unit}`,
+      debit: inst.amount,
+      credit: 0,
+    });
+  }
+  for (const payment of sale.payments) {
+    if (payment.reversed) continue;
+    entries.push({
+      date: payment.date,
+      saleId: sale.id,
+      description: `سند قبض رقم ${payment.receiptNo} - ${unit}`,
+      receiptNo: payment.receiptNo,
+      debit: 0,
+      credit: payment.amount,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Lays a customer's sales out as a running account: each sale is charged
+ * at its price and credited with what was paid up front and every receipt
+ * since. Fees charged on the sale are added as they fall due.
+ */
+export function buildCustomerStatement(
+  customer: Customer,
+  sales: CustomerStatementSale[],
+  asOf: string,
+): CustomerStatement {
+  const entries = sales
+    .flatMap(saleEntries)
+    .sort((a, b) => (a.date === b.date ? 0 : a.date < b.date ? -1 : 1));
+  let balance = 0;
+  const lines = entries.map((entry) => {
+    balance = roundMoney(balance + entry.debit - entry.credit);
+    return { ...entry, balance };
+  });
+  const overdue = roundMoney(
+    sales
+      .flatMap((sale) => sale.installments)
+      .filter((i) => i.dueDate < asOf)
+      .reduce((sum, i) => sum + (i.amount - i.paidAmount), 0),
+  );
+  return {
+    customer,
+    asOf,
+    sales,
+    lines,
+    totalDebit: roundMoney(lines.reduce((sum, l) => sum + l.debit, 0)),
+    totalCredit: roundMoney(lines.reduce((sum, l) => sum + l.credit, 0)),
+    balance,
+    overdue,
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Raised when a request is well-formed but clashes with the current state of
+ * the books (closed periods, immutable approved rows). Routes answer 409.
+ */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+/** Raised when the acting user's role may not perform a workflow step. */
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { buildInstallmentSchedule } from "./installment-plan";
+
+describe("buildInstallmentSchedule", () => {
+  it("should keep the legacy equal monthly plan", () => {
+    const plan = buildInstallmentSchedule(4000, "2026-01-01", {
+      downPayment: 1000,
+      frequency: "monthly",
+      count: 3,
+      installmentAmount: 1000,
+      firstDueDate: "2026-01-31",
+    });
+    expect(plan.downPayment).toBe(1000);
+    expect(plan.scheduledTotal).toBe(3000);
+    expect(plan.entries.map((e) => e.dueDate)).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+    ]);
+  });
+
+  it("should space quarterly installments after a grace period", () => {
+    const plan = buildInstallmentSchedule(12000, "2026-01-15", {
+      frequency: "quarterly",
+      count: 4,
+      graceMonths: 6,
+    });
+    expect(plan.entries.map((e) => e.dueDate)).toEqual([
+      "2026-10-15",
+      "2027-01-15",
+      "2027-04-15",
+      "2027-07-15",
+    ]);
+    expect(plan.entries.every((e) => e.amount === 3000)).toBe(true);
+  });
+
+  it("should split the remainder around a balloon and absorb rounding", () => {
+    const plan = buildInstallmentSchedule(10000, "2026-01-01", {
+      downPayment: 1000,
+      frequency: "annual",
+      count: 3,
+      fixedPayments: [{ dueDate: "2027-06-30", amount: 5000 }],
+    });
+    expect(plan.entries).toEqual([
+      { dueDate: "2027-01-01", amount: 1333.33 },
+      { dueDate: "2027-06-30", amount: 5000 },
+      { dueDate: "2028-01-01", amount: 1333.33 },
+      { dueDate: "2029-01-01", amount: 1333.34 },
+    ]);
+  });
+
+  it("should accept a fully custom schedule", () => {
+    const plan = buildInstallmentSchedule(3000, "2026-01-01", {
+      fixedPayments: [
+        { dueDate: "2026-09-01", amount: 2000 },
+        { dueDate: "2026-03-01", amount: 1000 },
+      ],
+    });
+    expect(plan.entries.map((e) => e.amount)).toEqual([1000, 2000]);
+  });
+
+  it("should reject a plan that does not add up to the price", () => {
+    expect(() =>
+      buildInstallmentSchedule(5000, "2026-01-01", {
+        downPayment: 1000,
+        count: 3,
+        installmentAmount: 1000,
+      }),
+    ).toThrow(/not the sale price/);
+  });
+
+  it("should reject payments due before the sale", () => {
+    expect(() =>
+      buildInstallmentSchedule(1000, "2026-05-01", {
+        fixedPayments: [{ dueDate: "2026-04-01", amount: 1000 }],
+      }),
+    ).toThrow(/before the sale date/);
+  });
+});
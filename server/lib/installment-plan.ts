@@ -0,0 +1,140 @@
+import type {
+  InstallmentFrequency,
+  InstallmentPlan,
+  InstallmentPlanEntry,
+  InstallmentPlanPreview,
+} from "@shared/accounting";
+import { occurrenceDate } from "./recurrence";
+import { roundMoney } from "./row-values";
+
+export const INSTALLMENT_FREQUENCIES: InstallmentFrequency[] = [
+  "monthly",
+  "quarterly",
+  "semiannual",
+  "annual",
+];
+
+const PERIOD_MONTHS: Record<InstallmentFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  semiannual: 6,
+  annual: 12,
+};
+
+/** Longest run of regular installments a plan may generate. */
+const MAX_INSTALLMENTS = 600;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function assertDate(value: string | null | undefined, label: string) {
+  if (!value || !ISO_DATE.test(value)) {
+    throw new Error(`${label} must be a date (YYYY-MM-DD)`);
+  }
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new Error(`${label} is not a valid date`);
+  }
+  return value;
+}
+
+/** Shifts a date by whole months, keeping the day where the month allows. */
+function addMonths(date: string, months: number) {
+  return months ? occurrenceDate(date, "monthly", months, 1) : date;
+}
+
+/**
+ * Expands a plan into its dated installments and checks that the down
+ * payment and the schedule together come to exactly the sale price.
+ *
+ * Without `installmentAmount`, what is left of the price after the down
+ * payment and fixed payments is split evenly; the last installment absorbs
+ * the rounding so the total still matches to the piastre.
+ */
+export function buildInstallmentSchedule(
+  price: number,
+  saleDate: string,
+  plan: InstallmentPlan,
+): InstallmentPlanPreview {
+  if (!(price > 0)) throw new Error("Sale price must be greater than zero");
+  assertDate(saleDate, "Sale date");
+  const downPayment = roundMoney(plan.downPayment ?? 0);
+  if (!Number.isFinite(downPayment) || downPayment < 0) {
+    throw new Error("Down payment cannot be negative");
+  }
+
+  const fixed = (plan.fixedPayments ?? []).map((entry, index) => {
+    const dueDate = assertDate(entry.dueDate, `Payment ${index + 1} date`);
+    if (dueDate < saleDate) {
+      throw new Error(`Payment ${index + 1} is due before the sale date`);
+    }
+    if (!(entry.amount > 0)) {
+      throw new Error(`Payment ${index + 1} must be greater than zero`);
+    }
+    return { dueDate, amount: roundMoney(entry.amount) };
+  });
+
+  const count = plan.count ?? 0;
+  const regular: InstallmentPlanEntry[] = [];
+  if (count) {
+    if (!Number.isInteger(count) || count < 0 || count > MAX_INSTALLMENTS) {
+      throw new Error(
+        `Installment count must be a whole number up to ${MAX_INSTALLMENTS}`,
+      );
+    }
+    const frequency = plan.frequency ?? "monthly";
+    const period = PERIOD_MONTHS[frequency];
+    if (!period) throw new Error("Unknown installment frequency");
+    const grace = plan.graceMonths ?? 0;
+    if (!Number.isInteger(grace) || grace < 0) {
+      throw new Error("Grace period must be a whole number of months");
+    }
+    const first = addMonths(
+      plan.firstDueDate
+        ? assertDate(plan.firstDueDate, "First due date")
+        : addMonths(saleDate, period),
+      grace,
+    );
+    if (first < saleDate) {
+      throw new Error("The first installment is due before the sale date");
+    }
+    const fixedTotal = fixed.reduce((sum, e) => sum + e.amount, 0);
+    const left = roundMoney(price - downPayment - fixedTotal);
+    const amount = plan.installmentAmount ?? null;
+    if (amount !== null && !(amount > 0)) {
+      throw new Error("Installment amount must be greater than zero");
+    }
+    const each =
+      amount !== null ? roundMoney(amount) : roundMoney(left / count);
+    for (let index = 0; index < count; index += 1) {
+      regular.push({
+        dueDate: occurrenceDate(first, "monthly", period, index),
+        amount:
+          amount === null && index === count - 1
+            ? roundMoney(left - each * (count - 1))
+            : each,
+      });
+    }
+    if (regular.some((e) => !(e.amount > 0))) {
+      throw new Error("Nothing is left of the price for regular installments");
+    }
+  }
+
+  const entries = [...regular, ...fixed].sort((a, b) =>
+    a.dueDate === b.dueDate ? 0 : a.dueDate < b.dueDate ? -1 : 1,
+  );
+  if (!entries.length) {
+    throw new Error("The plan has no installments");
+  }
+  const scheduledTotal = roundMoney(
+    entries.reduce((sum, e) => sum + e.amount, 0),
+  );
+  if (roundMoney(downPayment + scheduledTotal) !== roundMoney(price)) {
+    throw new Error(
+      `Down payment and installments add up to ${roundMoney(
+        downPayment + scheduledTotal,
+      )}, not the sale price of ${roundMoney(price)}`,
+    );
+  }
+  return { downPayment, entries, scheduledTotal };
+}
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { lateFeeAmount, lateFeePeriods } from "./late-fees";
+
+describe("lateFeePeriods", () => {
+  it("should start counting after the grace period", () => {
+    expect(lateFeePeriods("2026-01-10", 5, "2026-01-15")).toEqual([]);
+    expect(lateFeePeriods("2026-01-10", 5, "2026-01-16")).toEqual([
+      "2026-01-16",
+    ]);
+  });
+
+  it("should charge each month as soon as it starts", () => {
+    expect(lateFeePeriods("2026-01-30", 0, "2026-03-31")).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+    ]);
+  });
+});
+
+describe("lateFeeAmount", () => {
+  it("should charge a flat amount or a share of what is owed", () => {
+    expect(lateFeeAmount({ mode: "flat", amount: 150 }, 9000)).toBe(150);
+    expect(lateFeeAmount({ mode: "percent", amount: 1.5 }, 3333)).toBe(50);
+  });
+});
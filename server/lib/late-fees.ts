@@ -0,0 +1,43 @@
+import type { LateFeePolicy } from "@shared/accounting";
+import { occurrenceDate } from "./recurrence";
+import { roundMoney } from "./row-values";
+
+/** Stops a forgotten installment from being charged without end. */
+const MAX_PERIODS = 120;
+
+function addDays(date: string, days: number) {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Start dates of the months of lateness an installment due on `dueDate` has
+ * run up by `asOf`. The first month starts the day after the grace period
+ * ends, and a month is owed as soon as it starts.
+ */
+export function lateFeePeriods(
+  dueDate: string,
+  graceDays: number,
+  asOf: string,
+): string[] {
+  const start = addDays(dueDate, graceDays + 1);
+  const periods: string[] = [];
+  for (let index = 0; index < MAX_PERIODS; index += 1) {
+    const date = occurrenceDate(start, "monthly", 1, index);
+    if (date > asOf) break;
+    periods.push(date);
+  }
+  return periods;
+}
+
+/** The charge for one month of lateness on `outstanding`. */
+export function lateFeeAmount(
+  policy: Pick<LateFeePolicy, "mode" | "amount">,
+  outstanding: number,
+) {
+  return policy.mode === "percent"
+    ? roundMoney((outstanding * policy.amount) / 100)
+    : roundMoney(policy.amount);
+}
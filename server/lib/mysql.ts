@@ -1,6 +1,7 @@
 import crypto from "node:crypto";
 import mysql, { type RowDataPacket } from "mysql2/promise";
 import bcrypt from "bcryptjs";
+import { runMigrations } from "../migrations";
 
 const MYSQL_HOST = process.env.MYSQL_HOST;
 const MYSQL_PORT = Number(process.env.MYSQL_PORT ?? "3306");
@@ -37,32 +38,6 @@ export function getMysqlPool() {
   return pool;
 }
 
-async function ensureSchema(pool: mysql.Pool) {
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS users (
-      id CHAR(36) NOT NULL PRIMARY KEY,
-      username VARCHAR(191) NOT NULL UNIQUE,
-      name VARCHAR(191) NOT NULL,
-      email VARCHAR(191) NOT NULL,
-      role ENUM('manager','accountant','employee') NOT NULL DEFAULT 'employee',
-      active TINYINT(1) NOT NULL DEFAULT 1,
-      password_hash VARCHAR(191) NOT NULL,
-      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-      updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
-  `);
-
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS sessions (
-      token CHAR(36) NOT NULL PRIMARY KEY,
-      user_id CHAR(36) NOT NULL,
-      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
-      CONSTRAINT fk_sessions_user FOREIGN KEY (user_id)
-        REFERENCES users(id) ON DELETE CASCADE
-    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
-  `);
-}
-
 async function seedManager(pool: mysql.Pool) {
   const [rows] = await pool.query<RowDataPacket[]>(
     "SELECT 1 FROM users WHERE username = ? LIMIT 1",
@@ -86,7 +61,7 @@ export async function initializeMysql() {
       try {
         const currentPool = getMysqlPool();
         if (!currentPool) return false;
-        await ensureSchema(currentPool);
+        await runMigrations(currentPool);
         await seedManager(currentPool);
         return true;
       } catch (error) {
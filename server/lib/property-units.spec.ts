@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import {
+  assertManualStatusChange,
+  generateUnitNumbers,
+} from "./property-units";
+
+describe("generateUnitNumbers", () => {
+  it("should number units by floor", () => {
+    expect(generateUnitNumbers(2, 2)).toEqual([
+      { unitNo: "101", floor: 1 },
+      { unitNo: "102", floor: 1 },
+      { unitNo: "201", floor: 2 },
+      { unitNo: "202", floor: 2 },
+    ]);
+    expect(() => generateUnitNumbers(3, 100)).toThrow();
+  });
+});
+
+describe("assertManualStatusChange", () => {
+  it("should only allow delivery to be set by hand", () => {
+    expect(() => assertManualStatusChange("sold", "delivered")).not.toThrow();
+    expect(() => assertManualStatusChange("available", "sold")).toThrow();
+    expect(() => assertManualStatusChange("sold", "available")).toThrow();
+  });
+});
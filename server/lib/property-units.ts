@@ -0,0 +1,53 @@
+import type { PropertyUnitStatus } from "@shared/accounting";
+
+/** Keeps generated numbers to two digits per floor (101 … 199). */
+export const MAX_UNITS_PER_FLOOR = 99;
+
+/** Unit numbers for a building of `floors` floors, `<floor><nn>` each. */
+export function generateUnitNumbers(
+  floors: number,
+  unitsPerFloor: number,
+): { unitNo: string; floor: number }[] {
+  if (!Number.isInteger(floors) || floors <= 0) {
+    throw new Error("Floors must be a positive whole number");
+  }
+  if (
+    !Number.isInteger(unitsPerFloor) ||
+    unitsPerFloor <= 0 ||
+    unitsPerFloor > MAX_UNITS_PER_FLOOR
+  ) {
+    throw new Error(
+      `Units per floor must be between 1 and ${MAX_UNITS_PER_FLOOR}`,
+    );
+  }
+  const units: { unitNo: string; floor: number }[] = [];
+  for (let floor = 1; floor <= floors; floor += 1) {
+    for (let index = 1; index <= unitsPerFloor; index += 1) {
+      units.push({
+        unitNo: `${floor}${String(index).padStart(2, "0")}`,
+        floor,
+      });
+    }
+  }
+  return units;
+}
+
+/**
+ * Status changes a user may make directly. Everything else follows from
+ * sales and reservations, so a unit cannot be marked sold without one.
+ */
+const MANUAL_TRANSITIONS: Record<PropertyUnitStatus, PropertyUnitStatus[]> = {
+  available: [],
+  reserved: [],
+  sold: ["delivered"],
+  delivered: ["sold"],
+};
+
+export function assertManualStatusChange(
+  from: PropertyUnitStatus,
+  to: PropertyUnitStatus,
+) {
+  if (from !== to && !MANUAL_TRANSITIONS[from].includes(to)) {
+    throw new Error(`A ${from} unit cannot be marked ${to} by hand`);
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { agingBucket, buildAgingReport } from "./receivables-aging";
+import { installment } from "./__fixtures__/accounting";
+
+describe("agingBucket", () => {
+  it("should bucket by whole days past due", () => {
+    expect(agingBucket("2026-03-31", "2026-03-31")).toBe("current");
+    expect(agingBucket("2026-04-15", "2026-03-31")).toBe("current");
+    expect(agingBucket("2026-03-01", "2026-03-31")).toBe("1-30");
+    expect(agingBucket("2026-02-28", "2026-03-31")).toBe("31-60");
+    expect(agingBucket("2025-12-31", "2026-03-31")).toBe("61-90");
+    expect(agingBucket("2025-12-30", "2026-03-31")).toBe("90+");
+  });
+});
+
+describe("buildAgingReport", () => {
+  it("should age what is left on each sale and total it by project", () => {
+    const report = buildAgingReport(
+      [
+        installment({ id: "i1", dueDate: "2026-01-10", paidAmount: 400 }),
+        installment({ id: "i2", dueDate: "2026-03-10" }),
+        installment({ id: "i3", dueDate: "2026-05-10" }),
+        installment({
+          id: "i4",
+          dueDate: "2026-02-10",
+          paidAmount: 1000,
+          paid: true,
+        }),
+        installment({
+          id: "i5",
+          saleId: "s2",
+          projectId: "p2",
+          unitNo: "B7",
+          dueDate: "2026-02-20",
+          amount: 250.5,
+        }),
+      ],
+      new Map([
+        ["p1", "Tower"],
+        ["p2", "Annex"],
+      ]),
+      "2026-03-31",
+    );
+
+    expect(report.projects.map((p) => p.projectName)).toEqual([
+      "Annex",
+      "Tower",
+    ]);
+    const [row] = report.projects[1].rows;
+    expect(row).toMatchObject({
+      oldestDueDate: "2026-01-10",
+      current: 1000,
+      "1-30": 1000,
+      "61-90": 600,
+      total: 2600,
+    });
+    expect(report.projects[0]["31-60"]).toBe(250.5);
+    expect(report.totals).toEqual({
+      current: 1000,
+      "1-30": 1000,
+      "31-60": 250.5,
+      "61-90": 600,
+      "90+": 0,
+      total: 2850.5,
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import type {
+  AgingAmounts,
+  AgingBucket,
+  Installment,
+  ReceivablesAgingProject,
+  ReceivablesAgingReport,
+  ReceivablesAgingRow,
+} from "@shared/accounting";
+import { roundMoney } from "./row-values";
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  "current",
+  "1-30",
+  "31-60",
+  "61-90",
+  "90+",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/** Which bucket an installment due on `dueDate` falls in on `agingDate`. */
+export function agingBucket(dueDate: string, agingDate: string): AgingBucket {
+  const days = daysBetween(dueDate, agingDate);
+  if (days <= 0) return "current";
+  if (days <= 30) return "1-30";
+  if (days <= 60) return "31-60";
+  if (days <= 90) return "61-90";
+  return "90+";
+}
+
+function emptyAmounts(): AgingAmounts {
+  return { current: 0, "1-30": 0, "31-60": 0, "61-90": 0, "90+": 0, total: 0 };
+}
+
+function addAmounts(target: AgingAmounts, source: AgingAmounts) {
+  for (const bucket of AGING_BUCKETS) {
+    target[bucket] = roundMoney(target[bucket] + source[bucket]);
+  }
+  target.total = roundMoney(target.total + source.total);
+}
+
+/**
+ * Ages what is still owed on `installments` against `agingDate`, one row
+ * per sale, grouped by project. The balances are taken as given, not
+ * rolled back to that date. Installments not yet due count as current.
+ */
+export function buildAgingReport(
+  installments: Installment[],
+  projectNames: Map<string, string>,
+  agingDate: string,
+): ReceivablesAgingReport {
+  const rows = new Map<string, ReceivablesAgingRow>();
+  for (const inst of installments) {
+    const outstanding = roundMoney(inst.amount - inst.paidAmount);
+    if (outstanding <= 0) continue;
+    const row = rows.get(inst.saleId) ?? {
+      projectId: inst.projectId,
+      projectName: projectNames.get(inst.projectId) ?? "",
+      saleId: inst.saleId,
+      unitNo: inst.unitNo,
+      buyer: inst.buyer,
+      oldestDueDate: inst.dueDate,
+      ...emptyAmounts(),
+    };
+    const bucket = agingBucket(inst.dueDate, agingDate);
+    row[bucket] = roundMoney(row[bucket] + outstanding);
+    row.total = roundMoney(row.total + outstanding);
+    if (inst.dueDate < row.oldestDueDate) row.oldestDueDate = inst.dueDate;
+    rows.set(inst.saleId, row);
+  }
+
+  const projects = new Map<string, ReceivablesAgingProject>();
+  const totals = emptyAmounts();
+  for (const row of rows.values()) {
+    const project = projects.get(row.projectId) ?? {
+      projectId: row.projectId,
+      projectName: row.projectName,
+      rows: [],
+      ...emptyAmounts(),
+    };
+    project.rows.push(row);
+    addAmounts(project, row);
+    addAmounts(totals, row);
+    projects.set(row.projectId, project);
+  }
+  for (const project of projects.values()) {
+    project.rows.sort((a, b) =>
+      a.oldestDueDate === b.oldestDueDate
+        ? a.unitNo.localeCompare(b.unitNo)
+        : a.oldestDueDate < b.oldestDueDate
+          ? -1
+          : 1,
+    );
+  }
+
+  return {
+    agingDate,
+    projects: [...projects.values()].sort((a, b) =>
+      a.projectName.localeCompare(b.projectName),
+    ),
+    totals,
+  };
+}
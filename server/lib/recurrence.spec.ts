@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { occurrenceDate, upcomingOccurrences } from "./recurrence";
+
+describe("occurrenceDate", () => {
+  it("should keep the day of month after a short month", () => {
+    expect(
+      [0, 1, 2, 3].map((i) => occurrenceDate("2026-01-31", "monthly", 1, i)),
+    ).toEqual(["2026-01-31", "2026-02-28", "2026-03-31", "2026-04-30"]);
+  });
+
+  it("should fall back to the 28th of February outside leap years", () => {
+    expect(occurrenceDate("2024-02-29", "yearly", 1, 1)).toBe("2025-02-28");
+    expect(occurrenceDate("2024-02-29", "yearly", 1, 4)).toBe("2028-02-29");
+    expect(occurrenceDate("2024-01-31", "monthly", 1, 1)).toBe("2024-02-29");
+  });
+
+  it("should step days and weeks across month ends", () => {
+    expect(occurrenceDate("2026-01-30", "daily", 3, 1)).toBe("2026-02-02");
+    expect(occurrenceDate("2026-12-28", "weekly", 2, 1)).toBe("2027-01-11");
+  });
+});
+
+describe("upcomingOccurrences", () => {
+  it("should skip posted dates and stop at the schedule's limits", () => {
+    const schedule = {
+      frequency: "monthly" as const,
+      interval: 1,
+      startDate: "2026-01-15",
+      endDate: "2026-06-30",
+      maxOccurrences: 4,
+      occurrencesCreated: 2,
+      lastRunDate: "2026-02-15",
+    };
+    expect(upcomingOccurrences(schedule, 10)).toEqual([
+      "2026-03-15",
+      "2026-04-15",
+    ]);
+    expect(upcomingOccurrences(schedule, 10, "2026-03-31")).toEqual([
+      "2026-03-15",
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import type { RecurrenceFrequency } from "@shared/accounting";
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = [
+  "daily",
+  "weekly",
+  "monthly",
+  "yearly",
+];
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate: string | null;
+  maxOccurrences: number | null;
+  occurrencesCreated: number;
+  lastRunDate: string | null;
+}
+
+function toISODate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * The `index`-th occurrence counted from `startDate`. Every occurrence is
+ * derived from the start rather than the previous one, so a 31st that falls
+ * back to the 28th in February is the 31st again in March.
+ */
+export function occurrenceDate(
+  startDate: string,
+  frequency: RecurrenceFrequency,
+  interval: number,
+  index: number,
+): string {
+  const [year, month, day] = startDate.split("-").map(Number);
+  if (frequency === "daily" || frequency === "weekly") {
+    const days = index * interval * (frequency === "weekly" ? 7 : 1);
+    return toISODate(new Date(Date.UTC(year, month - 1, day + days)));
+  }
+  const months = index * interval * (frequency === "yearly" ? 12 : 1);
+  const lastDay = new Date(Date.UTC(year, month + months, 0)).getUTCDate();
+  return toISODate(
+    new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))),
+  );
+}
+
+/**
+ * Occurrences after `lastRunDate` that the schedule still allows, oldest
+ * first: at most `limit` of them and none later than `until`.
+ */
+export function upcomingOccurrences(
+  schedule: RecurrenceSchedule,
+  limit: number,
+  until?: string,
+): string[] {
+  const remaining =
+    schedule.maxOccurrences === null
+      ? limit
+      : Math.min(limit, schedule.maxOccurrences - schedule.occurrencesCreated);
+  const dates: string[] = [];
+  for (let index = 0; dates.length < remaining; index += 1) {
+    const date = occurrenceDate(
+      schedule.startDate,
+      schedule.frequency,
+      schedule.interval,
+      index,
+    );
+    if (schedule.endDate && date > schedule.endDate) break;
+    if (until && date > until) break;
+    if (schedule.lastRunDate && date <= schedule.lastRunDate) continue;
+    dates.push(date);
+  }
+  return dates;
+}
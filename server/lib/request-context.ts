@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { RequestHandler } from "express";
+
+// Who is acting and from where, for the duration of one request. Stores read
+// it when writing the audit log so their signatures stay free of HTTP detail.
+interface RequestContext {
+  actorId: string | null;
+  ip: string | null;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/** Must be registered after the body parsers so the context survives them. */
+export const requestContext: RequestHandler = (req, _res, next) => {
+  storage.run({ actorId: null, ip: req.ip ?? null }, next);
+};
+
+export function getRequestContext(): RequestContext | null {
+  return storage.getStore() ?? null;
+}
+
+/** Called once a request has been authenticated. */
+export function setRequestActor(userId: string | null) {
+  const context = storage.getStore();
+  if (context) context.actorId = userId;
+}
@@ -0,0 +1,52 @@
+// Normalizers for values coming back from mysql2, which may hand us
+// DECIMALs as strings, TINYINTs as numbers and DATE columns as Date objects.
+
+export function asNumber(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : 0;
+  }
+  if (value instanceof Date) return Number(value);
+  return 0;
+}
+
+export function asBoolean(value: unknown): boolean {
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0;
+  if (typeof value === "string")
+    return value !== "0" && value.toLowerCase() !== "false";
+  return Boolean(value);
+}
+
+export function formatDate(value: string | Date | null | undefined): string {
+  if (!value) return "";
+  if (typeof value === "string") {
+    if (value.length >= 10) return value.slice(0, 10);
+    return value;
+  }
+  return value.toISOString().slice(0, 10);
+}
+
+export function formatTimestamp(
+  value: string | Date | null | undefined,
+): string | null {
+  if (!value) return null;
+  if (typeof value === "string") return value;
+  return value.toISOString();
+}
+
+export function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// mysql2 returns JSON columns parsed, but older servers hand back strings.
+export function parseJson(value: unknown) {
+  if (typeof value !== "string") return value ?? null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
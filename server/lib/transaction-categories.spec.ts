@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import type { TransactionCategory } from "@shared/accounting";
+import { suggestCategory } from "./transaction-categories";
+
+const categories: TransactionCategory[] = [
+  {
+    id: "c1",
+    code: "salaries",
+    name: "رواتب وأجور",
+    type: "expense",
+    keywords: ["راتب", "Salary"],
+    active: true,
+  },
+  {
+    id: "c2",
+    code: "rent",
+    name: "إيجارات",
+    type: null,
+    keywords: ["إيجار"],
+    active: true,
+  },
+  {
+    id: "c3",
+    code: "office-rent",
+    name: "إيجار المكتب",
+    type: "expense",
+    keywords: ["إيجار المكتب"],
+    active: true,
+  },
+  {
+    id: "c4",
+    code: "old",
+    name: "قديم",
+    type: null,
+    keywords: ["صيانة"],
+    active: false,
+  },
+];
+
+const codeFor = (description: string, type: "revenue" | "expense") =>
+  suggestCategory(description, type, categories)?.code ?? null;
+
+describe("suggestCategory", () => {
+  it("should match keywords regardless of case", () => {
+    expect(codeFor("March SALARY run", "expense")).toBe("salaries");
+  });
+
+  it("should prefer the longest matching keyword", () => {
+    expect(codeFor("إيجار المكتب لشهر مارس", "expense")).toBe("office-rent");
+    expect(codeFor("إيجار محل", "expense")).toBe("rent");
+  });
+
+  it("should skip categories of the other type and inactive ones", () => {
+    expect(codeFor("راتب مرتجع", "revenue")).toBeNull();
+    expect(codeFor("إيجار المكتب", "revenue")).toBe("rent");
+    expect(codeFor("صيانة المصعد", "expense")).toBeNull();
+  });
+});
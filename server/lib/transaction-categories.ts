@@ -0,0 +1,79 @@
+import type { TransType, TransactionCategory } from "@shared/accounting";
+
+export interface CategorySeed {
+  code: string;
+  name: string;
+  type: TransType | null;
+  keywords: string[];
+}
+
+// Seeded on first run; managers can rename them, add keywords or add more.
+export const DEFAULT_TRANSACTION_CATEGORIES: CategorySeed[] = [
+  {
+    code: "salaries",
+    name: "رواتب وأجور",
+    type: "expense",
+    keywords: ["راتب", "رواتب", "مرتب", "مرتبات", "أجور", "salary", "payroll"],
+  },
+  {
+    code: "utilities",
+    name: "مرافق",
+    type: "expense",
+    keywords: ["كهرباء", "مياه", "غاز", "انترنت", "إنترنت", "utilities"],
+  },
+  {
+    code: "rent",
+    name: "إيجارات",
+    type: null,
+    keywords: ["إيجار", "ايجار", "rent"],
+  },
+  {
+    code: "commissions",
+    name: "عمولات",
+    type: null,
+    keywords: ["عمولة", "عمولات", "سمسرة", "commission"],
+  },
+  {
+    code: "maintenance",
+    name: "صيانة",
+    type: "expense",
+    keywords: ["صيانة", "إصلاح", "اصلاح", "maintenance"],
+  },
+  {
+    code: "transport",
+    name: "نقل ومواصلات",
+    type: "expense",
+    keywords: ["نقل", "مواصلات", "وقود", "بنزين", "transport"],
+  },
+  {
+    code: "other",
+    name: "أخرى",
+    type: null,
+    keywords: [],
+  },
+];
+
+/**
+ * Picks the active category whose longest keyword occurs in the description.
+ * Returns null when nothing matches, so the backfill never guesses blindly.
+ */
+export function suggestCategory(
+  description: string,
+  type: TransType,
+  categories: TransactionCategory[],
+): TransactionCategory | null {
+  const text = description.toLowerCase();
+  let best: { category: TransactionCategory; length: number } | null = null;
+  for (const category of categories) {
+    if (!category.active) continue;
+    if (category.type && category.type !== type) continue;
+    for (const keyword of category.keywords) {
+      const needle = keyword.trim().toLowerCase();
+      if (!needle || !text.includes(needle)) continue;
+      if (!best || needle.length > best.length) {
+        best = { category, length: needle.length };
+      }
+    }
+  }
+  return best?.category ?? null;
+}
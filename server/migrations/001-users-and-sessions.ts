@@ -0,0 +1,26 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 1,
+  name: "users-and-sessions",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS users (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      username VARCHAR(191) NOT NULL UNIQUE,
+      name VARCHAR(191) NOT NULL,
+      email VARCHAR(191) NOT NULL,
+      role ENUM('manager','accountant','employee') NOT NULL DEFAULT 'employee',
+      active TINYINT(1) NOT NULL DEFAULT 1,
+      password_hash VARCHAR(191) NOT NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS sessions (
+      token CHAR(36) NOT NULL PRIMARY KEY,
+      user_id CHAR(36) NOT NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT fk_sessions_user FOREIGN KEY (user_id)
+        REFERENCES users(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+  ],
+};
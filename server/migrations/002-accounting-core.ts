@@ -0,0 +1,72 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 2,
+  name: "accounting-core",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS transactions (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      date DATE NOT NULL,
+      type ENUM('revenue','expense') NOT NULL,
+      description VARCHAR(512) NOT NULL,
+      amount DECIMAL(14,2) NOT NULL,
+      approved TINYINT(1) NOT NULL DEFAULT 0,
+      created_by CHAR(36) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_transactions_date (date)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS inventory_items (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      name VARCHAR(191) NOT NULL,
+      quantity DECIMAL(14,3) NOT NULL DEFAULT 0,
+      unit VARCHAR(64) NOT NULL,
+      min DECIMAL(14,3) NOT NULL DEFAULT 0,
+      updated_at DATETIME NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS inventory_movements (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      item_id CHAR(36) NOT NULL,
+      kind ENUM('in','out') NOT NULL,
+      qty DECIMAL(14,3) NOT NULL,
+      unit_price DECIMAL(14,2) NOT NULL,
+      total DECIMAL(14,2) NULL,
+      party VARCHAR(191) NOT NULL,
+      date DATE NOT NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_inventory_movements_item (item_id),
+      CONSTRAINT fk_inventory_movements_item FOREIGN KEY (item_id)
+        REFERENCES inventory_items(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS projects (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      name VARCHAR(191) NOT NULL,
+      location VARCHAR(191) NOT NULL,
+      floors INT NOT NULL,
+      units INT NOT NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS project_costs (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      project_id CHAR(36) NOT NULL,
+      type ENUM('construction','operation','expense','other') NOT NULL,
+      amount DECIMAL(14,2) NOT NULL,
+      date DATE NOT NULL,
+      note TEXT NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_project_costs_project (project_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS project_sales (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      project_id CHAR(36) NOT NULL,
+      unit_no VARCHAR(191) NOT NULL,
+      buyer VARCHAR(191) NOT NULL,
+      price DECIMAL(14,2) NOT NULL,
+      date DATE NOT NULL,
+      terms TEXT NULL,
+      area VARCHAR(64) NULL,
+      payment_method VARCHAR(64) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_project_sales_project (project_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+  ],
+};
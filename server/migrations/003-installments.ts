@@ -0,0 +1,22 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 3,
+  name: "installments",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS installments (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      project_id CHAR(36) NOT NULL,
+      sale_id CHAR(36) NOT NULL,
+      unit_no VARCHAR(191) NOT NULL,
+      buyer VARCHAR(191) NOT NULL,
+      amount DECIMAL(14,2) NOT NULL,
+      due_date DATE NOT NULL,
+      paid TINYINT(1) NOT NULL DEFAULT 0,
+      paid_at DATE NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_installments_project (project_id),
+      INDEX idx_installments_sale (sale_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+  ],
+};
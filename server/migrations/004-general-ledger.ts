@@ -0,0 +1,84 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 4,
+  name: "general-ledger",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS accounts (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      code VARCHAR(32) NOT NULL UNIQUE,
+      name VARCHAR(191) NOT NULL,
+      type ENUM('asset','liability','equity','revenue','expense') NOT NULL,
+      parent_id CHAR(36) NULL,
+      active TINYINT(1) NOT NULL DEFAULT 1,
+      is_system TINYINT(1) NOT NULL DEFAULT 0,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_accounts_parent (parent_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS journal_entries (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      date DATE NOT NULL,
+      description VARCHAR(512) NOT NULL,
+      transaction_id CHAR(36) NULL,
+      posted TINYINT(1) NOT NULL DEFAULT 0,
+      created_by CHAR(36) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_journal_entries_date (date),
+      INDEX idx_journal_entries_transaction (transaction_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS journal_lines (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      entry_id CHAR(36) NOT NULL,
+      account_id CHAR(36) NOT NULL,
+      debit DECIMAL(14,2) NOT NULL DEFAULT 0,
+      credit DECIMAL(14,2) NOT NULL DEFAULT 0,
+      memo VARCHAR(512) NULL,
+      line_no INT NOT NULL DEFAULT 0,
+      INDEX idx_journal_lines_account (account_id),
+      CONSTRAINT fk_journal_lines_entry FOREIGN KEY (entry_id)
+        REFERENCES journal_entries(id) ON DELETE CASCADE,
+      CONSTRAINT fk_journal_lines_account FOREIGN KEY (account_id)
+        REFERENCES accounts(id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `INSERT IGNORE INTO accounts (id, code, name, type, is_system)
+     VALUES
+       (UUID(), '1000', 'الأصول', 'asset', 1),
+       (UUID(), '1100', 'النقدية وما في حكمها', 'asset', 1),
+       (UUID(), '1200', 'أقساط مستحقة التحصيل', 'asset', 1),
+       (UUID(), '1300', 'المخزون', 'asset', 1),
+       (UUID(), '2000', 'الخصوم', 'liability', 1),
+       (UUID(), '2100', 'الموردون', 'liability', 1),
+       (UUID(), '3000', 'حقوق الملكية', 'equity', 1),
+       (UUID(), '3100', 'رأس المال', 'equity', 1),
+       (UUID(), '3200', 'الأرباح المحتجزة', 'equity', 1),
+       (UUID(), '4000', 'الإيرادات', 'revenue', 1),
+       (UUID(), '4100', 'إيرادات بيع الوحدات', 'revenue', 1),
+       (UUID(), '4900', 'إيرادات أخرى', 'revenue', 1),
+       (UUID(), '5000', 'المصروفات', 'expense', 1),
+       (UUID(), '5100', 'تكاليف الإنشاء', 'expense', 1),
+       (UUID(), '5200', 'تكاليف التشغيل', 'expense', 1),
+       (UUID(), '5300', 'مصروفات المشروعات', 'expense', 1),
+       (UUID(), '5400', 'مواد مصروفة للمشروعات', 'expense', 1),
+       (UUID(), '5900', 'مصروفات عامة', 'expense', 1)`,
+    `UPDATE accounts child
+     JOIN accounts parent ON parent.code = '1000'
+     SET child.parent_id = parent.id
+     WHERE child.code IN ('1100', '1200', '1300')`,
+    `UPDATE accounts child
+     JOIN accounts parent ON parent.code = '2000'
+     SET child.parent_id = parent.id
+     WHERE child.code IN ('2100')`,
+    `UPDATE accounts child
+     JOIN accounts parent ON parent.code = '3000'
+     SET child.parent_id = parent.id
+     WHERE child.code IN ('3100', '3200')`,
+    `UPDATE accounts child
+     JOIN accounts parent ON parent.code = '4000'
+     SET child.parent_id = parent.id
+     WHERE child.code IN ('4100', '4900')`,
+    `UPDATE accounts child
+     JOIN accounts parent ON parent.code = '5000'
+     SET child.parent_id = parent.id
+     WHERE child.code IN ('5100', '5200', '5300', '5400', '5900')`,
+  ],
+};
@@ -0,0 +1,42 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 5,
+  name: "fiscal-periods",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS fiscal_years (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      name VARCHAR(191) NOT NULL,
+      start_date DATE NOT NULL,
+      end_date DATE NOT NULL,
+      created_by CHAR(36) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_fiscal_years_start (start_date)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS fiscal_periods (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      fiscal_year_id CHAR(36) NOT NULL,
+      period_no INT NOT NULL,
+      start_date DATE NOT NULL,
+      end_date DATE NOT NULL,
+      status ENUM('open','closed') NOT NULL DEFAULT 'open',
+      closed_at DATETIME NULL,
+      closed_by CHAR(36) NULL,
+      UNIQUE KEY uniq_fiscal_periods_year_no (fiscal_year_id, period_no),
+      INDEX idx_fiscal_periods_dates (start_date, end_date),
+      CONSTRAINT fk_fiscal_periods_year FOREIGN KEY (fiscal_year_id)
+        REFERENCES fiscal_years(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS fiscal_period_events (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      period_id CHAR(36) NOT NULL,
+      action ENUM('close','reopen') NOT NULL,
+      reason TEXT NULL,
+      user_id CHAR(36) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_fiscal_period_events_period (period_id),
+      CONSTRAINT fk_fiscal_period_events_period FOREIGN KEY (period_id)
+        REFERENCES fiscal_periods(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+  ],
+};
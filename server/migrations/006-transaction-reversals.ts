@@ -0,0 +1,13 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 6,
+  name: "transaction-reversals",
+  statements: [
+    `ALTER TABLE transactions
+      ADD COLUMN reversal_of CHAR(36) NULL,
+      ADD COLUMN reversed_by CHAR(36) NULL,
+      ADD COLUMN reversal_reason TEXT NULL,
+      ADD INDEX idx_transactions_reversal_of (reversal_of)`,
+  ],
+};
@@ -0,0 +1,14 @@
+import type { Migration } from "./types";
+
+// Rows written before this migration cannot be traced reliably and keep the
+// default `manual` source.
+export const migration: Migration = {
+  version: 7,
+  name: "transaction-sources",
+  statements: [
+    `ALTER TABLE transactions
+      ADD COLUMN source_type ENUM('sale','cost','movement','installment','manual') NOT NULL DEFAULT 'manual',
+      ADD COLUMN source_id CHAR(36) NULL,
+      ADD INDEX idx_transactions_source (source_type, source_id)`,
+  ],
+};
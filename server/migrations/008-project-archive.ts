@@ -0,0 +1,7 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 8,
+  name: "project-archive",
+  statements: [`ALTER TABLE projects ADD COLUMN archived_at DATETIME NULL`],
+};
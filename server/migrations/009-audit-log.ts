@@ -0,0 +1,22 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 9,
+  name: "audit-log",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS audit_log (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      actor_id VARCHAR(64) NULL,
+      action VARCHAR(32) NOT NULL,
+      entity_type VARCHAR(32) NOT NULL,
+      entity_id VARCHAR(64) NOT NULL,
+      before_json JSON NULL,
+      after_json JSON NULL,
+      ip VARCHAR(64) NULL,
+      created_at DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+      INDEX idx_audit_log_entity (entity_type, entity_id),
+      INDEX idx_audit_log_actor (actor_id),
+      INDEX idx_audit_log_created_at (created_at)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+  ],
+};
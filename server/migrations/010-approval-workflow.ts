@@ -0,0 +1,28 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 10,
+  name: "approval-workflow",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS approval_rules (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      type ENUM('revenue','expense') NULL,
+      min_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+      levels VARCHAR(191) NOT NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS transaction_approvals (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      transaction_id CHAR(36) NOT NULL,
+      decision ENUM('approve','reject','resubmit') NOT NULL,
+      level ENUM('accountant','manager') NULL,
+      user_id VARCHAR(64) NULL,
+      reason TEXT NULL,
+      created_at DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+      INDEX idx_transaction_approvals_tx (transaction_id, created_at)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `ALTER TABLE transactions
+      ADD COLUMN rejection_reason TEXT NULL,
+      ADD COLUMN rejected_at DATETIME NULL`,
+  ],
+};
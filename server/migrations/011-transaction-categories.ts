@@ -0,0 +1,29 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 11,
+  name: "transaction-categories",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS transaction_categories (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      code VARCHAR(64) NOT NULL UNIQUE,
+      name VARCHAR(191) NOT NULL,
+      type ENUM('revenue','expense') NULL,
+      keywords JSON NULL,
+      active TINYINT(1) NOT NULL DEFAULT 1,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `INSERT IGNORE INTO transaction_categories (id, code, name, type, keywords)
+     VALUES
+       (UUID(), 'salaries', 'رواتب وأجور', 'expense', '["راتب","رواتب","مرتب","مرتبات","أجور","salary","payroll"]'),
+       (UUID(), 'utilities', 'مرافق', 'expense', '["كهرباء","مياه","غاز","انترنت","إنترنت","utilities"]'),
+       (UUID(), 'rent', 'إيجارات', NULL, '["إيجار","ايجار","rent"]'),
+       (UUID(), 'commissions', 'عمولات', NULL, '["عمولة","عمولات","سمسرة","commission"]'),
+       (UUID(), 'maintenance', 'صيانة', 'expense', '["صيانة","إصلاح","اصلاح","maintenance"]'),
+       (UUID(), 'transport', 'نقل ومواصلات', 'expense', '["نقل","مواصلات","وقود","بنزين","transport"]'),
+       (UUID(), 'other', 'أخرى', NULL, '[]')`,
+    `ALTER TABLE transactions
+      ADD COLUMN category_id CHAR(36) NULL,
+      ADD INDEX idx_transactions_category (category_id)`,
+  ],
+};
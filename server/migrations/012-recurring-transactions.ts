@@ -0,0 +1,25 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 12,
+  name: "recurring-transactions",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS recurring_templates (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      type ENUM('revenue','expense') NOT NULL,
+      description VARCHAR(255) NOT NULL,
+      amount DECIMAL(14,2) NOT NULL,
+      category_id CHAR(36) NULL,
+      frequency ENUM('daily','weekly','monthly','yearly') NOT NULL,
+      repeat_every INT NOT NULL DEFAULT 1,
+      start_date DATE NOT NULL,
+      end_date DATE NULL,
+      max_occurrences INT NULL,
+      occurrences_created INT NOT NULL DEFAULT 0,
+      last_run_date DATE NULL,
+      paused TINYINT(1) NOT NULL DEFAULT 0,
+      created_by VARCHAR(64) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+  ],
+};
@@ -0,0 +1,36 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 13,
+  name: "money-accounts",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS money_accounts (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      name VARCHAR(191) NOT NULL,
+      kind ENUM('cash','bank') NOT NULL,
+      bank_name VARCHAR(191) NULL,
+      account_number VARCHAR(64) NULL,
+      opening_balance DECIMAL(14,2) NOT NULL DEFAULT 0,
+      opening_date DATE NOT NULL,
+      ledger_account_id CHAR(36) NOT NULL,
+      active TINYINT(1) NOT NULL DEFAULT 1,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_money_accounts_ledger (ledger_account_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS money_transfers (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      from_account_id CHAR(36) NOT NULL,
+      to_account_id CHAR(36) NOT NULL,
+      amount DECIMAL(14,2) NOT NULL,
+      date DATE NOT NULL,
+      note TEXT NULL,
+      journal_entry_id CHAR(36) NULL,
+      created_by VARCHAR(64) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_money_transfers_date (date)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `ALTER TABLE transactions
+      ADD COLUMN money_account_id CHAR(36) NULL,
+      ADD INDEX idx_transactions_money_account (money_account_id)`,
+  ],
+};
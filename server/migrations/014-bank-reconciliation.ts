@@ -0,0 +1,35 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 14,
+  name: "bank-reconciliation",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS bank_statement_imports (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      money_account_id CHAR(36) NOT NULL,
+      format ENUM('csv','ofx','mt940') NOT NULL,
+      file_name VARCHAR(255) NULL,
+      closing_balance DECIMAL(14,2) NULL,
+      closing_date DATE NULL,
+      imported_by VARCHAR(64) NULL,
+      imported_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_bank_statement_imports_account (money_account_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS bank_statement_lines (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      import_id CHAR(36) NOT NULL,
+      money_account_id CHAR(36) NOT NULL,
+      date DATE NOT NULL,
+      amount DECIMAL(14,2) NOT NULL,
+      description VARCHAR(255) NOT NULL,
+      reference VARCHAR(128) NULL,
+      fingerprint VARCHAR(255) NOT NULL,
+      status ENUM('unmatched','matched','created','ignored') NOT NULL DEFAULT 'unmatched',
+      transaction_id CHAR(36) NULL,
+      resolved_by VARCHAR(64) NULL,
+      resolved_at DATETIME NULL,
+      UNIQUE KEY uniq_bank_statement_lines_fingerprint (money_account_id, fingerprint),
+      INDEX idx_bank_statement_lines_transaction (transaction_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+  ],
+};
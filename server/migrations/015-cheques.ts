@@ -0,0 +1,35 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 15,
+  name: "cheques",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS cheques (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      installment_id CHAR(36) NOT NULL,
+      project_id CHAR(36) NOT NULL,
+      unit_no VARCHAR(191) NOT NULL,
+      buyer VARCHAR(191) NOT NULL,
+      number VARCHAR(64) NOT NULL,
+      bank VARCHAR(191) NOT NULL,
+      amount DECIMAL(14,2) NOT NULL,
+      due_date DATE NOT NULL,
+      status ENUM('received','deposited','cleared','bounced') NOT NULL DEFAULT 'received',
+      received_at DATE NOT NULL,
+      money_account_id CHAR(36) NULL,
+      deposited_at DATE NULL,
+      cleared_at DATE NULL,
+      transaction_id CHAR(36) NULL,
+      bounced_at DATE NULL,
+      bounce_reason TEXT NULL,
+      fee_installment_id CHAR(36) NULL,
+      created_by VARCHAR(64) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_cheques_installment (installment_id),
+      INDEX idx_cheques_project (project_id),
+      INDEX idx_cheques_status_due (status, due_date)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `ALTER TABLE installments
+      ADD COLUMN kind ENUM('plan','fee') NOT NULL DEFAULT 'plan' AFTER due_date`,
+  ],
+};
@@ -0,0 +1,44 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 16,
+  name: "installment-payments",
+  statements: [
+    `ALTER TABLE installments
+      ADD COLUMN paid_amount DECIMAL(14,2) NOT NULL DEFAULT 0 AFTER kind`,
+    `UPDATE installments SET paid_amount = amount WHERE paid = 1`,
+    `CREATE TABLE IF NOT EXISTS installment_payments (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      project_id CHAR(36) NOT NULL,
+      sale_id CHAR(36) NOT NULL,
+      date DATE NOT NULL,
+      amount DECIMAL(14,2) NOT NULL,
+      transaction_id CHAR(36) NOT NULL,
+      money_account_id CHAR(36) NULL,
+      reversed TINYINT(1) NOT NULL DEFAULT 0,
+      created_by VARCHAR(64) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_installment_payments_transaction (transaction_id),
+      INDEX idx_installment_payments_sale (sale_id),
+      INDEX idx_installment_payments_project (project_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS installment_allocations (
+      payment_id CHAR(36) NOT NULL,
+      installment_id CHAR(36) NOT NULL,
+      amount DECIMAL(14,2) NOT NULL,
+      PRIMARY KEY (payment_id, installment_id),
+      INDEX idx_installment_allocations_installment (installment_id)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    // Earlier payments settled one whole installment each.
+    `INSERT IGNORE INTO installment_payments (id, project_id, sale_id, date, amount, transaction_id, money_account_id, reversed, created_by, created_at)
+     SELECT UUID(), i.project_id, i.sale_id, t.date, t.amount, t.id, t.money_account_id,
+            t.reversed_by IS NOT NULL, t.created_by, t.created_at
+     FROM transactions t
+     JOIN installments i ON i.id = t.source_id
+     WHERE t.source_type = 'installment' AND t.reversal_of IS NULL`,
+    `INSERT IGNORE INTO installment_allocations (payment_id, installment_id, amount)
+     SELECT p.id, t.source_id, p.amount
+     FROM installment_payments p
+     JOIN transactions t ON t.id = p.transaction_id`,
+  ],
+};
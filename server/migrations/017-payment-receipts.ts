@@ -0,0 +1,21 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 17,
+  name: "payment-receipts",
+  statements: [
+    `ALTER TABLE installment_payments
+      ADD COLUMN receipt_no INT UNSIGNED NULL AFTER id,
+      ADD COLUMN idempotency_key VARCHAR(64) NULL,
+      ADD UNIQUE KEY uniq_installment_payments_idempotency (idempotency_key)`,
+    `UPDATE installment_payments p
+     JOIN (
+       SELECT id, ROW_NUMBER() OVER (ORDER BY created_at, id) AS n
+       FROM installment_payments
+     ) numbered ON numbered.id = p.id
+     SET p.receipt_no = numbered.n`,
+    `ALTER TABLE installment_payments
+      MODIFY receipt_no INT UNSIGNED NOT NULL,
+      ADD UNIQUE KEY uniq_installment_payments_receipt (receipt_no)`,
+  ],
+};
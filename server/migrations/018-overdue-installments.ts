@@ -0,0 +1,50 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 18,
+  name: "overdue-installments",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS late_fee_policy (
+      id TINYINT UNSIGNED NOT NULL PRIMARY KEY,
+      enabled TINYINT(1) NOT NULL DEFAULT 0,
+      mode ENUM('flat','percent') NOT NULL DEFAULT 'flat',
+      amount DECIMAL(14,4) NOT NULL DEFAULT 0,
+      grace_days INT UNSIGNED NOT NULL DEFAULT 0,
+      updated_by VARCHAR(64) NULL,
+      updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `INSERT IGNORE INTO late_fee_policy (id) VALUES (1)`,
+    `CREATE TABLE IF NOT EXISTS late_fees (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      installment_id CHAR(36) NOT NULL,
+      project_id CHAR(36) NOT NULL,
+      sale_id CHAR(36) NOT NULL,
+      unit_no VARCHAR(191) NOT NULL,
+      buyer VARCHAR(191) NOT NULL,
+      period INT UNSIGNED NOT NULL,
+      period_start DATE NOT NULL,
+      amount DECIMAL(14,2) NOT NULL,
+      fee_installment_id CHAR(36) NULL,
+      status ENUM('charged','waived') NOT NULL DEFAULT 'charged',
+      charged_at DATE NOT NULL,
+      waive_reason TEXT NULL,
+      waived_by VARCHAR(64) NULL,
+      waived_at DATE NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_late_fees_period (installment_id, period),
+      INDEX idx_late_fees_project (project_id, status)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `CREATE TABLE IF NOT EXISTS installment_reschedules (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      project_id CHAR(36) NOT NULL,
+      sale_id CHAR(36) NOT NULL,
+      date DATE NOT NULL,
+      reason TEXT NOT NULL,
+      previous_json JSON NOT NULL,
+      replacement_json JSON NOT NULL,
+      created_by VARCHAR(64) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_installment_reschedules_sale (sale_id, created_at)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+  ],
+};
@@ -0,0 +1,31 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 19,
+  name: "customers",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS customers (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      name VARCHAR(191) NOT NULL,
+      national_id VARCHAR(32) NULL,
+      phones JSON NULL,
+      address TEXT NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_customers_national_id (national_id),
+      INDEX idx_customers_name (name)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `ALTER TABLE project_sales
+      ADD COLUMN customer_id CHAR(36) NULL AFTER buyer,
+      ADD INDEX idx_project_sales_customer (customer_id)`,
+    // Existing buyers become one customer per distinct name; duplicates that
+    // are really different people can be split by relinking their sales.
+    `INSERT INTO customers (id, name)
+     SELECT UUID(), names.name
+     FROM (SELECT DISTINCT TRIM(buyer) AS name FROM project_sales WHERE TRIM(buyer) <> '') names
+     WHERE NOT EXISTS (SELECT 1 FROM customers c WHERE c.name = names.name)`,
+    `UPDATE project_sales s
+     JOIN customers c ON c.name = TRIM(s.buyer)
+     SET s.customer_id = c.id`,
+  ],
+};
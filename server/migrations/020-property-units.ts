@@ -0,0 +1,34 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 20,
+  name: "property-units",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS property_units (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      project_id CHAR(36) NOT NULL,
+      unit_no VARCHAR(64) NOT NULL,
+      floor INT NULL,
+      area DECIMAL(10,2) NULL,
+      type VARCHAR(64) NULL,
+      orientation VARCHAR(64) NULL,
+      list_price DECIMAL(15,2) NULL,
+      status ENUM('available','reserved','sold','delivered') NOT NULL DEFAULT 'available',
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_property_units_number (project_id, unit_no),
+      INDEX idx_property_units_status (project_id, status)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `ALTER TABLE project_sales
+      ADD COLUMN unit_id CHAR(36) NULL AFTER unit_no,
+      ADD INDEX idx_project_sales_unit (unit_id)`,
+    // Units already sold become inventory rows with an unknown floor so the
+    // same number cannot be sold again.
+    `INSERT IGNORE INTO property_units (id, project_id, unit_no, status)
+     SELECT UUID(), sold.project_id, sold.unit_no, 'sold'
+     FROM (SELECT DISTINCT project_id, TRIM(unit_no) AS unit_no
+           FROM project_sales WHERE TRIM(unit_no) <> '') sold`,
+    `UPDATE project_sales s
+     JOIN property_units u ON u.project_id = s.project_id AND u.unit_no = TRIM(s.unit_no)
+     SET s.unit_id = u.id`,
+  ],
+};
@@ -0,0 +1,41 @@
+import type { Migration } from "./types";
+
+export const migration: Migration = {
+  version: 21,
+  name: "unit-reservations",
+  statements: [
+    `CREATE TABLE IF NOT EXISTS unit_reservations (
+      id CHAR(36) NOT NULL PRIMARY KEY,
+      project_id CHAR(36) NOT NULL,
+      unit_id CHAR(36) NOT NULL,
+      unit_no VARCHAR(64) NOT NULL,
+      buyer VARCHAR(191) NOT NULL,
+      customer_id CHAR(36) NULL,
+      deposit DECIMAL(14,2) NOT NULL,
+      date DATE NOT NULL,
+      expires_on DATE NOT NULL,
+      agent VARCHAR(191) NOT NULL,
+      status ENUM('active','expired','converted','cancelled') NOT NULL DEFAULT 'active',
+      money_account_id CHAR(36) NULL,
+      sale_id CHAR(36) NULL,
+      cancel_reason VARCHAR(512) NULL,
+      cancelled_on DATE NULL,
+      deposit_entry_id CHAR(36) NULL,
+      refund_entry_id CHAR(36) NULL,
+      created_by VARCHAR(64) NULL,
+      created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_unit_reservations_project (project_id),
+      INDEX idx_unit_reservations_unit (unit_id),
+      INDEX idx_unit_reservations_expiry (status, expires_on)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+    `ALTER TABLE project_sales
+      ADD COLUMN reservation_id CHAR(36) NULL AFTER customer_id,
+      ADD COLUMN deposit_applied DECIMAL(14,2) NOT NULL DEFAULT 0 AFTER reservation_id`,
+    `INSERT IGNORE INTO accounts (id, code, name, type, is_system)
+     VALUES (UUID(), '2200', 'عربون حجز الوحدات', 'liability', 1)`,
+    `UPDATE accounts child
+     JOIN accounts parent ON parent.code = '2000'
+     SET child.parent_id = parent.id
+     WHERE child.code = '2200'`,
+  ],
+};
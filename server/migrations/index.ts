@@ -0,0 +1,136 @@
+import type mysql from "mysql2/promise";
+import type { RowDataPacket } from "mysql2/promise";
+import type { Migration } from "./types";
+import { migration as m001 } from "./001-users-and-sessions";
+import { migration as m002 } from "./002-accounting-core";
+import { migration as m003 } from "./003-installments";
+import { migration as m004 } from "./004-general-ledger";
+import { migration as m005 } from "./005-fiscal-periods";
+import { migration as m006 } from "./006-transaction-reversals";
+import { migration as m007 } from "./007-transaction-sources";
+import { migration as m008 } from "./008-project-archive";
+import { migration as m009 } from "./009-audit-log";
+import { migration as m010 } from "./010-approval-workflow";
+import { migration as m011 } from "./011-transaction-categories";
+import { migration as m012 } from "./012-recurring-transactions";
+import { migration as m013 } from "./013-money-accounts";
+import { migration as m014 } from "./014-bank-reconciliation";
+import { migration as m015 } from "./015-cheques";
+import { migration as m016 } from "./016-installment-payments";
+import { migration as m017 } from "./017-payment-receipts";
+import { migration as m018 } from "./018-overdue-installments";
+import { migration as m019 } from "./019-customers";
+import { migration as m020 } from "./020-property-units";
+import { migration as m021 } from "./021-unit-reservations";
+
+export type { Migration } from "./types";
+
+// Append new migrations at the end. Shipped migrations are never edited:
+// MySQL commits DDL implicitly, so a half-applied migration is retried from
+// its first statement on the next start. Each ALTER TABLE is atomic, so one
+// that fails on a retry with a duplicate column or index already ran and is
+// skipped (see `alreadyApplied`); data steps must be safe to run twice.
+export const migrations: Migration[] = [
+  m001,
+  m002,
+  m003,
+  m004,
+  m005,
+  m006,
+  m007,
+  m008,
+  m009,
+  m010,
+  m011,
+  m012,
+  m013,
+  m014,
+  m015,
+  m016,
+  m017,
+  m018,
+  m019,
+  m020,
+  m021,
+];
+
+const LOCK_NAME = "schema_migrations";
+const LOCK_TIMEOUT_SECONDS = 30;
+
+/** Errors a schema change raises when a previous attempt already made it. */
+const ALREADY_APPLIED_CODES = new Set(["ER_DUP_FIELDNAME", "ER_DUP_KEYNAME"]);
+
+function alreadyApplied(error: unknown) {
+  return ALREADY_APPLIED_CODES.has((error as { code?: string })?.code ?? "");
+}
+
+interface AppliedRow extends RowDataPacket {
+  version: number | string;
+}
+
+interface LockRow extends RowDataPacket {
+  acquired: number | null;
+}
+
+export async function runMigrations(pool: mysql.Pool): Promise<number[]> {
+  const conn = await pool.getConnection();
+  try {
+    // Serialize concurrent instances so each migration runs exactly once.
+    const [lockRows] = await conn.query<LockRow[]>(
+      `SELECT GET_LOCK(?, ?) AS acquired`,
+      [LOCK_NAME, LOCK_TIMEOUT_SECONDS],
+    );
+    if (!lockRows.length || Number(lockRows[0].acquired) !== 1) {
+      throw new Error("Timed out waiting for the schema migration lock");
+    }
+    try {
+      await conn.query(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+          version INT NOT NULL PRIMARY KEY,
+          name VARCHAR(191) NOT NULL,
+          applied_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+        ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+      `);
+      const [rows] = await conn.query<AppliedRow[]>(
+        `SELECT version FROM schema_migrations`,
+      );
+      const applied = new Set(rows.map((row) => Number(row.version)));
+      const latest = migrations.reduce((max, m) => Math.max(max, m.version), 0);
+      for (const version of applied) {
+        if (version > latest) {
+          throw new Error(
+            `Database schema version ${version} is newer than this build (${latest})`,
+          );
+        }
+      }
+
+      const ran: number[] = [];
+      const pending = [...migrations]
+        .filter((m) => !applied.has(m.version))
+        .sort((a, b) => a.version - b.version);
+      for (const migration of pending) {
+        for (const statement of migration.statements) {
+          try {
+            await conn.query(statement);
+          } catch (error) {
+            if (!alreadyApplied(error)) throw error;
+          }
+        }
+        await conn.query(
+          `INSERT INTO schema_migrations (version, name) VALUES (?, ?)`,
+          [migration.version, migration.name],
+        );
+        ran.push(migration.version);
+        // eslint-disable-next-line no-console
+        console.log(
+          `[mysql] applied migration ${migration.version} ${migration.name}`,
+        );
+      }
+      return ran;
+    } finally {
+      await conn.query(`SELECT RELEASE_LOCK(?)`, [LOCK_NAME]);
+    }
+  } finally {
+    conn.release();
+  }
+}
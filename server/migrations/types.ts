@@ -0,0 +1,6 @@
+export interface Migration {
+  /** Monotonic schema version; never renumber or edit a shipped migration. */
+  version: number;
+  name: string;
+  statements: string[];
+}
@@ -1,10 +1,22 @@
 import path from "path";
 import { createServer } from "./index";
 import * as express from "express";
+import { initializeMysql } from "./lib/mysql";
+import { startLateFeeScheduler } from "./store/collections";
+import { startRecurringScheduler } from "./store/recurring";
+import { startReservationExpiryScheduler } from "./store/reservations";
 
 const app = createServer();
 const port = process.env.PORT || 3000;
 
+// Scheduled postings run only in this long-lived process. The dev middleware
+// and the serverless handler build the app too and must not start them.
+void initializeMysql().then(() => {
+  startRecurringScheduler();
+  startLateFeeScheduler();
+  startReservationExpiryScheduler();
+});
+
 // In production, serve the built SPA files
 const __dirname = import.meta.dirname;
 const distPath = path.join(__dirname, "../spa");
@@ -7,14 +7,28 @@ import {
   type InventoryItemCreateInput,
   type InventoryMovementResult,
   type InventoryReceiptInput,
+  type InstallmentAllocation,
+  type InstallmentPaymentResult,
+  type InstallmentFrequency,
+  type InstallmentPlan,
+  type InstallmentPlanPreview,
   type Project,
   type ProjectCostCreateInput,
   type ProjectCostCreateResult,
   type ProjectCreateInput,
+  type ProjectCostUpdateInput,
+  type ProjectCostUpdateResult,
+  type ProjectDeleteResult,
   type ProjectSaleCreateInput,
   type ProjectSaleCreateResult,
+  type ProjectSaleUpdateResult,
   type Transaction,
+  type TransactionBatchResult,
   type TransactionCreateInput,
+  type TransactionReverseResult,
+  type TransactionSourceResult,
+  type TransactionSourceType,
+  type UnitReservation,
 } from "@shared/accounting";
 import { extractToken } from "./auth";
 import {
@@ -24,20 +38,39 @@ import {
   createProjectCost as createProjectCostStore,
   createProjectSale as createProjectSaleStore,
   createTransaction as createTransactionStore,
+  decideTransactions as decideTransactionsStore,
   deleteInventoryItem as deleteInventoryItemStore,
   deleteProject as deleteProjectStore,
   deleteTransaction as deleteTransactionStore,
   getAccountingSnapshot as getAccountingSnapshotStore,
   getProjectById as getProjectByIdStore,
   getProjectSnapshot as getProjectSnapshotStore,
+  getTransactionSource as getTransactionSourceStore,
+  listTransactionsForSource as listTransactionsForSourceStore,
   recordInventoryIssue as recordInventoryIssueStore,
   recordInventoryReceipt as recordInventoryReceiptStore,
+  rejectTransaction as rejectTransactionStore,
+  resubmitTransaction as resubmitTransactionStore,
+  reverseTransaction as reverseTransactionStore,
   payInstallment as payInstallmentStore,
+  paySaleInstallments as paySaleInstallmentsStore,
+  previewInstallmentPlan as previewInstallmentPlanStore,
+  updateInventoryItem as updateInventoryItemStore,
+  updateProject as updateProjectStore,
+  updateProjectCost as updateProjectCostStore,
+  updateProjectSale as updateProjectSaleStore,
+  updateTransaction as updateTransactionStore,
 } from "../store/accounting";
+import { ConflictError, ForbiddenError } from "../lib/errors";
+import { INSTALLMENT_FREQUENCIES } from "../lib/installment-plan";
+import { setRequestActor } from "../lib/request-context";
 import { getUserByTokenAsync } from "../store/auth";
+import { getCustomer } from "../store/customers";
+import { getReservation } from "../store/reservations";
+import { getUnit } from "../store/units";
 import { parseBody } from "../utils/parse-body";
 
-function respondError(
+export function respondError(
   res: Parameters<RequestHandler>[1],
   status: number,
   message: string,
@@ -45,7 +78,7 @@ function respondError(
   res.status(status).json({ error: message } as ApiError);
 }
 
-async function requireAuth(
+export async function requireAuth(
   req: Parameters<RequestHandler>[0],
   res: Parameters<RequestHandler>[1],
 ): Promise<User | null> {
@@ -62,10 +95,11 @@ async function requireAuth(
     respondError(res, 401, "Unauthorized");
     return null;
   }
+  setRequestActor(user.id);
   return user;
 }
 
-function ensureNumber(value: unknown) {
+export function ensureNumber(value: unknown) {
   if (typeof value === "number") return value;
   if (typeof value === "string" && value.trim() !== "") {
     const parsed = Number(value);
@@ -74,7 +108,17 @@ function ensureNumber(value: unknown) {
   return NaN;
 }
 
-function canApprove(user: User) {
+/**
+ * Conflicts with the state of the books (e.g. closed periods) map to 409,
+ * workflow steps the user's role may not take to 403.
+ */
+export function errorStatus(error: unknown, fallback: number) {
+  if (error instanceof ConflictError) return 409;
+  if (error instanceof ForbiddenError) return 403;
+  return fallback;
+}
+
+export function canApprove(user: User) {
   return user.role === "manager" || user.role === "accountant";
 }
 
@@ -100,15 +144,25 @@ export const createTransactionHandler: RequestHandler = async (req, res) => {
     respondError(res, 400, "Invalid amount");
     return;
   }
-  const transaction = await createTransactionStore({
-    date: String(body.date),
-    type: body.type === "revenue" ? "revenue" : "expense",
-    description: String(body.description),
-    amount,
-    approved: canApprove(user) && Boolean(body.approved),
-    createdBy: user.id,
-  });
-  res.status(201).json(transaction as Transaction);
+  try {
+    const transaction = await createTransactionStore({
+      date: String(body.date),
+      type: body.type === "revenue" ? "revenue" : "expense",
+      description: String(body.description),
+      amount,
+      approved: canApprove(user) && Boolean(body.approved),
+      createdBy: user.id,
+      categoryId: patchString(body.categoryId) ?? null,
+      moneyAccountId: patchString(body.moneyAccountId) ?? null,
+    });
+    res.status(201).json(transaction as Transaction);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to create transaction",
+    );
+  }
 };
 
 export const approveTransactionHandler: RequestHandler = async (req, res) => {
@@ -120,10 +174,107 @@ export const approveTransactionHandler: RequestHandler = async (req, res) => {
   }
   const id = req.params.id;
   try {
-    const transaction = await approveTransactionStore(id);
+    const transaction = await approveTransactionStore(id, user);
     res.json(transaction as Transaction);
   } catch (error: any) {
-    respondError(res, 404, error?.message || "Transaction not found");
+    respondError(
+      res,
+      errorStatus(error, 404),
+      error?.message || "Transaction not found",
+    );
+  }
+};
+
+/** Upper bound on IDs per batch request, to keep the locking window short. */
+const MAX_BATCH_SIZE = 500;
+
+export const batchTransactionsHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const ids = Array.isArray(body.ids)
+    ? body.ids.filter((id): id is string => typeof id === "string" && !!id)
+    : [];
+  if (!ids.length) {
+    respondError(res, 400, "No transactions selected");
+    return;
+  }
+  if (ids.length > MAX_BATCH_SIZE) {
+    respondError(res, 400, `At most ${MAX_BATCH_SIZE} transactions per batch`);
+    return;
+  }
+  if (body.decision !== "approve" && body.decision !== "reject") {
+    respondError(res, 400, "Invalid decision");
+    return;
+  }
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+  if (body.decision === "reject" && !reason) {
+    respondError(res, 400, "A reason is required to reject a transaction");
+    return;
+  }
+  try {
+    const result = await decideTransactionsStore(
+      { ids, decision: body.decision, reason: reason || null },
+      user,
+    );
+    res.json(result as TransactionBatchResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to process transactions",
+    );
+  }
+};
+
+export const rejectTransactionHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+  if (!reason) {
+    respondError(res, 400, "A reason is required to reject a transaction");
+    return;
+  }
+  try {
+    const transaction = await rejectTransactionStore(
+      String(req.params.id),
+      user,
+      reason,
+    );
+    res.json(transaction as Transaction);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 404),
+      error?.message || "Transaction not found",
+    );
+  }
+};
+
+export const resubmitTransactionHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  try {
+    const transaction = await resubmitTransactionStore(
+      String(req.params.id),
+      user,
+    );
+    res.json(transaction as Transaction);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 404),
+      error?.message || "Transaction not found",
+    );
   }
 };
 
@@ -137,11 +288,90 @@ export const deleteTransactionHandler: RequestHandler = async (req, res) => {
   try {
     await deleteTransactionStore(req.params.id);
     res.status(204).end();
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 404),
+      error?.message || "Transaction not found",
+    );
+  }
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const reverseTransactionHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+  if (!reason) {
+    respondError(res, 400, "A reason is required to reverse a transaction");
+    return;
+  }
+  const date = body.date
+    ? String(body.date)
+    : new Date().toISOString().slice(0, 10);
+  if (!ISO_DATE.test(date)) {
+    respondError(res, 400, "Invalid date");
+    return;
+  }
+  try {
+    const result = await reverseTransactionStore(String(req.params.id), {
+      reason,
+      date,
+      userId: user.id,
+    });
+    res.status(201).json(result as TransactionReverseResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to reverse transaction",
+    );
+  }
+};
+
+const SOURCE_TYPES: TransactionSourceType[] = [
+  "sale",
+  "cost",
+  "movement",
+  "installment",
+  "manual",
+];
+
+export const getTransactionSourceHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  try {
+    const result = await getTransactionSourceStore(String(req.params.id));
+    res.json(result as TransactionSourceResult);
   } catch (error: any) {
     respondError(res, 404, error?.message || "Transaction not found");
   }
 };
 
+export const listSourceTransactionsHandler: RequestHandler = async (
+  req,
+  res,
+) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const type = String(req.params.type) as TransactionSourceType;
+  if (!SOURCE_TYPES.includes(type)) {
+    respondError(res, 400, "Invalid source type");
+    return;
+  }
+  const transactions = await listTransactionsForSourceStore(
+    type,
+    String(req.params.id),
+  );
+  res.json(transactions as Transaction[]);
+};
+
 export const createInventoryItemHandler: RequestHandler = async (req, res) => {
   const user = await requireAuth(req, res);
   if (!user) return;
@@ -231,10 +461,15 @@ export const recordInventoryReceiptHandler: RequestHandler = async (
       date: String(body.date),
       approved: canApprove(user) && Boolean(body.approved),
       createdBy: user.id,
+      moneyAccountId: patchString(body.moneyAccountId) ?? null,
     });
     res.status(201).json(result as InventoryMovementResult);
   } catch (error: any) {
-    respondError(res, 400, error?.message || "Failed to record receipt");
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to record receipt",
+    );
   }
 };
 
@@ -277,7 +512,11 @@ export const recordInventoryIssueHandler: RequestHandler = async (req, res) => {
     });
     res.status(201).json(result as InventoryMovementResult);
   } catch (error: any) {
-    respondError(res, 400, error?.message || "Failed to record issue");
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to record issue",
+    );
   }
 };
 
@@ -352,10 +591,14 @@ export const deleteProjectHandler: RequestHandler = async (req, res) => {
     return;
   }
   try {
-    await deleteProjectStore(req.params.id);
-    res.status(204).end();
+    const result = await deleteProjectStore(String(req.params.id), user.id);
+    res.json(result as ProjectDeleteResult);
   } catch (error: any) {
-    respondError(res, 404, error?.message || "Project not found");
+    respondError(
+      res,
+      errorStatus(error, 404),
+      error?.message || "Project not found",
+    );
   }
 };
 
@@ -410,10 +653,15 @@ export const createProjectCostHandler: RequestHandler = async (req, res) => {
       note: body.note ?? "",
       approved: canApprove(user) && Boolean(body.approved),
       createdBy: user.id,
+      moneyAccountId: patchString(body.moneyAccountId) ?? null,
     });
     res.status(201).json(result as ProjectCostCreateResult);
   } catch (error: any) {
-    respondError(res, 400, error?.message || "Failed to create cost");
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to create cost",
+    );
   }
 };
 
@@ -428,11 +676,26 @@ export const createProjectSaleHandler: RequestHandler = async (req, res) => {
     req.body,
   ) as unknown as ProjectSaleCreateInput;
   const projectId = req.params.id || body.projectId;
+  const reservationId = patchString(body.reservationId) ?? null;
+  let reservation: UnitReservation | null = null;
+  if (reservationId) {
+    try {
+      reservation = await getReservation(reservationId);
+    } catch (error: any) {
+      respondError(res, 404, error?.message || "Reservation not found");
+      return;
+    }
+  }
+  // A sale converting a reservation defaults to its unit and buyer.
+  const customerId =
+    patchString(body.customerId) ?? reservation?.customerId ?? null;
+  const unitId = patchString(body.unitId) ?? reservation?.unitId;
+  const buyer = body.buyer || reservation?.buyer;
   if (
     !projectId ||
     !body.projectName ||
-    !body.unitNo ||
-    !body.buyer ||
+    !unitId ||
+    !(buyer || customerId) ||
     !body.date
   ) {
     respondError(res, 400, "Missing required fields");
@@ -448,30 +711,130 @@ export const createProjectSaleHandler: RequestHandler = async (req, res) => {
   const monthlyAmount =
     body.monthlyAmount == null ? null : ensureNumber(body.monthlyAmount);
   const months = body.months == null ? null : ensureNumber(body.months);
+  const plan = parseInstallmentPlan(body.plan);
+  if (plan === undefined) {
+    respondError(res, 400, "Invalid installment plan");
+    return;
+  }
   try {
+    const customer = customerId ? await getCustomer(customerId) : null;
+    const unit = await getUnit(unitId);
     const result = await createProjectSaleStore({
       projectId: String(projectId),
       projectName: String(body.projectName),
-      unitNo: String(body.unitNo),
-      buyer: String(body.buyer),
+      unitNo: unit.unitNo,
+      unitId,
+      buyer: customer ? customer.name : String(buyer),
+      customerId,
+      reservationId,
       price,
       date: String(body.date),
       terms: body.terms ?? null,
-      area: body.area ?? null,
+      area: body.area ?? (unit.area ? String(unit.area) : null),
       paymentMethod: body.paymentMethod ?? null,
       downPayment,
       monthlyAmount,
       months,
       firstDueDate: body.firstDueDate ?? null,
+      plan,
       approved: canApprove(user) && Boolean(body.approved),
       createdBy: user.id,
+      moneyAccountId: patchString(body.moneyAccountId) ?? null,
     });
     res.status(201).json(result as ProjectSaleCreateResult);
   } catch (error: any) {
-    respondError(res, 400, error?.message || "Failed to create sale");
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to create sale",
+    );
+  }
+};
+
+/**
+ * Reads an installment plan from a request body: `null` when none was sent,
+ * `undefined` when it is malformed. Amounts and dates are checked when the
+ * schedule is built.
+ */
+export function parseInstallmentPlan(
+  value: unknown,
+): InstallmentPlan | null | undefined {
+  if (value == null) return null;
+  if (typeof value !== "object") return undefined;
+  const raw = value as Record<string, unknown>;
+  const frequency = patchString(raw.frequency);
+  if (
+    frequency &&
+    !INSTALLMENT_FREQUENCIES.includes(frequency as InstallmentFrequency)
+  ) {
+    return undefined;
+  }
+  if (raw.fixedPayments != null && !Array.isArray(raw.fixedPayments)) {
+    return undefined;
+  }
+  return {
+    downPayment: patchNumber(raw.downPayment) ?? null,
+    frequency: (frequency as InstallmentFrequency | undefined) ?? null,
+    count: patchNumber(raw.count) ?? null,
+    firstDueDate: patchString(raw.firstDueDate) ?? null,
+    graceMonths: patchNumber(raw.graceMonths) ?? null,
+    installmentAmount: patchNumber(raw.installmentAmount) ?? null,
+    fixedPayments: (
+      (raw.fixedPayments as Record<string, unknown>[] | undefined) ?? []
+    ).map((entry) => ({
+      dueDate: String(entry?.dueDate ?? ""),
+      amount: ensureNumber(entry?.amount),
+    })),
+  };
+}
+
+/** Expands a plan into its schedule without recording a sale. */
+export const previewInstallmentPlanHandler: RequestHandler = async (
+  req,
+  res,
+) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const price = ensureNumber(body.price);
+  const plan = parseInstallmentPlan(body.plan);
+  if (plan === undefined) {
+    respondError(res, 400, "Invalid installment plan");
+    return;
+  }
+  if (!plan || !Number.isFinite(price) || typeof body.date !== "string") {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    res.json(
+      previewInstallmentPlanStore({
+        price,
+        date: body.date,
+        plan,
+      }) as InstallmentPlanPreview,
+    );
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to preview installment plan",
+    );
   }
 };
 
+/**
+ * The client's key for a payment request, from the `Idempotency-Key` header
+ * or the body. Retrying with the same key returns the recorded payment.
+ */
+function idempotencyKey(
+  req: Parameters<RequestHandler>[0],
+  body: Record<string, unknown>,
+) {
+  const key = req.get("Idempotency-Key") ?? patchString(body?.idempotencyKey);
+  return key?.trim() || null;
+}
+
 export const payInstallmentHandler: RequestHandler = async (req, res) => {
   const user = await requireAuth(req, res);
   if (!user) return;
@@ -482,19 +845,298 @@ export const payInstallmentHandler: RequestHandler = async (req, res) => {
   const id = req.params.id;
   const body = parseBody<Record<string, unknown>>(req.body) as {
     date?: string;
+    moneyAccountId?: string;
+    amount?: unknown;
   };
   const date = body?.date
     ? String(body.date)
     : new Date().toISOString().slice(0, 10);
+  const amount = patchNumber(body?.amount);
+  if (amount !== undefined && !(amount > 0)) {
+    respondError(res, 400, "Invalid amount");
+    return;
+  }
+  const key = idempotencyKey(req, body);
+  if (key && key.length > 64) {
+    respondError(res, 400, "Invalid idempotency key");
+    return;
+  }
   try {
     const result = await payInstallmentStore({
       id,
       date,
       approved: canApprove(user),
       createdBy: user.id,
+      moneyAccountId: patchString(body?.moneyAccountId) ?? null,
+      amount: amount ?? null,
+      idempotencyKey: key,
     });
     res.status(200).json(result);
   } catch (error: any) {
-    respondError(res, 400, error?.message || "Failed to pay installment");
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to pay installment",
+    );
+  }
+};
+
+/**
+ * One payment from a buyer against a sale's installments. Without
+ * `allocations` it settles the oldest due installments first.
+ */
+export const paySaleInstallmentsHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const amount = ensureNumber(body.amount);
+  if (!(amount > 0)) {
+    respondError(res, 400, "Invalid amount");
+    return;
+  }
+  let allocations: InstallmentAllocation[] | null = null;
+  if (Array.isArray(body.allocations) && body.allocations.length) {
+    allocations = body.allocations.map((a: Record<string, unknown>) => ({
+      installmentId: String(a?.installmentId ?? ""),
+      amount: ensureNumber(a?.amount),
+    }));
+    if (allocations.some((a) => !a.installmentId || !(a.amount > 0))) {
+      respondError(res, 400, "Invalid allocations");
+      return;
+    }
+  }
+  const key = idempotencyKey(req, body);
+  if (key && key.length > 64) {
+    respondError(res, 400, "Invalid idempotency key");
+    return;
+  }
+  try {
+    const result = await paySaleInstallmentsStore(
+      String(req.params.id),
+      {
+        amount,
+        date: patchString(body.date) ?? new Date().toISOString().slice(0, 10),
+        moneyAccountId: patchString(body.moneyAccountId) ?? null,
+        allocations,
+        idempotencyKey: key,
+      },
+      { approved: canApprove(user), createdBy: user.id },
+    );
+    res
+      .status(result.replayed ? 200 : 201)
+      .json(result as InstallmentPaymentResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to record payment",
+    );
+  }
+};
+
+/** Reads an optional numeric patch field; `undefined` leaves it unchanged. */
+function patchNumber(value: unknown) {
+  return value == null || value === "" ? undefined : ensureNumber(value);
+}
+
+function patchString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function isInvalidPositive(value: number | undefined) {
+  return value !== undefined && (!Number.isFinite(value) || value <= 0);
+}
+
+export const updateTransactionHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const amount = patchNumber(body.amount);
+  if (isInvalidPositive(amount)) {
+    respondError(res, 400, "Invalid amount");
+    return;
+  }
+  if (body.type != null && body.type !== "revenue" && body.type !== "expense") {
+    respondError(res, 400, "Invalid transaction type");
+    return;
+  }
+  try {
+    const transaction = await updateTransactionStore(String(req.params.id), {
+      date: patchString(body.date),
+      type: body.type == null ? undefined : (body.type as Transaction["type"]),
+      description: patchString(body.description),
+      amount,
+      // An explicit null or empty string clears the category.
+      categoryId:
+        body.categoryId === undefined
+          ? undefined
+          : (patchString(body.categoryId) ?? null),
+      moneyAccountId:
+        body.moneyAccountId === undefined
+          ? undefined
+          : (patchString(body.moneyAccountId) ?? null),
+    });
+    res.json(transaction as Transaction);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to update transaction",
+    );
+  }
+};
+
+export const updateProjectHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const floors = patchNumber(body.floors);
+  const units = patchNumber(body.units);
+  if (isInvalidPositive(floors) || isInvalidPositive(units)) {
+    respondError(res, 400, "Invalid numeric values");
+    return;
+  }
+  try {
+    const project = await updateProjectStore(String(req.params.id), {
+      name: patchString(body.name),
+      location: patchString(body.location),
+      floors,
+      units,
+    });
+    res.json(project as Project);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to update project",
+    );
+  }
+};
+
+export const updateInventoryItemHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const min = patchNumber(body.min);
+  if (min !== undefined && (!Number.isFinite(min) || min < 0)) {
+    respondError(res, 400, "Invalid numeric values");
+    return;
+  }
+  try {
+    const item = await updateInventoryItemStore(String(req.params.id), {
+      name: patchString(body.name),
+      unit: patchString(body.unit),
+      min,
+    });
+    res.json(item as InventoryItem);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to update inventory item",
+    );
+  }
+};
+
+export const updateProjectCostHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  if (
+    body.type != null &&
+    !["construction", "operation", "expense", "other"].includes(
+      String(body.type),
+    )
+  ) {
+    respondError(res, 400, "Invalid cost type");
+    return;
+  }
+  const amount = patchNumber(body.amount);
+  if (isInvalidPositive(amount)) {
+    respondError(res, 400, "Invalid amount");
+    return;
+  }
+  try {
+    const result = await updateProjectCostStore(String(req.params.id), {
+      type:
+        body.type == null
+          ? undefined
+          : (body.type as ProjectCostUpdateInput["type"]),
+      customTypeLabel:
+        typeof body.customTypeLabel === "string"
+          ? body.customTypeLabel
+          : undefined,
+      amount,
+      date: patchString(body.date),
+      note: typeof body.note === "string" ? body.note : undefined,
+    });
+    res.json(result as ProjectCostUpdateResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to update cost",
+    );
+  }
+};
+
+export const updateProjectSaleHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const price = patchNumber(body.price);
+  if (isInvalidPositive(price)) {
+    respondError(res, 400, "Invalid price");
+    return;
+  }
+  const optionalText = (value: unknown) =>
+    value === undefined ? undefined : value == null ? null : String(value);
+  try {
+    // A linked sale takes its buyer name from the customer.
+    const customerId =
+      body.customerId === null ? null : patchString(body.customerId);
+    const customer = customerId ? await getCustomer(customerId) : null;
+    const result = await updateProjectSaleStore(String(req.params.id), {
+      unitNo: patchString(body.unitNo),
+      buyer: customer ? customer.name : patchString(body.buyer),
+      customerId,
+      unitId: patchString(body.unitId),
+      price,
+      date: patchString(body.date),
+      terms: optionalText(body.terms),
+      area: optionalText(body.area),
+      paymentMethod: optionalText(body.paymentMethod),
+    });
+    res.json(result as ProjectSaleUpdateResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to update sale",
+    );
   }
 };
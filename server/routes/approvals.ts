@@ -0,0 +1,81 @@
+import type { RequestHandler } from "express";
+import type {
+  ApprovalInboxItem,
+  ApprovalLevel,
+  ApprovalRule,
+} from "@shared/accounting";
+import { canApprove, requireAuth, respondError } from "./accounting";
+import { listApprovalInbox as listApprovalInboxStore } from "../store/accounting";
+import {
+  createApprovalRule as createApprovalRuleStore,
+  deleteApprovalRule as deleteApprovalRuleStore,
+  listApprovalRules as listApprovalRulesStore,
+} from "../store/approvals";
+import { parseBody } from "../utils/parse-body";
+
+export const approvalInboxHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const items = await listApprovalInboxStore(user);
+  res.json(items as ApprovalInboxItem[]);
+};
+
+export const listApprovalRulesHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const rules = await listApprovalRulesStore();
+  res.json(rules as ApprovalRule[]);
+};
+
+export const createApprovalRuleHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const minAmount = Number(body.minAmount);
+  if (!Number.isFinite(minAmount) || minAmount < 0) {
+    respondError(res, 400, "Invalid threshold");
+    return;
+  }
+  if (!Array.isArray(body.levels)) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const rule = await createApprovalRuleStore({
+      type:
+        body.type === "revenue" || body.type === "expense" ? body.type : null,
+      minAmount,
+      levels: body.levels.map(String) as ApprovalLevel[],
+    });
+    res.status(201).json(rule as ApprovalRule);
+  } catch (error: any) {
+    respondError(res, 400, error?.message || "Failed to create approval rule");
+  }
+};
+
+export const deleteApprovalRuleHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  try {
+    await deleteApprovalRuleStore(String(req.params.id));
+    res.status(204).end();
+  } catch (error: any) {
+    respondError(res, 404, error?.message || "Approval rule not found");
+  }
+};
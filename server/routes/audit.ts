@@ -0,0 +1,91 @@
+import type { RequestHandler } from "express";
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+} from "@shared/accounting";
+import { requireAuth, respondError } from "./accounting";
+import { listAuditLog as listAuditLogStore } from "../store/audit";
+
+const AUDIT_ACTIONS: AuditAction[] = [
+  "create",
+  "update",
+  "delete",
+  "approve",
+  "reverse",
+  "archive",
+  "pay",
+  "reject",
+  "resubmit",
+  "login",
+];
+
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  "transaction",
+  "inventory_item",
+  "inventory_movement",
+  "project",
+  "project_cost",
+  "project_sale",
+  "installment",
+  "approval_rule",
+  "category",
+  "recurring_template",
+  "money_account",
+  "money_transfer",
+  "bank_statement",
+  "bank_statement_line",
+  "cheque",
+  "late_fee",
+  "late_fee_policy",
+  "installment_reschedule",
+  "customer",
+  "property_unit",
+  "unit_reservation",
+  "user",
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function queryString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+export const listAuditLogHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const action = queryString(req.query.action);
+  const entityType = queryString(req.query.entityType);
+  const from = queryString(req.query.from);
+  const to = queryString(req.query.to);
+  if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+    respondError(res, 400, "Invalid action");
+    return;
+  }
+  if (
+    entityType &&
+    !AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)
+  ) {
+    respondError(res, 400, "Invalid entity type");
+    return;
+  }
+  if ((from && !ISO_DATE.test(from)) || (to && !ISO_DATE.test(to))) {
+    respondError(res, 400, "Invalid date");
+    return;
+  }
+  const limit = Number(req.query.limit);
+  const entries = await listAuditLogStore({
+    actorId: queryString(req.query.actorId),
+    action: action as AuditAction | null,
+    entityType: entityType as AuditEntityType | null,
+    entityId: queryString(req.query.entityId),
+    from,
+    to,
+    limit: Number.isFinite(limit) && limit > 0 ? limit : null,
+  });
+  res.json(entries as AuditLogEntry[]);
+};
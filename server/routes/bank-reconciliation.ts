@@ -0,0 +1,218 @@
+import type { RequestHandler } from "express";
+import type {
+  BankReconciliationReport,
+  BankStatementFormat,
+  BankStatementImportResult,
+  BankStatementLine,
+  BankStatementLineStatus,
+  CsvColumnMapping,
+} from "@shared/accounting";
+import {
+  canApprove,
+  errorStatus,
+  requireAuth,
+  respondError,
+} from "./accounting";
+import {
+  createFromStatementLine as createFromStatementLineStore,
+  getReconciliationReport as getReconciliationReportStore,
+  ignoreStatementLine as ignoreStatementLineStore,
+  importBankStatement as importBankStatementStore,
+  listStatementLines as listStatementLinesStore,
+  matchStatementLine as matchStatementLineStore,
+  reopenStatementLine as reopenStatementLineStore,
+} from "../store/bank-reconciliation";
+import { parseBody } from "../utils/parse-body";
+
+const LINE_STATUSES: BankStatementLineStatus[] = [
+  "unmatched",
+  "matched",
+  "created",
+  "ignored",
+];
+
+function text(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function parseMapping(value: unknown): CsvColumnMapping | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  return {
+    date: text(raw.date) ?? "",
+    description: text(raw.description) ?? "",
+    amount: text(raw.amount),
+    debit: text(raw.debit),
+    credit: text(raw.credit),
+    reference: text(raw.reference),
+    balance: text(raw.balance),
+    dateFormat: text(raw.dateFormat),
+    // Kept untrimmed so a tab delimiter survives.
+    delimiter: typeof raw.delimiter === "string" ? raw.delimiter || null : null,
+    hasHeader: typeof raw.hasHeader === "boolean" ? raw.hasHeader : true,
+  };
+}
+
+export const importBankStatementHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  if (typeof body.format !== "string" || typeof body.content !== "string") {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const result = await importBankStatementStore(
+      String(req.params.id),
+      {
+        format: body.format as BankStatementFormat,
+        content: body.content,
+        fileName: text(body.fileName),
+        mapping: parseMapping(body.mapping),
+      },
+      user.id,
+    );
+    res.status(201).json(result as BankStatementImportResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to import statement",
+    );
+  }
+};
+
+export const listStatementLinesHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const status = LINE_STATUSES.find((s) => s === req.query.status) ?? null;
+  const lines = await listStatementLinesStore(String(req.params.id), status);
+  res.json(lines as BankStatementLine[]);
+};
+
+export const matchStatementLineHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const transactionId = text(body.transactionId);
+  if (!transactionId) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const line = await matchStatementLineStore(
+      String(req.params.id),
+      transactionId,
+      user.id,
+    );
+    res.json(line as BankStatementLine);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to match statement line",
+    );
+  }
+};
+
+export const createFromStatementLineHandler: RequestHandler = async (
+  req,
+  res,
+) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  try {
+    const result = await createFromStatementLineStore(
+      String(req.params.id),
+      {
+        description: text(body.description),
+        categoryId: text(body.categoryId),
+      },
+      user.id,
+    );
+    res.status(201).json(result);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to create transaction from line",
+    );
+  }
+};
+
+export const ignoreStatementLineHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  try {
+    const line = await ignoreStatementLineStore(String(req.params.id), user.id);
+    res.json(line as BankStatementLine);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to ignore statement line",
+    );
+  }
+};
+
+export const reopenStatementLineHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  try {
+    const line = await reopenStatementLineStore(String(req.params.id), user.id);
+    res.json(line as BankStatementLine);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to reopen statement line",
+    );
+  }
+};
+
+export const reconciliationReportHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const asOf =
+    typeof req.query.asOf === "string" && req.query.asOf
+      ? req.query.asOf
+      : new Date().toISOString().slice(0, 10);
+  try {
+    const report = await getReconciliationReportStore(
+      String(req.params.id),
+      asOf,
+    );
+    res.json(report as BankReconciliationReport);
+  } catch (error: any) {
+    respondError(res, 404, error?.message || "Money account not found");
+  }
+};
@@ -0,0 +1,154 @@
+import type { RequestHandler } from "express";
+import type {
+  CategoryAssignment,
+  CategoryBackfillResult,
+  CategorySuggestion,
+  TransType,
+  TransactionCategory,
+} from "@shared/accounting";
+import {
+  canApprove,
+  errorStatus,
+  requireAuth,
+  respondError,
+} from "./accounting";
+import {
+  applyCategoryBackfill as applyCategoryBackfillStore,
+  suggestTransactionCategories as suggestTransactionCategoriesStore,
+} from "../store/accounting";
+import {
+  createCategory as createCategoryStore,
+  deleteCategory as deleteCategoryStore,
+  listCategories as listCategoriesStore,
+  updateCategory as updateCategoryStore,
+} from "../store/categories";
+import { parseBody } from "../utils/parse-body";
+
+function parseType(value: unknown): TransType | null {
+  return value === "revenue" || value === "expense" ? value : null;
+}
+
+function parseKeywords(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string") return value.split(/[,،\n]/);
+  return undefined;
+}
+
+export const listCategoriesHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const categories = await listCategoriesStore();
+  res.json(categories as TransactionCategory[]);
+};
+
+export const createCategoryHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  if (typeof body.code !== "string" || typeof body.name !== "string") {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const category = await createCategoryStore({
+      code: body.code,
+      name: body.name,
+      type: parseType(body.type),
+      keywords: parseKeywords(body.keywords) ?? [],
+    });
+    res.status(201).json(category as TransactionCategory);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to create category",
+    );
+  }
+};
+
+export const updateCategoryHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  try {
+    const category = await updateCategoryStore(String(req.params.id), {
+      name: typeof body.name === "string" ? body.name : undefined,
+      type: body.type === undefined ? undefined : parseType(body.type),
+      keywords: parseKeywords(body.keywords),
+      active: typeof body.active === "boolean" ? body.active : undefined,
+    });
+    res.json(category as TransactionCategory);
+  } catch (error: any) {
+    respondError(res, 404, error?.message || "Category not found");
+  }
+};
+
+export const deleteCategoryHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  try {
+    const category = await deleteCategoryStore(String(req.params.id));
+    res.json(category as TransactionCategory);
+  } catch (error: any) {
+    respondError(res, 404, error?.message || "Category not found");
+  }
+};
+
+export const categorySuggestionsHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const suggestions = await suggestTransactionCategoriesStore();
+  res.json(suggestions as CategorySuggestion[]);
+};
+
+export const categoryBackfillHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const assignments = Array.isArray(body.assignments)
+    ? (body.assignments as Record<string, unknown>[]).filter(
+        (a): a is Record<string, string> =>
+          typeof a?.transactionId === "string" &&
+          typeof a?.categoryId === "string",
+      )
+    : [];
+  if (!assignments.length) {
+    respondError(res, 400, "No assignments provided");
+    return;
+  }
+  try {
+    const result = await applyCategoryBackfillStore(
+      assignments.map((a): CategoryAssignment => ({
+        transactionId: a.transactionId,
+        categoryId: a.categoryId,
+      })),
+    );
+    res.json(result as CategoryBackfillResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to apply categories",
+    );
+  }
+};
@@ -0,0 +1,170 @@
+import type { RequestHandler } from "express";
+import type {
+  Cheque,
+  ChequeActionResult,
+  ChequeStatus,
+} from "@shared/accounting";
+import {
+  canApprove,
+  errorStatus,
+  requireAuth,
+  respondError,
+} from "./accounting";
+import {
+  bounceCheque as bounceChequeStore,
+  clearCheque as clearChequeStore,
+  depositCheque as depositChequeStore,
+  listCheques as listChequesStore,
+  registerCheque as registerChequeStore,
+} from "../store/cheques";
+import { parseBody } from "../utils/parse-body";
+
+const CHEQUE_STATUSES: ChequeStatus[] = [
+  "received",
+  "deposited",
+  "cleared",
+  "bounced",
+];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function text(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** The action date from the body; defaults to today. */
+function actionDate(value: unknown) {
+  const date = text(value);
+  return date ?? new Date().toISOString().slice(0, 10);
+}
+
+export const listChequesHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const status = CHEQUE_STATUSES.find((s) => s === req.query.status) ?? null;
+  const projectId = text(req.query.projectId);
+  const cheques = await listChequesStore({ status, projectId });
+  res.json(cheques as Cheque[]);
+};
+
+export const registerChequeHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const installmentId = text(body.installmentId);
+  const number = text(body.number);
+  const bank = text(body.bank);
+  const dueDate = text(body.dueDate);
+  if (!installmentId || !number || !bank || !dueDate) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  const receivedAt = text(body.receivedAt);
+  if (!ISO_DATE.test(dueDate) || (receivedAt && !ISO_DATE.test(receivedAt))) {
+    respondError(res, 400, "Invalid date");
+    return;
+  }
+  try {
+    const cheque = await registerChequeStore(
+      { installmentId, number, bank, dueDate, receivedAt },
+      user.id,
+    );
+    res.status(201).json(cheque as Cheque);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to register cheque",
+    );
+  }
+};
+
+export const depositChequeHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const moneyAccountId = text(body.moneyAccountId);
+  if (!moneyAccountId) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const cheque = await depositChequeStore(String(req.params.id), {
+      moneyAccountId,
+      date: actionDate(body.date),
+    });
+    res.json(cheque as Cheque);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to deposit cheque",
+    );
+  }
+};
+
+export const clearChequeHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  try {
+    const result = await clearChequeStore(String(req.params.id), {
+      date: actionDate(body.date),
+      userId: user.id,
+    });
+    res.json(result as ChequeActionResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to clear cheque",
+    );
+  }
+};
+
+export const bounceChequeHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const reason = text(body.reason);
+  if (!reason) {
+    respondError(res, 400, "A reason is required");
+    return;
+  }
+  const fee =
+    body.fee == null || body.fee === "" ? null : Number(body.fee as string);
+  if (fee != null && !Number.isFinite(fee)) {
+    respondError(res, 400, "Invalid fee");
+    return;
+  }
+  try {
+    const result = await bounceChequeStore(
+      String(req.params.id),
+      { reason, fee, date: actionDate(body.date) },
+      user.id,
+    );
+    res.json(result as ChequeActionResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to record bounced cheque",
+    );
+  }
+};
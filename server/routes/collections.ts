@@ -0,0 +1,195 @@
+import type { RequestHandler } from "express";
+import type {
+  InstallmentReschedule,
+  InstallmentRescheduleResult,
+  LateFee,
+  LateFeeAccrualResult,
+  LateFeeMode,
+  LateFeePolicy,
+  LateFeeStatus,
+} from "@shared/accounting";
+import {
+  canApprove,
+  ensureNumber,
+  errorStatus,
+  parseInstallmentPlan,
+  requireAuth,
+  respondError,
+} from "./accounting";
+import { listInstallmentReschedules as listInstallmentReschedulesStore } from "../store/accounting";
+import {
+  accrueLateFees as accrueLateFeesStore,
+  getLateFeePolicy as getLateFeePolicyStore,
+  listLateFees as listLateFeesStore,
+  rescheduleSale as rescheduleSaleStore,
+  updateLateFeePolicy as updateLateFeePolicyStore,
+  waiveLateFee as waiveLateFeeStore,
+} from "../store/collections";
+import { parseBody } from "../utils/parse-body";
+
+const LATE_FEE_STATUSES: LateFeeStatus[] = ["charged", "waived"];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function text(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/** The action date from the body; defaults to today. */
+function actionDate(value: unknown) {
+  const date = text(value);
+  return date ?? new Date().toISOString().slice(0, 10);
+}
+
+export const getLateFeePolicyHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  res.json((await getLateFeePolicyStore()) as LateFeePolicy);
+};
+
+export const updateLateFeePolicyHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  try {
+    const policy = await updateLateFeePolicyStore(
+      {
+        enabled: Boolean(body.enabled),
+        mode: text(body.mode) as LateFeeMode,
+        amount: ensureNumber(body.amount),
+        graceDays: ensureNumber(body.graceDays ?? 0),
+      },
+      user.id,
+    );
+    res.json(policy as LateFeePolicy);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to update late fee policy",
+    );
+  }
+};
+
+export const listLateFeesHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const status = LATE_FEE_STATUSES.find((s) => s === req.query.status) ?? null;
+  const projectId = text(req.query.projectId);
+  const fees = await listLateFeesStore({ status, projectId });
+  res.json(fees as LateFee[]);
+};
+
+export const accrueLateFeesHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const asOf = actionDate(body.asOf);
+  if (!ISO_DATE.test(asOf)) {
+    respondError(res, 400, "Invalid date");
+    return;
+  }
+  try {
+    const result = await accrueLateFeesStore(asOf, user.id);
+    res.json(result as LateFeeAccrualResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to accrue late fees",
+    );
+  }
+};
+
+export const waiveLateFeeHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const reason = text(body.reason);
+  if (!reason) {
+    respondError(res, 400, "A reason is required to waive a fee");
+    return;
+  }
+  const date = actionDate(body.date);
+  if (!ISO_DATE.test(date)) {
+    respondError(res, 400, "Invalid date");
+    return;
+  }
+  try {
+    const fee = await waiveLateFeeStore(
+      String(req.params.id),
+      { reason, date },
+      user.id,
+    );
+    res.json(fee as LateFee);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to waive late fee",
+    );
+  }
+};
+
+export const rescheduleSaleHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const plan = parseInstallmentPlan(body.plan);
+  const reason = text(body.reason);
+  if (plan === undefined) {
+    respondError(res, 400, "Invalid installment plan");
+    return;
+  }
+  if (!plan || !reason) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  const date = actionDate(body.date);
+  if (!ISO_DATE.test(date)) {
+    respondError(res, 400, "Invalid date");
+    return;
+  }
+  try {
+    const result = await rescheduleSaleStore(
+      String(req.params.id),
+      { plan, reason, date },
+      user.id,
+    );
+    res.status(201).json(result as InstallmentRescheduleResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to reschedule installments",
+    );
+  }
+};
+
+export const listInstallmentReschedulesHandler: RequestHandler = async (
+  req,
+  res,
+) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const reschedules = await listInstallmentReschedulesStore(
+    String(req.params.id),
+  );
+  res.json(reschedules as InstallmentReschedule[]);
+};
@@ -0,0 +1,109 @@
+import type { RequestHandler } from "express";
+import type { Customer, CustomerStatement } from "@shared/accounting";
+import {
+  canApprove,
+  errorStatus,
+  requireAuth,
+  respondError,
+} from "./accounting";
+import {
+  createCustomer as createCustomerStore,
+  getCustomerStatement as getCustomerStatementStore,
+  listCustomers as listCustomersStore,
+  updateCustomer as updateCustomerStore,
+} from "../store/customers";
+import { parseBody } from "../utils/parse-body";
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function parseCustomerBody(body: Record<string, unknown>) {
+  if (typeof body.name !== "string") return null;
+  return {
+    name: body.name,
+    nationalId: typeof body.nationalId === "string" ? body.nationalId : null,
+    phones: Array.isArray(body.phones)
+      ? body.phones.filter((p): p is string => typeof p === "string")
+      : [],
+    address: typeof body.address === "string" ? body.address : null,
+  };
+}
+
+export const listCustomersHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const search = typeof req.query.q === "string" ? req.query.q : null;
+  res.json((await listCustomersStore(search)) as Customer[]);
+};
+
+export const createCustomerHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const input = parseCustomerBody(parseBody<Record<string, unknown>>(req.body));
+  if (!input) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const customer = await createCustomerStore(input);
+    res.status(201).json(customer as Customer);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to create customer",
+    );
+  }
+};
+
+export const updateCustomerHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const input = parseCustomerBody(parseBody<Record<string, unknown>>(req.body));
+  if (!input) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const customer = await updateCustomerStore(String(req.params.id), input);
+    res.json(customer as Customer);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to update customer",
+    );
+  }
+};
+
+export const getCustomerStatementHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const asOf =
+    typeof req.query.asOf === "string" &&
+    /^\d{4}-\d{2}-\d{2}$/.test(req.query.asOf)
+      ? req.query.asOf
+      : today();
+  try {
+    const statement = await getCustomerStatementStore(
+      String(req.params.id),
+      asOf,
+    );
+    res.json(statement as CustomerStatement);
+  } catch (error: any) {
+    respondError(res, 404, error?.message || "Customer not found");
+  }
+};
@@ -0,0 +1,207 @@
+import type { RequestHandler } from "express";
+import type {
+  AccountType,
+  JournalEntry,
+  JournalLineInput,
+  LedgerAccount,
+} from "@shared/accounting";
+import {
+  canApprove,
+  ensureNumber,
+  errorStatus,
+  requireAuth,
+  respondError,
+} from "./accounting";
+import {
+  createAccount as createAccountStore,
+  listAccounts as listAccountsStore,
+  listJournalEntries as listJournalEntriesStore,
+  postJournalEntry as postJournalEntryStore,
+} from "../store/ledger";
+import {
+  getBalanceSheet,
+  getIncomeStatement,
+  getReceivablesAging,
+  getTrialBalance,
+} from "../store/reports";
+import { parseBody } from "../utils/parse-body";
+
+function queryString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Returns the date query parameter, the fallback, or null when malformed. */
+function queryDate(value: unknown, fallback: string): string | null {
+  const raw = queryString(value);
+  if (!raw) return fallback;
+  return ISO_DATE.test(raw) ? raw : null;
+}
+
+export const listAccountsHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const accounts = await listAccountsStore();
+  res.json(accounts as LedgerAccount[]);
+};
+
+export const createAccountHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  if (!body.code || !body.name || !body.type) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const account = await createAccountStore({
+      code: String(body.code),
+      name: String(body.name),
+      type: String(body.type) as AccountType,
+      parentId: body.parentId ? String(body.parentId) : null,
+    });
+    res.status(201).json(account as LedgerAccount);
+  } catch (error: any) {
+    respondError(res, 400, error?.message || "Failed to create account");
+  }
+};
+
+export const listJournalHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const entries = await listJournalEntriesStore({
+    from: queryString(req.query.from),
+    to: queryString(req.query.to),
+    accountId: queryString(req.query.accountId),
+    transactionId: queryString(req.query.transactionId),
+    postedOnly: req.query.posted === "1" || req.query.posted === "true",
+  });
+  res.json(entries as JournalEntry[]);
+};
+
+export const createJournalEntryHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  if (!body.date || !body.description || !Array.isArray(body.lines)) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  const lines: JournalLineInput[] = (
+    body.lines as Record<string, unknown>[]
+  ).map((line) => ({
+    accountCode: String(line?.accountCode ?? ""),
+    debit: line?.debit == null ? 0 : ensureNumber(line.debit),
+    credit: line?.credit == null ? 0 : ensureNumber(line.credit),
+    memo: typeof line?.memo === "string" ? line.memo : null,
+  }));
+  try {
+    const entry = await postJournalEntryStore({
+      date: String(body.date),
+      description: String(body.description),
+      posted: true,
+      createdBy: user.id,
+      lines,
+    });
+    res.status(201).json(entry as JournalEntry);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to post journal entry",
+    );
+  }
+};
+
+export const trialBalanceHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const asOf = queryDate(req.query.asOf, today());
+  if (!asOf) {
+    respondError(res, 400, "Invalid date");
+    return;
+  }
+  res.json(
+    await getTrialBalance(asOf, {
+      categoryId: queryString(req.query.categoryId),
+    }),
+  );
+};
+
+export const balanceSheetHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const asOf = queryDate(req.query.asOf, today());
+  if (!asOf) {
+    respondError(res, 400, "Invalid date");
+    return;
+  }
+  res.json(
+    await getBalanceSheet(asOf, {
+      categoryId: queryString(req.query.categoryId),
+    }),
+  );
+};
+
+export const incomeStatementHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const to = queryDate(req.query.to, today());
+  const from = queryDate(
+    req.query.from,
+    `${(to ?? today()).slice(0, 4)}-01-01`,
+  );
+  if (!from || !to || from > to) {
+    respondError(res, 400, "Invalid date range");
+    return;
+  }
+  res.json(
+    await getIncomeStatement(from, to, {
+      categoryId: queryString(req.query.categoryId),
+    }),
+  );
+};
+
+export const receivablesAgingHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const agingDate = queryDate(req.query.agingDate, today());
+  if (!agingDate) {
+    respondError(res, 400, "Invalid date");
+    return;
+  }
+  res.json(await getReceivablesAging(agingDate));
+};
@@ -0,0 +1,160 @@
+import type { RequestHandler } from "express";
+import type {
+  MoneyAccount,
+  MoneyAccountStatement,
+  MoneyTransfer,
+} from "@shared/accounting";
+import {
+  canApprove,
+  ensureNumber,
+  errorStatus,
+  requireAuth,
+  respondError,
+} from "./accounting";
+import {
+  createMoneyAccount as createMoneyAccountStore,
+  createMoneyTransfer as createMoneyTransferStore,
+  getMoneyAccountStatement as getMoneyAccountStatementStore,
+  listMoneyAccounts as listMoneyAccountsStore,
+  listMoneyTransfers as listMoneyTransfersStore,
+  updateMoneyAccount as updateMoneyAccountStore,
+} from "../store/money-accounts";
+import { parseBody } from "../utils/parse-body";
+
+function queryDate(value: unknown) {
+  return typeof value === "string" && value ? value : null;
+}
+
+function optionalText(value: unknown) {
+  if (value === undefined) return undefined;
+  return typeof value === "string" ? value : null;
+}
+
+export const listMoneyAccountsHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const accounts = await listMoneyAccountsStore();
+  res.json(accounts as MoneyAccount[]);
+};
+
+export const createMoneyAccountHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  if (typeof body.name !== "string" || typeof body.openingDate !== "string") {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const account = await createMoneyAccountStore(
+      {
+        name: body.name,
+        kind: body.kind === "bank" ? "bank" : "cash",
+        bankName: typeof body.bankName === "string" ? body.bankName : null,
+        accountNumber:
+          typeof body.accountNumber === "string" ? body.accountNumber : null,
+        openingBalance:
+          body.openingBalance == null ? 0 : ensureNumber(body.openingBalance),
+        openingDate: body.openingDate,
+      },
+      user.id,
+    );
+    res.status(201).json(account as MoneyAccount);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to create money account",
+    );
+  }
+};
+
+export const updateMoneyAccountHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  try {
+    const account = await updateMoneyAccountStore(String(req.params.id), {
+      name: typeof body.name === "string" ? body.name : undefined,
+      bankName: optionalText(body.bankName),
+      accountNumber: optionalText(body.accountNumber),
+      active: typeof body.active === "boolean" ? body.active : undefined,
+    });
+    res.json(account as MoneyAccount);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to update money account",
+    );
+  }
+};
+
+export const getMoneyAccountStatementHandler: RequestHandler = async (
+  req,
+  res,
+) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  try {
+    const statement = await getMoneyAccountStatementStore(
+      String(req.params.id),
+      { from: queryDate(req.query.from), to: queryDate(req.query.to) },
+    );
+    res.json(statement as MoneyAccountStatement);
+  } catch (error: any) {
+    respondError(res, 404, error?.message || "Money account not found");
+  }
+};
+
+export const listMoneyTransfersHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const transfers = await listMoneyTransfersStore();
+  res.json(transfers as MoneyTransfer[]);
+};
+
+export const createMoneyTransferHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  if (
+    typeof body.fromAccountId !== "string" ||
+    typeof body.toAccountId !== "string" ||
+    typeof body.date !== "string"
+  ) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const transfer = await createMoneyTransferStore(
+      {
+        fromAccountId: body.fromAccountId,
+        toAccountId: body.toAccountId,
+        amount: ensureNumber(body.amount),
+        date: body.date,
+        note: typeof body.note === "string" ? body.note : null,
+      },
+      user.id,
+    );
+    res.status(201).json(transfer as MoneyTransfer);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to record transfer",
+    );
+  }
+};
@@ -0,0 +1,105 @@
+import type { RequestHandler } from "express";
+import type {
+  FiscalPeriod,
+  FiscalPeriodEvent,
+  FiscalYear,
+} from "@shared/accounting";
+import { canApprove, requireAuth, respondError } from "./accounting";
+import {
+  closePeriod as closePeriodStore,
+  createFiscalYear as createFiscalYearStore,
+  listFiscalYears as listFiscalYearsStore,
+  listPeriodEvents as listPeriodEventsStore,
+  reopenPeriod as reopenPeriodStore,
+} from "../store/periods";
+import { parseBody } from "../utils/parse-body";
+
+export const listFiscalYearsHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const years = await listFiscalYearsStore();
+  res.json(years as FiscalYear[]);
+};
+
+export const createFiscalYearHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  if (!body.startDate) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const year = await createFiscalYearStore(
+      {
+        startDate: String(body.startDate),
+        name: typeof body.name === "string" ? body.name : null,
+      },
+      user.id,
+    );
+    res.status(201).json(year as FiscalYear);
+  } catch (error: any) {
+    respondError(res, 400, error?.message || "Failed to create fiscal year");
+  }
+};
+
+export const closePeriodHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  try {
+    const period = await closePeriodStore(String(req.params.id), user.id);
+    res.json(period as FiscalPeriod);
+  } catch (error: any) {
+    respondError(res, 400, error?.message || "Failed to close period");
+  }
+};
+
+export const reopenPeriodHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (user.role !== "manager") {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+  if (!reason) {
+    respondError(res, 400, "A reason is required to reopen a period");
+    return;
+  }
+  try {
+    const period = await reopenPeriodStore(
+      String(req.params.id),
+      user.id,
+      reason,
+    );
+    res.json(period as FiscalPeriod);
+  } catch (error: any) {
+    respondError(res, 400, error?.message || "Failed to reopen period");
+  }
+};
+
+export const listPeriodEventsHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const periodId =
+    typeof req.query.periodId === "string" ? req.query.periodId : null;
+  const events = await listPeriodEventsStore(periodId);
+  res.json(events as FiscalPeriodEvent[]);
+};
@@ -0,0 +1,186 @@
+import type { RequestHandler } from "express";
+import type {
+  RecurrenceFrequency,
+  RecurringRunResult,
+  RecurringTemplate,
+  RecurringTemplateUpdateInput,
+} from "@shared/accounting";
+import {
+  canApprove,
+  ensureNumber,
+  errorStatus,
+  requireAuth,
+  respondError,
+} from "./accounting";
+import {
+  createRecurringTemplate as createRecurringTemplateStore,
+  listRecurringTemplates as listRecurringTemplatesStore,
+  previewRecurringTemplate as previewRecurringTemplateStore,
+  runRecurringTemplates as runRecurringTemplatesStore,
+  updateRecurringTemplate as updateRecurringTemplateStore,
+} from "../store/recurring";
+import { parseBody } from "../utils/parse-body";
+
+const DEFAULT_PREVIEW_COUNT = 6;
+const MAX_PREVIEW_COUNT = 60;
+
+/** `undefined` leaves a field unchanged; null or "" clears it. */
+function optionalDate(value: unknown) {
+  if (value === undefined) return undefined;
+  return typeof value === "string" && value ? value : null;
+}
+
+function optionalCount(value: unknown) {
+  if (value === undefined) return undefined;
+  return value === null || value === "" ? null : ensureNumber(value);
+}
+
+export const listRecurringTemplatesHandler: RequestHandler = async (
+  req,
+  res,
+) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const templates = await listRecurringTemplatesStore();
+  res.json(templates as RecurringTemplate[]);
+};
+
+export const createRecurringTemplateHandler: RequestHandler = async (
+  req,
+  res,
+) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  if (
+    !body.type ||
+    typeof body.description !== "string" ||
+    typeof body.frequency !== "string" ||
+    typeof body.startDate !== "string"
+  ) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const template = await createRecurringTemplateStore(
+      {
+        type: body.type === "revenue" ? "revenue" : "expense",
+        description: body.description,
+        amount: ensureNumber(body.amount),
+        categoryId:
+          typeof body.categoryId === "string" ? body.categoryId : null,
+        frequency: body.frequency as RecurrenceFrequency,
+        interval: body.interval == null ? 1 : ensureNumber(body.interval),
+        startDate: body.startDate,
+        endDate: optionalDate(body.endDate) ?? null,
+        maxOccurrences: optionalCount(body.maxOccurrences) ?? null,
+      },
+      user.id,
+    );
+    res.status(201).json(template as RecurringTemplate);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to create recurring template",
+    );
+  }
+};
+
+export const updateRecurringTemplateHandler: RequestHandler = async (
+  req,
+  res,
+) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const input: RecurringTemplateUpdateInput = {
+    type:
+      body.type === "revenue" || body.type === "expense"
+        ? body.type
+        : undefined,
+    description:
+      typeof body.description === "string" ? body.description : undefined,
+    amount: body.amount == null ? undefined : ensureNumber(body.amount),
+    categoryId:
+      body.categoryId === undefined
+        ? undefined
+        : typeof body.categoryId === "string" && body.categoryId
+          ? body.categoryId
+          : null,
+    frequency:
+      typeof body.frequency === "string"
+        ? (body.frequency as RecurrenceFrequency)
+        : undefined,
+    interval: body.interval == null ? undefined : ensureNumber(body.interval),
+    startDate: typeof body.startDate === "string" ? body.startDate : undefined,
+    endDate: optionalDate(body.endDate),
+    maxOccurrences: optionalCount(body.maxOccurrences),
+    paused: typeof body.paused === "boolean" ? body.paused : undefined,
+  };
+  try {
+    const template = await updateRecurringTemplateStore(
+      String(req.params.id),
+      input,
+    );
+    res.json(template as RecurringTemplate);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to update recurring template",
+    );
+  }
+};
+
+export const previewRecurringTemplateHandler: RequestHandler = async (
+  req,
+  res,
+) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const requested = ensureNumber(req.query.count);
+  const count = Number.isFinite(requested)
+    ? Math.min(Math.max(Math.trunc(requested), 1), MAX_PREVIEW_COUNT)
+    : DEFAULT_PREVIEW_COUNT;
+  try {
+    const dates = await previewRecurringTemplateStore(
+      String(req.params.id),
+      count,
+    );
+    res.json(dates);
+  } catch (error: any) {
+    respondError(res, 404, error?.message || "Recurring template not found");
+  }
+};
+
+/** Posts every due occurrence now instead of waiting for the hourly run. */
+export const runRecurringTemplatesHandler: RequestHandler = async (
+  req,
+  res,
+) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const result = await runRecurringTemplatesStore();
+  res.json(result as RecurringRunResult);
+};
@@ -0,0 +1,119 @@
+import type { RequestHandler } from "express";
+import type {
+  UnitReservation,
+  UnitReservationResult,
+  UnitReservationStatus,
+} from "@shared/accounting";
+import {
+  canApprove,
+  ensureNumber,
+  errorStatus,
+  requireAuth,
+  respondError,
+} from "./accounting";
+import {
+  cancelReservation as cancelReservationStore,
+  createReservation as createReservationStore,
+} from "../store/accounting";
+import { getCustomer } from "../store/customers";
+import { listReservations as listReservationsStore } from "../store/reservations";
+import { parseBody } from "../utils/parse-body";
+
+const RESERVATION_STATUSES: UnitReservationStatus[] = [
+  "active",
+  "expired",
+  "converted",
+  "cancelled",
+];
+
+function optionalText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+export const listReservationsHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  const projectId =
+    typeof req.query.projectId === "string" ? req.query.projectId : null;
+  const status = RESERVATION_STATUSES.includes(
+    req.query.status as UnitReservationStatus,
+  )
+    ? (req.query.status as UnitReservationStatus)
+    : null;
+  res.json(
+    (await listReservationsStore({ projectId, status })) as UnitReservation[],
+  );
+};
+
+export const createReservationHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const projectId = optionalText(body.projectId);
+  const unitId = optionalText(body.unitId);
+  const customerId = optionalText(body.customerId) ?? null;
+  const buyer = typeof body.buyer === "string" ? body.buyer.trim() : "";
+  const date = optionalText(body.date);
+  const expiresOn = optionalText(body.expiresOn);
+  if (!projectId || !unitId || !(buyer || customerId) || !date || !expiresOn) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const customer = customerId ? await getCustomer(customerId) : null;
+    const result = await createReservationStore({
+      projectId,
+      unitId,
+      buyer: customer ? customer.name : buyer,
+      customerId,
+      deposit: ensureNumber(body.deposit),
+      date,
+      expiresOn,
+      agent: optionalText(body.agent) ?? user.name,
+      moneyAccountId: optionalText(body.moneyAccountId) ?? null,
+      createdBy: user.id,
+    });
+    res.status(201).json(result as UnitReservationResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to create reservation",
+    );
+  }
+};
+
+export const cancelReservationHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const date = optionalText(body.date);
+  const reason = typeof body.reason === "string" ? body.reason : "";
+  if (!date || !reason.trim()) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  try {
+    const result = await cancelReservationStore(String(req.params.id), {
+      date,
+      reason,
+      moneyAccountId: optionalText(body.moneyAccountId) ?? null,
+      createdBy: user.id,
+    });
+    res.json(result as UnitReservationResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to cancel reservation",
+    );
+  }
+};
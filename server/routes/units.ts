@@ -0,0 +1,177 @@
+import type { RequestHandler } from "express";
+import type {
+  PropertyUnit,
+  PropertyUnitGenerateResult,
+  PropertyUnitStatus,
+  PropertyUnitUpdateInput,
+} from "@shared/accounting";
+import {
+  canApprove,
+  ensureNumber,
+  errorStatus,
+  requireAuth,
+  respondError,
+} from "./accounting";
+import { getProjectById } from "../store/accounting";
+import {
+  createUnit as createUnitStore,
+  deleteUnit as deleteUnitStore,
+  generateUnits as generateUnitsStore,
+  listProjectUnits as listProjectUnitsStore,
+  updateUnit as updateUnitStore,
+} from "../store/units";
+import { parseBody } from "../utils/parse-body";
+
+const UNIT_STATUSES: PropertyUnitStatus[] = [
+  "available",
+  "reserved",
+  "sold",
+  "delivered",
+];
+
+/** `undefined` when absent, `null` when cleared, otherwise a number. */
+function optionalNumber(value: unknown) {
+  if (value === undefined) return undefined;
+  return value === null || value === "" ? null : ensureNumber(value);
+}
+
+function optionalText(value: unknown) {
+  if (value === undefined) return undefined;
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function parseUnitBody(body: Record<string, unknown>): PropertyUnitUpdateInput {
+  return {
+    unitNo: typeof body.unitNo === "string" ? body.unitNo : undefined,
+    floor: optionalNumber(body.floor),
+    area: optionalNumber(body.area),
+    type: optionalText(body.type),
+    orientation: optionalText(body.orientation),
+    listPrice: optionalNumber(body.listPrice),
+    status: UNIT_STATUSES.includes(body.status as PropertyUnitStatus)
+      ? (body.status as PropertyUnitStatus)
+      : undefined,
+  };
+}
+
+/** Answers for a missing or archived project; true when the caller may go on. */
+async function ensureActiveProject(
+  projectId: string,
+  res: Parameters<RequestHandler>[1],
+) {
+  const project = await getProjectById(projectId);
+  if (!project) {
+    respondError(res, 404, "Project not found");
+    return false;
+  }
+  if (project.archivedAt) {
+    respondError(res, 409, "Project is archived");
+    return false;
+  }
+  return true;
+}
+
+export const listProjectUnitsHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  res.json(
+    (await listProjectUnitsStore(String(req.params.id))) as PropertyUnit[],
+  );
+};
+
+export const createUnitHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const input = parseUnitBody(parseBody<Record<string, unknown>>(req.body));
+  if (!input.unitNo) {
+    respondError(res, 400, "Missing required fields");
+    return;
+  }
+  const projectId = String(req.params.id);
+  if (!(await ensureActiveProject(projectId, res))) return;
+  try {
+    const unit = await createUnitStore(projectId, {
+      ...input,
+      unitNo: input.unitNo,
+      floor: input.floor ?? null,
+    });
+    res.status(201).json(unit as PropertyUnit);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to create unit",
+    );
+  }
+};
+
+export const generateUnitsHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const body = parseBody<Record<string, unknown>>(req.body);
+  const projectId = String(req.params.id);
+  if (!(await ensureActiveProject(projectId, res))) return;
+  try {
+    const result = await generateUnitsStore(projectId, {
+      floors: ensureNumber(body.floors),
+      unitsPerFloor: ensureNumber(body.unitsPerFloor),
+      area: optionalNumber(body.area) ?? null,
+      type: optionalText(body.type) ?? null,
+      listPrice: optionalNumber(body.listPrice) ?? null,
+    });
+    res.status(201).json(result as PropertyUnitGenerateResult);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to generate units",
+    );
+  }
+};
+
+export const updateUnitHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  const input = parseUnitBody(parseBody<Record<string, unknown>>(req.body));
+  try {
+    const unit = await updateUnitStore(String(req.params.id), input);
+    res.json(unit as PropertyUnit);
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to update unit",
+    );
+  }
+};
+
+export const deleteUnitHandler: RequestHandler = async (req, res) => {
+  const user = await requireAuth(req, res);
+  if (!user) return;
+  if (!canApprove(user)) {
+    respondError(res, 403, "Forbidden");
+    return;
+  }
+  try {
+    await deleteUnitStore(String(req.params.id));
+    res.status(204).end();
+  } catch (error: any) {
+    respondError(
+      res,
+      errorStatus(error, 400),
+      error?.message || "Failed to delete unit",
+    );
+  }
+};
@@ -0,0 +1,296 @@
+import crypto from "node:crypto";
+import { describe, it, expect } from "vitest";
+import { SYSTEM_ACCOUNTS } from "../lib/chart-of-accounts";
+import {
+  cancelReservation,
+  createProject,
+  createProjectSale,
+  createReservation,
+  createTransaction,
+  decideTransactions,
+  deleteProject,
+  deleteTransaction,
+  getAccountingSnapshot,
+  listSaleInstallments,
+  listSalePayments,
+  payInstallment,
+  paySaleInstallments,
+  reverseTransaction,
+} from "./accounting";
+import { listJournalEntries } from "./ledger";
+import { getTrialBalance } from "./reports";
+import { getReservation } from "./reservations";
+import { generateUnits, getUnit } from "./units";
+
+// These run against the in-memory store: no MySQL is configured under test.
+
+const projectWithUnits = async (count: number) => {
+  const project = await createProject({
+    name: "Tower",
+    location: "Cairo",
+    floors: 1,
+    units: count,
+    createdAt: "2026-01-01",
+  });
+  const { created } = await generateUnits(project.id, {
+    floors: 1,
+    unitsPerFloor: count,
+  });
+  return { project, units: created };
+};
+
+/** A 4000 sale: 1000 down, then 1000 due on the first of Feb, Mar and Apr. */
+const saleWithPlan = async () => {
+  const project = await createProject({
+    name: "Tower",
+    location: "Cairo",
+    floors: 1,
+    units: 1,
+    createdAt: "2026-01-01",
+  });
+  const { sale } = await createProjectSale({
+    projectId: project.id,
+    projectName: project.name,
+    unitNo: "A1",
+    buyer: "Buyer",
+    price: 4000,
+    date: "2026-01-01",
+    plan: {
+      downPayment: 1000,
+      frequency: "monthly",
+      count: 3,
+      installmentAmount: 1000,
+      firstDueDate: "2026-02-01",
+    },
+    approved: true,
+  });
+  return { sale, installments: await listSaleInstallments(sale.id) };
+};
+
+const paidAmounts = async (saleId: string) =>
+  (await listSaleInstallments(saleId)).map((inst) => inst.paidAmount);
+
+const accountBalance = async (code: string) =>
+  (await getTrialBalance("2026-12-31")).rows.find((row) => row.code === code)
+    ?.balance ?? 0;
+
+describe("deleteProject", () => {
+  it("should cancel open reservations so an archived deposit is not refunded again", async () => {
+    const before = await accountBalance(SYSTEM_ACCOUNTS.customerDeposits);
+    const { project, units } = await projectWithUnits(1);
+    const { reservation } = await createReservation({
+      projectId: project.id,
+      unitId: units[0].id,
+      buyer: "Buyer",
+      deposit: 5000,
+      date: "2026-01-02",
+      expiresOn: "2026-01-20",
+      agent: "Agent",
+    });
+
+    expect((await deleteProject(project.id, null)).outcome).toBe("archived");
+    await expect(
+      cancelReservation(reservation.id, { date: "2026-01-05", reason: "x" }),
+    ).rejects.toThrow("Project is archived");
+
+    expect(await getReservation(reservation.id)).toMatchObject({
+      status: "cancelled",
+    });
+    expect((await getUnit(units[0].id)).status).toBe("available");
+    expect(await accountBalance(SYSTEM_ACCOUNTS.customerDeposits)).toBe(before);
+  });
+});
+
+describe("paySaleInstallments", () => {
+  it("should settle the oldest installments first and leave the rest partly paid", async () => {
+    const { sale, installments } = await saleWithPlan();
+    const { payment } = await paySaleInstallments(
+      sale.id,
+      { amount: 1500, date: "2026-02-05" },
+      { approved: true },
+    );
+
+    expect(payment.allocations).toEqual([
+      { installmentId: installments[0].id, amount: 1000 },
+      { installmentId: installments[1].id, amount: 500 },
+    ]);
+    expect(await paidAmounts(sale.id)).toEqual([1000, 500, 0]);
+  });
+
+  it("should refuse a payment over what the sale still owes", async () => {
+    const { sale } = await saleWithPlan();
+
+    await expect(
+      paySaleInstallments(
+        sale.id,
+        { amount: 3001, date: "2026-02-05" },
+        { approved: true },
+      ),
+    ).rejects.toThrow("Payment exceeds the outstanding balance by 1");
+    expect(await paidAmounts(sale.id)).toEqual([0, 0, 0]);
+  });
+
+  it("should carry an overpaid installment onto the other open ones, oldest first", async () => {
+    const { sale, installments } = await saleWithPlan();
+    const { payment } = await payInstallment({
+      id: installments[1].id,
+      amount: 1800,
+      date: "2026-03-05",
+      approved: true,
+    });
+
+    expect(payment.allocations).toEqual([
+      { installmentId: installments[1].id, amount: 1000 },
+      { installmentId: installments[0].id, amount: 800 },
+    ]);
+    expect(await paidAmounts(sale.id)).toEqual([800, 1000, 0]);
+  });
+
+  it("should drop a draft payment's allocations when its transaction is deleted", async () => {
+    const { sale } = await saleWithPlan();
+    const { transaction } = await paySaleInstallments(
+      sale.id,
+      { amount: 1500, date: "2026-02-05" },
+      { approved: false },
+    );
+
+    await deleteTransaction(transaction.id);
+
+    expect(await paidAmounts(sale.id)).toEqual([0, 0, 0]);
+    expect(await listSalePayments(sale.id)).toEqual([]);
+  });
+
+  it("should take an approved payment's allocations back when it is reversed", async () => {
+    const { sale } = await saleWithPlan();
+    const { transaction } = await paySaleInstallments(
+      sale.id,
+      { amount: 1500, date: "2026-02-05" },
+      { approved: true },
+    );
+
+    await reverseTransaction(transaction.id, {
+      reason: "Bounced",
+      date: "2026-02-06",
+      userId: null,
+    });
+
+    expect(await paidAmounts(sale.id)).toEqual([0, 0, 0]);
+    expect(await listSalePayments(sale.id)).toMatchObject([{ reversed: true }]);
+  });
+});
+
+describe("payInstallment", () => {
+  it("should answer a retried request with the payment its key recorded", async () => {
+    const { sale, installments } = await saleWithPlan();
+    const request = {
+      id: installments[0].id,
+      date: "2026-02-05",
+      approved: true,
+      idempotencyKey: crypto.randomUUID(),
+    };
+    const first = await payInstallment(request);
+    const retry = await payInstallment(request);
+
+    expect(retry.replayed).toBe(true);
+    expect(retry.payment.id).toBe(first.payment.id);
+    expect(retry.transaction.id).toBe(first.transaction.id);
+    expect(await listSalePayments(sale.id)).toHaveLength(1);
+    expect(
+      await listJournalEntries({ transactionId: first.transaction.id }),
+    ).toHaveLength(1);
+  });
+
+  it("should number receipts in sequence without gaps", async () => {
+    const { sale, installments } = await saleWithPlan();
+    const key = crypto.randomUUID();
+    const pay = (id: string, idempotencyKey?: string) =>
+      payInstallment({
+        id,
+        date: "2026-02-05",
+        approved: true,
+        idempotencyKey,
+      });
+
+    const first = await pay(installments[0].id, key);
+    await pay(installments[0].id, key);
+    await expect(
+      paySaleInstallments(
+        sale.id,
+        { amount: 5000, date: "2026-02-05" },
+        { approved: true },
+      ),
+    ).rejects.toThrow("exceeds the outstanding balance");
+    const second = await pay(installments[1].id);
+    const third = await pay(installments[2].id);
+
+    expect([second.payment.receiptNo, third.payment.receiptNo]).toEqual([
+      first.payment.receiptNo + 1,
+      first.payment.receiptNo + 2,
+    ]);
+  });
+});
+
+describe("decideTransactions", () => {
+  it("should approve nothing in a batch when one item fails", async () => {
+    const draft = (description: string, approved = false) =>
+      createTransaction({
+        date: "2026-02-01",
+        type: "expense",
+        description,
+        amount: 250,
+        approved,
+      });
+    const drafts = [await draft("Cement"), await draft("Steel")];
+    const approved = await draft("Paint", true);
+
+    const result = await decideTransactions(
+      {
+        ids: [drafts[0].id, approved.id, drafts[1].id],
+        decision: "approve",
+      },
+      { id: "manager-1", role: "manager" },
+    );
+
+    expect(result.applied).toBe(false);
+    expect(result.results.find((r) => r.id === approved.id)).toMatchObject({
+      ok: false,
+      error: "Transaction is already approved",
+    });
+    const { transactions } = await getAccountingSnapshot();
+    for (const { id } of drafts) {
+      expect(transactions.find((t) => t.id === id)?.approved).toBe(false);
+      expect(await listJournalEntries({ transactionId: id })).toMatchObject([
+        { posted: false },
+      ]);
+    }
+  });
+});
+
+describe("reverseTransaction", () => {
+  it("should post a linked opposite and refuse a date before the original", async () => {
+    const original = await createTransaction({
+      date: "2026-03-10",
+      type: "revenue",
+      description: "Rent",
+      amount: 900,
+      approved: true,
+    });
+    const params = { reason: "Duplicate", userId: null };
+
+    await expect(
+      reverseTransaction(original.id, { ...params, date: "2026-03-09" }),
+    ).rejects.toThrow(
+      "The reversal date cannot be before the transaction date",
+    );
+    const { reversal } = await reverseTransaction(original.id, {
+      ...params,
+      date: "2026-03-10",
+    });
+
+    expect(reversal).toMatchObject({
+      type: "revenue",
+      amount: -900,
+      reversalOf: original.id,
+    });
+  });
+});
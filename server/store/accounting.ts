@@ -1,7 +1,11 @@
 import crypto from "node:crypto";
 import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import type { User } from "@shared/api";
 import {
   type AccountingSnapshot,
+  type CategoryAssignment,
+  type CategoryBackfillResult,
+  type CategorySuggestion,
   type InventoryIssueInput,
   type InventoryItem,
   type InventoryItemCreateInput,
@@ -14,15 +18,105 @@ import {
   type ProjectCostType,
   type ProjectCostCreateResult,
   type ProjectCreateInput,
+  type ProjectDeleteResult,
+  type ProjectUpdateInput,
+  type ProjectCostUpdateInput,
+  type ProjectCostUpdateResult,
+  type ProjectSaleUpdateInput,
+  type ProjectSaleUpdateResult,
+  type InventoryItemUpdateInput,
+  type TransactionUpdateInput,
   type ProjectSale,
   type ProjectSaleCreateInput,
   type ProjectSaleCreateResult,
   type ProjectSnapshot,
   type Transaction,
+  type TransactionApprovalStatus,
+  type TransactionBatchInput,
+  type TransactionBatchItemResult,
+  type TransactionBatchResult,
+  type ApprovalInboxItem,
+  type ApprovalLevel,
   type Installment,
+  type InstallmentAllocation,
+  type InstallmentKind,
+  type InstallmentPayment,
+  type InstallmentPaymentInput,
+  type InstallmentPaymentResult,
+  type InstallmentPlan,
+  type InstallmentPlanEntry,
+  type InstallmentPlanPreview,
+  type InstallmentPlanPreviewInput,
+  type InstallmentReschedule,
+  type InstallmentRescheduleInput,
+  type InstallmentRescheduleResult,
+  type JournalLineInput,
   type TransactionCreateInput,
+  type TransactionReverseResult,
+  type TransactionSourceDocument,
+  type TransactionSourceResult,
+  type TransactionSourceType,
+  type UnitReservation,
+  type UnitReservationCancelInput,
+  type UnitReservationCreateInput,
+  type UnitReservationResult,
 } from "@shared/accounting";
+import { ConflictError, ForbiddenError } from "../lib/errors";
+import { buildInstallmentSchedule } from "../lib/installment-plan";
+import {
+  canSignLevel,
+  currentApprovals,
+  matchApprovalLevels,
+  nextApprovalLevel,
+} from "../lib/approval-levels";
+import {
+  listApprovalDecisions,
+  listApprovalRules,
+  recordApprovalDecision,
+  requiredLevels,
+} from "./approvals";
+import { recordAudit } from "./audit";
+import { getUserById } from "./auth";
+import { assertCategoryAssignable, listCategories } from "./categories";
+import { suggestCategory } from "../lib/transaction-categories";
+import { getRequestContext } from "../lib/request-context";
 import { getInitializedMysqlPool } from "../lib/mysql";
+import { SYSTEM_ACCOUNTS } from "../lib/chart-of-accounts";
+import {
+  asBoolean,
+  asNumber,
+  formatDate,
+  formatTimestamp,
+  parseJson,
+  roundMoney,
+} from "../lib/row-values";
+import {
+  deleteTransactionJournal,
+  postJournalEntry,
+  reverseJournalEntry,
+  reverseTransactionJournal,
+  setTransactionJournalPosted,
+} from "./ledger";
+import {
+  assertMoneyAccountActive,
+  moneyAccountLedgerCode,
+} from "./money-accounts";
+import { assertPeriodOpen } from "./periods";
+import {
+  deleteProjectReservations,
+  insertReservation,
+  lockProjectReservations,
+  lockReservation,
+  saveReservationStatus,
+} from "./reservations";
+import {
+  claimUnitForSale,
+  deleteProjectUnits,
+  listProjectUnits,
+  releaseReservedUnit,
+  releaseSoldUnit,
+  reserveUnit,
+} from "./units";
 
 interface TransactionRow extends RowDataPacket {
   id: string;
@@ -33,8 +127,27 @@ interface TransactionRow extends RowDataPacket {
   approved: number | boolean;
   created_by: string | null;
   created_at: string | Date | null;
+  reversal_of: string | null;
+  reversed_by: string | null;
+  reversal_reason: string | null;
+  source_type: TransactionSourceType;
+  source_id: string | null;
+  rejection_reason: string | null;
+  rejected_at: string | Date | null;
+  category_id: string | null;
+  money_account_id: string | null;
 }
 
+const TRANSACTION_COLUMNS =
+  "id, date, type, description, amount, approved, created_by, created_at, reversal_of, reversed_by, reversal_reason, source_type, source_id, rejection_reason, rejected_at, category_id, money_account_id";
+
+type TransactionInsert = TransactionCreateInput & {
+  reversalOf?: string | null;
+  reversalReason?: string | null;
+  sourceType?: TransactionSourceType;
+  sourceId?: string | null;
+};
+
 interface InventoryItemRow extends RowDataPacket {
   id: string;
   name: string;
@@ -63,8 +176,12 @@ interface ProjectRow extends RowDataPacket {
   floors: number | string;
   units: number | string;
   created_at: string | Date | null;
+  archived_at: string | Date | null;
 }
 
+const PROJECT_COLUMNS =
+  "id, name, location, floors, units, created_at, archived_at";
+
 interface ProjectCostRow extends RowDataPacket {
   id: string;
   project_id: string;
@@ -79,7 +196,11 @@ interface ProjectSaleRow extends RowDataPacket {
   id: string;
   project_id: string;
   unit_no: string;
+  unit_id: string | null;
   buyer: string;
+  customer_id: string | null;
+  reservation_id: string | null;
+  deposit_applied: number | string | null;
   price: number | string;
   date: string | Date;
   terms: string | null;
@@ -88,6 +209,54 @@ interface ProjectSaleRow extends RowDataPacket {
   created_at: string | Date | null;
 }
 
+interface InstallmentRow extends RowDataPacket {
+  id: string;
+  project_id: string;
+  sale_id: string;
+  unit_no: string;
+  buyer: string;
+  amount: number | string;
+  due_date: string | Date;
+  kind: InstallmentKind;
+  paid_amount: number | string;
+  paid: number | boolean;
+  paid_at: string | Date | null;
+  created_at: string | Date | null;
+}
+
+interface InstallmentPaymentRow extends RowDataPacket {
+  id: string;
+  receipt_no: number | string;
+  project_id: string;
+  sale_id: string;
+  date: string | Date;
+  amount: number | string;
+  transaction_id: string;
+  money_account_id: string | null;
+  reversed: number | boolean;
+  idempotency_key: string | null;
+  created_by: string | null;
+  created_at: string | Date | null;
+}
+
+interface InstallmentAllocationRow extends RowDataPacket {
+  payment_id: string;
+  installment_id: string;
+  amount: number | string;
+}
+
+interface InstallmentRescheduleRow extends RowDataPacket {
+  id: string;
+  project_id: string;
+  sale_id: string;
+  date: string | Date;
+  reason: string;
+  previous_json: unknown;
+  replacement_json: unknown;
+  created_by: string | null;
+  created_at: string | Date | null;
+}
+
 const fallbackStore = {
   transactions: new Map<string, Transaction>(),
   items: new Map<string, InventoryItem>(),
@@ -96,6 +265,8 @@ const fallbackStore = {
   costs: new Map<string, ProjectCost>(),
   sales: new Map<string, ProjectSale>(),
   installments: new Map<string, Installment>(),
+  payments: new Map<string, InstallmentPayment>(),
+  reschedules: new Map<string, InstallmentReschedule>(),
 };
 
 type ProjectCostNoteData = {
@@ -143,52 +314,35 @@ function serializeProjectCostNote(
   });
 }
 
-function asNumber(value: unknown): number {
-  if (value === null || value === undefined) return 0;
-  if (typeof value === "number") return value;
-  if (typeof value === "string") {
-    const parsed = Number(value);
-    return Number.isFinite(parsed) ? parsed : 0;
-  }
-  if (value instanceof Date) return Number(value);
-  return 0;
-}
-
-function asBoolean(value: unknown): boolean {
-  if (typeof value === "boolean") return value;
-  if (typeof value === "number") return value !== 0;
-  if (typeof value === "string")
-    return value !== "0" && value.toLowerCase() !== "false";
-  return Boolean(value);
-}
-
-function formatDate(value: string | Date | null | undefined): string {
-  if (!value) return "";
-  if (typeof value === "string") {
-    if (value.length >= 10) return value.slice(0, 10);
-    return value;
-  }
-  return value.toISOString().slice(0, 10);
-}
-
-function formatTimestamp(
-  value: string | Date | null | undefined,
-): string | null {
-  if (!value) return null;
-  if (typeof value === "string") return value;
-  return value.toISOString();
+function approvalStatusOf(
+  approved: boolean,
+  rejectionReason?: string | null,
+): TransactionApprovalStatus {
+  if (approved) return "approved";
+  return rejectionReason ? "rejected" : "pending";
 }
 
 function mapTransactionRow(row: TransactionRow): Transaction {
+  const approved = asBoolean(row.approved);
   return {
     id: row.id,
     date: formatDate(row.date),
     type: row.type,
     description: row.description,
     amount: asNumber(row.amount),
-    approved: asBoolean(row.approved),
+    approved,
+    approvalStatus: approvalStatusOf(approved, row.rejection_reason),
+    rejectionReason: row.rejection_reason ?? null,
+    rejectedAt: formatTimestamp(row.rejected_at),
+    categoryId: row.category_id ?? null,
+    moneyAccountId: row.money_account_id ?? null,
     createdBy: row.created_by ?? null,
     createdAt: formatTimestamp(row.created_at),
+    reversalOf: row.reversal_of ?? null,
+    reversedBy: row.reversed_by ?? null,
+    reversalReason: row.reversal_reason ?? null,
+    sourceType: row.source_type ?? "manual",
+    sourceId: row.source_id ?? null,
   };
 }
 
@@ -224,6 +378,7 @@ function mapProjectRow(row: ProjectRow): Project {
     floors: asNumber(row.floors),
     units: asNumber(row.units),
     createdAt: formatTimestamp(row.created_at) ?? "",
+    archivedAt: formatTimestamp(row.archived_at),
   };
 }
 
@@ -240,12 +395,18 @@ function mapProjectCostRow(row: ProjectCostRow): ProjectCost {
   };
 }
 
+const PROJECT_SALE_COLUMNS = `id, project_id, unit_no, unit_id, buyer, customer_id, reservation_id, deposit_applied, price, date, terms, area, payment_method, created_at`;
+
 function mapProjectSaleRow(row: ProjectSaleRow): ProjectSale {
   return {
     id: row.id,
     projectId: row.project_id,
     unitNo: row.unit_no,
+    unitId: row.unit_id ?? null,
     buyer: row.buyer,
+    customerId: row.customer_id ?? null,
+    reservationId: row.reservation_id ?? null,
+    depositApplied: asNumber(row.deposit_applied ?? 0),
     price: asNumber(row.price),
     date: formatDate(row.date),
     terms: row.terms,
@@ -254,6 +415,22 @@ function mapProjectSaleRow(row: ProjectSaleRow): ProjectSale {
   };
 }
 
+function mapInstallmentRow(row: InstallmentRow): Installment {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    saleId: row.sale_id,
+    unitNo: row.unit_no,
+    buyer: row.buyer,
+    amount: asNumber(row.amount),
+    dueDate: formatDate(row.due_date),
+    kind: row.kind,
+    paidAmount: asNumber(row.paid_amount),
+    paid: asBoolean(row.paid),
+    paidAt: row.paid_at ? formatDate(row.paid_at) : null,
+  };
+}
+
 function sortByDateDesc<T extends { date: string }>(items: T[]): T[] {
   return [...items].sort((a, b) =>
     a.date === b.date ? 0 : a.date > b.date ? -1 : 1,
@@ -282,9 +459,11 @@ function getFallbackSnapshot(): AccountingSnapshot {
     movements: sortTransactionsFallbackMovements(
       Array.from(fallbackStore.movements.values()),
     ),
-    projects: [...fallbackStore.projects.values()].sort((a, b) =>
-      a.createdAt === b.createdAt ? 0 : a.createdAt > b.createdAt ? -1 : 1,
-    ),
+    projects: [...fallbackStore.projects.values()]
+      .filter((p) => !p.archivedAt)
+      .sort((a, b) =>
+        a.createdAt === b.createdAt ? 0 : a.createdAt > b.createdAt ? -1 : 1,
+      ),
     costs: sortTransactionsFallback(Array.from(fallbackStore.costs.values())),
     sales: sortTransactionsFallback(Array.from(fallbackStore.sales.values())),
   };
@@ -300,114 +479,302 @@ function sortTransactionsFallbackMovements(items: Movement[]): Movement[] {
   );
 }
 
-function addMonthsISO(start: string, months: number): string {
-  const [y, m, d] = start.split("-").map(Number);
-  const date = new Date(y, m - 1 + months, d || 1);
-  const yyyy = date.getFullYear();
-  const mm = String(date.getMonth() + 1).padStart(2, "0");
-  const dd = String(
-    Math.min(d || 1, new Date(yyyy, date.getMonth() + 1, 0).getDate()),
-  ).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
+const INSTALLMENT_COLUMNS = `id, project_id, sale_id, unit_no, buyer, amount, due_date, kind, paid_amount, paid, paid_at, created_at`;
+
+function sortInstallments(items: Installment[]): Installment[] {
+  return [...items].sort((a, b) =>
+    a.dueDate === b.dueDate ? 0 : a.dueDate < b.dueDate ? -1 : 1,
+  );
 }
 
-function createInstallmentsForSale(params: {
-  projectId: string;
-  saleId: string;
-  unitNo: string;
-  buyer: string;
-  monthlyAmount: number;
-  months: number;
-  firstDueDate: string;
-}): Installment[] {
+async function createInstallmentsForSale(
+  params: {
+    projectId: string;
+    saleId: string;
+    unitNo: string;
+    buyer: string;
+    entries: InstallmentPlanEntry[];
+  },
+  conn?: PoolConnection,
+): Promise<Installment[]> {
   const list: Installment[] = [];
-  for (let i = 0; i < params.months; i++) {
+  for (const entry of params.entries) {
     const id = crypto.randomUUID();
-    const dueDate = addMonthsISO(params.firstDueDate, i);
     const inst: Installment = {
       id,
       projectId: params.projectId,
       saleId: params.saleId,
       unitNo: params.unitNo,
       buyer: params.buyer,
-      amount: params.monthlyAmount,
-      dueDate,
+      amount: entry.amount,
+      dueDate: entry.dueDate,
+      kind: "plan",
+      paidAmount: 0,
       paid: false,
       paidAt: null,
     };
-    fallbackStore.installments.set(id, inst);
+    if (conn) {
+      await conn.query(
+        `INSERT INTO installments (id, project_id, sale_id, unit_no, buyer, amount, due_date, paid)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 0)`,
+        [
+          id,
+          inst.projectId,
+          inst.saleId,
+          inst.unitNo,
+          inst.buyer,
+          inst.amount,
+          inst.dueDate,
+        ],
+      );
+    } else {
+      fallbackStore.installments.set(id, inst);
+    }
     list.push(inst);
   }
-  return list.sort((a, b) =>
-    a.dueDate === b.dueDate ? 0 : a.dueDate < b.dueDate ? -1 : 1,
-  );
+  return sortInstallments(list);
 }
 
 function getProjectInstallments(projectId: string): Installment[] {
-  return [...fallbackStore.installments.values()]
-    .filter((i) => i.projectId === projectId)
-    .sort((a, b) =>
-      a.dueDate === b.dueDate ? 0 : a.dueDate < b.dueDate ? -1 : 1,
-    );
+  return sortInstallments(
+    [...fallbackStore.installments.values()].filter(
+      (i) => i.projectId === projectId,
+    ),
+  );
+}
+
+function auditTransactionCreated(
+  transaction: Transaction,
+  conn?: PoolConnection,
+) {
+  return recordAudit(
+    {
+      action: "create",
+      entityType: "transaction",
+      entityId: transaction.id,
+      after: transaction,
+    },
+    conn,
+  );
+}
+
+/**
+ * A creator allowed to approve signs the first required level on entry; the
+ * transaction is only approved outright when that is the sole level.
+ * Reversals and system postings keep the flag they were given.
+ */
+async function initialApproval(
+  input: TransactionInsert,
+  conn?: PoolConnection,
+) {
+  if (!input.approved || input.reversalOf || !input.createdBy) {
+    return { approved: input.approved, level: null };
+  }
+  const creator = await getUserById(input.createdBy);
+  if (!creator) return { approved: input.approved, level: null };
+  const levels = await requiredLevels(input.type, input.amount, conn);
+  if (!canSignLevel(creator.role, levels[0])) {
+    return { approved: false, level: null };
+  }
+  return { approved: levels.length === 1, level: levels[0] };
+}
+
+async function recordInitialApproval(
+  transaction: Transaction,
+  level: ApprovalLevel | null,
+  conn?: PoolConnection,
+) {
+  if (!level) return;
+  await recordApprovalDecision(
+    {
+      transactionId: transaction.id,
+      decision: "approve",
+      level,
+      userId: transaction.createdBy ?? null,
+    },
+    conn,
+  );
 }
 
 async function insertTransactionDb(
-  input: TransactionCreateInput,
+  input: TransactionInsert,
   conn?: PoolConnection,
 ): Promise<Transaction> {
   const id = crypto.randomUUID();
+  const { approved, level } = await initialApproval(input, conn);
   const params = [
     id,
     input.date,
     input.type,
     input.description,
     input.amount,
-    input.approved ? 1 : 0,
+    approved ? 1 : 0,
     input.createdBy ?? null,
+    input.reversalOf ?? null,
+    input.reversalReason ?? null,
+    input.sourceType ?? "manual",
+    input.sourceId ?? null,
+    input.categoryId ?? null,
+    input.moneyAccountId ?? null,
   ];
   if (conn) {
     await conn.query(
-      `INSERT INTO transactions (id, date, type, description, amount, approved, created_by)
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO transactions (id, date, type, description, amount, approved, created_by, reversal_of, reversal_reason, source_type, source_id, category_id, money_account_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       params,
     );
     const [rows] = await conn.query<TransactionRow[]>(
-      `SELECT id, date, type, description, amount, approved, created_by, created_at
+      `SELECT ${TRANSACTION_COLUMNS}
        FROM transactions WHERE id = ? LIMIT 1`,
       [id],
     );
-    return mapTransactionRow(rows[0]);
+    const transaction = mapTransactionRow(rows[0]);
+    await recordInitialApproval(transaction, level, conn);
+    await auditTransactionCreated(transaction, conn);
+    return transaction;
   }
   const pool = await getInitializedMysqlPool();
   if (!pool) throw new Error("MySQL not configured");
   await pool.query(
-    `INSERT INTO transactions (id, date, type, description, amount, approved, created_by)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO transactions (id, date, type, description, amount, approved, created_by, reversal_of, reversal_reason, source_type, source_id, category_id, money_account_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     params,
   );
   const [rows] = await pool.query<TransactionRow[]>(
-    `SELECT id, date, type, description, amount, approved, created_by, created_at
+    `SELECT ${TRANSACTION_COLUMNS}
      FROM transactions WHERE id = ? LIMIT 1`,
     [id],
   );
-  return mapTransactionRow(rows[0]);
+  const transaction = mapTransactionRow(rows[0]);
+  await recordInitialApproval(transaction, level);
+  await auditTransactionCreated(transaction);
+  return transaction;
 }
 
-function createTransactionFallback(input: TransactionCreateInput): Transaction {
+async function createTransactionFallback(
+  input: TransactionInsert,
+): Promise<Transaction> {
+  const { approved, level } = await initialApproval(input);
   const transaction: Transaction = {
     id: crypto.randomUUID(),
     date: input.date,
     type: input.type,
     description: input.description,
     amount: input.amount,
-    approved: input.approved,
+    approved,
+    approvalStatus: approvalStatusOf(approved),
+    rejectionReason: null,
+    rejectedAt: null,
     createdBy: input.createdBy ?? null,
     createdAt: new Date().toISOString(),
+    reversalOf: input.reversalOf ?? null,
+    reversedBy: null,
+    reversalReason: input.reversalReason ?? null,
+    sourceType: input.sourceType ?? "manual",
+    sourceId: input.sourceId ?? null,
+    categoryId: input.categoryId ?? null,
+    moneyAccountId: input.moneyAccountId ?? null,
   };
   fallbackStore.transactions.set(transaction.id, transaction);
+  await recordInitialApproval(transaction, level);
+  await auditTransactionCreated(transaction);
   return transaction;
 }
 
+function journalLines(
+  debitCode: string,
+  creditCode: string,
+  amount: number,
+): JournalLineInput[] {
+  return [
+    { accountCode: debitCode, debit: amount },
+    { accountCode: creditCode, credit: amount },
+  ];
+}
+
+function manualTransactionLines(transaction: Transaction): JournalLineInput[] {
+  return transaction.type === "revenue"
+    ? journalLines(
+        SYSTEM_ACCOUNTS.cash,
+        SYSTEM_ACCOUNTS.otherRevenue,
+        transaction.amount,
+      )
+    : journalLines(
+        SYSTEM_ACCOUNTS.generalExpenses,
+        SYSTEM_ACCOUNTS.cash,
+        transaction.amount,
+      );
+}
+
+function projectCostAccount(type: ProjectCostType): string {
+  if (type === "construction") return SYSTEM_ACCOUNTS.constructionCosts;
+  if (type === "operation") return SYSTEM_ACCOUNTS.operationCosts;
+  return SYSTEM_ACCOUNTS.projectExpenses;
+}
+
+/**
+ * Sales are booked on an accrual basis: the whole contract value is revenue
+ * on the sale date and the scheduled installments become a receivable that
+ * `payInstallment` settles. The flat transaction keeps recording cash only.
+ * A reservation deposit already held covers that much of the upfront amount.
+ * Even with nothing paid upfront the transaction is still created: it is what
+ * carries the accrual through approval.
+ */
+function projectSaleLines(
+  price: number,
+  downPayment: number,
+  scheduled: number | null,
+  deposit = 0,
+): JournalLineInput[] {
+  const upfront = scheduled == null ? price : downPayment;
+  const lines: JournalLineInput[] = [
+    { accountCode: SYSTEM_ACCOUNTS.cash, debit: roundMoney(upfront - deposit) },
+    { accountCode: SYSTEM_ACCOUNTS.customerDeposits, debit: deposit },
+  ];
+  if (scheduled != null) {
+    lines.push({
+      accountCode: SYSTEM_ACCOUNTS.installmentsReceivable,
+      debit: scheduled,
+    });
+  }
+  lines.push({
+    accountCode: SYSTEM_ACCOUNTS.unitSales,
+    credit: roundMoney(upfront + (scheduled ?? 0)),
+  });
+  return lines;
+}
+
+/**
+ * Generated lines always name the generic cash account; a transaction paid
+ * through a money account books that movement on the account's own ledger
+ * code instead.
+ */
+async function postTransactionJournal(
+  transaction: Transaction,
+  lines: JournalLineInput[],
+  conn?: PoolConnection,
+) {
+  if (transaction.moneyAccountId) {
+    const code = await moneyAccountLedgerCode(transaction.moneyAccountId, conn);
+    lines = lines.map((line) =>
+      line.accountCode === SYSTEM_ACCOUNTS.cash
+        ? { ...line, accountCode: code }
+        : line,
+    );
+  }
+  await postJournalEntry(
+    {
+      date: transaction.date,
+      description: transaction.description,
+      transactionId: transaction.id,
+      posted: transaction.approved,
+      createdBy: transaction.createdBy ?? null,
+      lines,
+    },
+    conn,
+  );
+}
+
 export async function getAccountingSnapshot(): Promise<AccountingSnapshot> {
   const pool = await getInitializedMysqlPool();
   if (!pool) {
@@ -415,7 +782,7 @@ export async function getAccountingSnapshot(): Promise<AccountingSnapshot> {
   }
 
   const [transactionRows] = await pool.query<TransactionRow[]>(
-    `SELECT id, date, type, description, amount, approved, created_by, created_at
+    `SELECT ${TRANSACTION_COLUMNS}
      FROM transactions
      ORDER BY date DESC, created_at DESC`,
   );
@@ -430,8 +797,9 @@ export async function getAccountingSnapshot(): Promise<AccountingSnapshot> {
      ORDER BY date DESC, created_at DESC`,
   );
   const [projectRows] = await pool.query<ProjectRow[]>(
-    `SELECT id, name, location, floors, units, created_at
+    `SELECT ${PROJECT_COLUMNS}
      FROM projects
+     WHERE archived_at IS NULL
      ORDER BY created_at DESC, name ASC`,
   );
   const [costRows] = await pool.query<ProjectCostRow[]>(
@@ -440,7 +808,7 @@ export async function getAccountingSnapshot(): Promise<AccountingSnapshot> {
      ORDER BY date DESC, created_at DESC`,
   );
   const [saleRows] = await pool.query<ProjectSaleRow[]>(
-    `SELECT id, project_id, unit_no, buyer, price, date, terms, area, payment_method, created_at
+    `SELECT ${PROJECT_SALE_COLUMNS}
      FROM project_sales
      ORDER BY date DESC, created_at DESC`,
   );
@@ -458,111 +826,858 @@ export async function getAccountingSnapshot(): Promise<AccountingSnapshot> {
 export async function createTransaction(
   input: TransactionCreateInput,
 ): Promise<Transaction> {
+  await assertPeriodOpen(input.date);
+  if (input.categoryId) {
+    await assertCategoryAssignable(input.categoryId, input.type);
+  }
+  if (input.moneyAccountId) {
+    await assertMoneyAccountActive(input.moneyAccountId);
+  }
   const pool = await getInitializedMysqlPool();
   if (!pool) {
-    return createTransactionFallback(input);
+    const transaction = await createTransactionFallback(input);
+    await postTransactionJournal(
+      transaction,
+      manualTransactionLines(transaction),
+    );
+    return transaction;
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const transaction = await insertTransactionDb(input, conn);
+    await postTransactionJournal(
+      transaction,
+      manualTransactionLines(transaction),
+      conn,
+    );
+    await conn.commit();
+    return transaction;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
   }
-  return insertTransactionDb(input);
 }
 
-export async function approveTransaction(id: string): Promise<Transaction> {
+type ApprovalActor = Pick<User, "id" | "role">;
+
+/**
+ * Runs `apply` on a transaction, locking its row inside a database
+ * transaction when MySQL is configured.
+ */
+async function withTransactionForUpdate<T>(
+  id: string,
+  apply: (existing: Transaction, conn?: PoolConnection) => Promise<T>,
+): Promise<T> {
   const pool = await getInitializedMysqlPool();
   if (!pool) {
     const existing = fallbackStore.transactions.get(id);
     if (!existing) throw new Error("Transaction not found");
-    const updated: Transaction = { ...existing, approved: true };
-    fallbackStore.transactions.set(id, updated);
-    return updated;
+    return apply(existing);
   }
-  await pool.query(`UPDATE transactions SET approved = 1 WHERE id = ?`, [id]);
-  const [rows] = await pool.query<TransactionRow[]>(
-    `SELECT id, date, type, description, amount, approved, created_by, created_at
-     FROM transactions WHERE id = ? LIMIT 1`,
-    [id],
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [rows] = await conn.query<TransactionRow[]>(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM transactions WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id],
+    );
+    if (!rows.length) throw new Error("Transaction not found");
+    const result = await apply(mapTransactionRow(rows[0]), conn);
+    await conn.commit();
+    return result;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/** Checks that `approver` may sign the pending transaction's next level. */
+async function nextApprovalStep(
+  transaction: Transaction,
+  approver: ApprovalActor,
+  conn?: PoolConnection,
+) {
+  if (transaction.approved) {
+    throw new ConflictError("Transaction is already approved");
+  }
+  if (transaction.approvalStatus === "rejected") {
+    throw new ConflictError(
+      "Rejected transactions must be resubmitted before approval",
+    );
+  }
+  const levels = await requiredLevels(
+    transaction.type,
+    transaction.amount,
+    conn,
+  );
+  const approvals = currentApprovals(
+    await listApprovalDecisions([transaction.id], conn),
   );
-  if (!rows.length) throw new Error("Transaction not found");
-  return mapTransactionRow(rows[0]);
+  if (approvals.some((a) => a.userId === approver.id)) {
+    throw new ConflictError("You have already approved this transaction");
+  }
+  const step = nextApprovalLevel(levels, approvals);
+  if (!canSignLevel(approver.role, step.level)) {
+    throw new ForbiddenError(`This transaction awaits ${step.level} approval`);
+  }
+  return step;
 }
 
-export async function deleteTransaction(id: string): Promise<void> {
-  const pool = await getInitializedMysqlPool();
-  if (!pool) {
-    if (!fallbackStore.transactions.delete(id)) {
-      throw new Error("Transaction not found");
-    }
-    return;
+/**
+ * Signs the next required level. Only the final signature approves the
+ * transaction and posts its journal; earlier ones leave it pending.
+ */
+async function applyApproval(
+  existing: Transaction,
+  approver: ApprovalActor,
+  conn?: PoolConnection,
+): Promise<Transaction> {
+  const id = existing.id;
+  const { level, final } = await nextApprovalStep(existing, approver, conn);
+  await assertPeriodOpen(existing.date, conn);
+  await recordApprovalDecision(
+    { transactionId: id, decision: "approve", level, userId: approver.id },
+    conn,
+  );
+  if (!final) {
+    await recordAudit(
+      {
+        action: "approve",
+        entityType: "transaction",
+        entityId: id,
+        before: existing,
+        after: { ...existing, signedLevel: level },
+      },
+      conn,
+    );
+    return existing;
   }
-  await pool.query(`DELETE FROM transactions WHERE id = ?`, [id]);
+  const updated: Transaction = {
+    ...existing,
+    approved: true,
+    approvalStatus: "approved",
+  };
+  if (conn) {
+    await conn.query(`UPDATE transactions SET approved = 1 WHERE id = ?`, [id]);
+  } else {
+    fallbackStore.transactions.set(id, updated);
+  }
+  await setTransactionJournalPosted(id, true, conn);
+  await recordAudit(
+    {
+      action: "approve",
+      entityType: "transaction",
+      entityId: id,
+      before: existing,
+      after: updated,
+    },
+    conn,
+  );
+  return updated;
 }
 
-export async function createInventoryItem(
-  input: InventoryItemCreateInput,
-): Promise<InventoryItem> {
-  const pool = await getInitializedMysqlPool();
-  if (!pool) {
-    const item: InventoryItem = {
-      id: crypto.randomUUID(),
-      name: input.name,
-      quantity: input.quantity,
-      unit: input.unit,
-      min: input.min,
-      updatedAt: input.updatedAt,
-    };
-    fallbackStore.items.set(item.id, item);
-    return item;
+async function applyRejection(
+  existing: Transaction,
+  approver: ApprovalActor,
+  reason: string,
+  conn?: PoolConnection,
+): Promise<Transaction> {
+  const id = existing.id;
+  const { level } = await nextApprovalStep(existing, approver, conn);
+  const updated: Transaction = {
+    ...existing,
+    approvalStatus: "rejected",
+    rejectionReason: reason,
+    rejectedAt: new Date().toISOString(),
+  };
+  if (conn) {
+    await conn.query(
+      `UPDATE transactions SET rejection_reason = ?, rejected_at = ? WHERE id = ?`,
+      [reason, new Date(updated.rejectedAt!), id],
+    );
+  } else {
+    fallbackStore.transactions.set(id, updated);
   }
-  const id = crypto.randomUUID();
-  await pool.query(
-    `INSERT INTO inventory_items (id, name, quantity, unit, min, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?)`,
-    [id, input.name, input.quantity, input.unit, input.min, input.updatedAt],
+  await recordApprovalDecision(
+    {
+      transactionId: id,
+      decision: "reject",
+      level,
+      userId: approver.id,
+      reason,
+    },
+    conn,
   );
-  const [rows] = await pool.query<InventoryItemRow[]>(
-    `SELECT id, name, quantity, unit, min, updated_at
-     FROM inventory_items WHERE id = ? LIMIT 1`,
-    [id],
+  await recordAudit(
+    {
+      action: "reject",
+      entityType: "transaction",
+      entityId: id,
+      before: existing,
+      after: updated,
+    },
+    conn,
   );
-  return mapInventoryItemRow(rows[0]);
+  return updated;
 }
 
-export async function deleteInventoryItem(id: string): Promise<void> {
-  const pool = await getInitializedMysqlPool();
-  if (!pool) {
-    fallbackStore.items.delete(id);
-    for (const movement of fallbackStore.movements.values()) {
-      if (movement.itemId === id) fallbackStore.movements.delete(movement.id);
-    }
-    return;
-  }
-  await pool.query(`DELETE FROM inventory_items WHERE id = ?`, [id]);
+export async function approveTransaction(
+  id: string,
+  approver: ApprovalActor,
+): Promise<Transaction> {
+  return withTransactionForUpdate(id, (existing, conn) =>
+    applyApproval(existing, approver, conn),
+  );
 }
 
-async function getItemRowForUpdate(
-  conn: PoolConnection,
+export async function rejectTransaction(
   id: string,
-): Promise<InventoryItemRow> {
-  const [rows] = await conn.query<InventoryItemRow[]>(
-    `SELECT id, name, quantity, unit, min, updated_at FROM inventory_items WHERE id = ? LIMIT 1`,
-    [id],
+  approver: ApprovalActor,
+  reason: string,
+): Promise<Transaction> {
+  if (!reason.trim()) {
+    throw new Error("A reason is required to reject a transaction");
+  }
+  return withTransactionForUpdate(id, (existing, conn) =>
+    applyRejection(existing, approver, reason.trim(), conn),
   );
-  if (!rows.length) throw new Error("Inventory item not found");
-  return rows[0];
 }
 
-export async function recordInventoryReceipt(
-  input: InventoryReceiptInput,
-): Promise<InventoryMovementResult> {
+/**
+ * Approves or rejects several transactions as one unit: either every ID
+ * succeeds or nothing is written, and each ID reports its own outcome.
+ */
+export async function decideTransactions(
+  input: TransactionBatchInput,
+  approver: ApprovalActor,
+): Promise<TransactionBatchResult> {
+  const ids = [...new Set(input.ids)];
+  const reason = input.reason?.trim() ?? "";
+  if (input.decision === "reject" && !reason) {
+    throw new Error("A reason is required to reject a transaction");
+  }
+  const apply = (existing: Transaction, conn?: PoolConnection) =>
+    input.decision === "approve"
+      ? applyApproval(existing, approver, conn)
+      : applyRejection(existing, approver, reason, conn);
+  const failure = (id: string, error: unknown) => ({
+    id,
+    ok: false,
+    error: error instanceof Error ? error.message : String(error),
+  });
+
   const pool = await getInitializedMysqlPool();
   if (!pool) {
-    const item = fallbackStore.items.get(input.itemId);
-    if (!item) throw new Error("Inventory item not found");
-    const updated: InventoryItem = {
-      ...item,
-      quantity: item.quantity + input.qty,
-      updatedAt: input.date,
+    // Without a database transaction, check every ID before touching any.
+    const checks = await Promise.all(
+      ids.map(async (id) => {
+        try {
+          const existing = fallbackStore.transactions.get(id);
+          if (!existing) throw new Error("Transaction not found");
+          await nextApprovalStep(existing, approver);
+          if (input.decision === "approve") {
+            await assertPeriodOpen(existing.date);
+          }
+          return { id, ok: true };
+        } catch (error) {
+          return failure(id, error);
+        }
+      }),
+    );
+    if (checks.some((check) => !check.ok)) {
+      return { applied: false, results: checks };
+    }
+    const results: TransactionBatchItemResult[] = [];
+    for (const id of ids) {
+      const transaction = await apply(fallbackStore.transactions.get(id)!);
+      results.push({ id, ok: true, transaction });
+    }
+    return { applied: true, results };
+  }
+
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const results: TransactionBatchItemResult[] = [];
+    for (const id of ids) {
+      try {
+        const [rows] = await conn.query<TransactionRow[]>(
+          `SELECT ${TRANSACTION_COLUMNS}
+           FROM transactions WHERE id = ? LIMIT 1 FOR UPDATE`,
+          [id],
+        );
+        if (!rows.length) throw new Error("Transaction not found");
+        const transaction = await apply(mapTransactionRow(rows[0]), conn);
+        results.push({ id, ok: true, transaction });
+      } catch (error) {
+        results.push(failure(id, error));
+      }
+    }
+    if (results.every((result) => result.ok)) {
+      await conn.commit();
+      return { applied: true, results };
+    }
+    await conn.rollback();
+    return {
+      applied: false,
+      results: results.map(({ transaction: _t, ...result }) => result),
     };
-    fallbackStore.items.set(updated.id, updated);
-    const movement: Movement = {
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/** Sends a rejected transaction back for a fresh round of approvals. */
+export async function resubmitTransaction(
+  id: string,
+  actor: ApprovalActor,
+): Promise<Transaction> {
+  return withTransactionForUpdate(id, async (existing, conn) => {
+    if (actor.role === "employee" && existing.createdBy !== actor.id) {
+      throw new ForbiddenError(
+        "Only the creator or an approver can resubmit this transaction",
+      );
+    }
+    if (existing.approvalStatus !== "rejected") {
+      throw new ConflictError("Only rejected transactions can be resubmitted");
+    }
+    const updated: Transaction = {
+      ...existing,
+      approvalStatus: "pending",
+      rejectionReason: null,
+      rejectedAt: null,
+    };
+    if (conn) {
+      await conn.query(
+        `UPDATE transactions SET rejection_reason = NULL, rejected_at = NULL WHERE id = ?`,
+        [id],
+      );
+    } else {
+      fallbackStore.transactions.set(id, updated);
+    }
+    await recordApprovalDecision(
+      { transactionId: id, decision: "resubmit", userId: actor.id },
+      conn,
+    );
+    await recordAudit(
+      {
+        action: "resubmit",
+        entityType: "transaction",
+        entityId: id,
+        before: existing,
+        after: updated,
+      },
+      conn,
+    );
+    return updated;
+  });
+}
+
+/** Pending transactions whose next approval level `approver` can sign. */
+export async function listApprovalInbox(
+  approver: ApprovalActor,
+): Promise<ApprovalInboxItem[]> {
+  const pool = await getInitializedMysqlPool();
+  let pending: Transaction[];
+  if (!pool) {
+    pending = [...fallbackStore.transactions.values()]
+      .filter((t) => t.approvalStatus === "pending")
+      .sort((a, b) => (a.date === b.date ? 0 : a.date < b.date ? -1 : 1));
+  } else {
+    const [rows] = await pool.query<TransactionRow[]>(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM transactions
+       WHERE approved = 0 AND rejection_reason IS NULL
+       ORDER BY date ASC, created_at ASC`,
+    );
+    pending = rows.map(mapTransactionRow);
+  }
+  const rules = await listApprovalRules();
+  const decisions = await listApprovalDecisions(pending.map((t) => t.id));
+  const items: ApprovalInboxItem[] = [];
+  for (const transaction of pending) {
+    const levels = matchApprovalLevels(
+      rules,
+      transaction.type,
+      transaction.amount,
+    );
+    const approvals = currentApprovals(
+      decisions.filter((d) => d.transactionId === transaction.id),
+    );
+    const { level } = nextApprovalLevel(levels, approvals);
+    if (
+      !canSignLevel(approver.role, level) ||
+      approvals.some((a) => a.userId === approver.id)
+    ) {
+      continue;
+    }
+    items.push({ transaction, levels, approvals, nextLevel: level });
+  }
+  return items;
+}
+
+/** Approved transactions are immutable; only drafts may be removed. */
+function assertDeletable(transaction: Transaction) {
+  if (transaction.approved) {
+    throw new ConflictError(
+      "Approved transactions cannot be deleted; reverse them instead",
+    );
+  }
+}
+
+export async function deleteTransaction(id: string): Promise<void> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const existing = fallbackStore.transactions.get(id);
+    if (!existing) throw new Error("Transaction not found");
+    assertDeletable(existing);
+    await assertPeriodOpen(existing.date);
+    fallbackStore.transactions.delete(id);
+    await deleteTransactionJournal(id);
+    if (existing.sourceType === "installment") {
+      await releaseInstallmentPayment(id, "delete");
+    }
+    await recordAudit({
+      action: "delete",
+      entityType: "transaction",
+      entityId: id,
+      before: existing,
+    });
+    return;
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [rows] = await conn.query<TransactionRow[]>(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM transactions WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id],
+    );
+    if (!rows.length) throw new Error("Transaction not found");
+    const existing = mapTransactionRow(rows[0]);
+    assertDeletable(existing);
+    await assertPeriodOpen(existing.date, conn);
+    await deleteTransactionJournal(id, conn);
+    await conn.query(`DELETE FROM transactions WHERE id = ?`, [id]);
+    if (existing.sourceType === "installment") {
+      await releaseInstallmentPayment(id, "delete", conn);
+    }
+    await recordAudit(
+      {
+        action: "delete",
+        entityType: "transaction",
+        entityId: id,
+        before: existing,
+      },
+      conn,
+    );
+    await conn.commit();
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+function reversalInput(
+  original: Transaction,
+  params: { reason: string; date: string; userId: string | null },
+): TransactionInsert {
+  return {
+    date: params.date,
+    type: original.type,
+    description: `عكس: ${original.description}`,
+    amount: -original.amount,
+    approved: true,
+    createdBy: params.userId,
+    reversalOf: original.id,
+    reversalReason: params.reason,
+    sourceType: original.sourceType,
+    sourceId: original.sourceId ?? null,
+    categoryId: original.categoryId ?? null,
+    moneyAccountId: original.moneyAccountId ?? null,
+  };
+}
+
+function assertReversible(original: Transaction) {
+  if (!original.approved) {
+    throw new ConflictError("Only approved transactions can be reversed");
+  }
+  if (original.reversalOf) {
+    throw new ConflictError("A reversing transaction cannot be reversed");
+  }
+  if (original.reversedBy) {
+    throw new ConflictError("Transaction has already been reversed");
+  }
+}
+
+async function reverseTransactionFallback(
+  existing: Transaction,
+  params: { reason: string; date: string; userId: string | null },
+): Promise<TransactionReverseResult> {
+  assertReversible(existing);
+  const reversal = await createTransactionFallback(
+    reversalInput(existing, params),
+  );
+  if (existing.sourceType === "installment") {
+    await releaseInstallmentPayment(existing.id, "reverse");
+  }
+  await reverseTransactionJournal(existing.id, {
+    transactionId: reversal.id,
+    date: reversal.date,
+    description: reversal.description,
+    createdBy: params.userId,
+  });
+  const original: Transaction = { ...existing, reversedBy: reversal.id };
+  fallbackStore.transactions.set(existing.id, original);
+  await recordAudit({
+    action: "reverse",
+    entityType: "transaction",
+    entityId: existing.id,
+    before: existing,
+    after: original,
+  });
+  return { original, reversal };
+}
+
+/** Expects `existing` to have been read FOR UPDATE on `conn`. */
+async function reverseTransactionDb(
+  conn: PoolConnection,
+  existing: Transaction,
+  params: { reason: string; date: string; userId: string | null },
+): Promise<TransactionReverseResult> {
+  assertReversible(existing);
+  const reversal = await insertTransactionDb(
+    reversalInput(existing, params),
+    conn,
+  );
+  if (existing.sourceType === "installment") {
+    await releaseInstallmentPayment(existing.id, "reverse", conn);
+  }
+  await reverseTransactionJournal(
+    existing.id,
+    {
+      transactionId: reversal.id,
+      date: reversal.date,
+      description: reversal.description,
+      createdBy: params.userId,
+    },
+    conn,
+  );
+  await conn.query(`UPDATE transactions SET reversed_by = ? WHERE id = ?`, [
+    reversal.id,
+    existing.id,
+  ]);
+  const original: Transaction = { ...existing, reversedBy: reversal.id };
+  await recordAudit(
+    {
+      action: "reverse",
+      entityType: "transaction",
+      entityId: existing.id,
+      before: existing,
+      after: original,
+    },
+    conn,
+  );
+  return { original, reversal };
+}
+
+/** A reversal cannot be dated before the transaction it cancels. */
+function assertReversalDate(existing: Transaction, date: string) {
+  if (date < existing.date) {
+    throw new Error("The reversal date cannot be before the transaction date");
+  }
+}
+
+/**
+ * Cancels an approved transaction by posting an opposite, linked transaction
+ * dated `params.date` with the reversed journal lines.
+ */
+export async function reverseTransaction(
+  id: string,
+  params: { reason: string; date: string; userId: string | null },
+): Promise<TransactionReverseResult> {
+  if (!params.reason.trim()) {
+    throw new Error("A reason is required to reverse a transaction");
+  }
+  await assertPeriodOpen(params.date);
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const existing = fallbackStore.transactions.get(id);
+    if (!existing) throw new Error("Transaction not found");
+    assertReversalDate(existing, params.date);
+    return reverseTransactionFallback(existing, params);
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [rows] = await conn.query<TransactionRow[]>(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM transactions WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id],
+    );
+    if (!rows.length) throw new Error("Transaction not found");
+    const existing = mapTransactionRow(rows[0]);
+    assertReversalDate(existing, params.date);
+    const result = await reverseTransactionDb(conn, existing, params);
+    await conn.commit();
+    return result;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+async function loadSourceDocument(
+  type: TransactionSourceType,
+  id: string,
+): Promise<TransactionSourceDocument | null> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    if (type === "sale") {
+      const sale = fallbackStore.sales.get(id);
+      return sale ? { type, sale } : null;
+    }
+    if (type === "cost") {
+      const cost = fallbackStore.costs.get(id);
+      return cost ? { type, cost } : null;
+    }
+    if (type === "movement") {
+      const movement = fallbackStore.movements.get(id);
+      return movement ? { type, movement } : null;
+    }
+    if (type === "installment") {
+      const installment = fallbackStore.installments.get(id);
+      return installment ? { type, installment } : null;
+    }
+    return null;
+  }
+  if (type === "sale") {
+    const [rows] = await pool.query<ProjectSaleRow[]>(
+      `SELECT ${PROJECT_SALE_COLUMNS}
+       FROM project_sales WHERE id = ? LIMIT 1`,
+      [id],
+    );
+    return rows.length ? { type, sale: mapProjectSaleRow(rows[0]) } : null;
+  }
+  if (type === "cost") {
+    const [rows] = await pool.query<ProjectCostRow[]>(
+      `SELECT id, project_id, type, amount, date, note, created_at
+       FROM project_costs WHERE id = ? LIMIT 1`,
+      [id],
+    );
+    return rows.length ? { type, cost: mapProjectCostRow(rows[0]) } : null;
+  }
+  if (type === "movement") {
+    const [rows] = await pool.query<MovementRow[]>(
+      `SELECT id, item_id, kind, qty, unit_price, total, party, date, created_at
+       FROM inventory_movements WHERE id = ? LIMIT 1`,
+      [id],
+    );
+    return rows.length ? { type, movement: mapMovementRow(rows[0]) } : null;
+  }
+  if (type === "installment") {
+    const [rows] = await pool.query<InstallmentRow[]>(
+      `SELECT ${INSTALLMENT_COLUMNS} FROM installments WHERE id = ? LIMIT 1`,
+      [id],
+    );
+    return rows.length
+      ? { type, installment: mapInstallmentRow(rows[0]) }
+      : null;
+  }
+  return null;
+}
+
+export async function getTransactionSource(
+  id: string,
+): Promise<TransactionSourceResult> {
+  const pool = await getInitializedMysqlPool();
+  let transaction: Transaction | undefined;
+  if (!pool) {
+    transaction = fallbackStore.transactions.get(id);
+  } else {
+    const [rows] = await pool.query<TransactionRow[]>(
+      `SELECT ${TRANSACTION_COLUMNS} FROM transactions WHERE id = ? LIMIT 1`,
+      [id],
+    );
+    transaction = rows.length ? mapTransactionRow(rows[0]) : undefined;
+  }
+  if (!transaction) throw new Error("Transaction not found");
+  const document = transaction.sourceId
+    ? await loadSourceDocument(transaction.sourceType, transaction.sourceId)
+    : null;
+  return { transaction, document };
+}
+
+/** All transactions generated from one source document, reversals included. */
+export async function listTransactionsForSource(
+  type: TransactionSourceType,
+  sourceId: string,
+): Promise<Transaction[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortTransactions(
+      [...fallbackStore.transactions.values()].filter(
+        (t) => t.sourceType === type && t.sourceId === sourceId,
+      ),
+    );
+  }
+  const [rows] = await pool.query<TransactionRow[]>(
+    `SELECT ${TRANSACTION_COLUMNS}
+     FROM transactions WHERE source_type = ? AND source_id = ?
+     ORDER BY date DESC, created_at DESC`,
+    [type, sourceId],
+  );
+  return rows.map(mapTransactionRow);
+}
+
+export async function createInventoryItem(
+  input: InventoryItemCreateInput,
+): Promise<InventoryItem> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const item: InventoryItem = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      quantity: input.quantity,
+      unit: input.unit,
+      min: input.min,
+      updatedAt: input.updatedAt,
+    };
+    fallbackStore.items.set(item.id, item);
+    await recordAudit({
+      action: "create",
+      entityType: "inventory_item",
+      entityId: item.id,
+      after: item,
+    });
+    return item;
+  }
+  const id = crypto.randomUUID();
+  await pool.query(
+    `INSERT INTO inventory_items (id, name, quantity, unit, min, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [id, input.name, input.quantity, input.unit, input.min, input.updatedAt],
+  );
+  const [rows] = await pool.query<InventoryItemRow[]>(
+    `SELECT id, name, quantity, unit, min, updated_at
+     FROM inventory_items WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  const item = mapInventoryItemRow(rows[0]);
+  await recordAudit({
+    action: "create",
+    entityType: "inventory_item",
+    entityId: id,
+    after: item,
+  });
+  return item;
+}
+
+export async function deleteInventoryItem(id: string): Promise<void> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const existing = fallbackStore.items.get(id);
+    fallbackStore.items.delete(id);
+    for (const movement of fallbackStore.movements.values()) {
+      if (movement.itemId === id) fallbackStore.movements.delete(movement.id);
+    }
+    if (existing) {
+      await recordAudit({
+        action: "delete",
+        entityType: "inventory_item",
+        entityId: id,
+        before: existing,
+      });
+    }
+    return;
+  }
+  const [rows] = await pool.query<InventoryItemRow[]>(
+    `SELECT id, name, quantity, unit, min, updated_at
+     FROM inventory_items WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  await pool.query(`DELETE FROM inventory_items WHERE id = ?`, [id]);
+  if (rows.length) {
+    await recordAudit({
+      action: "delete",
+      entityType: "inventory_item",
+      entityId: id,
+      before: mapInventoryItemRow(rows[0]),
+    });
+  }
+}
+
+/** Audits a receipt or issue: the new movement and the item's quantity change. */
+async function auditInventoryMovement(
+  before: InventoryItem,
+  after: InventoryItem,
+  movement: Movement,
+  conn?: PoolConnection,
+) {
+  await recordAudit(
+    {
+      action: "create",
+      entityType: "inventory_movement",
+      entityId: movement.id,
+      after: movement,
+    },
+    conn,
+  );
+  await recordAudit(
+    {
+      action: "update",
+      entityType: "inventory_item",
+      entityId: before.id,
+      before,
+      after,
+    },
+    conn,
+  );
+}
+
+async function getItemRowForUpdate(
+  conn: PoolConnection,
+  id: string,
+): Promise<InventoryItemRow> {
+  const [rows] = await conn.query<InventoryItemRow[]>(
+    `SELECT id, name, quantity, unit, min, updated_at FROM inventory_items WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Inventory item not found");
+  return rows[0];
+}
+
+export async function recordInventoryReceipt(
+  input: InventoryReceiptInput,
+): Promise<InventoryMovementResult> {
+  await assertPeriodOpen(input.date);
+  if (input.moneyAccountId) {
+    await assertMoneyAccountActive(input.moneyAccountId);
+  }
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const item = fallbackStore.items.get(input.itemId);
+    if (!item) throw new Error("Inventory item not found");
+    const updated: InventoryItem = {
+      ...item,
+      quantity: item.quantity + input.qty,
+      updatedAt: input.date,
+    };
+    fallbackStore.items.set(updated.id, updated);
+    const movement: Movement = {
       id: crypto.randomUUID(),
       itemId: input.itemId,
       kind: "in",
@@ -573,14 +1688,26 @@ export async function recordInventoryReceipt(
       date: input.date,
     };
     fallbackStore.movements.set(movement.id, movement);
-    const transaction = createTransactionFallback({
+    const transaction = await createTransactionFallback({
       date: input.date,
       type: "expense",
       description: `شراء ${item.name} من ${input.supplier} (${input.qty} ${item.unit} × ${input.unitPrice})`,
       amount: movement.total,
       approved: input.approved,
       createdBy: input.createdBy ?? null,
+      moneyAccountId: input.moneyAccountId ?? null,
+      sourceType: "movement",
+      sourceId: movement.id,
     });
+    await postTransactionJournal(
+      transaction,
+      journalLines(
+        SYSTEM_ACCOUNTS.inventory,
+        SYSTEM_ACCOUNTS.cash,
+        movement.total,
+      ),
+    );
+    await auditInventoryMovement(item, updated, movement);
     return { item: updated, movement, transaction };
   }
 
@@ -626,17 +1753,29 @@ export async function recordInventoryReceipt(
         amount: total,
         approved: input.approved,
         createdBy: input.createdBy ?? null,
+        moneyAccountId: input.moneyAccountId ?? null,
+        sourceType: "movement",
+        sourceId: movementId,
       },
       conn,
     );
+    await postTransactionJournal(
+      transaction,
+      journalLines(SYSTEM_ACCOUNTS.inventory, SYSTEM_ACCOUNTS.cash, total),
+      conn,
+    );
 
+    const movement = mapMovementRow(movementRows[0]);
+    const item = mapInventoryItemRow(updated);
+    await auditInventoryMovement(
+      mapInventoryItemRow(base),
+      item,
+      movement,
+      conn,
+    );
     await conn.commit();
 
-    return {
-      item: mapInventoryItemRow(updated),
-      movement: mapMovementRow(movementRows[0]),
-      transaction,
-    };
+    return { item, movement, transaction };
   } catch (error) {
     await conn.rollback();
     throw error;
@@ -648,6 +1787,7 @@ export async function recordInventoryReceipt(
 export async function recordInventoryIssue(
   input: InventoryIssueInput,
 ): Promise<InventoryMovementResult> {
+  await assertPeriodOpen(input.date);
   const pool = await getInitializedMysqlPool();
   if (!pool) {
     const item = fallbackStore.items.get(input.itemId);
@@ -670,14 +1810,25 @@ export async function recordInventoryIssue(
       date: input.date,
     };
     fallbackStore.movements.set(movement.id, movement);
-    const transaction = createTransactionFallback({
+    const transaction = await createTransactionFallback({
       date: input.date,
       type: "expense",
       description: `صرف ${item.name} لمشر��ع ${input.project} (${input.qty} ${item.unit} × ${input.unitPrice})`,
       amount: movement.total,
       approved: input.approved,
       createdBy: input.createdBy ?? null,
+      sourceType: "movement",
+      sourceId: movement.id,
     });
+    await postTransactionJournal(
+      transaction,
+      journalLines(
+        SYSTEM_ACCOUNTS.materialsIssued,
+        SYSTEM_ACCOUNTS.inventory,
+        movement.total,
+      ),
+    );
+    await auditInventoryMovement(item, updated, movement);
     return { item: updated, movement, transaction };
   }
 
@@ -725,17 +1876,32 @@ export async function recordInventoryIssue(
         amount: total,
         approved: input.approved,
         createdBy: input.createdBy ?? null,
+        sourceType: "movement",
+        sourceId: movementId,
       },
       conn,
     );
+    await postTransactionJournal(
+      transaction,
+      journalLines(
+        SYSTEM_ACCOUNTS.materialsIssued,
+        SYSTEM_ACCOUNTS.inventory,
+        total,
+      ),
+      conn,
+    );
 
+    const movement = mapMovementRow(movementRows[0]);
+    const item = mapInventoryItemRow(updated);
+    await auditInventoryMovement(
+      mapInventoryItemRow(base),
+      item,
+      movement,
+      conn,
+    );
     await conn.commit();
 
-    return {
-      item: mapInventoryItemRow(updated),
-      movement: mapMovementRow(movementRows[0]),
-      transaction,
-    };
+    return { item, movement, transaction };
   } catch (error) {
     await conn.rollback();
     throw error;
@@ -758,6 +1924,12 @@ export async function createProject(
       createdAt: input.createdAt,
     };
     fallbackStore.projects.set(project.id, project);
+    await recordAudit({
+      action: "create",
+      entityType: "project",
+      entityId: project.id,
+      after: project,
+    });
     return project;
   }
   const id = crypto.randomUUID();
@@ -774,11 +1946,18 @@ export async function createProject(
     ],
   );
   const [rows] = await pool.query<ProjectRow[]>(
-    `SELECT id, name, location, floors, units, created_at
+    `SELECT ${PROJECT_COLUMNS}
      FROM projects WHERE id = ? LIMIT 1`,
     [id],
   );
-  return mapProjectRow(rows[0]);
+  const project = mapProjectRow(rows[0]);
+  await recordAudit({
+    action: "create",
+    entityType: "project",
+    entityId: id,
+    after: project,
+  });
+  return project;
 }
 
 export async function getProjectById(id: string): Promise<Project | null> {
@@ -787,7 +1966,7 @@ export async function getProjectById(id: string): Promise<Project | null> {
     return fallbackStore.projects.get(id) ?? null;
   }
   const [rows] = await pool.query<ProjectRow[]>(
-    `SELECT id, name, location, floors, units, created_at
+    `SELECT ${PROJECT_COLUMNS}
      FROM projects WHERE id = ? LIMIT 1`,
     [id],
   );
@@ -809,7 +1988,9 @@ export async function getProjectSnapshot(
       .filter((s) => s.projectId === id)
       .sort((a, b) => (a.date === b.date ? 0 : a.date > b.date ? -1 : 1));
     const installments = getProjectInstallments(id);
-    return { project, costs, sales, installments };
+    const payments = await listProjectPayments(id);
+    const units = await listProjectUnits(id);
+    return { project, costs, sales, installments, payments, units };
   }
   const [costRows] = await pool.query<ProjectCostRow[]>(
     `SELECT id, project_id, type, amount, date, note, created_at
@@ -819,52 +2000,276 @@ export async function getProjectSnapshot(
     [id],
   );
   const [saleRows] = await pool.query<ProjectSaleRow[]>(
-    `SELECT id, project_id, unit_no, buyer, price, date, terms, area, payment_method, created_at
+    `SELECT ${PROJECT_SALE_COLUMNS}
      FROM project_sales
      WHERE project_id = ?
      ORDER BY date DESC, created_at DESC`,
     [id],
   );
+  const [installmentRows] = await pool.query<InstallmentRow[]>(
+    `SELECT ${INSTALLMENT_COLUMNS}
+     FROM installments
+     WHERE project_id = ?
+     ORDER BY due_date ASC, created_at ASC`,
+    [id],
+  );
   return {
     project,
     costs: costRows.map(mapProjectCostRow),
     sales: saleRows.map(mapProjectSaleRow),
-    installments: getProjectInstallments(id),
+    installments: installmentRows.map(mapInstallmentRow),
+    payments: await listProjectPayments(id),
+    units: await listProjectUnits(id),
   };
 }
 
-export async function deleteProject(id: string): Promise<void> {
+const PROJECT_ARCHIVE_REASON = "أرشفة المشروع";
+
+function reservationEntryIds(reservations: UnitReservation[]): string[] {
+  return reservations.flatMap((r) =>
+    [r.depositEntryId, r.refundEntryId].filter((x): x is string => Boolean(x)),
+  );
+}
+
+/**
+ * Archiving reverses the deposits, so the project's open reservations are
+ * closed with it: nothing is left to refund and their units are freed.
+ */
+async function closeArchivedReservations(
+  reservations: UnitReservation[],
+  date: string,
+  conn?: PoolConnection,
+) {
+  for (const reservation of reservations) {
+    if (reservation.status === "active") {
+      await releaseReservedUnit(
+        reservation.unitId,
+        reservation.projectId,
+        conn,
+      );
+    } else if (reservation.status !== "expired") {
+      continue;
+    }
+    await saveReservationStatus(
+      reservation,
+      {
+        ...reservation,
+        status: "cancelled",
+        cancelReason: PROJECT_ARCHIVE_REASON,
+        cancelledOn: date,
+      },
+      conn,
+    );
+  }
+}
+
+async function assertProjectActive(projectId: string) {
+  const project = await getProjectById(projectId);
+  if (project?.archivedAt) {
+    throw new ConflictError("Project is archived");
+  }
+}
+
+/**
+ * Removes a project together with its sales, costs, installments and their
+ * draft transactions. When any linked transaction is approved the project is
+ * archived instead and its approved postings are reversed, so the books keep
+ * their history while the project's effect nets to zero. Reservation deposits
+ * are posted when taken, so a project with reservations is always archived,
+ * their journal entries reversed and the open ones cancelled.
+ */
+export async function deleteProject(
+  id: string,
+  userId: string | null,
+): Promise<ProjectDeleteResult> {
+  const today = new Date().toISOString().slice(0, 10);
   const pool = await getInitializedMysqlPool();
   if (!pool) {
-    if (!fallbackStore.projects.delete(id)) {
-      throw new Error("Project not found");
-    }
-    for (const cost of [...fallbackStore.costs.values()]) {
-      if (cost.projectId === id) {
-        fallbackStore.costs.delete(cost.id);
+    const project = fallbackStore.projects.get(id);
+    if (!project) throw new Error("Project not found");
+    if (project.archivedAt) throw new ConflictError("Project is archived");
+    const reservations = await lockProjectReservations(id);
+    const sourceIds = new Set<string>([
+      ...[...fallbackStore.sales.values()]
+        .filter((x) => x.projectId === id)
+        .map((x) => x.id),
+      ...[...fallbackStore.costs.values()]
+        .filter((x) => x.projectId === id)
+        .map((x) => x.id),
+      ...[...fallbackStore.installments.values()]
+        .filter((x) => x.projectId === id)
+        .map((x) => x.id),
+    ]);
+    const linked = [...fallbackStore.transactions.values()].filter(
+      (t) =>
+        t.sourceId && t.sourceType !== "manual" && sourceIds.has(t.sourceId),
+    );
+    const drafts = linked.filter((t) => !t.approved);
+    const archive = linked.some((t) => t.approved) || reservations.length > 0;
+    for (const t of drafts) await assertPeriodOpen(t.date);
+    if (archive) await assertPeriodOpen(today);
+
+    for (const t of drafts) {
+      fallbackStore.transactions.delete(t.id);
+      await deleteTransactionJournal(t.id);
+      if (t.sourceType === "installment") {
+        await releaseInstallmentPayment(t.id, "delete");
       }
     }
-    for (const sale of [...fallbackStore.sales.values()]) {
-      if (sale.projectId === id) {
-        fallbackStore.sales.delete(sale.id);
+    const removedTransactionIds = drafts.map((t) => t.id);
+    if (!archive) {
+      fallbackStore.projects.delete(id);
+      for (const cost of [...fallbackStore.costs.values()]) {
+        if (cost.projectId === id) fallbackStore.costs.delete(cost.id);
+      }
+      for (const sale of [...fallbackStore.sales.values()]) {
+        if (sale.projectId === id) fallbackStore.sales.delete(sale.id);
+      }
+      for (const inst of [...fallbackStore.installments.values()]) {
+        if (inst.projectId === id) fallbackStore.installments.delete(inst.id);
+      }
+      for (const payment of [...fallbackStore.payments.values()]) {
+        if (payment.projectId === id) fallbackStore.payments.delete(payment.id);
       }
+      await deleteProjectReservations(id);
+      await deleteProjectUnits(id);
+      await recordAudit({
+        action: "delete",
+        entityType: "project",
+        entityId: id,
+        before: project,
+      });
+      return { outcome: "deleted", reversed: [], removedTransactionIds };
     }
-    return;
+    const reversed: Transaction[] = [];
+    for (const t of linked) {
+      if (!t.approved || t.reversedBy || t.reversalOf) continue;
+      const result = await reverseTransactionFallback(t, {
+        reason: PROJECT_ARCHIVE_REASON,
+        date: today,
+        userId,
+      });
+      reversed.push(result.reversal);
+    }
+    for (const entryId of reservationEntryIds(reservations)) {
+      await reverseJournalEntry(entryId, {
+        date: today,
+        description: PROJECT_ARCHIVE_REASON,
+        createdBy: userId,
+      });
+    }
+    await closeArchivedReservations(reservations, today);
+    const archived: Project = {
+      ...project,
+      archivedAt: new Date().toISOString(),
+    };
+    fallbackStore.projects.set(id, archived);
+    await recordAudit({
+      action: "archive",
+      entityType: "project",
+      entityId: id,
+      before: project,
+      after: archived,
+    });
+    return { outcome: "archived", reversed, removedTransactionIds };
   }
   const conn = await pool.getConnection();
   try {
     await conn.beginTransaction();
     const [projects] = await conn.query<ProjectRow[]>(
-      `SELECT id FROM projects WHERE id = ? LIMIT 1`,
+      `SELECT ${PROJECT_COLUMNS} FROM projects WHERE id = ? LIMIT 1 FOR UPDATE`,
       [id],
     );
     if (!projects.length) {
       throw new Error("Project not found");
     }
-    await conn.query(`DELETE FROM project_sales WHERE project_id = ?`, [id]);
-    await conn.query(`DELETE FROM project_costs WHERE project_id = ?`, [id]);
-    await conn.query(`DELETE FROM projects WHERE id = ?`, [id]);
+    const project = mapProjectRow(projects[0]);
+    if (project.archivedAt) throw new ConflictError("Project is archived");
+    const reservations = await lockProjectReservations(id, conn);
+    const [rows] = await conn.query<TransactionRow[]>(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM transactions
+       WHERE (source_type = 'sale' AND source_id IN (SELECT id FROM project_sales WHERE project_id = ?))
+          OR (source_type = 'cost' AND source_id IN (SELECT id FROM project_costs WHERE project_id = ?))
+          OR (source_type = 'installment' AND source_id IN (SELECT id FROM installments WHERE project_id = ?))
+       FOR UPDATE`,
+      [id, id, id],
+    );
+    const linked = rows.map(mapTransactionRow);
+    const drafts = linked.filter((t) => !t.approved);
+    const archive = linked.some((t) => t.approved) || reservations.length > 0;
+    for (const t of drafts) {
+      await assertPeriodOpen(t.date, conn);
+      await deleteTransactionJournal(t.id, conn);
+      await conn.query(`DELETE FROM transactions WHERE id = ?`, [t.id]);
+      if (t.sourceType === "installment") {
+        await releaseInstallmentPayment(t.id, "delete", conn);
+      }
+    }
+    const removedTransactionIds = drafts.map((t) => t.id);
+    if (!archive) {
+      await conn.query(
+        `DELETE FROM installment_allocations
+         WHERE payment_id IN (SELECT id FROM installment_payments WHERE project_id = ?)`,
+        [id],
+      );
+      await conn.query(
+        `DELETE FROM installment_payments WHERE project_id = ?`,
+        [id],
+      );
+      await conn.query(`DELETE FROM installments WHERE project_id = ?`, [id]);
+      await conn.query(`DELETE FROM project_sales WHERE project_id = ?`, [id]);
+      await deleteProjectReservations(id, conn);
+      await deleteProjectUnits(id, conn);
+      await conn.query(`DELETE FROM project_costs WHERE project_id = ?`, [id]);
+      await conn.query(`DELETE FROM projects WHERE id = ?`, [id]);
+      await recordAudit(
+        {
+          action: "delete",
+          entityType: "project",
+          entityId: id,
+          before: project,
+        },
+        conn,
+      );
+      await conn.commit();
+      return { outcome: "deleted", reversed: [], removedTransactionIds };
+    }
+    await assertPeriodOpen(today, conn);
+    const reversed: Transaction[] = [];
+    for (const t of linked) {
+      if (!t.approved || t.reversedBy || t.reversalOf) continue;
+      const result = await reverseTransactionDb(conn, t, {
+        reason: PROJECT_ARCHIVE_REASON,
+        date: today,
+        userId,
+      });
+      reversed.push(result.reversal);
+    }
+    for (const entryId of reservationEntryIds(reservations)) {
+      await reverseJournalEntry(
+        entryId,
+        { date: today, description: PROJECT_ARCHIVE_REASON, createdBy: userId },
+        conn,
+      );
+    }
+    await closeArchivedReservations(reservations, today, conn);
+    await conn.query(
+      `UPDATE projects SET archived_at = CURRENT_TIMESTAMP WHERE id = ?`,
+      [id],
+    );
+    await recordAudit(
+      {
+        action: "archive",
+        entityType: "project",
+        entityId: id,
+        before: project,
+        after: { ...project, archivedAt: new Date().toISOString() },
+      },
+      conn,
+    );
     await conn.commit();
+    return { outcome: "archived", reversed, removedTransactionIds };
   } catch (error) {
     await conn.rollback();
     throw error;
@@ -876,6 +2281,11 @@ export async function deleteProject(id: string): Promise<void> {
 export async function createProjectCost(
   input: ProjectCostCreateInput,
 ): Promise<ProjectCostCreateResult> {
+  await assertPeriodOpen(input.date);
+  await assertProjectActive(input.projectId);
+  if (input.moneyAccountId) {
+    await assertMoneyAccountActive(input.moneyAccountId);
+  }
   const pool = await getInitializedMysqlPool();
   if (!pool) {
     const customTypeLabel = normalizeCustomTypeLabel(input.customTypeLabel);
@@ -890,13 +2300,30 @@ export async function createProjectCost(
       note,
     };
     fallbackStore.costs.set(cost.id, cost);
-    const transaction = createTransactionFallback({
+    const transaction = await createTransactionFallback({
       date: input.date,
       type: "expense",
       description: `تكلفة ${projectCostTypeLabel(input.type, customTypeLabel)} لمشروع ${input.projectName}`,
       amount: input.amount,
       approved: input.approved,
       createdBy: input.createdBy ?? null,
+      moneyAccountId: input.moneyAccountId ?? null,
+      sourceType: "cost",
+      sourceId: cost.id,
+    });
+    await postTransactionJournal(
+      transaction,
+      journalLines(
+        projectCostAccount(input.type),
+        SYSTEM_ACCOUNTS.cash,
+        input.amount,
+      ),
+    );
+    await recordAudit({
+      action: "create",
+      entityType: "project_cost",
+      entityId: cost.id,
+      after: cost,
     });
     return { cost, transaction };
   }
@@ -925,11 +2352,33 @@ export async function createProjectCost(
         amount: input.amount,
         approved: input.approved,
         createdBy: input.createdBy ?? null,
+        moneyAccountId: input.moneyAccountId ?? null,
+        sourceType: "cost",
+        sourceId: id,
+      },
+      conn,
+    );
+    await postTransactionJournal(
+      transaction,
+      journalLines(
+        projectCostAccount(input.type),
+        SYSTEM_ACCOUNTS.cash,
+        input.amount,
+      ),
+      conn,
+    );
+    const cost = mapProjectCostRow(rows[0]);
+    await recordAudit(
+      {
+        action: "create",
+        entityType: "project_cost",
+        entityId: id,
+        after: cost,
       },
       conn,
     );
     await conn.commit();
-    return { cost: mapProjectCostRow(rows[0]), transaction };
+    return { cost, transaction };
   } catch (error) {
     await conn.rollback();
     throw error;
@@ -938,16 +2387,103 @@ export async function createProjectCost(
   }
 }
 
+/** The sale's plan, from `plan` or the older equal-monthly fields. */
+function salePlan(input: ProjectSaleCreateInput): InstallmentPlan | null {
+  if (input.plan) {
+    return {
+      ...input.plan,
+      downPayment: input.plan.downPayment ?? input.downPayment ?? null,
+    };
+  }
+  if (input.monthlyAmount && input.months && input.firstDueDate) {
+    return {
+      downPayment: input.downPayment ?? null,
+      frequency: "monthly",
+      count: Number(input.months),
+      installmentAmount: Number(input.monthlyAmount),
+      firstDueDate: String(input.firstDueDate),
+    };
+  }
+  return null;
+}
+
+/** Expands a plan without saving it, so the clerk can check it first. */
+export function previewInstallmentPlan(
+  input: InstallmentPlanPreviewInput,
+): InstallmentPlanPreview {
+  return buildInstallmentSchedule(input.price, input.date, input.plan);
+}
+
+/**
+ * Locks the reservation a sale converts. Its deposit is already held, so it
+ * counts toward what the buyer pays upfront.
+ */
+async function lockReservationForSale(
+  input: ProjectSaleCreateInput,
+  immediateAmount: number,
+  conn?: PoolConnection,
+): Promise<UnitReservation> {
+  const reservation = await lockReservation(String(input.reservationId), conn);
+  await assertProjectActive(reservation.projectId);
+  if (reservation.status !== "active") {
+    throw new ConflictError("Reservation is no longer active");
+  }
+  if (
+    reservation.projectId !== input.projectId ||
+    reservation.unitId !== input.unitId
+  ) {
+    throw new Error("Reservation is for a different unit");
+  }
+  if (reservation.deposit > immediateAmount) {
+    throw new Error("Reservation deposit exceeds the down payment");
+  }
+  return reservation;
+}
+
+function convertedReservation(
+  reservation: UnitReservation,
+  saleId: string,
+): UnitReservation {
+  return { ...reservation, status: "converted", saleId };
+}
+
 export async function createProjectSale(
   input: ProjectSaleCreateInput,
 ): Promise<ProjectSaleCreateResult> {
+  const plan = salePlan(input);
+  const schedule = plan
+    ? buildInstallmentSchedule(input.price, input.date, plan)
+    : null;
+  const hasPlan = Boolean(schedule);
+  const immediateAmount = schedule ? schedule.downPayment : input.price;
+  await assertPeriodOpen(input.date);
+  await assertProjectActive(input.projectId);
+  if (input.moneyAccountId) {
+    await assertMoneyAccountActive(input.moneyAccountId);
+  }
   const pool = await getInitializedMysqlPool();
   if (!pool) {
+    const reservation = input.reservationId
+      ? await lockReservationForSale(input, immediateAmount)
+      : null;
+    const deposit = reservation?.deposit ?? 0;
+    if (input.unitId) {
+      await claimUnitForSale(
+        input.unitId,
+        input.projectId,
+        undefined,
+        Boolean(reservation),
+      );
+    }
     const sale: ProjectSale = {
       id: crypto.randomUUID(),
       projectId: input.projectId,
       unitNo: input.unitNo,
+      unitId: input.unitId ?? null,
       buyer: input.buyer,
+      customerId: input.customerId ?? null,
+      reservationId: reservation?.id ?? null,
+      depositApplied: deposit,
       price: input.price,
       date: input.date,
       terms: input.terms ?? null,
@@ -955,48 +2491,80 @@ export async function createProjectSale(
       paymentMethod: input.paymentMethod ?? null,
     };
     fallbackStore.sales.set(sale.id, sale);
-    const hasPlan = Boolean(
-      input && input.monthlyAmount && input.months && input.firstDueDate,
-    );
-    const immediateAmount = hasPlan
-      ? Math.max(0, Number(input.downPayment ?? 0))
-      : input.price;
-    const transaction = createTransactionFallback({
+    if (reservation) {
+      await saveReservationStatus(
+        reservation,
+        convertedReservation(reservation, sale.id),
+      );
+    }
+    const transaction = await createTransactionFallback({
       date: input.date,
       type: "revenue",
       description: hasPlan
         ? `بيع بالتقسيط لوحدة ${input.unitNo} من مشروع ${input.projectName} (مقدم)`
         : `بيع وحدة ${input.unitNo} من مشروع ${input.projectName} إلى ${input.buyer}`,
-      amount: immediateAmount,
+      amount: roundMoney(immediateAmount - deposit),
       approved: input.approved,
       createdBy: input.createdBy ?? null,
+      moneyAccountId: input.moneyAccountId ?? null,
+      sourceType: "sale",
+      sourceId: sale.id,
     });
     let installments: Installment[] | undefined;
-    if (hasPlan) {
-      installments = createInstallmentsForSale({
+    if (schedule) {
+      installments = await createInstallmentsForSale({
         projectId: input.projectId,
         saleId: sale.id,
         unitNo: input.unitNo,
         buyer: input.buyer,
-        monthlyAmount: Number(input.monthlyAmount),
-        months: Number(input.months),
-        firstDueDate: String(input.firstDueDate),
+        entries: schedule.entries,
       });
     }
+    await postTransactionJournal(
+      transaction,
+      projectSaleLines(
+        input.price,
+        immediateAmount,
+        installments ? installments.reduce((a, b) => a + b.amount, 0) : null,
+        deposit,
+      ),
+    );
+    await recordAudit({
+      action: "create",
+      entityType: "project_sale",
+      entityId: sale.id,
+      after: { ...sale, installments: installments?.length ?? 0 },
+    });
     return { sale, transaction, installments };
   }
   const conn = await pool.getConnection();
   try {
     await conn.beginTransaction();
+    const reservation = input.reservationId
+      ? await lockReservationForSale(input, immediateAmount, conn)
+      : null;
+    const deposit = reservation?.deposit ?? 0;
+    if (input.unitId) {
+      await claimUnitForSale(
+        input.unitId,
+        input.projectId,
+        conn,
+        Boolean(reservation),
+      );
+    }
     const id = crypto.randomUUID();
     await conn.query(
-      `INSERT INTO project_sales (id, project_id, unit_no, buyer, price, date, terms, area, payment_method)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO project_sales (id, project_id, unit_no, unit_id, buyer, customer_id, reservation_id, deposit_applied, price, date, terms, area, payment_method)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         input.projectId,
         input.unitNo,
+        input.unitId || null,
         input.buyer,
+        input.customerId || null,
+        reservation?.id ?? null,
+        deposit,
         input.price,
         input.date,
         input.terms || null,
@@ -1005,16 +2573,17 @@ export async function createProjectSale(
       ],
     );
     const [rows] = await conn.query<ProjectSaleRow[]>(
-      `SELECT id, project_id, unit_no, buyer, price, date, terms, area, payment_method, created_at
+      `SELECT ${PROJECT_SALE_COLUMNS}
        FROM project_sales WHERE id = ? LIMIT 1`,
       [id],
     );
-    const hasPlan = Boolean(
-      input && input.monthlyAmount && input.months && input.firstDueDate,
-    );
-    const immediateAmount = hasPlan
-      ? Math.max(0, Number(input.downPayment ?? 0))
-      : input.price;
+    if (reservation) {
+      await saveReservationStatus(
+        reservation,
+        convertedReservation(reservation, id),
+        conn,
+      );
+    }
     const transaction = await insertTransactionDb(
       {
         date: input.date,
@@ -1022,26 +2591,204 @@ export async function createProjectSale(
         description: hasPlan
           ? `بيع بالتقسيط لوحدة ${input.unitNo} من مشروع ${input.projectName} (مقدم)`
           : `بيع وحدة ${input.unitNo} من مشروع ${input.projectName} إلى ${input.buyer}`,
-        amount: immediateAmount,
+        amount: roundMoney(immediateAmount - deposit),
         approved: input.approved,
         createdBy: input.createdBy ?? null,
+        moneyAccountId: input.moneyAccountId ?? null,
+        sourceType: "sale",
+        sourceId: id,
       },
       conn,
     );
     let installments: Installment[] | undefined;
-    if (hasPlan) {
-      installments = createInstallmentsForSale({
-        projectId: input.projectId,
-        saleId: id,
-        unitNo: input.unitNo,
-        buyer: input.buyer,
-        monthlyAmount: Number(input.monthlyAmount),
-        months: Number(input.months),
-        firstDueDate: String(input.firstDueDate),
-      });
+    if (schedule) {
+      installments = await createInstallmentsForSale(
+        {
+          projectId: input.projectId,
+          saleId: id,
+          unitNo: input.unitNo,
+          buyer: input.buyer,
+          entries: schedule.entries,
+        },
+        conn,
+      );
+    }
+    await postTransactionJournal(
+      transaction,
+      projectSaleLines(
+        input.price,
+        immediateAmount,
+        installments ? installments.reduce((a, b) => a + b.amount, 0) : null,
+        deposit,
+      ),
+      conn,
+    );
+    const sale = mapProjectSaleRow(rows[0]);
+    await recordAudit(
+      {
+        action: "create",
+        entityType: "project_sale",
+        entityId: id,
+        after: { ...sale, installments: installments?.length ?? 0 },
+      },
+      conn,
+    );
+    await conn.commit();
+    return { sale, transaction, installments };
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/**
+ * Holds a unit for a buyer against a deposit. The deposit is owed back to
+ * the buyer until the reservation becomes a sale, so it is journalled
+ * straight to the customer deposits liability rather than entered as
+ * revenue.
+ */
+export async function createReservation(
+  input: UnitReservationCreateInput,
+): Promise<UnitReservationResult> {
+  if (!(input.deposit > 0)) {
+    throw new Error("Deposit must be greater than zero");
+  }
+  if (input.expiresOn < input.date) {
+    throw new Error("Expiry date cannot be before the reservation date");
+  }
+  await assertPeriodOpen(input.date);
+  await assertProjectActive(input.projectId);
+  if (input.moneyAccountId) {
+    await assertMoneyAccountActive(input.moneyAccountId);
+  }
+  const project = await getProjectById(input.projectId);
+  const apply = async (conn?: PoolConnection) => {
+    const unit = await reserveUnit(input.unitId, input.projectId, conn);
+    const entry = await postJournalEntry(
+      {
+        date: input.date,
+        description: `عربون حجز وحدة ${unit.unitNo} من مشروع ${project?.name ?? ""} - ${input.buyer}`,
+        posted: true,
+        createdBy: input.createdBy ?? null,
+        lines: journalLines(
+          input.moneyAccountId
+            ? await moneyAccountLedgerCode(input.moneyAccountId, conn)
+            : SYSTEM_ACCOUNTS.cash,
+          SYSTEM_ACCOUNTS.customerDeposits,
+          input.deposit,
+        ),
+      },
+      conn,
+    );
+    const reservation: UnitReservation = {
+      id: crypto.randomUUID(),
+      projectId: input.projectId,
+      unitId: unit.id,
+      unitNo: unit.unitNo,
+      buyer: input.buyer,
+      customerId: input.customerId ?? null,
+      deposit: input.deposit,
+      date: input.date,
+      expiresOn: input.expiresOn,
+      agent: input.agent,
+      status: "active",
+      moneyAccountId: input.moneyAccountId ?? null,
+      saleId: null,
+      cancelReason: null,
+      cancelledOn: null,
+      depositEntryId: entry.id,
+      refundEntryId: null,
+      createdBy: input.createdBy ?? null,
+    };
+    await insertReservation(reservation, conn);
+    return { reservation, entry };
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return apply();
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const result = await apply(conn);
+    await conn.commit();
+    return result;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/**
+ * Cancels a reservation and refunds its deposit. An active reservation
+ * gives its unit back; an expired one already has.
+ */
+export async function cancelReservation(
+  id: string,
+  input: UnitReservationCancelInput & { createdBy?: string | null },
+): Promise<UnitReservationResult> {
+  const reason = input.reason.trim();
+  if (!reason) throw new Error("Cancellation reason is required");
+  await assertPeriodOpen(input.date);
+  if (input.moneyAccountId) {
+    await assertMoneyAccountActive(input.moneyAccountId);
+  }
+  const apply = async (conn?: PoolConnection) => {
+    const existing = await lockReservation(id, conn);
+    await assertProjectActive(existing.projectId);
+    if (existing.status !== "active" && existing.status !== "expired") {
+      throw new ConflictError(
+        "Only active or expired reservations can be cancelled",
+      );
+    }
+    if (input.date < existing.date) {
+      throw new Error("Cancellation date cannot be before the reservation");
     }
+    if (existing.status === "active") {
+      await releaseReservedUnit(existing.unitId, existing.projectId, conn);
+    }
+    const project = await getProjectById(existing.projectId);
+    const moneyAccountId =
+      input.moneyAccountId ?? existing.moneyAccountId ?? null;
+    const entry = await postJournalEntry(
+      {
+        date: input.date,
+        description: `رد عربون حجز وحدة ${existing.unitNo} من مشروع ${project?.name ?? ""} - ${existing.buyer}`,
+        posted: true,
+        createdBy: input.createdBy ?? null,
+        lines: journalLines(
+          SYSTEM_ACCOUNTS.customerDeposits,
+          moneyAccountId
+            ? await moneyAccountLedgerCode(moneyAccountId, conn)
+            : SYSTEM_ACCOUNTS.cash,
+          existing.deposit,
+        ),
+      },
+      conn,
+    );
+    const reservation = await saveReservationStatus(
+      existing,
+      {
+        ...existing,
+        status: "cancelled",
+        cancelReason: reason,
+        cancelledOn: input.date,
+        refundEntryId: entry.id,
+      },
+      conn,
+    );
+    return { reservation, entry };
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return apply();
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const result = await apply(conn);
     await conn.commit();
-    return { sale: mapProjectSaleRow(rows[0]), transaction, installments };
+    return result;
   } catch (error) {
     await conn.rollback();
     throw error;
@@ -1061,35 +2808,1942 @@ function projectCostTypeLabel(
   return normalized ?? "أخرى";
 }
 
-export async function payInstallment(params: {
-  id: string;
-  date: string;
-  approved: boolean;
-  createdBy?: string | null;
-}): Promise<{ installment: Installment; transaction: Transaction }> {
-  const inst = fallbackStore.installments.get(params.id);
-  if (!inst) throw new Error("Installment not found");
-  if (inst.paid)
-    return {
-      installment: inst,
-      transaction: await createTransaction({
-        date: params.date,
-        type: "revenue",
-        description: `سداد قسط وحدة ${inst.unitNo} من ${inst.buyer}`,
-        amount: inst.amount,
-        approved: params.approved,
-        createdBy: params.createdBy ?? null,
-      }),
-    };
-  const updated: Installment = { ...inst, paid: true, paidAt: params.date };
-  fallbackStore.installments.set(updated.id, updated);
-  const transaction = await createTransaction({
-    date: params.date,
-    type: "revenue",
-    description: `سداد قسط وحدة ${inst.unitNo} من ${inst.buyer}`,
-    amount: inst.amount,
-    approved: params.approved,
-    createdBy: params.createdBy ?? null,
-  });
-  return { installment: updated, transaction };
+const PAYMENT_COLUMNS = `id, receipt_no, project_id, sale_id, date, amount, transaction_id, money_account_id, reversed, idempotency_key, created_by, created_at`;
+
+function mapPaymentRow(
+  row: InstallmentPaymentRow,
+  allocations: InstallmentAllocation[],
+): InstallmentPayment {
+  return {
+    id: row.id,
+    receiptNo: asNumber(row.receipt_no),
+    projectId: row.project_id,
+    saleId: row.sale_id,
+    date: formatDate(row.date),
+    amount: asNumber(row.amount),
+    transactionId: row.transaction_id,
+    moneyAccountId: row.money_account_id,
+    allocations,
+    reversed: asBoolean(row.reversed),
+    idempotencyKey: row.idempotency_key,
+    createdBy: row.created_by,
+    createdAt: formatTimestamp(row.created_at),
+  };
+}
+
+async function loadPayments(
+  rows: InstallmentPaymentRow[],
+  conn?: PoolConnection,
+): Promise<InstallmentPayment[]> {
+  if (!rows.length) return [];
+  const pool = conn ?? (await getInitializedMysqlPool());
+  if (!pool) return [];
+  const [allocationRows] = await pool.query<InstallmentAllocationRow[]>(
+    `SELECT payment_id, installment_id, amount
+     FROM installment_allocations WHERE payment_id IN (?)`,
+    [rows.map((r) => r.id)],
+  );
+  return rows.map((row) =>
+    mapPaymentRow(
+      row,
+      allocationRows
+        .filter((a) => a.payment_id === row.id)
+        .map((a) => ({
+          installmentId: a.installment_id,
+          amount: asNumber(a.amount),
+        })),
+    ),
+  );
+}
+
+async function listProjectPayments(
+  projectId: string,
+): Promise<InstallmentPayment[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortByDateDesc(
+      [...fallbackStore.payments.values()].filter(
+        (p) => p.projectId === projectId,
+      ),
+    );
+  }
+  const [rows] = await pool.query<InstallmentPaymentRow[]>(
+    `SELECT ${PAYMENT_COLUMNS} FROM installment_payments
+     WHERE project_id = ?
+     ORDER BY date DESC, created_at DESC`,
+    [projectId],
+  );
+  return loadPayments(rows);
+}
+
+async function findPaymentByKey(
+  key: string,
+  conn?: PoolConnection,
+): Promise<InstallmentPayment | null> {
+  const pool = conn ?? (await getInitializedMysqlPool());
+  if (!pool) {
+    return (
+      [...fallbackStore.payments.values()].find(
+        (p) => p.idempotencyKey === key,
+      ) ?? null
+    );
+  }
+  const [rows] = await pool.query<InstallmentPaymentRow[]>(
+    `SELECT ${PAYMENT_COLUMNS} FROM installment_payments
+     WHERE idempotency_key = ? LIMIT 1`,
+    [key],
+  );
+  const [payment] = await loadPayments(rows, conn);
+  return payment ?? null;
+}
+
+/** The standing (not reversed) payment recorded by `transactionId`. */
+async function findPaymentByTransaction(
+  transactionId: string,
+  conn?: PoolConnection,
+): Promise<InstallmentPayment | null> {
+  const pool = conn ?? (await getInitializedMysqlPool());
+  if (!pool) {
+    return (
+      [...fallbackStore.payments.values()].find(
+        (p) => p.transactionId === transactionId && !p.reversed,
+      ) ?? null
+    );
+  }
+  const [rows] = await pool.query<InstallmentPaymentRow[]>(
+    `SELECT ${PAYMENT_COLUMNS} FROM installment_payments
+     WHERE transaction_id = ? AND reversed = 0 LIMIT 1`,
+    [transactionId],
+  );
+  const [payment] = await loadPayments(rows, conn);
+  return payment ?? null;
+}
+
+/** Receipt numbers run on from the highest ever issued, reversed or not. */
+async function nextReceiptNo(conn?: PoolConnection): Promise<number> {
+  if (!conn) {
+    return (
+      Math.max(
+        0,
+        ...[...fallbackStore.payments.values()].map((p) => p.receiptNo),
+      ) + 1
+    );
+  }
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT COALESCE(MAX(receipt_no), 0) + 1 AS next
+     FROM installment_payments FOR UPDATE`,
+  );
+  return asNumber(rows[0]?.next ?? 1);
+}
+
+/**
+ * Answers a retried request with the payment its key already recorded, so a
+ * double-submitted form cannot collect the same money twice.
+ */
+async function replayPayment(
+  payment: InstallmentPayment,
+  request: { saleId: string; amount: number; installmentId?: string },
+  conn?: PoolConnection,
+): Promise<InstallmentPaymentResult> {
+  const sameRequest =
+    payment.saleId === request.saleId &&
+    payment.amount === roundMoney(request.amount) &&
+    (!request.installmentId ||
+      payment.allocations.some(
+        (a) => a.installmentId === request.installmentId,
+      ));
+  if (!sameRequest) {
+    throw new ConflictError(
+      "This payment request was already used for a different payment",
+    );
+  }
+  const ids = payment.allocations.map((a) => a.installmentId);
+  let installments: Installment[];
+  let transaction: Transaction | undefined;
+  const pool = conn ?? (await getInitializedMysqlPool());
+  if (pool) {
+    const [instRows] = await pool.query<InstallmentRow[]>(
+      `SELECT ${INSTALLMENT_COLUMNS} FROM installments WHERE id IN (?)`,
+      [ids],
+    );
+    installments = instRows.map(mapInstallmentRow);
+    const [txRows] = await pool.query<TransactionRow[]>(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM transactions WHERE id = ? LIMIT 1`,
+      [payment.transactionId],
+    );
+    transaction = txRows[0] ? mapTransactionRow(txRows[0]) : undefined;
+  } else {
+    installments = ids
+      .map((id) => fallbackStore.installments.get(id))
+      .filter((i): i is Installment => Boolean(i));
+    transaction = fallbackStore.transactions.get(payment.transactionId);
+  }
+  if (!transaction) throw new Error("Payment transaction not found");
+  installments.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
+  return { payment, installments, transaction, replayed: true };
+}
+
+function installmentRemaining(inst: Installment) {
+  return roundMoney(inst.amount - inst.paidAmount);
+}
+
+/**
+ * Spreads a payment over a sale's installments, either as the caller split
+ * it or oldest due date first. With `first`, that installment is settled
+ * before the rest and anything over it carries onto the next open ones.
+ * Paying more than the sale still owes is refused rather than held as credit.
+ */
+function allocatePayment(
+  installments: Installment[],
+  amount: number,
+  manual?: InstallmentAllocation[] | null,
+  first?: string | null,
+): InstallmentAllocation[] {
+  if (!(amount > 0)) {
+    throw new Error("Payment amount must be greater than zero");
+  }
+  if (manual?.length) {
+    const byId = new Map(installments.map((i) => [i.id, i]));
+    const seen = new Set<string>();
+    let total = 0;
+    for (const allocation of manual) {
+      const inst = byId.get(allocation.installmentId);
+      if (!inst) throw new Error("Installment does not belong to this sale");
+      if (seen.has(inst.id)) {
+        throw new Error("An installment can only be allocated once");
+      }
+      seen.add(inst.id);
+      if (!(allocation.amount > 0)) {
+        throw new Error("Allocated amounts must be greater than zero");
+      }
+      const remaining = installmentRemaining(inst);
+      if (remaining <= 0) {
+        throw new ConflictError(
+          `The installment due ${inst.dueDate} is already paid`,
+        );
+      }
+      if (roundMoney(allocation.amount) > remaining) {
+        throw new ConflictError(
+          `Only ${remaining} remains on the installment due ${inst.dueDate}`,
+        );
+      }
+      total += allocation.amount;
+    }
+    if (roundMoney(total) !== roundMoney(amount)) {
+      throw new Error("Allocations must add up to the payment amount");
+    }
+    return manual.map((a) => ({
+      installmentId: a.installmentId,
+      amount: roundMoney(a.amount),
+    }));
+  }
+  const ordered = sortInstallments(installments);
+  if (first) {
+    const index = ordered.findIndex((i) => i.id === first);
+    if (index < 0) throw new Error("Installment does not belong to this sale");
+    if (installmentRemaining(ordered[index]) <= 0) {
+      throw new ConflictError("Installment is already paid");
+    }
+    ordered.unshift(...ordered.splice(index, 1));
+  }
+  let left = roundMoney(amount);
+  const allocations: InstallmentAllocation[] = [];
+  for (const inst of ordered) {
+    if (left <= 0) break;
+    const share = Math.min(installmentRemaining(inst), left);
+    if (share <= 0) continue;
+    allocations.push({ installmentId: inst.id, amount: share });
+    left = roundMoney(left - share);
+  }
+  if (left > 0) {
+    throw new ConflictError(
+      `Payment exceeds the outstanding balance by ${left}`,
+    );
+  }
+  return allocations;
+}
+
+/** Adds (or with a negative `delta`, takes back) a share of a payment. */
+function applyAllocation(
+  inst: Installment,
+  delta: number,
+  date: string,
+): Installment {
+  const paidAmount = roundMoney(Math.max(0, inst.paidAmount + delta));
+  const paid = paidAmount >= inst.amount;
+  return {
+    ...inst,
+    paidAmount,
+    paid,
+    paidAt: paid ? (inst.paid ? inst.paidAt : date) : null,
+  };
+}
+
+async function saveInstallmentPaid(
+  installments: Installment[],
+  conn?: PoolConnection,
+) {
+  for (const inst of installments) {
+    if (conn) {
+      await conn.query(
+        `UPDATE installments SET paid_amount = ?, paid = ?, paid_at = ? WHERE id = ?`,
+        [inst.paidAmount, inst.paid ? 1 : 0, inst.paidAt ?? null, inst.id],
+      );
+    } else {
+      fallbackStore.installments.set(inst.id, inst);
+    }
+  }
+}
+
+function paymentDescription(
+  inst: Installment,
+  allocations: InstallmentAllocation[],
+) {
+  return allocations.length > 1
+    ? `سداد ${allocations.length} أقساط وحدة ${inst.unitNo} من ${inst.buyer}`
+    : `سداد قسط وحدة ${inst.unitNo} من ${inst.buyer}`;
+}
+
+async function recordInstallmentPayment(
+  params: {
+    saleId: string;
+    amount: number;
+    date: string;
+    allocations?: InstallmentAllocation[] | null;
+    /** Settled ahead of the oldest open installment when no split is given. */
+    firstInstallmentId?: string | null;
+    approved: boolean;
+    createdBy?: string | null;
+    moneyAccountId?: string | null;
+    idempotencyKey?: string | null;
+  },
+  conn?: PoolConnection,
+): Promise<InstallmentPaymentResult> {
+  await assertPeriodOpen(params.date);
+  if (params.moneyAccountId) {
+    await assertMoneyAccountActive(params.moneyAccountId);
+  }
+  const settle = async (
+    installments: Installment[],
+    conn?: PoolConnection,
+  ): Promise<InstallmentPaymentResult> => {
+    if (params.idempotencyKey) {
+      const existing = await findPaymentByKey(params.idempotencyKey, conn);
+      if (existing) return replayPayment(existing, params, conn);
+    }
+    if (!installments.length) throw new Error("Sale has no installments");
+    const allocations = allocatePayment(
+      installments,
+      params.amount,
+      params.allocations,
+      params.firstInstallmentId,
+    );
+    const byId = new Map(installments.map((i) => [i.id, i]));
+    const first = byId.get(allocations[0].installmentId)!;
+    const amount = roundMoney(params.amount);
+    const input: TransactionInsert = {
+      date: params.date,
+      type: "revenue",
+      description: paymentDescription(first, allocations),
+      amount,
+      approved: params.approved,
+      createdBy: params.createdBy ?? null,
+      moneyAccountId: params.moneyAccountId ?? null,
+      sourceType: "installment",
+      sourceId: first.id,
+    };
+    const transaction = conn
+      ? await insertTransactionDb(input, conn)
+      : await createTransactionFallback(input);
+    await postTransactionJournal(
+      transaction,
+      journalLines(
+        SYSTEM_ACCOUNTS.cash,
+        SYSTEM_ACCOUNTS.installmentsReceivable,
+        amount,
+      ),
+      conn,
+    );
+    const payment: InstallmentPayment = {
+      id: crypto.randomUUID(),
+      receiptNo: await nextReceiptNo(conn),
+      projectId: first.projectId,
+      saleId: params.saleId,
+      date: params.date,
+      amount,
+      transactionId: transaction.id,
+      moneyAccountId: params.moneyAccountId ?? null,
+      allocations,
+      reversed: false,
+      idempotencyKey: params.idempotencyKey ?? null,
+      createdBy: params.createdBy ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    const updated = allocations.map((a) =>
+      applyAllocation(byId.get(a.installmentId)!, a.amount, params.date),
+    );
+    if (conn) {
+      await conn.query(
+        `INSERT INTO installment_payments (id, receipt_no, project_id, sale_id, date, amount, transaction_id, money_account_id, idempotency_key, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          payment.id,
+          payment.receiptNo,
+          payment.projectId,
+          payment.saleId,
+          payment.date,
+          payment.amount,
+          payment.transactionId,
+          payment.moneyAccountId,
+          payment.idempotencyKey,
+          payment.createdBy,
+        ],
+      );
+      for (const a of allocations) {
+        await conn.query(
+          `INSERT INTO installment_allocations (payment_id, installment_id, amount)
+           VALUES (?, ?, ?)`,
+          [payment.id, a.installmentId, a.amount],
+        );
+      }
+    } else {
+      fallbackStore.payments.set(payment.id, payment);
+    }
+    await saveInstallmentPaid(updated, conn);
+    for (const inst of updated) {
+      await recordAudit(
+        {
+          action: "pay",
+          entityType: "installment",
+          entityId: inst.id,
+          before: byId.get(inst.id),
+          after: inst,
+        },
+        conn,
+      );
+    }
+    return { payment, installments: updated, transaction };
+  };
+  const lockAndSettle = async (db: PoolConnection) => {
+    const [rows] = await db.query<InstallmentRow[]>(
+      `SELECT ${INSTALLMENT_COLUMNS}
+       FROM installments WHERE sale_id = ? FOR UPDATE`,
+      [params.saleId],
+    );
+    return settle(rows.map(mapInstallmentRow), db);
+  };
+
+  if (conn) return lockAndSettle(conn);
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return settle(
+      [...fallbackStore.installments.values()].filter(
+        (i) => i.saleId === params.saleId,
+      ),
+    );
+  }
+  const own = await pool.getConnection();
+  try {
+    await own.beginTransaction();
+    const result = await lockAndSettle(own);
+    await own.commit();
+    return result;
+  } catch (error) {
+    await own.rollback();
+    if (
+      params.idempotencyKey &&
+      typeof error === "object" &&
+      error !== null &&
+      "code" in error &&
+      error.code === "ER_DUP_ENTRY"
+    ) {
+      // The same key was used concurrently against another sale.
+      throw new ConflictError(
+        "This payment request was already used for a different payment",
+      );
+    }
+    throw error;
+  } finally {
+    own.release();
+  }
+}
+
+/** Records one payment from a buyer against the installments of a sale. */
+export async function paySaleInstallments(
+  saleId: string,
+  input: InstallmentPaymentInput & { date: string },
+  params: { approved: boolean; createdBy?: string | null },
+): Promise<InstallmentPaymentResult> {
+  return recordInstallmentPayment({ saleId, ...input, ...params });
+}
+
+/**
+ * Pays `amount` towards one installment; by default whatever remains on it.
+ * Anything over its balance goes to the sale's next open installments. With
+ * `conn` the payment joins the caller's transaction.
+ */
+export async function payInstallment(
+  params: {
+    id: string;
+    date: string;
+    approved: boolean;
+    createdBy?: string | null;
+    moneyAccountId?: string | null;
+    amount?: number | null;
+    idempotencyKey?: string | null;
+  },
+  conn?: PoolConnection,
+): Promise<{
+  installment: Installment;
+  transaction: Transaction;
+  payment: InstallmentPayment;
+  replayed?: boolean;
+}> {
+  const inst = await getInstallment(params.id, conn);
+  if (params.idempotencyKey) {
+    // Checked before the balance: a retry of the payment that settled the
+    // installment must get that payment back, not "already paid".
+    const existing = await findPaymentByKey(params.idempotencyKey, conn);
+    if (existing) {
+      const replay = await replayPayment(
+        existing,
+        {
+          saleId: inst.saleId,
+          amount: params.amount ?? existing.amount,
+          installmentId: inst.id,
+        },
+        conn,
+      );
+      return {
+        installment: replay.installments.find((i) => i.id === inst.id) ?? inst,
+        transaction: replay.transaction,
+        payment: replay.payment,
+        replayed: true,
+      };
+    }
+  }
+  const amount = params.amount ?? installmentRemaining(inst);
+  if (amount <= 0) throw new ConflictError("Installment is already paid");
+  const result = await recordInstallmentPayment(
+    {
+      saleId: inst.saleId,
+      amount,
+      date: params.date,
+      firstInstallmentId: inst.id,
+      approved: params.approved,
+      createdBy: params.createdBy,
+      moneyAccountId: params.moneyAccountId,
+      idempotencyKey: params.idempotencyKey,
+    },
+    conn,
+  );
+  return {
+    installment: result.installments[0],
+    transaction: result.transaction,
+    payment: result.payment,
+    replayed: result.replayed,
+  };
+}
+
+/**
+ * Takes a payment's shares back off its installments once its transaction
+ * is reversed, or drops the payment with a deleted draft.
+ */
+async function releaseInstallmentPayment(
+  transactionId: string,
+  mode: "reverse" | "delete",
+  conn?: PoolConnection,
+) {
+  let payment: InstallmentPayment | undefined;
+  let installments: Installment[];
+  if (conn) {
+    const [rows] = await conn.query<InstallmentPaymentRow[]>(
+      `SELECT ${PAYMENT_COLUMNS} FROM installment_payments
+       WHERE transaction_id = ? AND reversed = 0 LIMIT 1 FOR UPDATE`,
+      [transactionId],
+    );
+    [payment] = await loadPayments(rows, conn);
+    if (!payment) return;
+    const [instRows] = await conn.query<InstallmentRow[]>(
+      `SELECT ${INSTALLMENT_COLUMNS} FROM installments WHERE id IN (?) FOR UPDATE`,
+      [payment.allocations.map((a) => a.installmentId)],
+    );
+    installments = instRows.map(mapInstallmentRow);
+  } else {
+    payment = [...fallbackStore.payments.values()].find(
+      (p) => p.transactionId === transactionId && !p.reversed,
+    );
+    if (!payment) return;
+    installments = payment.allocations
+      .map((a) => fallbackStore.installments.get(a.installmentId))
+      .filter((i): i is Installment => Boolean(i));
+  }
+  const shares = new Map(
+    payment.allocations.map((a) => [a.installmentId, a.amount]),
+  );
+  const updated = installments.map((inst) =>
+    applyAllocation(inst, -(shares.get(inst.id) ?? 0), ""),
+  );
+  await saveInstallmentPaid(updated, conn);
+  for (const inst of updated) {
+    await recordAudit(
+      {
+        action: "update",
+        entityType: "installment",
+        entityId: inst.id,
+        before: installments.find((i) => i.id === inst.id),
+        after: inst,
+      },
+      conn,
+    );
+  }
+  if (!conn) {
+    if (mode === "delete") fallbackStore.payments.delete(payment.id);
+    else fallbackStore.payments.set(payment.id, { ...payment, reversed: true });
+  } else if (mode === "delete") {
+    await conn.query(
+      `DELETE FROM installment_allocations WHERE payment_id = ?`,
+      [payment.id],
+    );
+    await conn.query(`DELETE FROM installment_payments WHERE id = ?`, [
+      payment.id,
+    ]);
+  } else {
+    await conn.query(
+      `UPDATE installment_payments SET reversed = 1 WHERE id = ?`,
+      [payment.id],
+    );
+  }
+}
+
+export async function getInstallment(
+  id: string,
+  conn?: PoolConnection,
+): Promise<Installment> {
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    const inst = fallbackStore.installments.get(id);
+    if (!inst) throw new Error("Installment not found");
+    return inst;
+  }
+  const [rows] = await db.query<InstallmentRow[]>(
+    `SELECT ${INSTALLMENT_COLUMNS} FROM installments WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Installment not found");
+  return mapInstallmentRow(rows[0]);
+}
+
+export async function listSaleInstallments(
+  saleId: string,
+): Promise<Installment[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortInstallments(
+      [...fallbackStore.installments.values()].filter(
+        (i) => i.saleId === saleId,
+      ),
+    );
+  }
+  const [rows] = await pool.query<InstallmentRow[]>(
+    `SELECT ${INSTALLMENT_COLUMNS}
+     FROM installments WHERE sale_id = ? ORDER BY due_date ASC`,
+    [saleId],
+  );
+  return rows.map(mapInstallmentRow);
+}
+
+/** Every installment with a balance left on a project still in use. */
+export async function listOpenInstallments(): Promise<Installment[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortInstallments(
+      [...fallbackStore.installments.values()].filter(
+        (i) => !i.paid && !fallbackStore.projects.get(i.projectId)?.archivedAt,
+      ),
+    );
+  }
+  const [rows] = await pool.query<InstallmentRow[]>(
+    `SELECT ${INSTALLMENT_COLUMNS}
+     FROM installments
+     WHERE paid = 0
+       AND project_id IN (SELECT id FROM projects WHERE archived_at IS NULL)
+     ORDER BY due_date ASC`,
+  );
+  return rows.map(mapInstallmentRow);
+}
+
+/** Names of all projects, archived ones included, keyed by id. */
+export async function listProjectNames(): Promise<Map<string, string>> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return new Map(
+      [...fallbackStore.projects.values()].map((p) => [p.id, p.name]),
+    );
+  }
+  const [rows] = await pool.query<ProjectRow[]>(
+    `SELECT id, name FROM projects`,
+  );
+  return new Map(rows.map((row) => [row.id, row.name]));
+}
+
+export async function listCustomerSales(
+  customerId: string,
+): Promise<ProjectSale[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return [...fallbackStore.sales.values()]
+      .filter((s) => s.customerId === customerId)
+      .sort((a, b) => (a.date === b.date ? 0 : a.date < b.date ? -1 : 1));
+  }
+  const [rows] = await pool.query<ProjectSaleRow[]>(
+    `SELECT ${PROJECT_SALE_COLUMNS}
+     FROM project_sales WHERE customer_id = ? ORDER BY date ASC, created_at ASC`,
+    [customerId],
+  );
+  return rows.map(mapProjectSaleRow);
+}
+
+export async function listSalePayments(
+  saleId: string,
+): Promise<InstallmentPayment[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortByDateDesc(
+      [...fallbackStore.payments.values()].filter((p) => p.saleId === saleId),
+    );
+  }
+  const [rows] = await pool.query<InstallmentPaymentRow[]>(
+    `SELECT ${PAYMENT_COLUMNS} FROM installment_payments
+     WHERE sale_id = ?
+     ORDER BY date DESC, created_at DESC`,
+    [saleId],
+  );
+  return loadPayments(rows);
+}
+
+/** Carries a customer's new name onto their sales and installments. */
+export async function renameCustomerSales(
+  customerId: string,
+  name: string,
+  conn?: PoolConnection,
+): Promise<void> {
+  if (!conn) {
+    for (const sale of fallbackStore.sales.values()) {
+      if (sale.customerId !== customerId) continue;
+      fallbackStore.sales.set(sale.id, { ...sale, buyer: name });
+      for (const inst of fallbackStore.installments.values()) {
+        if (inst.saleId === sale.id) {
+          fallbackStore.installments.set(inst.id, { ...inst, buyer: name });
+        }
+      }
+    }
+    return;
+  }
+  await conn.query(`UPDATE project_sales SET buyer = ? WHERE customer_id = ?`, [
+    name,
+    customerId,
+  ]);
+  await conn.query(
+    `UPDATE installments SET buyer = ?
+     WHERE sale_id IN (SELECT id FROM project_sales WHERE customer_id = ?)`,
+    [name, customerId],
+  );
+}
+
+/** Plan installments still owed on active projects that fell due before `asOf`. */
+export async function listOverdueInstallments(
+  asOf: string,
+): Promise<Installment[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortInstallments(
+      [...fallbackStore.installments.values()].filter(
+        (i) =>
+          i.kind === "plan" &&
+          !i.paid &&
+          i.dueDate < asOf &&
+          !fallbackStore.projects.get(i.projectId)?.archivedAt,
+      ),
+    );
+  }
+  const [rows] = await pool.query<InstallmentRow[]>(
+    `SELECT ${INSTALLMENT_COLUMNS}
+     FROM installments
+     WHERE kind = 'plan' AND paid = 0 AND due_date < ?
+       AND project_id IN (SELECT id FROM projects WHERE archived_at IS NULL)
+     ORDER BY due_date ASC`,
+    [asOf],
+  );
+  return rows.map(mapInstallmentRow);
+}
+
+function mapRescheduleRow(
+  row: InstallmentRescheduleRow,
+): InstallmentReschedule {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    saleId: row.sale_id,
+    date: formatDate(row.date),
+    reason: row.reason,
+    previous: (parseJson(row.previous_json) as Installment[]) ?? [],
+    replacement: (parseJson(row.replacement_json) as Installment[]) ?? [],
+    createdBy: row.created_by,
+    createdAt: formatTimestamp(row.created_at),
+  };
+}
+
+export async function listInstallmentReschedules(
+  projectId: string,
+): Promise<InstallmentReschedule[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return [...fallbackStore.reschedules.values()]
+      .filter((r) => r.projectId === projectId)
+      .reverse();
+  }
+  const [rows] = await pool.query<InstallmentRescheduleRow[]>(
+    `SELECT id, project_id, sale_id, date, reason, previous_json, replacement_json, created_by, created_at
+     FROM installment_reschedules
+     WHERE project_id = ?
+     ORDER BY created_at DESC`,
+    [projectId],
+  );
+  return rows.map(mapRescheduleRow);
+}
+
+/**
+ * Replaces the unpaid part of a sale's plan with a new schedule for the same
+ * balance. Untouched installments are removed, part-paid ones are closed at
+ * what was paid, and both the old and new schedules are kept on record.
+ * `assertRemovable` vets the installments to be removed inside the same
+ * transaction.
+ */
+export async function rescheduleSaleInstallments(
+  saleId: string,
+  input: InstallmentRescheduleInput & { date: string },
+  userId: string | null,
+  assertRemovable?: (
+    installments: Installment[],
+    conn?: PoolConnection,
+  ) => Promise<void>,
+): Promise<InstallmentRescheduleResult> {
+  if (input.plan.downPayment) {
+    throw new Error("A reschedule cannot take a down payment");
+  }
+  const apply = async (
+    installments: Installment[],
+    conn?: PoolConnection,
+  ): Promise<InstallmentRescheduleResult> => {
+    const open = sortInstallments(
+      installments.filter(
+        (i) => i.kind === "plan" && installmentRemaining(i) > 0,
+      ),
+    );
+    if (!open.length) {
+      throw new ConflictError("Nothing is left to reschedule on this sale");
+    }
+    const outstanding = roundMoney(
+      open.reduce((sum, i) => sum + installmentRemaining(i), 0),
+    );
+    const schedule = buildInstallmentSchedule(
+      outstanding,
+      input.date,
+      input.plan,
+    );
+    const removedIds: string[] = [];
+    const closed: Installment[] = [];
+    for (const inst of open) {
+      if (inst.paidAmount > 0) {
+        closed.push({
+          ...inst,
+          amount: inst.paidAmount,
+          paid: true,
+          paidAt: input.date,
+        });
+      } else {
+        removedIds.push(inst.id);
+      }
+    }
+    await assertRemovable?.(
+      open.filter((i) => removedIds.includes(i.id)),
+      conn,
+    );
+    if (conn) {
+      if (removedIds.length) {
+        await conn.query(`DELETE FROM installments WHERE id IN (?)`, [
+          removedIds,
+        ]);
+      }
+      for (const inst of closed) {
+        await conn.query(
+          `UPDATE installments SET amount = ?, paid = 1, paid_at = ? WHERE id = ?`,
+          [inst.amount, inst.paidAt, inst.id],
+        );
+      }
+    } else {
+      for (const id of removedIds) fallbackStore.installments.delete(id);
+      for (const inst of closed) fallbackStore.installments.set(inst.id, inst);
+    }
+    const first = open[0];
+    const replacement = await createInstallmentsForSale(
+      {
+        projectId: first.projectId,
+        saleId,
+        unitNo: first.unitNo,
+        buyer: first.buyer,
+        entries: schedule.entries,
+      },
+      conn,
+    );
+    const reschedule: InstallmentReschedule = {
+      id: crypto.randomUUID(),
+      projectId: first.projectId,
+      saleId,
+      date: input.date,
+      reason: input.reason,
+      previous: open,
+      replacement,
+      createdBy: userId,
+      createdAt: new Date().toISOString(),
+    };
+    if (conn) {
+      await conn.query(
+        `INSERT INTO installment_reschedules (id, project_id, sale_id, date, reason, previous_json, replacement_json, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          reschedule.id,
+          reschedule.projectId,
+          saleId,
+          reschedule.date,
+          reschedule.reason,
+          JSON.stringify(open),
+          JSON.stringify(replacement),
+          userId,
+        ],
+      );
+    } else {
+      fallbackStore.reschedules.set(reschedule.id, reschedule);
+    }
+    await recordAudit(
+      {
+        action: "create",
+        entityType: "installment_reschedule",
+        entityId: reschedule.id,
+        before: open,
+        after: replacement,
+      },
+      conn,
+    );
+    const byId = new Map(
+      [...closed, ...replacement].map((i) => [i.id, i] as const),
+    );
+    return {
+      reschedule,
+      installments: sortInstallments([
+        ...installments
+          .filter((i) => !removedIds.includes(i.id))
+          .map((i) => byId.get(i.id) ?? i),
+        ...replacement,
+      ]),
+      removedIds,
+    };
+  };
+
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const installments = [...fallbackStore.installments.values()].filter(
+      (i) => i.saleId === saleId,
+    );
+    if (!installments.length) throw new Error("Sale has no installments");
+    return apply(installments);
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [rows] = await conn.query<InstallmentRow[]>(
+      `SELECT ${INSTALLMENT_COLUMNS}
+       FROM installments WHERE sale_id = ? FOR UPDATE`,
+      [saleId],
+    );
+    if (!rows.length) throw new Error("Sale has no installments");
+    const result = await apply(rows.map(mapInstallmentRow), conn);
+    await conn.commit();
+    return result;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/**
+ * Checks that `transaction` paid part of the installment. A payment spread
+ * over several installments names only the first as its source, so its
+ * allocations are what count.
+ */
+async function assertInstallmentPayment(
+  transaction: Transaction | undefined,
+  installmentId: string,
+  conn?: PoolConnection,
+): Promise<Transaction> {
+  const payment =
+    transaction?.sourceType === "installment"
+      ? await findPaymentByTransaction(transaction.id, conn)
+      : null;
+  if (
+    !transaction ||
+    !payment?.allocations.some((a) => a.installmentId === installmentId)
+  ) {
+    throw new Error("Transaction is not a payment of this installment");
+  }
+  return transaction;
+}
+
+/**
+ * Undoes a payment that did not stick, such as a bounced cheque: the payment
+ * is reversed and its share of the installment is due again.
+ */
+export async function reopenInstallment(
+  params: {
+    id: string;
+    transactionId: string;
+    reason: string;
+    date: string;
+    userId: string | null;
+  },
+  conn?: PoolConnection,
+): Promise<{ installment: Installment; reversal: Transaction }> {
+  const reverseParams = {
+    reason: params.reason,
+    date: params.date,
+    userId: params.userId,
+  };
+  await assertPeriodOpen(params.date);
+  const reopen = async (db: PoolConnection) => {
+    const [txRows] = await db.query<TransactionRow[]>(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM transactions WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [params.transactionId],
+    );
+    const payment = await assertInstallmentPayment(
+      txRows.length ? mapTransactionRow(txRows[0]) : undefined,
+      params.id,
+      db,
+    );
+    const { reversal } = await reverseTransactionDb(db, payment, reverseParams);
+    return { installment: await getInstallment(params.id, db), reversal };
+  };
+  if (conn) return reopen(conn);
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const payment = await assertInstallmentPayment(
+      fallbackStore.transactions.get(params.transactionId),
+      params.id,
+    );
+    const { reversal } = await reverseTransactionFallback(
+      payment,
+      reverseParams,
+    );
+    return { installment: await getInstallment(params.id), reversal };
+  }
+
+  const own = await pool.getConnection();
+  try {
+    await own.beginTransaction();
+    const result = await reopen(own);
+    await own.commit();
+    return result;
+  } catch (error) {
+    await own.rollback();
+    throw error;
+  } finally {
+    own.release();
+  }
+}
+
+/**
+ * Bills the buyer an extra amount on the same sale, due on `date`. Like the
+ * sale itself it is accrued: receivable against other revenue, with no cash
+ * transaction until the new installment is paid.
+ */
+export async function chargeInstallmentFee(
+  params: {
+    installmentId: string;
+    amount: number;
+    date: string;
+    description: string;
+    userId: string | null;
+  },
+  conn?: PoolConnection,
+): Promise<Installment> {
+  if (!(params.amount > 0)) throw new Error("Fee must be greater than zero");
+  const source = await getInstallment(params.installmentId, conn);
+  const fee: Installment = {
+    id: crypto.randomUUID(),
+    projectId: source.projectId,
+    saleId: source.saleId,
+    unitNo: source.unitNo,
+    buyer: source.buyer,
+    amount: params.amount,
+    dueDate: params.date,
+    kind: "fee",
+    paidAmount: 0,
+    paid: false,
+    paidAt: null,
+  };
+  const entry = {
+    date: params.date,
+    description: params.description,
+    posted: true,
+    createdBy: params.userId,
+    lines: journalLines(
+      SYSTEM_ACCOUNTS.installmentsReceivable,
+      SYSTEM_ACCOUNTS.otherRevenue,
+      params.amount,
+    ),
+  };
+  const audit = {
+    action: "create" as const,
+    entityType: "installment" as const,
+    entityId: fee.id,
+    after: fee,
+  };
+  const insert = async (db: PoolConnection) => {
+    await db.query(
+      `INSERT INTO installments (id, project_id, sale_id, unit_no, buyer, amount, due_date, kind, paid)
+       VALUES (?, ?, ?, ?, ?, ?, ?, 'fee', 0)`,
+      [
+        fee.id,
+        fee.projectId,
+        fee.saleId,
+        fee.unitNo,
+        fee.buyer,
+        fee.amount,
+        fee.dueDate,
+      ],
+    );
+    await postJournalEntry(entry, db);
+    await recordAudit(audit, db);
+    return fee;
+  };
+  if (conn) return insert(conn);
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    await postJournalEntry(entry);
+    fallbackStore.installments.set(fee.id, fee);
+    await recordAudit(audit);
+    return fee;
+  }
+  const own = await pool.getConnection();
+  try {
+    await own.beginTransaction();
+    await insert(own);
+    await own.commit();
+    return fee;
+  } catch (error) {
+    await own.rollback();
+    throw error;
+  } finally {
+    own.release();
+  }
+}
+
+/**
+ * Withdraws a fee the buyer has not paid any of: the fee installment is
+ * removed and its revenue taken back off the receivable.
+ */
+export async function cancelFeeInstallment(
+  id: string,
+  params: { date: string; description: string; userId: string | null },
+  conn?: PoolConnection,
+): Promise<Installment> {
+  await assertPeriodOpen(params.date);
+  const cancel = async (fee: Installment, db?: PoolConnection) => {
+    if (fee.kind !== "fee") throw new Error("Only fees can be cancelled");
+    if (fee.paidAmount > 0) {
+      throw new ConflictError(
+        "Part of this fee is paid; reverse the payment before cancelling it",
+      );
+    }
+    const entry = {
+      date: params.date,
+      description: params.description,
+      posted: true,
+      createdBy: params.userId,
+      lines: journalLines(
+        SYSTEM_ACCOUNTS.otherRevenue,
+        SYSTEM_ACCOUNTS.installmentsReceivable,
+        fee.amount,
+      ),
+    };
+    if (db) {
+      await db.query(`DELETE FROM installments WHERE id = ?`, [fee.id]);
+    } else {
+      fallbackStore.installments.delete(fee.id);
+    }
+    await postJournalEntry(entry, db);
+    await recordAudit(
+      {
+        action: "delete",
+        entityType: "installment",
+        entityId: fee.id,
+        before: fee,
+      },
+      db,
+    );
+    return fee;
+  };
+  const lockAndCancel = async (db: PoolConnection) => {
+    const [rows] = await db.query<InstallmentRow[]>(
+      `SELECT ${INSTALLMENT_COLUMNS} FROM installments WHERE id = ? FOR UPDATE`,
+      [id],
+    );
+    if (!rows.length) throw new Error("Installment not found");
+    return cancel(mapInstallmentRow(rows[0]), db);
+  };
+  if (conn) return lockAndCancel(conn);
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return cancel(await getInstallment(id));
+  const own = await pool.getConnection();
+  try {
+    await own.beginTransaction();
+    const fee = await lockAndCancel(own);
+    await own.commit();
+    return fee;
+  } catch (error) {
+    await own.rollback();
+    throw error;
+  } finally {
+    own.release();
+  }
+}
+
+function costTransactionDescription(cost: ProjectCost, projectName: string) {
+  return `تكلفة ${projectCostTypeLabel(cost.type, cost.customTypeLabel)} لمشروع ${projectName}`;
+}
+
+function saleTransactionDescription(
+  sale: ProjectSale,
+  projectName: string,
+  hasPlan: boolean,
+) {
+  return hasPlan
+    ? `بيع بالتقسيط لوحدة ${sale.unitNo} من مشروع ${projectName} (مقدم)`
+    : `بيع وحدة ${sale.unitNo} من مشروع ${projectName} إلى ${sale.buyer}`;
+}
+
+/** The transaction a source document generated, ignoring reversals of it. */
+async function findSourceTransaction(
+  type: TransactionSourceType,
+  sourceId: string,
+  conn?: PoolConnection,
+): Promise<Transaction | null> {
+  if (!conn) {
+    return (
+      [...fallbackStore.transactions.values()].find(
+        (t) =>
+          t.sourceType === type && t.sourceId === sourceId && !t.reversalOf,
+      ) ?? null
+    );
+  }
+  const [rows] = await conn.query<TransactionRow[]>(
+    `SELECT ${TRANSACTION_COLUMNS}
+     FROM transactions
+     WHERE source_type = ? AND source_id = ? AND reversal_of IS NULL
+     LIMIT 1 FOR UPDATE`,
+    [type, sourceId],
+  );
+  return rows.length ? mapTransactionRow(rows[0]) : null;
+}
+
+/**
+ * Rewrites a draft transaction and re-posts its journal. Approved
+ * transactions are immutable: a financial change is refused, and a purely
+ * descriptive change leaves them untouched. A financial change to a draft
+ * discards the signatures collected so far.
+ */
+async function syncTransaction(
+  linked: Transaction,
+  next: Pick<Transaction, "date" | "type" | "description" | "amount"> & {
+    categoryId?: string | null;
+    moneyAccountId?: string | null;
+  },
+  lines: JournalLineInput[],
+  financialChange: boolean,
+  conn?: PoolConnection,
+): Promise<Transaction> {
+  if (linked.approved) {
+    if (financialChange) {
+      throw new ConflictError(
+        "The linked transaction is approved; reverse it before changing amounts or dates",
+      );
+    }
+    return linked;
+  }
+  await assertPeriodOpen(linked.date, conn);
+  if (next.date !== linked.date) await assertPeriodOpen(next.date, conn);
+  const updated: Transaction = { ...linked, ...next };
+  if (conn) {
+    await conn.query(
+      `UPDATE transactions SET date = ?, type = ?, description = ?, amount = ?, category_id = ?, money_account_id = ? WHERE id = ?`,
+      [
+        next.date,
+        next.type,
+        next.description,
+        next.amount,
+        updated.categoryId ?? null,
+        updated.moneyAccountId ?? null,
+        linked.id,
+      ],
+    );
+  } else {
+    fallbackStore.transactions.set(updated.id, updated);
+  }
+  await deleteTransactionJournal(linked.id, conn);
+  await postTransactionJournal(updated, lines, conn);
+  if (financialChange) {
+    const approvals = currentApprovals(
+      await listApprovalDecisions([linked.id], conn),
+    );
+    if (approvals.length) {
+      await recordApprovalDecision(
+        {
+          transactionId: linked.id,
+          decision: "resubmit",
+          userId: getRequestContext()?.actorId ?? null,
+        },
+        conn,
+      );
+    }
+  }
+  await recordAudit(
+    {
+      action: "update",
+      entityType: "transaction",
+      entityId: linked.id,
+      before: linked,
+      after: updated,
+    },
+    conn,
+  );
+  return updated;
+}
+
+export async function updateTransaction(
+  id: string,
+  input: TransactionUpdateInput,
+): Promise<Transaction> {
+  const apply = async (existing: Transaction, conn?: PoolConnection) => {
+    const next = {
+      date: input.date ?? existing.date,
+      type: input.type ?? existing.type,
+      description: input.description ?? existing.description,
+      amount: input.amount ?? existing.amount,
+      categoryId:
+        input.categoryId === undefined
+          ? (existing.categoryId ?? null)
+          : input.categoryId,
+      moneyAccountId:
+        input.moneyAccountId === undefined
+          ? (existing.moneyAccountId ?? null)
+          : input.moneyAccountId,
+    };
+    const financialChange =
+      next.date !== existing.date ||
+      next.type !== existing.type ||
+      next.amount !== existing.amount ||
+      next.moneyAccountId !== (existing.moneyAccountId ?? null);
+    if (
+      existing.approved &&
+      (financialChange || next.description !== existing.description)
+    ) {
+      throw new ConflictError(
+        "Approved transactions cannot be edited; reverse them instead",
+      );
+    }
+    if (
+      next.categoryId &&
+      (next.categoryId !== existing.categoryId || next.type !== existing.type)
+    ) {
+      await assertCategoryAssignable(next.categoryId, next.type, conn);
+    }
+    if (
+      next.moneyAccountId &&
+      next.moneyAccountId !== (existing.moneyAccountId ?? null)
+    ) {
+      await assertMoneyAccountActive(next.moneyAccountId, conn);
+    }
+    if (existing.sourceType !== "manual" && financialChange) {
+      throw new ConflictError(
+        "Generated transactions follow their source document; edit the source instead",
+      );
+    }
+    if (existing.approved || existing.sourceType !== "manual") {
+      // Only the wording or category changes; the journal lines stay as posted.
+      const updated: Transaction = {
+        ...existing,
+        description: next.description,
+        categoryId: next.categoryId,
+      };
+      if (conn) {
+        await conn.query(
+          `UPDATE transactions SET description = ?, category_id = ? WHERE id = ?`,
+          [next.description, next.categoryId, id],
+        );
+      } else {
+        fallbackStore.transactions.set(id, updated);
+      }
+      await recordAudit(
+        {
+          action: "update",
+          entityType: "transaction",
+          entityId: id,
+          before: existing,
+          after: updated,
+        },
+        conn,
+      );
+      return updated;
+    }
+    return syncTransaction(
+      existing,
+      next,
+      manualTransactionLines({ ...existing, ...next }),
+      financialChange,
+      conn,
+    );
+  };
+
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const existing = fallbackStore.transactions.get(id);
+    if (!existing) throw new Error("Transaction not found");
+    return apply(existing);
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [rows] = await conn.query<TransactionRow[]>(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM transactions WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id],
+    );
+    if (!rows.length) throw new Error("Transaction not found");
+    const updated = await apply(mapTransactionRow(rows[0]), conn);
+    await conn.commit();
+    return updated;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/** Uncategorized transactions with the category their description suggests. */
+export async function suggestTransactionCategories(): Promise<
+  CategorySuggestion[]
+> {
+  const categories = await listCategories();
+  const pool = await getInitializedMysqlPool();
+  let uncategorized: Transaction[];
+  if (!pool) {
+    uncategorized = sortTransactions(
+      [...fallbackStore.transactions.values()].filter((t) => !t.categoryId),
+    );
+  } else {
+    const [rows] = await pool.query<TransactionRow[]>(
+      `SELECT ${TRANSACTION_COLUMNS}
+       FROM transactions
+       WHERE category_id IS NULL
+       ORDER BY date DESC, created_at DESC`,
+    );
+    uncategorized = rows.map(mapTransactionRow);
+  }
+  const suggestions: CategorySuggestion[] = [];
+  for (const transaction of uncategorized) {
+    const category = suggestCategory(
+      transaction.description,
+      transaction.type,
+      categories,
+    );
+    if (category) suggestions.push({ transaction, categoryId: category.id });
+  }
+  return suggestions;
+}
+
+/**
+ * One-off backfill: stores reviewed suggestions. Rows that were categorized
+ * in the meantime are left alone.
+ */
+export async function applyCategoryBackfill(
+  assignments: CategoryAssignment[],
+): Promise<CategoryBackfillResult> {
+  const categories = new Map(
+    (await listCategories()).map((category) => [category.id, category]),
+  );
+  for (const assignment of assignments) {
+    if (!categories.get(assignment.categoryId)?.active) {
+      throw new Error("Category not found");
+    }
+  }
+  const assignable = (existing: Transaction, categoryId: string) => {
+    const category = categories.get(categoryId)!;
+    return (
+      !existing.categoryId &&
+      (!category.type || category.type === existing.type)
+    );
+  };
+
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    let updated = 0;
+    for (const { transactionId, categoryId } of assignments) {
+      const existing = fallbackStore.transactions.get(transactionId);
+      if (!existing || !assignable(existing, categoryId)) continue;
+      const next: Transaction = { ...existing, categoryId };
+      fallbackStore.transactions.set(transactionId, next);
+      await recordAudit({
+        action: "update",
+        entityType: "transaction",
+        entityId: transactionId,
+        before: existing,
+        after: next,
+      });
+      updated += 1;
+    }
+    return { updated };
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    let updated = 0;
+    for (const { transactionId, categoryId } of assignments) {
+      const [rows] = await conn.query<TransactionRow[]>(
+        `SELECT ${TRANSACTION_COLUMNS}
+         FROM transactions WHERE id = ? LIMIT 1 FOR UPDATE`,
+        [transactionId],
+      );
+      if (!rows.length) continue;
+      const existing = mapTransactionRow(rows[0]);
+      if (!assignable(existing, categoryId)) continue;
+      await conn.query(`UPDATE transactions SET category_id = ? WHERE id = ?`, [
+        categoryId,
+        transactionId,
+      ]);
+      await recordAudit(
+        {
+          action: "update",
+          entityType: "transaction",
+          entityId: transactionId,
+          before: existing,
+          after: { ...existing, categoryId },
+        },
+        conn,
+      );
+      updated += 1;
+    }
+    await conn.commit();
+    return { updated };
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/** Ids of the transactions filed under a category, for ledger report filters. */
+export async function listTransactionIdsByCategory(
+  categoryId: string,
+): Promise<string[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return [...fallbackStore.transactions.values()]
+      .filter((t) => t.categoryId === categoryId)
+      .map((t) => t.id);
+  }
+  const [rows] = await pool.query<TransactionRow[]>(
+    `SELECT id FROM transactions WHERE category_id = ?`,
+    [categoryId],
+  );
+  return rows.map((row) => row.id);
+}
+
+/** Every transaction booked through one money account, newest first. */
+export async function listMoneyAccountTransactions(
+  moneyAccountId: string,
+): Promise<Transaction[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortTransactions(
+      [...fallbackStore.transactions.values()].filter(
+        (t) => t.moneyAccountId === moneyAccountId,
+      ),
+    );
+  }
+  const [rows] = await pool.query<TransactionRow[]>(
+    `SELECT ${TRANSACTION_COLUMNS}
+     FROM transactions
+     WHERE money_account_id = ?
+     ORDER BY date DESC, created_at DESC`,
+    [moneyAccountId],
+  );
+  return rows.map(mapTransactionRow);
+}
+
+export async function updateProject(
+  id: string,
+  input: ProjectUpdateInput,
+): Promise<Project> {
+  const existing = await getProjectById(id);
+  if (!existing) throw new Error("Project not found");
+  if (existing.archivedAt) throw new ConflictError("Project is archived");
+  const updated: Project = {
+    ...existing,
+    name: input.name ?? existing.name,
+    location: input.location ?? existing.location,
+    floors: input.floors ?? existing.floors,
+    units: input.units ?? existing.units,
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    fallbackStore.projects.set(id, updated);
+  } else {
+    await pool.query(
+      `UPDATE projects SET name = ?, location = ?, floors = ?, units = ? WHERE id = ?`,
+      [updated.name, updated.location, updated.floors, updated.units, id],
+    );
+  }
+  await recordAudit({
+    action: "update",
+    entityType: "project",
+    entityId: id,
+    before: existing,
+    after: updated,
+  });
+  return updated;
+}
+
+export async function updateInventoryItem(
+  id: string,
+  input: InventoryItemUpdateInput,
+): Promise<InventoryItem> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const existing = fallbackStore.items.get(id);
+    if (!existing) throw new Error("Inventory item not found");
+    const updated: InventoryItem = {
+      ...existing,
+      name: input.name ?? existing.name,
+      unit: input.unit ?? existing.unit,
+      min: input.min ?? existing.min,
+    };
+    fallbackStore.items.set(id, updated);
+    await recordAudit({
+      action: "update",
+      entityType: "inventory_item",
+      entityId: id,
+      before: existing,
+      after: updated,
+    });
+    return updated;
+  }
+  const [rows] = await pool.query<InventoryItemRow[]>(
+    `SELECT id, name, quantity, unit, min, updated_at
+     FROM inventory_items WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Inventory item not found");
+  const existing = mapInventoryItemRow(rows[0]);
+  const updated: InventoryItem = {
+    ...existing,
+    name: input.name ?? existing.name,
+    unit: input.unit ?? existing.unit,
+    min: input.min ?? existing.min,
+  };
+  await pool.query(
+    `UPDATE inventory_items SET name = ?, unit = ?, min = ? WHERE id = ?`,
+    [updated.name, updated.unit, updated.min, id],
+  );
+  await recordAudit({
+    action: "update",
+    entityType: "inventory_item",
+    entityId: id,
+    before: existing,
+    after: updated,
+  });
+  return updated;
+}
+
+export async function updateProjectCost(
+  id: string,
+  input: ProjectCostUpdateInput,
+): Promise<ProjectCostUpdateResult> {
+  const apply = async (existing: ProjectCost, conn?: PoolConnection) => {
+    const project = await getProjectById(existing.projectId);
+    if (project?.archivedAt) throw new ConflictError("Project is archived");
+    const type = input.type ?? existing.type;
+    const customTypeLabel =
+      type === "other"
+        ? normalizeCustomTypeLabel(
+            input.customTypeLabel !== undefined
+              ? input.customTypeLabel
+              : existing.customTypeLabel,
+          )
+        : null;
+    if (type === "other" && !customTypeLabel) {
+      throw new Error("Custom type label required");
+    }
+    const cost: ProjectCost = {
+      ...existing,
+      type,
+      customTypeLabel,
+      amount: input.amount ?? existing.amount,
+      date: input.date ?? existing.date,
+      note: input.note ?? existing.note,
+    };
+    const linked = await findSourceTransaction("cost", id, conn);
+    let transaction: Transaction | null = null;
+    if (linked) {
+      transaction = await syncTransaction(
+        linked,
+        {
+          date: cost.date,
+          type: "expense",
+          description: costTransactionDescription(cost, project?.name ?? ""),
+          amount: cost.amount,
+        },
+        journalLines(
+          projectCostAccount(cost.type),
+          SYSTEM_ACCOUNTS.cash,
+          cost.amount,
+        ),
+        cost.amount !== existing.amount ||
+          cost.date !== existing.date ||
+          projectCostAccount(cost.type) !== projectCostAccount(existing.type),
+        conn,
+      );
+    }
+    if (conn) {
+      await conn.query(
+        `UPDATE project_costs SET type = ?, amount = ?, date = ?, note = ? WHERE id = ?`,
+        [
+          cost.type,
+          cost.amount,
+          cost.date,
+          serializeProjectCostNote(cost.note, customTypeLabel),
+          id,
+        ],
+      );
+    } else {
+      fallbackStore.costs.set(id, cost);
+    }
+    await recordAudit(
+      {
+        action: "update",
+        entityType: "project_cost",
+        entityId: id,
+        before: existing,
+        after: cost,
+      },
+      conn,
+    );
+    return { cost, transaction };
+  };
+
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const existing = fallbackStore.costs.get(id);
+    if (!existing) throw new Error("Project cost not found");
+    return apply(existing);
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [rows] = await conn.query<ProjectCostRow[]>(
+      `SELECT id, project_id, type, amount, date, note, created_at
+       FROM project_costs WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id],
+    );
+    if (!rows.length) throw new Error("Project cost not found");
+    const result = await apply(mapProjectCostRow(rows[0]), conn);
+    await conn.commit();
+    return result;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+export async function updateProjectSale(
+  id: string,
+  input: ProjectSaleUpdateInput,
+): Promise<ProjectSaleUpdateResult> {
+  const apply = async (
+    existing: ProjectSale,
+    installments: Installment[],
+    conn?: PoolConnection,
+  ) => {
+    const project = await getProjectById(existing.projectId);
+    if (project?.archivedAt) throw new ConflictError("Project is archived");
+    const unitId =
+      input.unitId !== undefined ? input.unitId : (existing.unitId ?? null);
+    const sale: ProjectSale = {
+      ...existing,
+      // A sale tied to a unit always carries that unit's number.
+      unitNo: existing.unitId
+        ? existing.unitNo
+        : (input.unitNo ?? existing.unitNo),
+      unitId,
+      buyer: input.buyer ?? existing.buyer,
+      customerId:
+        input.customerId !== undefined
+          ? input.customerId
+          : (existing.customerId ?? null),
+      price: input.price ?? existing.price,
+      date: input.date ?? existing.date,
+      terms: input.terms !== undefined ? input.terms : existing.terms,
+      area: input.area !== undefined ? input.area : existing.area,
+      paymentMethod:
+        input.paymentMethod !== undefined
+          ? input.paymentMethod
+          : existing.paymentMethod,
+    };
+    const plan = installments.filter((inst) => inst.kind === "plan");
+    const hasPlan = plan.length > 0;
+    if (hasPlan && sale.price !== existing.price) {
+      throw new ConflictError(
+        "The price of a sale with an installment plan cannot be edited",
+      );
+    }
+    const deposit = existing.depositApplied ?? 0;
+    if (sale.price < deposit) {
+      throw new Error("Price cannot be below the reservation deposit");
+    }
+    // Moving a sale to another unit puts the old one back on the market.
+    if (unitId !== (existing.unitId ?? null)) {
+      if (existing.unitId) await releaseSoldUnit(existing.unitId, conn);
+      if (unitId) {
+        sale.unitNo = (
+          await claimUnitForSale(unitId, existing.projectId, conn)
+        ).unitNo;
+      }
+    }
+    const linked = await findSourceTransaction("sale", id, conn);
+    let transaction: Transaction | null = null;
+    if (linked) {
+      const scheduled = hasPlan
+        ? plan.reduce((total, inst) => total + inst.amount, 0)
+        : null;
+      // The flat amount is the cash part; the deposit was received earlier.
+      const amount = hasPlan ? linked.amount : roundMoney(sale.price - deposit);
+      transaction = await syncTransaction(
+        linked,
+        {
+          date: sale.date,
+          type: "revenue",
+          description: saleTransactionDescription(
+            sale,
+            project?.name ?? "",
+            hasPlan,
+          ),
+          amount,
+        },
+        projectSaleLines(
+          sale.price,
+          roundMoney(amount + deposit),
+          scheduled,
+          deposit,
+        ),
+        sale.price !== existing.price || sale.date !== existing.date,
+        conn,
+      );
+    }
+    if (conn) {
+      await conn.query(
+        `UPDATE project_sales
+         SET unit_no = ?, unit_id = ?, buyer = ?, customer_id = ?, price = ?, date = ?, terms = ?, area = ?, payment_method = ?
+         WHERE id = ?`,
+        [
+          sale.unitNo,
+          sale.unitId || null,
+          sale.buyer,
+          sale.customerId || null,
+          sale.price,
+          sale.date,
+          sale.terms || null,
+          sale.area || null,
+          sale.paymentMethod || null,
+          id,
+        ],
+      );
+      await conn.query(
+        `UPDATE installments SET unit_no = ?, buyer = ? WHERE sale_id = ?`,
+        [sale.unitNo, sale.buyer, id],
+      );
+    } else {
+      fallbackStore.sales.set(id, sale);
+      for (const inst of installments) {
+        fallbackStore.installments.set(inst.id, {
+          ...inst,
+          unitNo: sale.unitNo,
+          buyer: sale.buyer,
+        });
+      }
+    }
+    await recordAudit(
+      {
+        action: "update",
+        entityType: "project_sale",
+        entityId: id,
+        before: existing,
+        after: sale,
+      },
+      conn,
+    );
+    return { sale, transaction };
+  };
+
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const existing = fallbackStore.sales.get(id);
+    if (!existing) throw new Error("Project sale not found");
+    return apply(
+      existing,
+      [...fallbackStore.installments.values()].filter((i) => i.saleId === id),
+    );
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [rows] = await conn.query<ProjectSaleRow[]>(
+      `SELECT ${PROJECT_SALE_COLUMNS}
+       FROM project_sales WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id],
+    );
+    if (!rows.length) throw new Error("Project sale not found");
+    const [installmentRows] = await conn.query<InstallmentRow[]>(
+      `SELECT ${INSTALLMENT_COLUMNS} FROM installments WHERE sale_id = ? FOR UPDATE`,
+      [id],
+    );
+    const result = await apply(
+      mapProjectSaleRow(rows[0]),
+      installmentRows.map(mapInstallmentRow),
+      conn,
+    );
+    await conn.commit();
+    return result;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
 }
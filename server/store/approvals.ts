@@ -0,0 +1,182 @@
+import crypto from "node:crypto";
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import type {
+  ApprovalDecision,
+  ApprovalLevel,
+  ApprovalRule,
+  ApprovalRuleInput,
+  TransType,
+} from "@shared/accounting";
+import { APPROVAL_LEVELS, matchApprovalLevels } from "../lib/approval-levels";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import { asNumber, formatTimestamp } from "../lib/row-values";
+import { recordAudit } from "./audit";
+
+interface ApprovalRuleRow extends RowDataPacket {
+  id: string;
+  type: TransType | null;
+  min_amount: number | string;
+  levels: string;
+}
+
+interface ApprovalDecisionRow extends RowDataPacket {
+  id: string;
+  transaction_id: string;
+  decision: ApprovalDecision["decision"];
+  level: ApprovalLevel | null;
+  user_id: string | null;
+  reason: string | null;
+  created_at: string | Date;
+}
+
+const fallbackApprovals = {
+  rules: new Map<string, ApprovalRule>(),
+  decisions: [] as ApprovalDecision[],
+};
+
+function mapApprovalRuleRow(row: ApprovalRuleRow): ApprovalRule {
+  return {
+    id: row.id,
+    type: row.type,
+    minAmount: asNumber(row.min_amount),
+    levels: row.levels.split(",").filter(Boolean) as ApprovalLevel[],
+  };
+}
+
+function mapApprovalDecisionRow(row: ApprovalDecisionRow): ApprovalDecision {
+  return {
+    id: row.id,
+    transactionId: row.transaction_id,
+    decision: row.decision,
+    level: row.level,
+    userId: row.user_id,
+    reason: row.reason,
+    createdAt: formatTimestamp(row.created_at) ?? "",
+  };
+}
+
+export async function listApprovalRules(
+  conn?: PoolConnection,
+): Promise<ApprovalRule[]> {
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    return [...fallbackApprovals.rules.values()].sort(
+      (a, b) => a.minAmount - b.minAmount,
+    );
+  }
+  const [rows] = await db.query<ApprovalRuleRow[]>(
+    `SELECT id, type, min_amount, levels FROM approval_rules ORDER BY min_amount ASC`,
+  );
+  return rows.map(mapApprovalRuleRow);
+}
+
+export async function createApprovalRule(
+  input: ApprovalRuleInput,
+): Promise<ApprovalRule> {
+  if (!Number.isFinite(input.minAmount) || input.minAmount < 0) {
+    throw new Error("Invalid threshold");
+  }
+  if (
+    !input.levels.length ||
+    input.levels.some((level) => !APPROVAL_LEVELS.includes(level))
+  ) {
+    throw new Error("At least one valid approval level is required");
+  }
+  const rule: ApprovalRule = {
+    id: crypto.randomUUID(),
+    type: input.type ?? null,
+    minAmount: input.minAmount,
+    levels: [...input.levels],
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    fallbackApprovals.rules.set(rule.id, rule);
+  } else {
+    await pool.query(
+      `INSERT INTO approval_rules (id, type, min_amount, levels) VALUES (?, ?, ?, ?)`,
+      [rule.id, rule.type, rule.minAmount, rule.levels.join(",")],
+    );
+  }
+  await recordAudit({
+    action: "create",
+    entityType: "approval_rule",
+    entityId: rule.id,
+    after: rule,
+  });
+  return rule;
+}
+
+export async function deleteApprovalRule(id: string): Promise<void> {
+  const rules = await listApprovalRules();
+  const existing = rules.find((rule) => rule.id === id);
+  if (!existing) throw new Error("Approval rule not found");
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    fallbackApprovals.rules.delete(id);
+  } else {
+    await pool.query(`DELETE FROM approval_rules WHERE id = ?`, [id]);
+  }
+  await recordAudit({
+    action: "delete",
+    entityType: "approval_rule",
+    entityId: id,
+    before: existing,
+  });
+}
+
+export async function requiredLevels(
+  type: TransType,
+  amount: number,
+  conn?: PoolConnection,
+): Promise<ApprovalLevel[]> {
+  return matchApprovalLevels(await listApprovalRules(conn), type, amount);
+}
+
+export async function listApprovalDecisions(
+  transactionIds: string[],
+  conn?: PoolConnection,
+): Promise<ApprovalDecision[]> {
+  if (!transactionIds.length) return [];
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    const ids = new Set(transactionIds);
+    return fallbackApprovals.decisions.filter((d) => ids.has(d.transactionId));
+  }
+  const [rows] = await db.query<ApprovalDecisionRow[]>(
+    `SELECT id, transaction_id, decision, level, user_id, reason, created_at
+     FROM transaction_approvals
+     WHERE transaction_id IN (?)
+     ORDER BY created_at ASC`,
+    [transactionIds],
+  );
+  return rows.map(mapApprovalDecisionRow);
+}
+
+export async function recordApprovalDecision(
+  input: Omit<ApprovalDecision, "id" | "createdAt">,
+  conn?: PoolConnection,
+): Promise<ApprovalDecision> {
+  const decision: ApprovalDecision = {
+    ...input,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  };
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    fallbackApprovals.decisions.push(decision);
+    return decision;
+  }
+  await db.query(
+    `INSERT INTO transaction_approvals (id, transaction_id, decision, level, user_id, reason)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      decision.id,
+      decision.transactionId,
+      decision.decision,
+      decision.level ?? null,
+      decision.userId ?? null,
+      decision.reason ?? null,
+    ],
+  );
+  return decision;
+}
@@ -0,0 +1,154 @@
+import crypto from "node:crypto";
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogQuery,
+} from "@shared/accounting";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import { getRequestContext } from "../lib/request-context";
+import { formatTimestamp, parseJson } from "../lib/row-values";
+
+interface AuditLogRow extends RowDataPacket {
+  id: string;
+  actor_id: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  before_json: unknown;
+  after_json: unknown;
+  ip: string | null;
+  created_at: string | Date;
+}
+
+export interface AuditRecordInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+  /** Defaults to the authenticated user of the current request. */
+  actorId?: string | null;
+}
+
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+const fallbackAuditLog: AuditLogEntry[] = [];
+
+function mapAuditLogRow(row: AuditLogRow): AuditLogEntry {
+  return {
+    id: row.id,
+    actorId: row.actor_id,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    before: parseJson(row.before_json),
+    after: parseJson(row.after_json),
+    ip: row.ip,
+    createdAt: formatTimestamp(row.created_at) ?? "",
+  };
+}
+
+/**
+ * Appends an audit entry. Pass the mutation's connection so the entry is
+ * committed or rolled back together with the change it describes.
+ */
+export async function recordAudit(
+  input: AuditRecordInput,
+  conn?: PoolConnection,
+): Promise<void> {
+  const context = getRequestContext();
+  const entry: AuditLogEntry = {
+    id: crypto.randomUUID(),
+    actorId:
+      input.actorId !== undefined ? input.actorId : (context?.actorId ?? null),
+    action: input.action,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    before: input.before ?? null,
+    after: input.after ?? null,
+    ip: context?.ip ?? null,
+    createdAt: new Date().toISOString(),
+  };
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    fallbackAuditLog.push(entry);
+    return;
+  }
+  await db.query(
+    `INSERT INTO audit_log (id, actor_id, action, entity_type, entity_id, before_json, after_json, ip)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      entry.id,
+      entry.actorId,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      entry.before == null ? null : JSON.stringify(entry.before),
+      entry.after == null ? null : JSON.stringify(entry.after),
+      entry.ip,
+    ],
+  );
+}
+
+/** Newest first. `to` is inclusive of the whole day. */
+export async function listAuditLog(
+  query: AuditLogQuery = {},
+): Promise<AuditLogEntry[]> {
+  const limit = Math.min(
+    Math.max(1, Math.floor(query.limit ?? DEFAULT_LIMIT)),
+    MAX_LIMIT,
+  );
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return fallbackAuditLog
+      .filter(
+        (e) =>
+          (!query.actorId || e.actorId === query.actorId) &&
+          (!query.action || e.action === query.action) &&
+          (!query.entityType || e.entityType === query.entityType) &&
+          (!query.entityId || e.entityId === query.entityId) &&
+          (!query.from || e.createdAt.slice(0, 10) >= query.from) &&
+          (!query.to || e.createdAt.slice(0, 10) <= query.to),
+      )
+      .slice(-limit)
+      .reverse();
+  }
+  const where: string[] = [];
+  const params: unknown[] = [];
+  if (query.actorId) {
+    where.push("actor_id = ?");
+    params.push(query.actorId);
+  }
+  if (query.action) {
+    where.push("action = ?");
+    params.push(query.action);
+  }
+  if (query.entityType) {
+    where.push("entity_type = ?");
+    params.push(query.entityType);
+  }
+  if (query.entityId) {
+    where.push("entity_id = ?");
+    params.push(query.entityId);
+  }
+  if (query.from) {
+    where.push("created_at >= ?");
+    params.push(query.from);
+  }
+  if (query.to) {
+    where.push("created_at < DATE_ADD(?, INTERVAL 1 DAY)");
+    params.push(query.to);
+  }
+  const [rows] = await pool.query<AuditLogRow[]>(
+    `SELECT id, actor_id, action, entity_type, entity_id, before_json, after_json, ip, created_at
+     FROM audit_log
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     ORDER BY created_at DESC
+     LIMIT ?`,
+    [...params, limit],
+  );
+  return rows.map(mapAuditLogRow);
+}
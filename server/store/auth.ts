@@ -3,6 +3,8 @@ import type { Role, User, UserWithPassword } from "@shared/api";
 import bcrypt from "bcryptjs";
 import type { RowDataPacket } from "mysql2/promise";
 import { getInitializedMysqlPool, isMysqlConfigured } from "../lib/mysql";
+import { setRequestActor } from "../lib/request-context";
+import { recordAudit } from "./audit";
 
 // In-memory stores (non-persistent) - fallback when external persistence is missing
 const fallbackUsers = new Map<string, UserWithPassword>();
@@ -53,6 +55,17 @@ function mapUser(row: UserRow): User {
   };
 }
 
+async function loadUserDb(id: string): Promise<User | null> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return null;
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT id, username, name, email, role, active FROM users WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  if (!Array.isArray(rows) || rows.length === 0) return null;
+  return mapUser(rows[0] as UserRow);
+}
+
 export async function authenticate(username: string, password: string) {
   const pool = await getInitializedMysqlPool();
   if (pool) {
@@ -74,6 +87,12 @@ export async function authenticate(username: string, password: string) {
           `INSERT INTO sessions (token, user_id) VALUES (?, ?)`,
           [token, row.id],
         );
+        await recordAudit({
+          action: "login",
+          entityType: "user",
+          entityId: row.id,
+          actorId: row.id,
+        });
         return { token, user: mapUser(row) } as { token: string; user: User };
       }
     } catch (error) {
@@ -90,6 +109,12 @@ export async function authenticate(username: string, password: string) {
     ) {
       const token = crypto.randomUUID();
       fallbackSessions.set(token, user.id);
+      await recordAudit({
+        action: "login",
+        entityType: "user",
+        entityId: user.id,
+        actorId: user.id,
+      });
       const { password: _pw, ...safe } = user;
       return { token, user: safe } as { token: string; user: User };
     }
@@ -173,9 +198,19 @@ export async function requireManager(
   const user = await getUserByTokenAsync(token ?? null);
   if (!user) return null;
   if (user.role !== "manager" || !user.active) return null;
+  setRequestActor(user.id);
   return user;
 }
 
+export async function getUserById(id: string): Promise<User | null> {
+  const pool = await getInitializedMysqlPool();
+  if (pool) return loadUserDb(id);
+  const user = fallbackUsers.get(id);
+  if (!user) return null;
+  const { password: _pw, ...rest } = user;
+  return rest;
+}
+
 export async function listUsers(): Promise<User[]> {
   const pool = await getInitializedMysqlPool();
   if (pool) {
@@ -224,7 +259,7 @@ export async function createUser(input: {
       console.error("[mysql] createUser failed", error);
       throw error;
     }
-    return {
+    const created = {
       id,
       username: input.username,
       name: input.name,
@@ -232,6 +267,13 @@ export async function createUser(input: {
       role: input.role,
       active,
     } satisfies User;
+    await recordAudit({
+      action: "create",
+      entityType: "user",
+      entityId: id,
+      after: created,
+    });
+    return created;
   }
 
   const id = crypto.randomUUID();
@@ -246,6 +288,12 @@ export async function createUser(input: {
   };
   fallbackUsers.set(id, user);
   const { password: _pw, ...safe } = user;
+  await recordAudit({
+    action: "create",
+    entityType: "user",
+    entityId: id,
+    after: safe,
+  });
   return safe;
 }
 
@@ -255,8 +303,19 @@ export async function updateUser(
     password?: string;
   },
 ): Promise<User | null> {
+  // Passwords never enter the audit log; only the fact that one changed.
+  const auditUpdate = (before: User, after: User) =>
+    recordAudit({
+      action: "update",
+      entityType: "user",
+      entityId: id,
+      before,
+      after: patch.password ? { ...after, passwordChanged: true } : after,
+    });
   const pool = await getInitializedMysqlPool();
   if (pool) {
+    const before = await loadUserDb(id);
+    if (!before) return null;
     const updates: string[] = [];
     const params: unknown[] = [];
 
@@ -298,12 +357,10 @@ export async function updateUser(
       }
     }
 
-    const [rows] = await pool.query<RowDataPacket[]>(
-      `SELECT id, username, name, email, role, active FROM users WHERE id = ? LIMIT 1`,
-      [id],
-    );
-    if (!Array.isArray(rows) || rows.length === 0) return null;
-    return mapUser(rows[0] as UserRow);
+    const after = await loadUserDb(id);
+    if (!after) return null;
+    await auditUpdate(before, after);
+    return after;
   }
 
   const existing = fallbackUsers.get(id);
@@ -314,6 +371,8 @@ export async function updateUser(
   };
   fallbackUsers.set(id, updated);
   const { password: _pw, ...safe } = updated;
+  const { password: _before, ...previous } = existing;
+  await auditUpdate(previous, safe as User);
   return safe as User;
 }
 
@@ -321,8 +380,17 @@ export async function deleteUser(id: string): Promise<boolean> {
   const pool = await getInitializedMysqlPool();
   if (pool) {
     try {
+      const before = await loadUserDb(id);
       const [result] = await pool.query(`DELETE FROM users WHERE id = ?`, [id]);
       const { affectedRows } = result as { affectedRows?: number };
+      if (affectedRows && before) {
+        await recordAudit({
+          action: "delete",
+          entityType: "user",
+          entityId: id,
+          before,
+        });
+      }
       return Boolean(affectedRows);
     } catch (error) {
       // eslint-disable-next-line no-console
@@ -330,5 +398,15 @@ export async function deleteUser(id: string): Promise<boolean> {
       throw error;
     }
   }
-  return fallbackUsers.delete(id);
+  const existing = fallbackUsers.get(id);
+  if (!existing) return false;
+  fallbackUsers.delete(id);
+  const { password: _pw, ...before } = existing;
+  await recordAudit({
+    action: "delete",
+    entityType: "user",
+    entityId: id,
+    before,
+  });
+  return true;
 }
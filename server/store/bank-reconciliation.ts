@@ -0,0 +1,558 @@
+import crypto from "node:crypto";
+import type { RowDataPacket } from "mysql2/promise";
+import type {
+  BankReconciliationReport,
+  BankStatementFormat,
+  BankStatementImport,
+  BankStatementImportInput,
+  BankStatementImportResult,
+  BankStatementLine,
+  BankStatementLineStatus,
+  Transaction,
+} from "@shared/accounting";
+import {
+  BANK_STATEMENT_FORMATS,
+  matchStatementLines,
+  parseBankStatement,
+  type MatchCandidate,
+  type ParsedStatementLine,
+} from "../lib/bank-statements";
+import { ConflictError } from "../lib/errors";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import {
+  asNumber,
+  formatDate,
+  formatTimestamp,
+  roundMoney,
+} from "../lib/row-values";
+import { createTransaction, listMoneyAccountTransactions } from "./accounting";
+import { recordAudit } from "./audit";
+import { getMoneyAccount, getMoneyAccountStatement } from "./money-accounts";
+
+interface StatementImportRow extends RowDataPacket {
+  id: string;
+  money_account_id: string;
+  format: BankStatementFormat;
+  file_name: string | null;
+  closing_balance: number | string | null;
+  closing_date: string | Date | null;
+  imported_by: string | null;
+  imported_at: string | Date | null;
+}
+
+interface StatementLineRow extends RowDataPacket {
+  id: string;
+  import_id: string;
+  money_account_id: string;
+  date: string | Date;
+  amount: number | string;
+  description: string;
+  reference: string | null;
+  fingerprint: string;
+  status: BankStatementLineStatus;
+  transaction_id: string | null;
+  resolved_by: string | null;
+  resolved_at: string | Date | null;
+}
+
+type StoredLine = BankStatementLine & { fingerprint: string };
+
+const LINE_COLUMNS =
+  "id, import_id, money_account_id, date, amount, description, reference, fingerprint, status, transaction_id, resolved_by, resolved_at";
+
+/** Days either side of the bank date a book transaction may fall on. */
+const MATCH_WINDOW_DAYS = 3;
+
+const fallbackStatements = {
+  imports: new Map<string, BankStatementImport>(),
+  lines: new Map<string, StoredLine>(),
+};
+
+function mapImportRow(row: StatementImportRow): BankStatementImport {
+  return {
+    id: row.id,
+    moneyAccountId: row.money_account_id,
+    format: row.format,
+    fileName: row.file_name,
+    closingBalance:
+      row.closing_balance === null ? null : asNumber(row.closing_balance),
+    closingDate: row.closing_date ? formatDate(row.closing_date) : null,
+    importedBy: row.imported_by,
+    importedAt: formatTimestamp(row.imported_at),
+  };
+}
+
+function mapLineRow(row: StatementLineRow): StoredLine {
+  return {
+    id: row.id,
+    importId: row.import_id,
+    moneyAccountId: row.money_account_id,
+    date: formatDate(row.date),
+    amount: asNumber(row.amount),
+    description: row.description,
+    reference: row.reference,
+    fingerprint: row.fingerprint,
+    status: row.status,
+    transactionId: row.transaction_id,
+    resolvedBy: row.resolved_by,
+    resolvedAt: formatTimestamp(row.resolved_at),
+  };
+}
+
+function publicLine({ fingerprint, ...line }: StoredLine): BankStatementLine {
+  return line;
+}
+
+function sortLines<T extends BankStatementLine>(lines: T[]): T[] {
+  return [...lines].sort(
+    (a, b) => a.date.localeCompare(b.date) || a.amount - b.amount,
+  );
+}
+
+/**
+ * Identifies a line across imports so that overlapping statements do not
+ * bring it in twice. Identical lines within one file are told apart by
+ * their position among themselves.
+ */
+function fingerprints(lines: ParsedStatementLine[]): string[] {
+  const seen = new Map<string, number>();
+  return lines.map((line) => {
+    const base = [
+      line.date,
+      line.amount.toFixed(2),
+      line.reference ?? line.description,
+    ].join("|");
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return `${base}#${count}`.slice(0, 255);
+  });
+}
+
+/** What the bank would show for a transaction: deposits positive. */
+function bankAmount(transaction: Transaction) {
+  return transaction.type === "revenue"
+    ? transaction.amount
+    : -transaction.amount;
+}
+
+/** Posted transactions a bank line could stand for; reversed pairs net out. */
+function reconcilable(transactions: Transaction[]) {
+  return transactions.filter(
+    (t) => t.approved && !t.reversalOf && !t.reversedBy,
+  );
+}
+
+async function listAccountLines(moneyAccountId: string): Promise<StoredLine[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortLines(
+      [...fallbackStatements.lines.values()].filter(
+        (l) => l.moneyAccountId === moneyAccountId,
+      ),
+    );
+  }
+  const [rows] = await pool.query<StatementLineRow[]>(
+    `SELECT ${LINE_COLUMNS} FROM bank_statement_lines
+     WHERE money_account_id = ?
+     ORDER BY date ASC, amount ASC`,
+    [moneyAccountId],
+  );
+  return rows.map(mapLineRow);
+}
+
+async function getLine(id: string): Promise<StoredLine> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const line = fallbackStatements.lines.get(id);
+    if (!line) throw new Error("Statement line not found");
+    return line;
+  }
+  const [rows] = await pool.query<StatementLineRow[]>(
+    `SELECT ${LINE_COLUMNS} FROM bank_statement_lines WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Statement line not found");
+  return mapLineRow(rows[0]);
+}
+
+/** Transactions already accounted for by a matched or created line. */
+function claimedTransactionIds(lines: StoredLine[]) {
+  return new Set(
+    lines
+      .filter((l) => l.status === "matched" || l.status === "created")
+      .map((l) => l.transactionId)
+      .filter((id): id is string => Boolean(id)),
+  );
+}
+
+export async function listStatementLines(
+  moneyAccountId: string,
+  status?: BankStatementLineStatus | null,
+): Promise<BankStatementLine[]> {
+  const lines = await listAccountLines(moneyAccountId);
+  return lines.filter((l) => !status || l.status === status).map(publicLine);
+}
+
+export async function listStatementImports(
+  moneyAccountId: string,
+): Promise<BankStatementImport[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return [...fallbackStatements.imports.values()]
+      .filter((i) => i.moneyAccountId === moneyAccountId)
+      .sort((a, b) => (b.importedAt ?? "").localeCompare(a.importedAt ?? ""));
+  }
+  const [rows] = await pool.query<StatementImportRow[]>(
+    `SELECT id, money_account_id, format, file_name, closing_balance, closing_date, imported_by, imported_at
+     FROM bank_statement_imports
+     WHERE money_account_id = ?
+     ORDER BY imported_at DESC`,
+    [moneyAccountId],
+  );
+  return rows.map(mapImportRow);
+}
+
+/**
+ * Parses a statement file into unmatched lines on a bank account, skipping
+ * lines an earlier import already brought in, then matches what it can to
+ * posted transactions on the same account.
+ */
+export async function importBankStatement(
+  moneyAccountId: string,
+  input: BankStatementImportInput,
+  importedBy: string | null,
+): Promise<BankStatementImportResult> {
+  const account = await getMoneyAccount(moneyAccountId);
+  if (account.kind !== "bank") {
+    throw new Error("Statements can only be imported into bank accounts");
+  }
+  if (!BANK_STATEMENT_FORMATS.includes(input.format)) {
+    throw new Error("Unsupported statement format");
+  }
+  const parsed = parseBankStatement(input.format, input.content, input.mapping);
+  const existing = await listAccountLines(moneyAccountId);
+  const known = new Set(existing.map((l) => l.fingerprint));
+  const claimed = claimedTransactionIds(existing);
+  const candidates: MatchCandidate[] = reconcilable(
+    await listMoneyAccountTransactions(moneyAccountId),
+  )
+    .filter((t) => !claimed.has(t.id))
+    .map((t) => ({
+      id: t.id,
+      date: t.date,
+      amount: bankAmount(t),
+      description: t.description,
+    }));
+
+  const statementImport: BankStatementImport = {
+    id: crypto.randomUUID(),
+    moneyAccountId,
+    format: input.format,
+    fileName: input.fileName?.trim() || null,
+    closingBalance: parsed.closingBalance,
+    closingDate: parsed.closingDate,
+    importedBy,
+    importedAt: new Date().toISOString(),
+  };
+  const prints = fingerprints(parsed.lines);
+  const fresh = parsed.lines
+    .map((line, index) => ({ line, fingerprint: prints[index] }))
+    .filter(({ fingerprint }) => !known.has(fingerprint));
+  const matches = matchStatementLines(
+    fresh.map(({ line }) => line),
+    candidates,
+    MATCH_WINDOW_DAYS,
+  );
+  const resolvedAt = new Date().toISOString();
+  const lines: StoredLine[] = fresh.map(({ line, fingerprint }, index) => {
+    const transactionId = matches.get(index) ?? null;
+    return {
+      id: crypto.randomUUID(),
+      importId: statementImport.id,
+      moneyAccountId,
+      date: line.date,
+      amount: line.amount,
+      description: (line.description || line.reference || "").slice(0, 255),
+      reference: line.reference?.slice(0, 128) ?? null,
+      fingerprint,
+      status: transactionId ? "matched" : "unmatched",
+      transactionId,
+      resolvedBy: transactionId ? importedBy : null,
+      resolvedAt: transactionId ? resolvedAt : null,
+    };
+  });
+
+  const audit = {
+    action: "create" as const,
+    entityType: "bank_statement" as const,
+    entityId: statementImport.id,
+    after: { ...statementImport, lineCount: lines.length },
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    fallbackStatements.imports.set(statementImport.id, statementImport);
+    for (const line of lines) fallbackStatements.lines.set(line.id, line);
+    await recordAudit(audit);
+  } else {
+    const conn = await pool.getConnection();
+    try {
+      await conn.beginTransaction();
+      await conn.query(
+        `INSERT INTO bank_statement_imports (id, money_account_id, format, file_name, closing_balance, closing_date, imported_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          statementImport.id,
+          moneyAccountId,
+          statementImport.format,
+          statementImport.fileName,
+          statementImport.closingBalance,
+          statementImport.closingDate,
+          importedBy,
+        ],
+      );
+      for (const line of lines) {
+        await conn.query(
+          `INSERT INTO bank_statement_lines (id, import_id, money_account_id, date, amount, description, reference, fingerprint, status, transaction_id, resolved_by, resolved_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            line.id,
+            line.importId,
+            moneyAccountId,
+            line.date,
+            line.amount,
+            line.description,
+            line.reference,
+            line.fingerprint,
+            line.status,
+            line.transactionId,
+            line.resolvedBy,
+            line.resolvedAt ? new Date(line.resolvedAt) : null,
+          ],
+        );
+      }
+      await recordAudit(audit, conn);
+      await conn.commit();
+    } catch (error) {
+      await conn.rollback();
+      throw error;
+    } finally {
+      conn.release();
+    }
+  }
+  return {
+    import: statementImport,
+    lines: lines.map(publicLine),
+    duplicates: parsed.lines.length - fresh.length,
+    autoMatched: matches.size,
+  };
+}
+
+/**
+ * Moves a line to `next` if it is still in one of the `from` states. The
+ * guard makes two reviewers resolving the same line at once fail cleanly.
+ */
+async function transitionLine(
+  line: StoredLine,
+  from: BankStatementLineStatus[],
+  next: Pick<BankStatementLine, "status" | "transactionId">,
+  userId: string | null,
+): Promise<BankStatementLine> {
+  if (!from.includes(line.status)) {
+    throw new ConflictError("The statement line was already resolved");
+  }
+  const resolved = next.status !== "unmatched";
+  const updated: StoredLine = {
+    ...line,
+    ...next,
+    resolvedBy: resolved ? userId : null,
+    resolvedAt: resolved ? new Date().toISOString() : null,
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    fallbackStatements.lines.set(line.id, updated);
+  } else {
+    const [result] = await pool.query(
+      `UPDATE bank_statement_lines
+       SET status = ?, transaction_id = ?, resolved_by = ?, resolved_at = ?
+       WHERE id = ? AND status = ?`,
+      [
+        updated.status,
+        updated.transactionId ?? null,
+        updated.resolvedBy,
+        updated.resolvedAt ? new Date(updated.resolvedAt) : null,
+        line.id,
+        line.status,
+      ],
+    );
+    if (!(result as { affectedRows?: number }).affectedRows) {
+      throw new ConflictError("The statement line was already resolved");
+    }
+  }
+  await recordAudit({
+    action: "update",
+    entityType: "bank_statement_line",
+    entityId: line.id,
+    before: publicLine(line),
+    after: publicLine(updated),
+  });
+  return publicLine(updated);
+}
+
+/** Pairs a line with a posted transaction of the same amount on its account. */
+export async function matchStatementLine(
+  id: string,
+  transactionId: string,
+  userId: string | null,
+): Promise<BankStatementLine> {
+  const line = await getLine(id);
+  const transaction = reconcilable(
+    await listMoneyAccountTransactions(line.moneyAccountId),
+  ).find((t) => t.id === transactionId);
+  if (!transaction) {
+    throw new Error("No posted transaction with that id on this account");
+  }
+  if (roundMoney(bankAmount(transaction)) !== roundMoney(line.amount)) {
+    throw new ConflictError("The transaction amount differs from the line");
+  }
+  const claimed = claimedTransactionIds(
+    await listAccountLines(line.moneyAccountId),
+  );
+  if (claimed.has(transactionId)) {
+    throw new ConflictError("The transaction is already matched to a line");
+  }
+  return transitionLine(
+    line,
+    ["unmatched"],
+    { status: "matched", transactionId },
+    userId,
+  );
+}
+
+export async function ignoreStatementLine(
+  id: string,
+  userId: string | null,
+): Promise<BankStatementLine> {
+  return transitionLine(
+    await getLine(id),
+    ["unmatched"],
+    { status: "ignored", transactionId: null },
+    userId,
+  );
+}
+
+/**
+ * Undoes a match or an ignore. A line that created its transaction stays
+ * linked to it; reverse that transaction instead.
+ */
+export async function reopenStatementLine(
+  id: string,
+  userId: string | null,
+): Promise<BankStatementLine> {
+  return transitionLine(
+    await getLine(id),
+    ["matched", "ignored"],
+    { status: "unmatched", transactionId: null },
+    userId,
+  );
+}
+
+/**
+ * Books a transaction for a line the books are missing, such as bank fees,
+ * and links the two. The line is claimed first so a second click cannot
+ * post the transaction twice.
+ */
+export async function createFromStatementLine(
+  id: string,
+  input: { description?: string | null; categoryId?: string | null },
+  userId: string | null,
+): Promise<{ line: BankStatementLine; transaction: Transaction }> {
+  const line = await getLine(id);
+  const claimed = await transitionLine(
+    line,
+    ["unmatched"],
+    { status: "created", transactionId: null },
+    userId,
+  );
+  let transaction: Transaction;
+  try {
+    transaction = await createTransaction({
+      date: line.date,
+      type: line.amount >= 0 ? "revenue" : "expense",
+      description:
+        input.description?.trim() || line.description || "بند كشف بنكي",
+      amount: Math.abs(line.amount),
+      approved: true,
+      createdBy: userId,
+      categoryId: input.categoryId || null,
+      moneyAccountId: line.moneyAccountId,
+    });
+  } catch (error) {
+    await transitionLine(
+      { ...line, ...claimed, fingerprint: line.fingerprint },
+      ["created"],
+      { status: "unmatched", transactionId: null },
+      userId,
+    );
+    throw error;
+  }
+  const pool = await getInitializedMysqlPool();
+  const linked: StoredLine = {
+    ...line,
+    ...claimed,
+    fingerprint: line.fingerprint,
+    transactionId: transaction.id,
+  };
+  if (!pool) {
+    fallbackStatements.lines.set(id, linked);
+  } else {
+    await pool.query(
+      `UPDATE bank_statement_lines SET transaction_id = ? WHERE id = ?`,
+      [transaction.id, id],
+    );
+  }
+  return { line: publicLine(linked), transaction };
+}
+
+export async function getReconciliationReport(
+  moneyAccountId: string,
+  asOf: string,
+): Promise<BankReconciliationReport> {
+  const account = await getMoneyAccount(moneyAccountId);
+  const { closingBalance: bookBalance } = await getMoneyAccountStatement(
+    moneyAccountId,
+    { to: asOf },
+  );
+  const lines = (await listAccountLines(moneyAccountId)).filter(
+    (l) => l.date <= asOf,
+  );
+  const reported = (await listStatementImports(moneyAccountId))
+    .filter(
+      (i) => i.closingBalance != null && i.closingDate && i.closingDate <= asOf,
+    )
+    .sort((a, b) =>
+      (b.closingDate ?? "").localeCompare(a.closingDate ?? ""),
+    )[0];
+  const bankBalance = reported
+    ? roundMoney(reported.closingBalance ?? 0)
+    : roundMoney(
+        lines
+          .filter((l) => l.date >= account.openingDate)
+          .reduce((sum, l) => sum + l.amount, account.openingBalance),
+      );
+  const claimed = claimedTransactionIds(lines);
+  const outstandingTransactions = reconcilable(
+    await listMoneyAccountTransactions(moneyAccountId),
+  ).filter((t) => t.date <= asOf && !claimed.has(t.id));
+  return {
+    account,
+    asOf,
+    bookBalance,
+    bankBalance,
+    bankBalanceReported: Boolean(reported),
+    difference: roundMoney(bankBalance - bookBalance),
+    unreconciledLines: lines
+      .filter((l) => l.status === "unmatched")
+      .map(publicLine),
+    outstandingTransactions,
+  };
+}
@@ -0,0 +1,207 @@
+import crypto from "node:crypto";
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import type {
+  TransType,
+  TransactionCategory,
+  TransactionCategoryInput,
+  TransactionCategoryUpdateInput,
+} from "@shared/accounting";
+import { ConflictError } from "../lib/errors";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import { asBoolean } from "../lib/row-values";
+import { DEFAULT_TRANSACTION_CATEGORIES } from "../lib/transaction-categories";
+import { recordAudit } from "./audit";
+
+interface CategoryRow extends RowDataPacket {
+  id: string;
+  code: string;
+  name: string;
+  type: TransType | null;
+  keywords: unknown;
+  active: number | boolean;
+}
+
+const CATEGORY_COLUMNS = "id, code, name, type, keywords, active";
+
+const fallbackCategories = new Map<string, TransactionCategory>(
+  DEFAULT_TRANSACTION_CATEGORIES.map((seed) => {
+    const id = crypto.randomUUID();
+    return [id, { id, ...seed, active: true }];
+  }),
+);
+
+// mysql2 returns JSON columns parsed, but older servers hand back strings.
+function parseKeywords(value: unknown): string[] {
+  const parsed = typeof value === "string" ? safeParse(value) : value;
+  return Array.isArray(parsed) ? parsed.map(String) : [];
+}
+
+function safeParse(value: string) {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function mapCategoryRow(row: CategoryRow): TransactionCategory {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    type: row.type,
+    keywords: parseKeywords(row.keywords),
+    active: asBoolean(row.active),
+  };
+}
+
+function normalizeKeywords(keywords: string[]) {
+  return [...new Set(keywords.map((k) => k.trim()).filter(Boolean))];
+}
+
+export async function listCategories(
+  conn?: PoolConnection,
+): Promise<TransactionCategory[]> {
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    return [...fallbackCategories.values()].sort((a, b) =>
+      a.name.localeCompare(b.name, "ar"),
+    );
+  }
+  const [rows] = await db.query<CategoryRow[]>(
+    `SELECT ${CATEGORY_COLUMNS} FROM transaction_categories ORDER BY name ASC`,
+  );
+  return rows.map(mapCategoryRow);
+}
+
+async function getCategory(
+  id: string,
+  conn?: PoolConnection,
+): Promise<TransactionCategory | null> {
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) return fallbackCategories.get(id) ?? null;
+  const [rows] = await db.query<CategoryRow[]>(
+    `SELECT ${CATEGORY_COLUMNS} FROM transaction_categories WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  return rows.length ? mapCategoryRow(rows[0]) : null;
+}
+
+/** Rejects unknown or inactive categories and type mismatches. */
+export async function assertCategoryAssignable(
+  categoryId: string,
+  type: TransType,
+  conn?: PoolConnection,
+): Promise<void> {
+  const category = await getCategory(categoryId, conn);
+  if (!category) throw new Error("Category not found");
+  if (!category.active) {
+    throw new ConflictError("Category is inactive");
+  }
+  if (category.type && category.type !== type) {
+    throw new ConflictError(`Category only applies to ${category.type} rows`);
+  }
+}
+
+export async function createCategory(
+  input: TransactionCategoryInput,
+): Promise<TransactionCategory> {
+  const code = input.code.trim().toLowerCase();
+  const name = input.name.trim();
+  if (!/^[a-z0-9_-]+$/.test(code)) {
+    throw new Error("Category code may only contain a-z, 0-9, _ and -");
+  }
+  if (!name) throw new Error("Category name is required");
+  const category: TransactionCategory = {
+    id: crypto.randomUUID(),
+    code,
+    name,
+    type: input.type ?? null,
+    keywords: normalizeKeywords(input.keywords ?? []),
+    active: true,
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    for (const existing of fallbackCategories.values()) {
+      if (existing.code === code) {
+        throw new ConflictError("Category code already exists");
+      }
+    }
+    fallbackCategories.set(category.id, category);
+  } else {
+    try {
+      await pool.query(
+        `INSERT INTO transaction_categories (id, code, name, type, keywords)
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+          category.id,
+          category.code,
+          category.name,
+          category.type,
+          JSON.stringify(category.keywords),
+        ],
+      );
+    } catch (error: any) {
+      if (error?.code === "ER_DUP_ENTRY") {
+        throw new ConflictError("Category code already exists");
+      }
+      throw error;
+    }
+  }
+  await recordAudit({
+    action: "create",
+    entityType: "category",
+    entityId: category.id,
+    after: category,
+  });
+  return category;
+}
+
+export async function updateCategory(
+  id: string,
+  input: TransactionCategoryUpdateInput,
+): Promise<TransactionCategory> {
+  const existing = await getCategory(id);
+  if (!existing) throw new Error("Category not found");
+  const updated: TransactionCategory = {
+    ...existing,
+    name: input.name?.trim() || existing.name,
+    type: input.type === undefined ? existing.type : input.type,
+    keywords:
+      input.keywords === undefined
+        ? existing.keywords
+        : normalizeKeywords(input.keywords),
+    active: input.active ?? existing.active,
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    fallbackCategories.set(id, updated);
+  } else {
+    await pool.query(
+      `UPDATE transaction_categories SET name = ?, type = ?, keywords = ?, active = ? WHERE id = ?`,
+      [
+        updated.name,
+        updated.type,
+        JSON.stringify(updated.keywords),
+        updated.active ? 1 : 0,
+        id,
+      ],
+    );
+  }
+  await recordAudit({
+    action: "update",
+    entityType: "category",
+    entityId: id,
+    before: existing,
+    after: updated,
+  });
+  return updated;
+}
+
+/**
+ * Past transactions keep referencing their category, so deleting one only
+ * deactivates it for new assignments.
+ */
+export async function deleteCategory(id: string): Promise<TransactionCategory> {
+  return updateCategory(id, { active: false });
+}
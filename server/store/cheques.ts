@@ -0,0 +1,424 @@
+import crypto from "node:crypto";
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import type {
+  Cheque,
+  ChequeActionResult,
+  ChequeBounceInput,
+  ChequeCreateInput,
+  ChequeQuery,
+  ChequeStatus,
+} from "@shared/accounting";
+import { ConflictError } from "../lib/errors";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import { asNumber, formatDate, roundMoney } from "../lib/row-values";
+import {
+  chargeInstallmentFee,
+  getInstallment,
+  payInstallment,
+  reopenInstallment,
+} from "./accounting";
+import { recordAudit } from "./audit";
+import { assertMoneyAccountActive, getMoneyAccount } from "./money-accounts";
+
+interface ChequeRow extends RowDataPacket {
+  id: string;
+  installment_id: string;
+  project_id: string;
+  unit_no: string;
+  buyer: string;
+  number: string;
+  bank: string;
+  amount: number | string;
+  due_date: string | Date;
+  status: ChequeStatus;
+  received_at: string | Date;
+  money_account_id: string | null;
+  deposited_at: string | Date | null;
+  cleared_at: string | Date | null;
+  transaction_id: string | null;
+  bounced_at: string | Date | null;
+  bounce_reason: string | null;
+  fee_installment_id: string | null;
+  created_by: string | null;
+}
+
+const CHEQUE_COLUMNS =
+  "id, installment_id, project_id, unit_no, buyer, number, bank, amount, due_date, status, received_at, money_account_id, deposited_at, cleared_at, transaction_id, bounced_at, bounce_reason, fee_installment_id, created_by";
+
+/** Cheques that still stand for their installment. */
+const OPEN_STATUSES: ChequeStatus[] = ["received", "deposited", "cleared"];
+
+const fallbackCheques = new Map<string, Cheque>();
+
+const optionalDate = (value: string | Date | null) =>
+  value ? formatDate(value) : null;
+
+function mapChequeRow(row: ChequeRow): Cheque {
+  return {
+    id: row.id,
+    installmentId: row.installment_id,
+    projectId: row.project_id,
+    unitNo: row.unit_no,
+    buyer: row.buyer,
+    number: row.number,
+    bank: row.bank,
+    amount: asNumber(row.amount),
+    dueDate: formatDate(row.due_date),
+    status: row.status,
+    receivedAt: formatDate(row.received_at),
+    moneyAccountId: row.money_account_id,
+    depositedAt: optionalDate(row.deposited_at),
+    clearedAt: optionalDate(row.cleared_at),
+    transactionId: row.transaction_id,
+    bouncedAt: optionalDate(row.bounced_at),
+    bounceReason: row.bounce_reason,
+    feeInstallmentId: row.fee_installment_id,
+    createdBy: row.created_by,
+  };
+}
+
+function sortCheques(cheques: Cheque[]): Cheque[] {
+  return [...cheques].sort(
+    (a, b) => a.dueDate.localeCompare(b.dueDate) || a.id.localeCompare(b.id),
+  );
+}
+
+export async function listCheques(query: ChequeQuery = {}): Promise<Cheque[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortCheques(
+      [...fallbackCheques.values()].filter(
+        (c) =>
+          (!query.status || c.status === query.status) &&
+          (!query.projectId || c.projectId === query.projectId),
+      ),
+    );
+  }
+  const where: string[] = [];
+  const params: string[] = [];
+  if (query.status) {
+    where.push("status = ?");
+    params.push(query.status);
+  }
+  if (query.projectId) {
+    where.push("project_id = ?");
+    params.push(query.projectId);
+  }
+  const [rows] = await pool.query<ChequeRow[]>(
+    `SELECT ${CHEQUE_COLUMNS} FROM cheques
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     ORDER BY due_date ASC, id ASC`,
+    params,
+  );
+  return rows.map(mapChequeRow);
+}
+
+async function getCheque(id: string): Promise<Cheque> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const cheque = fallbackCheques.get(id);
+    if (!cheque) throw new Error("Cheque not found");
+    return cheque;
+  }
+  const [rows] = await pool.query<ChequeRow[]>(
+    `SELECT ${CHEQUE_COLUMNS} FROM cheques WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Cheque not found");
+  return mapChequeRow(rows[0]);
+}
+
+/**
+ * Runs `apply` on a cheque, locking its row inside a database transaction
+ * when MySQL is configured so the status change and its postings commit
+ * together.
+ */
+async function withChequeForUpdate<T>(
+  id: string,
+  apply: (cheque: Cheque, conn?: PoolConnection) => Promise<T>,
+): Promise<T> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return apply(await getCheque(id));
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [rows] = await conn.query<ChequeRow[]>(
+      `SELECT ${CHEQUE_COLUMNS} FROM cheques WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id],
+    );
+    if (!rows.length) throw new Error("Cheque not found");
+    const result = await apply(mapChequeRow(rows[0]), conn);
+    await conn.commit();
+    return result;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/** Every cheque, in any status, recorded against the installments. */
+export async function listInstallmentCheques(
+  installmentIds: string[],
+  conn?: PoolConnection,
+): Promise<Cheque[]> {
+  if (!installmentIds.length) return [];
+  const pool = conn ?? (await getInitializedMysqlPool());
+  if (!pool) {
+    return [...fallbackCheques.values()].filter((c) =>
+      installmentIds.includes(c.installmentId),
+    );
+  }
+  const [rows] = await pool.query<ChequeRow[]>(
+    `SELECT ${CHEQUE_COLUMNS} FROM cheques WHERE installment_id IN (?)`,
+    [installmentIds],
+  );
+  return rows.map(mapChequeRow);
+}
+
+/** Records a cheque handed over for an unpaid installment. */
+export async function registerCheque(
+  input: ChequeCreateInput,
+  createdBy: string | null,
+): Promise<Cheque> {
+  const installment = await getInstallment(input.installmentId);
+  if (installment.paid) {
+    throw new ConflictError("Installment is already paid");
+  }
+  const open = (await listInstallmentCheques([installment.id])).find((c) =>
+    OPEN_STATUSES.includes(c.status),
+  );
+  if (open) {
+    throw new ConflictError(
+      `Cheque ${open.number} is already held for this installment`,
+    );
+  }
+  const cheque: Cheque = {
+    id: crypto.randomUUID(),
+    installmentId: installment.id,
+    projectId: installment.projectId,
+    unitNo: installment.unitNo,
+    buyer: installment.buyer,
+    number: input.number.trim(),
+    bank: input.bank.trim(),
+    amount: roundMoney(installment.amount - installment.paidAmount),
+    dueDate: input.dueDate,
+    status: "received",
+    receivedAt: input.receivedAt || new Date().toISOString().slice(0, 10),
+    moneyAccountId: null,
+    depositedAt: null,
+    clearedAt: null,
+    transactionId: null,
+    bouncedAt: null,
+    bounceReason: null,
+    feeInstallmentId: null,
+    createdBy,
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    fallbackCheques.set(cheque.id, cheque);
+  } else {
+    await pool.query(
+      `INSERT INTO cheques (id, installment_id, project_id, unit_no, buyer, number, bank, amount, due_date, status, received_at, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        cheque.id,
+        cheque.installmentId,
+        cheque.projectId,
+        cheque.unitNo,
+        cheque.buyer,
+        cheque.number,
+        cheque.bank,
+        cheque.amount,
+        cheque.dueDate,
+        cheque.status,
+        cheque.receivedAt,
+        createdBy,
+      ],
+    );
+  }
+  await recordAudit({
+    action: "create",
+    entityType: "cheque",
+    entityId: cheque.id,
+    after: cheque,
+  });
+  return cheque;
+}
+
+function assertChequeStatus(cheque: Cheque, from: ChequeStatus[]) {
+  if (!from.includes(cheque.status)) {
+    throw new ConflictError(`Cheque is already ${cheque.status}`);
+  }
+}
+
+/**
+ * Moves a cheque to a new status if it is still in one of the `from`
+ * states, so that two clerks acting on the same cheque cannot both post.
+ */
+async function transitionCheque(
+  cheque: Cheque,
+  from: ChequeStatus[],
+  patch: Partial<Cheque> & { status: ChequeStatus },
+  conn?: PoolConnection,
+): Promise<Cheque> {
+  assertChequeStatus(cheque, from);
+  const updated: Cheque = { ...cheque, ...patch };
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    fallbackCheques.set(cheque.id, updated);
+  } else {
+    const [result] = await db.query(
+      `UPDATE cheques
+       SET status = ?, money_account_id = ?, deposited_at = ?, cleared_at = ?,
+           transaction_id = ?, bounced_at = ?, bounce_reason = ?, fee_installment_id = ?
+       WHERE id = ? AND status = ?`,
+      [
+        updated.status,
+        updated.moneyAccountId ?? null,
+        updated.depositedAt ?? null,
+        updated.clearedAt ?? null,
+        updated.transactionId ?? null,
+        updated.bouncedAt ?? null,
+        updated.bounceReason ?? null,
+        updated.feeInstallmentId ?? null,
+        cheque.id,
+        cheque.status,
+      ],
+    );
+    if (!(result as { affectedRows?: number }).affectedRows) {
+      throw new ConflictError("Cheque was changed by someone else");
+    }
+  }
+  await recordAudit(
+    {
+      action: "update",
+      entityType: "cheque",
+      entityId: cheque.id,
+      before: cheque,
+      after: updated,
+    },
+    conn,
+  );
+  return updated;
+}
+
+export async function depositCheque(
+  id: string,
+  params: { moneyAccountId: string; date: string },
+): Promise<Cheque> {
+  const account = await getMoneyAccount(params.moneyAccountId);
+  if (account.kind !== "bank") {
+    throw new Error("Cheques can only be deposited into bank accounts");
+  }
+  await assertMoneyAccountActive(account.id);
+  return transitionCheque(await getCheque(id), ["received"], {
+    status: "deposited",
+    moneyAccountId: account.id,
+    depositedAt: params.date,
+  });
+}
+
+/**
+ * The bank has collected the cheque: the installment is paid into the
+ * deposit account. The payment, the new status and the link to the payment
+ * commit together.
+ */
+export async function clearCheque(
+  id: string,
+  params: { date: string; userId: string | null },
+): Promise<ChequeActionResult> {
+  return withChequeForUpdate(id, async (cheque, conn) => {
+    assertChequeStatus(cheque, ["deposited"]);
+    const installment = await getInstallment(cheque.installmentId, conn);
+    if (installment.paid) {
+      throw new ConflictError("Installment is already paid");
+    }
+    const payment = await payInstallment(
+      {
+        id: cheque.installmentId,
+        date: params.date,
+        approved: true,
+        createdBy: params.userId,
+        moneyAccountId: cheque.moneyAccountId ?? null,
+        amount: cheque.amount,
+      },
+      conn,
+    );
+    const cleared = await transitionCheque(
+      cheque,
+      ["deposited"],
+      {
+        status: "cleared",
+        clearedAt: params.date,
+        transactionId: payment.transaction.id,
+      },
+      conn,
+    );
+    return {
+      cheque: cleared,
+      installment: payment.installment,
+      transaction: payment.transaction,
+    };
+  });
+}
+
+/**
+ * The cheque came back unpaid. If it had already cleared, the payment is
+ * reversed and the installment is due again; a fee, if given, is billed to
+ * the buyer as a new installment on the same sale. All of it commits with
+ * the status change or not at all.
+ */
+export async function bounceCheque(
+  id: string,
+  input: ChequeBounceInput & { date: string },
+  userId: string | null,
+): Promise<ChequeActionResult> {
+  const reason = input.reason.trim();
+  if (!reason) throw new Error("A reason is required");
+  const fee = input.fee ?? 0;
+  if (fee < 0) throw new Error("Fee cannot be negative");
+  return withChequeForUpdate(id, async (cheque, conn) => {
+    assertChequeStatus(cheque, ["deposited", "cleared"]);
+    const result: Omit<ChequeActionResult, "cheque"> = {};
+    if (cheque.status === "cleared" && cheque.transactionId) {
+      const { installment, reversal } = await reopenInstallment(
+        {
+          id: cheque.installmentId,
+          transactionId: cheque.transactionId,
+          reason: `شيك مرتد رقم ${cheque.number}: ${reason}`,
+          date: input.date,
+          userId,
+        },
+        conn,
+      );
+      result.installment = installment;
+      result.transaction = reversal;
+    }
+    if (fee > 0) {
+      result.feeInstallment = await chargeInstallmentFee(
+        {
+          installmentId: cheque.installmentId,
+          amount: fee,
+          date: input.date,
+          description: `رسوم شيك مرتد رقم ${cheque.number} - وحدة ${cheque.unitNo}`,
+          userId,
+        },
+        conn,
+      );
+    }
+    const bounced = await transitionCheque(
+      cheque,
+      ["deposited", "cleared"],
+      {
+        status: "bounced",
+        bouncedAt: input.date,
+        bounceReason: reason,
+        feeInstallmentId: result.feeInstallment?.id ?? null,
+      },
+      conn,
+    );
+    return { cheque: bounced, ...result };
+  });
+}
@@ -0,0 +1,549 @@
+import crypto from "node:crypto";
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import type {
+  Installment,
+  InstallmentRescheduleInput,
+  InstallmentRescheduleResult,
+  LateFee,
+  LateFeeAccrualResult,
+  LateFeeMode,
+  LateFeePolicy,
+  LateFeePolicyInput,
+  LateFeeQuery,
+  LateFeeStatus,
+  LateFeeWaiveInput,
+} from "@shared/accounting";
+import { ConflictError } from "../lib/errors";
+import { lateFeeAmount, lateFeePeriods } from "../lib/late-fees";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import {
+  asBoolean,
+  asNumber,
+  formatDate,
+  formatTimestamp,
+  roundMoney,
+} from "../lib/row-values";
+import {
+  cancelFeeInstallment,
+  chargeInstallmentFee,
+  listOverdueInstallments,
+  listSaleInstallments,
+  rescheduleSaleInstallments,
+} from "./accounting";
+import { recordAudit } from "./audit";
+import { listCheques, listInstallmentCheques } from "./cheques";
+
+interface LateFeePolicyRow extends RowDataPacket {
+  enabled: number | boolean;
+  mode: LateFeeMode;
+  amount: number | string;
+  grace_days: number | string;
+  updated_by: string | null;
+  updated_at: string | Date | null;
+}
+
+interface LateFeeRow extends RowDataPacket {
+  id: string;
+  installment_id: string;
+  project_id: string;
+  sale_id: string;
+  unit_no: string;
+  buyer: string;
+  period: number | string;
+  period_start: string | Date;
+  amount: number | string;
+  fee_installment_id: string | null;
+  status: LateFeeStatus;
+  charged_at: string | Date;
+  waive_reason: string | null;
+  waived_by: string | null;
+  waived_at: string | Date | null;
+}
+
+const LATE_FEE_COLUMNS =
+  "id, installment_id, project_id, sale_id, unit_no, buyer, period, period_start, amount, fee_installment_id, status, charged_at, waive_reason, waived_by, waived_at";
+
+const LATE_FEE_MODES: LateFeeMode[] = ["flat", "percent"];
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+let fallbackPolicy: LateFeePolicy = {
+  enabled: false,
+  mode: "flat",
+  amount: 0,
+  graceDays: 0,
+};
+
+const fallbackLateFees = new Map<string, LateFee>();
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function mapLateFeeRow(row: LateFeeRow): LateFee {
+  return {
+    id: row.id,
+    installmentId: row.installment_id,
+    projectId: row.project_id,
+    saleId: row.sale_id,
+    unitNo: row.unit_no,
+    buyer: row.buyer,
+    period: asNumber(row.period),
+    periodStart: formatDate(row.period_start),
+    amount: asNumber(row.amount),
+    feeInstallmentId: row.fee_installment_id,
+    status: row.status,
+    chargedAt: formatDate(row.charged_at),
+    waiveReason: row.waive_reason,
+    waivedBy: row.waived_by,
+    waivedAt: row.waived_at ? formatDate(row.waived_at) : null,
+  };
+}
+
+export async function getLateFeePolicy(): Promise<LateFeePolicy> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return fallbackPolicy;
+  const [rows] = await pool.query<LateFeePolicyRow[]>(
+    `SELECT enabled, mode, amount, grace_days, updated_by, updated_at
+     FROM late_fee_policy WHERE id = 1 LIMIT 1`,
+  );
+  const row = rows[0];
+  if (!row) return fallbackPolicy;
+  return {
+    enabled: asBoolean(row.enabled),
+    mode: row.mode,
+    amount: asNumber(row.amount),
+    graceDays: asNumber(row.grace_days),
+    updatedBy: row.updated_by,
+    updatedAt: formatTimestamp(row.updated_at),
+  };
+}
+
+export async function updateLateFeePolicy(
+  input: LateFeePolicyInput,
+  userId: string | null,
+): Promise<LateFeePolicy> {
+  if (!LATE_FEE_MODES.includes(input.mode)) {
+    throw new Error("Unknown late fee mode");
+  }
+  if (!Number.isFinite(input.amount) || input.amount < 0) {
+    throw new Error("Late fee amount cannot be negative");
+  }
+  if (input.mode === "percent" && input.amount > 100) {
+    throw new Error("A late fee percentage cannot exceed 100");
+  }
+  if (input.enabled && !(input.amount > 0)) {
+    throw new Error("Set a late fee amount before enabling late fees");
+  }
+  if (!Number.isInteger(input.graceDays) || input.graceDays < 0) {
+    throw new Error("Grace period must be a whole number of days");
+  }
+  const before = await getLateFeePolicy();
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    fallbackPolicy = {
+      ...input,
+      updatedBy: userId,
+      updatedAt: new Date().toISOString(),
+    };
+  } else {
+    await pool.query(
+      `INSERT INTO late_fee_policy (id, enabled, mode, amount, grace_days, updated_by)
+       VALUES (1, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE enabled = VALUES(enabled), mode = VALUES(mode),
+         amount = VALUES(amount), grace_days = VALUES(grace_days),
+         updated_by = VALUES(updated_by)`,
+      [
+        input.enabled ? 1 : 0,
+        input.mode,
+        input.amount,
+        input.graceDays,
+        userId,
+      ],
+    );
+  }
+  const after = await getLateFeePolicy();
+  await recordAudit({
+    action: "update",
+    entityType: "late_fee_policy",
+    entityId: "1",
+    before,
+    after,
+  });
+  return after;
+}
+
+export async function listLateFees(
+  query: LateFeeQuery = {},
+): Promise<LateFee[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return [...fallbackLateFees.values()]
+      .filter(
+        (f) =>
+          (!query.projectId || f.projectId === query.projectId) &&
+          (!query.status || f.status === query.status),
+      )
+      .sort(
+        (a, b) =>
+          a.periodStart.localeCompare(b.periodStart) ||
+          a.installmentId.localeCompare(b.installmentId),
+      );
+  }
+  const where: string[] = [];
+  const params: string[] = [];
+  if (query.projectId) {
+    where.push("project_id = ?");
+    params.push(query.projectId);
+  }
+  if (query.status) {
+    where.push("status = ?");
+    params.push(query.status);
+  }
+  const [rows] = await pool.query<LateFeeRow[]>(
+    `SELECT ${LATE_FEE_COLUMNS} FROM late_fees
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     ORDER BY period_start ASC, installment_id ASC`,
+    params,
+  );
+  return rows.map(mapLateFeeRow);
+}
+
+async function getLateFee(id: string, conn?: PoolConnection): Promise<LateFee> {
+  const pool = conn ?? (await getInitializedMysqlPool());
+  if (!pool) {
+    const fee = fallbackLateFees.get(id);
+    if (!fee) throw new Error("Late fee not found");
+    return fee;
+  }
+  const [rows] = await pool.query<LateFeeRow[]>(
+    `SELECT ${LATE_FEE_COLUMNS} FROM late_fees WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Late fee not found");
+  return mapLateFeeRow(rows[0]);
+}
+
+async function chargedPeriods(installmentId: string): Promise<Set<number>> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return new Set(
+      [...fallbackLateFees.values()]
+        .filter((f) => f.installmentId === installmentId)
+        .map((f) => f.period),
+    );
+  }
+  const [rows] = await pool.query<RowDataPacket[]>(
+    `SELECT period FROM late_fees WHERE installment_id = ?`,
+    [installmentId],
+  );
+  return new Set(rows.map((r) => asNumber(r.period)));
+}
+
+/**
+ * Bills one month of lateness. The late fee row is written first so its
+ * unique (installment, period) key stops two runs charging the same month;
+ * `null` means another run got there first.
+ */
+async function chargeLateFee(
+  inst: Installment,
+  period: number,
+  periodStart: string,
+  amount: number,
+  date: string,
+  userId: string | null,
+): Promise<LateFee | null> {
+  const fee: LateFee = {
+    id: crypto.randomUUID(),
+    installmentId: inst.id,
+    projectId: inst.projectId,
+    saleId: inst.saleId,
+    unitNo: inst.unitNo,
+    buyer: inst.buyer,
+    period,
+    periodStart,
+    amount,
+    feeInstallmentId: null,
+    status: "charged",
+    chargedAt: date,
+  };
+  const charge = {
+    installmentId: inst.id,
+    amount,
+    date,
+    description: `غرامة تأخير (الشهر ${period}) على قسط ${inst.dueDate} لوحدة ${inst.unitNo}`,
+    userId,
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const taken = [...fallbackLateFees.values()].some(
+      (f) => f.installmentId === inst.id && f.period === period,
+    );
+    if (taken) return null;
+    fee.feeInstallmentId = (await chargeInstallmentFee(charge)).id;
+    fallbackLateFees.set(fee.id, fee);
+    await recordAudit({
+      action: "create",
+      entityType: "late_fee",
+      entityId: fee.id,
+      after: fee,
+    });
+    return fee;
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    try {
+      await conn.query(
+        `INSERT INTO late_fees (id, installment_id, project_id, sale_id, unit_no, buyer, period, period_start, amount, charged_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          fee.id,
+          fee.installmentId,
+          fee.projectId,
+          fee.saleId,
+          fee.unitNo,
+          fee.buyer,
+          period,
+          periodStart,
+          amount,
+          date,
+        ],
+      );
+    } catch (error: any) {
+      if (error?.code === "ER_DUP_ENTRY") {
+        await conn.rollback();
+        return null;
+      }
+      throw error;
+    }
+    fee.feeInstallmentId = (await chargeInstallmentFee(charge, conn)).id;
+    await conn.query(
+      `UPDATE late_fees SET fee_installment_id = ? WHERE id = ?`,
+      [fee.feeInstallmentId, fee.id],
+    );
+    await recordAudit(
+      {
+        action: "create",
+        entityType: "late_fee",
+        entityId: fee.id,
+        after: fee,
+      },
+      conn,
+    );
+    await conn.commit();
+    return fee;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/**
+ * Charges every month of lateness owed by `asOf` that has not been charged
+ * yet. Safe to run repeatedly: each month is billed once per installment.
+ */
+export async function accrueLateFees(
+  asOf = today(),
+  userId: string | null = null,
+): Promise<LateFeeAccrualResult> {
+  const result: LateFeeAccrualResult = { charged: [], failures: [] };
+  const policy = await getLateFeePolicy();
+  if (!policy.enabled) return result;
+  for (const inst of await listOverdueInstallments(asOf)) {
+    const periods = lateFeePeriods(inst.dueDate, policy.graceDays, asOf);
+    if (!periods.length) continue;
+    const charged = await chargedPeriods(inst.id);
+    const outstanding = roundMoney(inst.amount - inst.paidAmount);
+    const amount = lateFeeAmount(policy, outstanding);
+    if (!(amount > 0)) continue;
+    for (const [index, periodStart] of periods.entries()) {
+      if (charged.has(index + 1)) continue;
+      try {
+        const fee = await chargeLateFee(
+          inst,
+          index + 1,
+          periodStart,
+          amount,
+          asOf,
+          userId,
+        );
+        if (fee) result.charged.push(fee);
+      } catch (error) {
+        result.failures.push({
+          installmentId: inst.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+async function assertNoOpenCheques(installmentIds: string[]) {
+  const ids = new Set(installmentIds);
+  const cheques = await listCheques();
+  const open = cheques.find(
+    (c) =>
+      ids.has(c.installmentId) &&
+      (c.status === "received" || c.status === "deposited"),
+  );
+  if (open) {
+    throw new ConflictError(
+      `Cheque ${open.number} is still pending on this installment; clear or bounce it first`,
+    );
+  }
+}
+
+/**
+ * Lets a buyer off one month's late fee. The fee installment is withdrawn,
+ * so this is refused once any of it has been paid.
+ */
+export async function waiveLateFee(
+  id: string,
+  input: LateFeeWaiveInput & { date: string },
+  userId: string | null,
+): Promise<LateFee> {
+  const reason = input.reason.trim();
+  if (!reason) throw new Error("A reason is required to waive a fee");
+  const fee = await getLateFee(id);
+  if (fee.status === "waived") {
+    throw new ConflictError("This late fee is already waived");
+  }
+  if (fee.feeInstallmentId) await assertNoOpenCheques([fee.feeInstallmentId]);
+  const waived: LateFee = {
+    ...fee,
+    status: "waived",
+    feeInstallmentId: null,
+    waiveReason: reason,
+    waivedBy: userId,
+    waivedAt: input.date,
+  };
+  const cancel = {
+    date: input.date,
+    description: `إعفاء من غرامة تأخير لوحدة ${fee.unitNo}: ${reason}`,
+    userId,
+  };
+  const audit = {
+    action: "update" as const,
+    entityType: "late_fee" as const,
+    entityId: fee.id,
+    before: fee,
+    after: waived,
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    if (fee.feeInstallmentId) {
+      await cancelFeeInstallment(fee.feeInstallmentId, cancel);
+    }
+    fallbackLateFees.set(fee.id, waived);
+    await recordAudit(audit);
+    return waived;
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [result] = await conn.query(
+      `UPDATE late_fees
+       SET status = 'waived', fee_installment_id = NULL, waive_reason = ?, waived_by = ?, waived_at = ?
+       WHERE id = ? AND status = 'charged'`,
+      [reason, userId, input.date, fee.id],
+    );
+    if (!(result as { affectedRows?: number }).affectedRows) {
+      throw new ConflictError("This late fee is already waived");
+    }
+    if (fee.feeInstallmentId) {
+      await cancelFeeInstallment(fee.feeInstallmentId, cancel, conn);
+    }
+    await recordAudit(audit, conn);
+    await conn.commit();
+    return getLateFee(fee.id);
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/**
+ * A reschedule deletes the installments nothing was paid on; any late fee
+ * or cheque on record for one of them would be left pointing at nothing,
+ * so those installments are not rescheduled at all.
+ */
+async function assertNothingAttached(
+  installments: Installment[],
+  conn?: PoolConnection,
+) {
+  const ids = installments.map((i) => i.id);
+  if (!ids.length) return;
+  const pool = conn ?? (await getInitializedMysqlPool());
+  let feeInstallmentId: string | undefined;
+  if (!pool) {
+    feeInstallmentId = [...fallbackLateFees.values()].find((f) =>
+      ids.includes(f.installmentId),
+    )?.installmentId;
+  } else {
+    const [rows] = await pool.query<RowDataPacket[]>(
+      `SELECT installment_id FROM late_fees WHERE installment_id IN (?) LIMIT 1`,
+      [ids],
+    );
+    feeInstallmentId = rows[0]?.installment_id;
+  }
+  const [cheque] = await listInstallmentCheques(ids, conn);
+  const attached = installments.find(
+    (i) => i.id === feeInstallmentId || i.id === cheque?.installmentId,
+  );
+  if (attached) {
+    throw new ConflictError(
+      `The installment due ${attached.dueDate} has late fees or cheques on record and cannot be rescheduled`,
+    );
+  }
+}
+
+/** Reschedules a sale once no pending cheque stands for what will change. */
+export async function rescheduleSale(
+  saleId: string,
+  input: InstallmentRescheduleInput & { date: string },
+  userId: string | null,
+): Promise<InstallmentRescheduleResult> {
+  if (!input.reason.trim()) {
+    throw new Error("A reason is required to reschedule installments");
+  }
+  const installments = await listSaleInstallments(saleId);
+  await assertNoOpenCheques(
+    installments.filter((i) => i.kind === "plan" && !i.paid).map((i) => i.id),
+  );
+  return rescheduleSaleInstallments(
+    saleId,
+    { ...input, reason: input.reason.trim() },
+    userId,
+    assertNothingAttached,
+  );
+}
+
+let schedulerStarted = false;
+
+/** Accrues late fees now and then hourly for the life of the process. */
+export function startLateFeeScheduler() {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+  const run = () => {
+    accrueLateFees()
+      .then(({ failures }) => {
+        for (const failure of failures) {
+          // eslint-disable-next-line no-console
+          console.error("[late-fees] charge failed", failure);
+        }
+      })
+      .catch((error) => {
+        // eslint-disable-next-line no-console
+        console.error("[late-fees] scheduled run failed", error);
+      });
+  };
+  run();
+  setInterval(run, RUN_INTERVAL_MS).unref();
+}
@@ -0,0 +1,256 @@
+import crypto from "node:crypto";
+import type { RowDataPacket } from "mysql2/promise";
+import type {
+  Customer,
+  CustomerInput,
+  CustomerStatement,
+  CustomerStatementSale,
+} from "@shared/accounting";
+import { buildCustomerStatement } from "../lib/customer-statement";
+import { ConflictError } from "../lib/errors";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import { formatTimestamp, parseJson, roundMoney } from "../lib/row-values";
+import {
+  listCustomerSales,
+  listProjectNames,
+  listSaleInstallments,
+  listSalePayments,
+  renameCustomerSales,
+} from "./accounting";
+import { recordAudit } from "./audit";
+
+interface CustomerRow extends RowDataPacket {
+  id: string;
+  name: string;
+  national_id: string | null;
+  phones: unknown;
+  address: string | null;
+  created_at: string | Date | null;
+  updated_at: string | Date | null;
+}
+
+const CUSTOMER_COLUMNS =
+  "id, name, national_id, phones, address, created_at, updated_at";
+
+const fallbackCustomers = new Map<string, Customer>();
+
+function mapCustomerRow(row: CustomerRow): Customer {
+  const phones = parseJson(row.phones);
+  return {
+    id: row.id,
+    name: row.name,
+    nationalId: row.national_id,
+    phones: Array.isArray(phones) ? phones.map(String) : [],
+    address: row.address,
+    createdAt: formatTimestamp(row.created_at),
+    updatedAt: formatTimestamp(row.updated_at),
+  };
+}
+
+function normalizeInput(input: CustomerInput) {
+  const name = input.name.trim();
+  if (!name) throw new Error("Customer name is required");
+  const nationalId = input.nationalId?.trim() || null;
+  if (nationalId && !/^[0-9A-Za-z-]{4,32}$/.test(nationalId)) {
+    throw new Error("Invalid national ID");
+  }
+  const phones = [
+    ...new Set((input.phones ?? []).map((p) => p.trim()).filter(Boolean)),
+  ];
+  return { name, nationalId, phones, address: input.address?.trim() || null };
+}
+
+function duplicateNationalId(): ConflictError {
+  return new ConflictError("Another customer has this national ID");
+}
+
+/** Customers by name, optionally narrowed by name, national ID or phone. */
+export async function listCustomers(
+  search?: string | null,
+): Promise<Customer[]> {
+  const term = search?.trim().toLowerCase() ?? "";
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return [...fallbackCustomers.values()]
+      .filter(
+        (c) =>
+          !term ||
+          c.name.toLowerCase().includes(term) ||
+          c.nationalId?.toLowerCase().includes(term) ||
+          c.phones.some((p) => p.includes(term)),
+      )
+      .sort((a, b) => a.name.localeCompare(b.name, "ar"));
+  }
+  const like = `%${term}%`;
+  const [rows] = await pool.query<CustomerRow[]>(
+    term
+      ? `SELECT ${CUSTOMER_COLUMNS} FROM customers
+         WHERE name LIKE ? OR national_id LIKE ? OR CAST(phones AS CHAR) LIKE ?
+         ORDER BY name ASC`
+      : `SELECT ${CUSTOMER_COLUMNS} FROM customers ORDER BY name ASC`,
+    term ? [like, like, like] : [],
+  );
+  return rows.map(mapCustomerRow);
+}
+
+export async function getCustomer(id: string): Promise<Customer> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const customer = fallbackCustomers.get(id);
+    if (!customer) throw new Error("Customer not found");
+    return customer;
+  }
+  const [rows] = await pool.query<CustomerRow[]>(
+    `SELECT ${CUSTOMER_COLUMNS} FROM customers WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Customer not found");
+  return mapCustomerRow(rows[0]);
+}
+
+export async function createCustomer(input: CustomerInput): Promise<Customer> {
+  const fields = normalizeInput(input);
+  const now = new Date().toISOString();
+  const customer: Customer = {
+    id: crypto.randomUUID(),
+    ...fields,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    if (
+      fields.nationalId &&
+      [...fallbackCustomers.values()].some(
+        (c) => c.nationalId === fields.nationalId,
+      )
+    ) {
+      throw duplicateNationalId();
+    }
+    fallbackCustomers.set(customer.id, customer);
+  } else {
+    try {
+      await pool.query(
+        `INSERT INTO customers (id, name, national_id, phones, address)
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+          customer.id,
+          customer.name,
+          customer.nationalId,
+          JSON.stringify(customer.phones),
+          customer.address,
+        ],
+      );
+    } catch (error: any) {
+      if (error?.code === "ER_DUP_ENTRY") throw duplicateNationalId();
+      throw error;
+    }
+  }
+  await recordAudit({
+    action: "create",
+    entityType: "customer",
+    entityId: customer.id,
+    after: customer,
+  });
+  return customer;
+}
+
+/** A new name is carried onto the customer's sales and installments. */
+export async function updateCustomer(
+  id: string,
+  input: CustomerInput,
+): Promise<Customer> {
+  const existing = await getCustomer(id);
+  const updated: Customer = {
+    ...existing,
+    ...normalizeInput(input),
+    updatedAt: new Date().toISOString(),
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    if (
+      updated.nationalId &&
+      [...fallbackCustomers.values()].some(
+        (c) => c.id !== id && c.nationalId === updated.nationalId,
+      )
+    ) {
+      throw duplicateNationalId();
+    }
+    fallbackCustomers.set(id, updated);
+    if (updated.name !== existing.name) {
+      await renameCustomerSales(id, updated.name);
+    }
+    await recordAudit({
+      action: "update",
+      entityType: "customer",
+      entityId: id,
+      before: existing,
+      after: updated,
+    });
+    return updated;
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    await conn.query(
+      `UPDATE customers SET name = ?, national_id = ?, phones = ?, address = ? WHERE id = ?`,
+      [
+        updated.name,
+        updated.nationalId,
+        JSON.stringify(updated.phones),
+        updated.address,
+        id,
+      ],
+    );
+    if (updated.name !== existing.name) {
+      await renameCustomerSales(id, updated.name, conn);
+    }
+    await recordAudit(
+      {
+        action: "update",
+        entityType: "customer",
+        entityId: id,
+        before: existing,
+        after: updated,
+      },
+      conn,
+    );
+    await conn.commit();
+    return updated;
+  } catch (error: any) {
+    await conn.rollback();
+    if (error?.code === "ER_DUP_ENTRY") throw duplicateNationalId();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/** All the customer's sales across projects, with what was paid and is owed. */
+export async function getCustomerStatement(
+  id: string,
+  asOf: string,
+): Promise<CustomerStatement> {
+  const customer = await getCustomer(id);
+  const [sales, projectNames] = await Promise.all([
+    listCustomerSales(id),
+    listProjectNames(),
+  ]);
+  const detailed: CustomerStatementSale[] = [];
+  for (const sale of sales) {
+    const [installments, payments] = await Promise.all([
+      listSaleInstallments(sale.id),
+      listSalePayments(sale.id),
+    ]);
+    detailed.push({
+      ...sale,
+      projectName: projectNames.get(sale.projectId) ?? "",
+      installments,
+      payments,
+      balance: roundMoney(
+        installments.reduce((sum, i) => sum + (i.amount - i.paidAmount), 0),
+      ),
+    });
+  }
+  return buildCustomerStatement(customer, detailed, asOf);
+}
@@ -0,0 +1,633 @@
+import crypto from "node:crypto";
+import type { Pool, PoolConnection, RowDataPacket } from "mysql2/promise";
+import type {
+  AccountType,
+  JournalEntry,
+  JournalEntryCreateInput,
+  JournalLine,
+  JournalLineInput,
+  JournalQuery,
+  LedgerAccount,
+  LedgerAccountCreateInput,
+} from "@shared/accounting";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import {
+  DEFAULT_CHART_OF_ACCOUNTS,
+  type ChartAccountSeed,
+} from "../lib/chart-of-accounts";
+import {
+  asBoolean,
+  asNumber,
+  formatDate,
+  formatTimestamp,
+  roundMoney,
+} from "../lib/row-values";
+import { assertPeriodOpen } from "./periods";
+
+interface AccountRow extends RowDataPacket {
+  id: string;
+  code: string;
+  name: string;
+  type: AccountType;
+  parent_id: string | null;
+  active: number | boolean;
+  is_system: number | boolean;
+}
+
+interface JournalEntryRow extends RowDataPacket {
+  id: string;
+  date: string | Date;
+  description: string;
+  transaction_id: string | null;
+  posted: number | boolean;
+  created_by: string | null;
+  created_at: string | Date | null;
+}
+
+interface AccountActivityRow extends RowDataPacket {
+  account_id: string;
+  debit: number | string | null;
+  credit: number | string | null;
+}
+
+export interface AccountActivity {
+  accountId: string;
+  debit: number;
+  credit: number;
+}
+
+interface JournalLineRow extends RowDataPacket {
+  id: string;
+  entry_id: string;
+  account_id: string;
+  account_code: string;
+  account_name: string;
+  debit: number | string;
+  credit: number | string;
+  memo: string | null;
+}
+
+const ACCOUNT_TYPES: AccountType[] = [
+  "asset",
+  "liability",
+  "equity",
+  "revenue",
+  "expense",
+];
+
+// Accounts that later migrations add to the shipped chart; the in-memory
+// ledger starts out with them as well.
+const MIGRATED_ACCOUNTS: ChartAccountSeed[] = [
+  {
+    code: "2200",
+    name: "عربون حجز الوحدات",
+    type: "liability",
+    parentCode: "2000",
+  },
+];
+
+const fallbackLedger = {
+  accounts: new Map<string, LedgerAccount>(),
+  entries: new Map<string, JournalEntry>(),
+};
+
+function seedFallbackAccounts() {
+  if (fallbackLedger.accounts.size > 0) return;
+  const idsByCode = new Map<string, string>();
+  const seeds = [...DEFAULT_CHART_OF_ACCOUNTS, ...MIGRATED_ACCOUNTS];
+  for (const seed of seeds) {
+    idsByCode.set(seed.code, crypto.randomUUID());
+  }
+  for (const seed of seeds) {
+    const id = idsByCode.get(seed.code)!;
+    fallbackLedger.accounts.set(id, {
+      id,
+      code: seed.code,
+      name: seed.name,
+      type: seed.type,
+      parentId: seed.parentCode ? idsByCode.get(seed.parentCode)! : null,
+      active: true,
+      system: true,
+    });
+  }
+}
+seedFallbackAccounts();
+
+function mapAccountRow(row: AccountRow): LedgerAccount {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    type: row.type,
+    parentId: row.parent_id ?? null,
+    active: asBoolean(row.active),
+    system: asBoolean(row.is_system),
+  };
+}
+
+function mapJournalLineRow(row: JournalLineRow): JournalLine {
+  return {
+    id: row.id,
+    entryId: row.entry_id,
+    accountId: row.account_id,
+    accountCode: row.account_code,
+    accountName: row.account_name,
+    debit: asNumber(row.debit),
+    credit: asNumber(row.credit),
+    memo: row.memo ?? null,
+  };
+}
+
+function mapJournalEntryRow(
+  row: JournalEntryRow,
+  lines: JournalLine[],
+): JournalEntry {
+  return {
+    id: row.id,
+    date: formatDate(row.date),
+    description: row.description,
+    transactionId: row.transaction_id ?? null,
+    posted: asBoolean(row.posted),
+    createdBy: row.created_by ?? null,
+    createdAt: formatTimestamp(row.created_at),
+    lines,
+  };
+}
+
+function sortAccounts(accounts: LedgerAccount[]): LedgerAccount[] {
+  return [...accounts].sort((a, b) =>
+    a.code === b.code ? 0 : a.code < b.code ? -1 : 1,
+  );
+}
+
+function sortEntries(entries: JournalEntry[]): JournalEntry[] {
+  return [...entries].sort((a, b) => {
+    if (a.date === b.date) {
+      const ca = a.createdAt ?? "";
+      const cb = b.createdAt ?? "";
+      return ca === cb ? 0 : ca > cb ? -1 : 1;
+    }
+    return a.date > b.date ? -1 : 1;
+  });
+}
+
+/**
+ * Validates a set of journal lines: every line carries either a debit or a
+ * credit, and both sides total the same amount to the cent.
+ */
+function normalizeLines(lines: JournalLineInput[]): JournalLineInput[] {
+  const normalized = lines
+    .map((line) => ({
+      accountCode: String(line.accountCode ?? "").trim(),
+      debit: roundMoney(Number(line.debit ?? 0)),
+      credit: roundMoney(Number(line.credit ?? 0)),
+      memo: line.memo ?? null,
+    }))
+    .filter((line) => line.debit !== 0 || line.credit !== 0);
+  if (normalized.length < 2) {
+    throw new Error("Journal entry needs at least two lines");
+  }
+  let debit = 0;
+  let credit = 0;
+  for (const line of normalized) {
+    if (!line.accountCode) throw new Error("Journal line account is required");
+    if (
+      !Number.isFinite(line.debit) ||
+      !Number.isFinite(line.credit) ||
+      line.debit < 0 ||
+      line.credit < 0 ||
+      (line.debit > 0 && line.credit > 0)
+    ) {
+      throw new Error("Journal line must be either a debit or a credit");
+    }
+    debit += line.debit;
+    credit += line.credit;
+  }
+  if (roundMoney(debit) !== roundMoney(credit)) {
+    throw new Error("Journal entry is not balanced");
+  }
+  return normalized;
+}
+
+export async function listAccounts(): Promise<LedgerAccount[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortAccounts([...fallbackLedger.accounts.values()]);
+  }
+  const [rows] = await pool.query<AccountRow[]>(
+    `SELECT id, code, name, type, parent_id, active, is_system
+     FROM accounts
+     ORDER BY code ASC`,
+  );
+  return rows.map(mapAccountRow);
+}
+
+export async function createAccount(
+  input: LedgerAccountCreateInput,
+  conn?: PoolConnection,
+): Promise<LedgerAccount> {
+  const code = input.code.trim();
+  const name = input.name.trim();
+  if (!code || !name) throw new Error("Account code and name are required");
+  if (!ACCOUNT_TYPES.includes(input.type)) {
+    throw new Error("Invalid account type");
+  }
+  const accounts = await listAccounts();
+  if (accounts.some((a) => a.code === code)) {
+    throw new Error("Account code already exists");
+  }
+  const parentId = input.parentId || null;
+  if (parentId) {
+    const parent = accounts.find((a) => a.id === parentId);
+    if (!parent) throw new Error("Parent account not found");
+    if (parent.type !== input.type) {
+      throw new Error("Parent account must have the same type");
+    }
+  }
+
+  const db = conn ?? (await getInitializedMysqlPool());
+  const account: LedgerAccount = {
+    id: crypto.randomUUID(),
+    code,
+    name,
+    type: input.type,
+    parentId,
+    active: true,
+    system: false,
+  };
+  if (!db) {
+    fallbackLedger.accounts.set(account.id, account);
+    return account;
+  }
+  await db.query(
+    `INSERT INTO accounts (id, code, name, type, parent_id, active, is_system)
+     VALUES (?, ?, ?, ?, ?, 1, 0)`,
+    [account.id, account.code, account.name, account.type, account.parentId],
+  );
+  return account;
+}
+
+async function insertJournalEntryDb(
+  conn: PoolConnection,
+  input: JournalEntryCreateInput,
+  lines: JournalLineInput[],
+): Promise<JournalEntry> {
+  const codes = [...new Set(lines.map((l) => l.accountCode))];
+  const [accountRows] = await conn.query<AccountRow[]>(
+    `SELECT id, code, name, type, parent_id, active, is_system
+     FROM accounts WHERE code IN (?)`,
+    [codes],
+  );
+  const byCode = new Map(accountRows.map((row) => [row.code, row]));
+  for (const code of codes) {
+    const account = byCode.get(code);
+    if (!account) throw new Error(`Unknown account ${code}`);
+    if (!asBoolean(account.active)) {
+      throw new Error(`Account ${code} is inactive`);
+    }
+  }
+
+  const id = crypto.randomUUID();
+  await conn.query(
+    `INSERT INTO journal_entries (id, date, description, transaction_id, posted, created_by)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      input.date,
+      input.description,
+      input.transactionId ?? null,
+      input.posted ? 1 : 0,
+      input.createdBy ?? null,
+    ],
+  );
+  await conn.query(
+    `INSERT INTO journal_lines (id, entry_id, account_id, debit, credit, memo, line_no)
+     VALUES ?`,
+    [
+      lines.map((line, index) => [
+        crypto.randomUUID(),
+        id,
+        byCode.get(line.accountCode)!.id,
+        line.debit ?? 0,
+        line.credit ?? 0,
+        line.memo ?? null,
+        index,
+      ]),
+    ],
+  );
+  const [entry] = await loadEntriesDb(conn, `e.id = ?`, [id]);
+  return entry;
+}
+
+async function loadEntriesDb(
+  db: Pool | PoolConnection,
+  where: string,
+  params: unknown[],
+): Promise<JournalEntry[]> {
+  const [entryRows] = await db.query<JournalEntryRow[]>(
+    `SELECT e.id, e.date, e.description, e.transaction_id, e.posted, e.created_by, e.created_at
+     FROM journal_entries e
+     WHERE ${where}
+     ORDER BY e.date DESC, e.created_at DESC`,
+    params,
+  );
+  if (!entryRows.length) return [];
+  const [lineRows] = await db.query<JournalLineRow[]>(
+    `SELECT l.id, l.entry_id, l.account_id, a.code AS account_code, a.name AS account_name,
+            l.debit, l.credit, l.memo
+     FROM journal_lines l
+     INNER JOIN accounts a ON a.id = l.account_id
+     WHERE l.entry_id IN (?)
+     ORDER BY l.line_no ASC`,
+    [entryRows.map((row) => row.id)],
+  );
+  const linesByEntry = new Map<string, JournalLine[]>();
+  for (const row of lineRows) {
+    const list = linesByEntry.get(row.entry_id) ?? [];
+    list.push(mapJournalLineRow(row));
+    linesByEntry.set(row.entry_id, list);
+  }
+  return entryRows.map((row) =>
+    mapJournalEntryRow(row, linesByEntry.get(row.id) ?? []),
+  );
+}
+
+function postJournalEntryFallback(
+  input: JournalEntryCreateInput,
+  lines: JournalLineInput[],
+): JournalEntry {
+  const accounts = [...fallbackLedger.accounts.values()];
+  const id = crypto.randomUUID();
+  const entryLines: JournalLine[] = lines.map((line) => {
+    const account = accounts.find((a) => a.code === line.accountCode);
+    if (!account) throw new Error(`Unknown account ${line.accountCode}`);
+    if (!account.active) {
+      throw new Error(`Account ${line.accountCode} is inactive`);
+    }
+    return {
+      id: crypto.randomUUID(),
+      entryId: id,
+      accountId: account.id,
+      accountCode: account.code,
+      accountName: account.name,
+      debit: line.debit ?? 0,
+      credit: line.credit ?? 0,
+      memo: line.memo ?? null,
+    };
+  });
+  const entry: JournalEntry = {
+    id,
+    date: input.date,
+    description: input.description,
+    transactionId: input.transactionId ?? null,
+    posted: input.posted,
+    createdBy: input.createdBy ?? null,
+    createdAt: new Date().toISOString(),
+    lines: entryLines,
+  };
+  fallbackLedger.entries.set(id, entry);
+  return entry;
+}
+
+/**
+ * Posts a balanced journal entry. Pass `conn` to post inside the caller's
+ * database transaction, the same way the flat transaction rows are written.
+ */
+export async function postJournalEntry(
+  input: JournalEntryCreateInput,
+  conn?: PoolConnection,
+): Promise<JournalEntry> {
+  const lines = normalizeLines(input.lines);
+  await assertPeriodOpen(input.date, conn);
+  if (conn) return insertJournalEntryDb(conn, input, lines);
+
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return postJournalEntryFallback(input, lines);
+
+  const own = await pool.getConnection();
+  try {
+    await own.beginTransaction();
+    const entry = await insertJournalEntryDb(own, input, lines);
+    await own.commit();
+    return entry;
+  } catch (error) {
+    await own.rollback();
+    throw error;
+  } finally {
+    own.release();
+  }
+}
+
+export async function listJournalEntries(
+  query: JournalQuery = {},
+): Promise<JournalEntry[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return sortEntries(
+      [...fallbackLedger.entries.values()].filter(
+        (entry) =>
+          (!query.from || entry.date >= query.from) &&
+          (!query.to || entry.date <= query.to) &&
+          (!query.transactionId ||
+            entry.transactionId === query.transactionId) &&
+          (!query.postedOnly || entry.posted) &&
+          (!query.accountId ||
+            entry.lines.some((l) => l.accountId === query.accountId)),
+      ),
+    );
+  }
+  const clauses = ["1 = 1"];
+  const params: unknown[] = [];
+  if (query.from) {
+    clauses.push("e.date >= ?");
+    params.push(query.from);
+  }
+  if (query.to) {
+    clauses.push("e.date <= ?");
+    params.push(query.to);
+  }
+  if (query.transactionId) {
+    clauses.push("e.transaction_id = ?");
+    params.push(query.transactionId);
+  }
+  if (query.postedOnly) {
+    clauses.push("e.posted = 1");
+  }
+  if (query.accountId) {
+    clauses.push(
+      "EXISTS (SELECT 1 FROM journal_lines jl WHERE jl.entry_id = e.id AND jl.account_id = ?)",
+    );
+    params.push(query.accountId);
+  }
+  return loadEntriesDb(pool, clauses.join(" AND "), params);
+}
+
+/**
+ * Sums posted debits and credits per account for entries dated within the
+ * optional range. Unapproved (unposted) entries never reach the statements.
+ * `transactionIds` narrows the sum to the entries of those transactions.
+ */
+export async function sumAccountActivity(range: {
+  from?: string | null;
+  to?: string | null;
+  transactionIds?: string[] | null;
+}): Promise<AccountActivity[]> {
+  if (range.transactionIds && !range.transactionIds.length) return [];
+  const only = range.transactionIds ? new Set(range.transactionIds) : null;
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const totals = new Map<string, AccountActivity>();
+    for (const entry of fallbackLedger.entries.values()) {
+      if (!entry.posted) continue;
+      if (range.from && entry.date < range.from) continue;
+      if (range.to && entry.date > range.to) continue;
+      if (only && !(entry.transactionId && only.has(entry.transactionId))) {
+        continue;
+      }
+      for (const line of entry.lines) {
+        const current = totals.get(line.accountId) ?? {
+          accountId: line.accountId,
+          debit: 0,
+          credit: 0,
+        };
+        current.debit = roundMoney(current.debit + line.debit);
+        current.credit = roundMoney(current.credit + line.credit);
+        totals.set(line.accountId, current);
+      }
+    }
+    return [...totals.values()];
+  }
+  const clauses = ["e.posted = 1"];
+  const params: unknown[] = [];
+  if (range.from) {
+    clauses.push("e.date >= ?");
+    params.push(range.from);
+  }
+  if (range.to) {
+    clauses.push("e.date <= ?");
+    params.push(range.to);
+  }
+  if (only) {
+    clauses.push("e.transaction_id IN (?)");
+    params.push([...only]);
+  }
+  const [rows] = await pool.query<AccountActivityRow[]>(
+    `SELECT l.account_id, SUM(l.debit) AS debit, SUM(l.credit) AS credit
+     FROM journal_lines l
+     INNER JOIN journal_entries e ON e.id = l.entry_id
+     WHERE ${clauses.join(" AND ")}
+     GROUP BY l.account_id`,
+    params,
+  );
+  return rows.map((row) => ({
+    accountId: row.account_id,
+    debit: roundMoney(asNumber(row.debit)),
+    credit: roundMoney(asNumber(row.credit)),
+  }));
+}
+
+export async function setTransactionJournalPosted(
+  transactionId: string,
+  posted: boolean,
+  conn?: PoolConnection,
+): Promise<void> {
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    for (const entry of fallbackLedger.entries.values()) {
+      if (entry.transactionId === transactionId) {
+        fallbackLedger.entries.set(entry.id, { ...entry, posted });
+      }
+    }
+    return;
+  }
+  await db.query(
+    `UPDATE journal_entries SET posted = ? WHERE transaction_id = ?`,
+    [posted ? 1 : 0, transactionId],
+  );
+}
+
+function mirrorLines(entry: JournalEntry): JournalLineInput[] {
+  return entry.lines.map((line) => ({
+    accountCode: line.accountCode,
+    debit: line.credit,
+    credit: line.debit,
+    memo: line.memo ?? null,
+  }));
+}
+
+/**
+ * Posts the mirror image of every entry linked to `transactionId` against the
+ * reversing transaction, leaving the original entries untouched.
+ */
+export async function reverseTransactionJournal(
+  transactionId: string,
+  reversal: {
+    transactionId: string;
+    date: string;
+    description: string;
+    createdBy?: string | null;
+  },
+  conn?: PoolConnection,
+): Promise<JournalEntry[]> {
+  const originals = conn
+    ? await loadEntriesDb(conn, "e.transaction_id = ?", [transactionId])
+    : await listJournalEntries({ transactionId });
+  const reversed: JournalEntry[] = [];
+  for (const entry of originals) {
+    reversed.push(
+      await postJournalEntry(
+        {
+          date: reversal.date,
+          description: reversal.description,
+          transactionId: reversal.transactionId,
+          posted: true,
+          createdBy: reversal.createdBy ?? null,
+          lines: mirrorLines(entry),
+        },
+        conn,
+      ),
+    );
+  }
+  return reversed;
+}
+
+/** Posts the mirror image of one entry that has no flat transaction. */
+export async function reverseJournalEntry(
+  entryId: string,
+  reversal: { date: string; description: string; createdBy?: string | null },
+  conn?: PoolConnection,
+): Promise<JournalEntry> {
+  const db = conn ?? (await getInitializedMysqlPool());
+  const [entry] = db
+    ? await loadEntriesDb(db, "e.id = ?", [entryId])
+    : [fallbackLedger.entries.get(entryId)];
+  if (!entry) throw new Error("Journal entry not found");
+  return postJournalEntry(
+    {
+      date: reversal.date,
+      description: reversal.description,
+      posted: true,
+      createdBy: reversal.createdBy ?? null,
+      lines: mirrorLines(entry),
+    },
+    conn,
+  );
+}
+
+export async function deleteTransactionJournal(
+  transactionId: string,
+  conn?: PoolConnection,
+): Promise<void> {
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    for (const entry of [...fallbackLedger.entries.values()]) {
+      if (entry.transactionId === transactionId) {
+        fallbackLedger.entries.delete(entry.id);
+      }
+    }
+    return;
+  }
+  await db.query(`DELETE FROM journal_entries WHERE transaction_id = ?`, [
+    transactionId,
+  ]);
+}
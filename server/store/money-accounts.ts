@@ -0,0 +1,562 @@
+import crypto from "node:crypto";
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import type {
+  MoneyAccount,
+  MoneyAccountCreateInput,
+  MoneyAccountKind,
+  MoneyAccountStatement,
+  MoneyAccountStatementLine,
+  MoneyAccountUpdateInput,
+  MoneyTransfer,
+  MoneyTransferInput,
+} from "@shared/accounting";
+import { SYSTEM_ACCOUNTS } from "../lib/chart-of-accounts";
+import { ConflictError } from "../lib/errors";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import {
+  asBoolean,
+  asNumber,
+  formatDate,
+  formatTimestamp,
+  roundMoney,
+} from "../lib/row-values";
+import { recordAudit } from "./audit";
+import {
+  createAccount,
+  listAccounts,
+  listJournalEntries,
+  postJournalEntry,
+  sumAccountActivity,
+} from "./ledger";
+import { assertPeriodOpen } from "./periods";
+
+interface MoneyAccountRow extends RowDataPacket {
+  id: string;
+  name: string;
+  kind: MoneyAccountKind;
+  bank_name: string | null;
+  account_number: string | null;
+  opening_balance: number | string;
+  opening_date: string | Date;
+  ledger_account_id: string;
+  active: number | boolean;
+}
+
+interface MoneyTransferRow extends RowDataPacket {
+  id: string;
+  from_account_id: string;
+  to_account_id: string;
+  amount: number | string;
+  date: string | Date;
+  note: string | null;
+  created_by: string | null;
+  created_at: string | Date | null;
+}
+
+type StoredMoneyAccount = Omit<MoneyAccount, "balance">;
+
+const MONEY_ACCOUNT_COLUMNS =
+  "id, name, kind, bank_name, account_number, opening_balance, opening_date, ledger_account_id, active";
+
+const MONEY_ACCOUNT_KINDS: MoneyAccountKind[] = ["cash", "bank"];
+
+// Money accounts are numbered 1101-1199 under the cash account.
+const FIRST_LEDGER_CODE = 1101;
+const LAST_LEDGER_CODE = 1199;
+
+const fallbackMoney = {
+  accounts: new Map<string, StoredMoneyAccount>(),
+  transfers: new Map<string, MoneyTransfer>(),
+};
+
+function mapMoneyAccountRow(row: MoneyAccountRow): StoredMoneyAccount {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    bankName: row.bank_name,
+    accountNumber: row.account_number,
+    openingBalance: asNumber(row.opening_balance),
+    openingDate: formatDate(row.opening_date),
+    ledgerAccountId: row.ledger_account_id,
+    active: asBoolean(row.active),
+  };
+}
+
+function mapMoneyTransferRow(row: MoneyTransferRow): MoneyTransfer {
+  return {
+    id: row.id,
+    fromAccountId: row.from_account_id,
+    toAccountId: row.to_account_id,
+    amount: asNumber(row.amount),
+    date: formatDate(row.date),
+    note: row.note,
+    createdBy: row.created_by,
+    createdAt: formatTimestamp(row.created_at),
+  };
+}
+
+async function listStoredAccounts(
+  conn?: PoolConnection,
+): Promise<StoredMoneyAccount[]> {
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    return [...fallbackMoney.accounts.values()].sort((a, b) =>
+      a.name.localeCompare(b.name, "ar"),
+    );
+  }
+  const [rows] = await db.query<MoneyAccountRow[]>(
+    `SELECT ${MONEY_ACCOUNT_COLUMNS} FROM money_accounts ORDER BY name ASC`,
+  );
+  return rows.map(mapMoneyAccountRow);
+}
+
+/**
+ * With `conn` the row is locked until its transaction ends: shared by
+ * postings through the account, exclusive while its status changes.
+ */
+async function getStoredAccount(
+  id: string,
+  conn?: PoolConnection,
+  lock: "share" | "update" = "share",
+): Promise<StoredMoneyAccount | null> {
+  if (!conn) {
+    const pool = await getInitializedMysqlPool();
+    if (!pool) return fallbackMoney.accounts.get(id) ?? null;
+    const [rows] = await pool.query<MoneyAccountRow[]>(
+      `SELECT ${MONEY_ACCOUNT_COLUMNS} FROM money_accounts WHERE id = ? LIMIT 1`,
+      [id],
+    );
+    return rows.length ? mapMoneyAccountRow(rows[0]) : null;
+  }
+  const [rows] = await conn.query<MoneyAccountRow[]>(
+    `SELECT ${MONEY_ACCOUNT_COLUMNS} FROM money_accounts WHERE id = ? LIMIT 1
+     ${lock === "update" ? "FOR UPDATE" : "LOCK IN SHARE MODE"}`,
+    [id],
+  );
+  return rows.length ? mapMoneyAccountRow(rows[0]) : null;
+}
+
+async function withBalances(
+  accounts: StoredMoneyAccount[],
+): Promise<MoneyAccount[]> {
+  const activity = new Map(
+    (await sumAccountActivity({})).map((a) => [a.accountId, a]),
+  );
+  return accounts.map((account) => {
+    const totals = activity.get(account.ledgerAccountId);
+    return {
+      ...account,
+      balance: totals ? roundMoney(totals.debit - totals.credit) : 0,
+    };
+  });
+}
+
+export async function listMoneyAccounts(): Promise<MoneyAccount[]> {
+  return withBalances(await listStoredAccounts());
+}
+
+export async function getMoneyAccount(id: string): Promise<MoneyAccount> {
+  const account = await getStoredAccount(id);
+  if (!account) throw new Error("Money account not found");
+  const [withBalance] = await withBalances([account]);
+  return withBalance;
+}
+
+/**
+ * The ledger code that stands in for the generic cash account on postings
+ * through this money account.
+ */
+export async function moneyAccountLedgerCode(
+  id: string,
+  conn?: PoolConnection,
+): Promise<string> {
+  const account = await getStoredAccount(id, conn);
+  if (!account) throw new Error("Money account not found");
+  const ledger = (await listAccounts()).find(
+    (a) => a.id === account.ledgerAccountId,
+  );
+  if (!ledger) throw new Error("Money account ledger account is missing");
+  return ledger.code;
+}
+
+/** New postings may only name an existing, active money account. */
+export async function assertMoneyAccountActive(
+  id: string,
+  conn?: PoolConnection,
+): Promise<void> {
+  const account = await getStoredAccount(id, conn);
+  if (!account) throw new Error("Money account not found");
+  if (!account.active) throw new ConflictError("Money account is inactive");
+}
+
+/**
+ * With `conn` the code range stays locked until its transaction ends, so two
+ * accounts created at once cannot pick the same code.
+ */
+async function nextLedgerCode(conn?: PoolConnection) {
+  let codes: string[];
+  if (conn) {
+    const [rows] = await conn.query<RowDataPacket[]>(
+      `SELECT code FROM accounts WHERE code BETWEEN ? AND ? FOR UPDATE`,
+      [String(FIRST_LEDGER_CODE), String(LAST_LEDGER_CODE)],
+    );
+    codes = rows.map((row) => String(row.code));
+  } else {
+    codes = (await listAccounts()).map((a) => a.code);
+  }
+  const used = new Set(codes);
+  for (let code = FIRST_LEDGER_CODE; code <= LAST_LEDGER_CODE; code += 1) {
+    if (!used.has(String(code))) return String(code);
+  }
+  throw new ConflictError("No ledger codes left for money accounts");
+}
+
+export async function createMoneyAccount(
+  input: MoneyAccountCreateInput,
+  createdBy: string | null,
+): Promise<MoneyAccount> {
+  const name = input.name.trim();
+  if (!name) throw new Error("Account name is required");
+  if (!MONEY_ACCOUNT_KINDS.includes(input.kind)) {
+    throw new Error("Invalid account kind");
+  }
+  const openingBalance = roundMoney(input.openingBalance);
+  if (!Number.isFinite(openingBalance)) {
+    throw new Error("Invalid opening balance");
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.openingDate)) {
+    throw new Error("Invalid opening date");
+  }
+  // Checked up front so a closed period cannot leave a half-created account.
+  if (openingBalance !== 0) await assertPeriodOpen(input.openingDate);
+
+  const cash = (await listAccounts()).find(
+    (a) => a.code === SYSTEM_ACCOUNTS.cash,
+  );
+  if (!cash) throw new Error("Cash account is missing from the chart");
+  // The ledger account, the money account and its opening balance are saved
+  // together so a failure cannot leave any one of them behind.
+  const apply = async (conn?: PoolConnection) => {
+    const code = await nextLedgerCode(conn);
+    const ledger = await createAccount(
+      { code, name, type: "asset", parentId: cash.id },
+      conn,
+    );
+    const account: StoredMoneyAccount = {
+      id: crypto.randomUUID(),
+      name,
+      kind: input.kind,
+      bankName: input.kind === "bank" ? input.bankName?.trim() || null : null,
+      accountNumber:
+        input.kind === "bank" ? input.accountNumber?.trim() || null : null,
+      openingBalance,
+      openingDate: input.openingDate,
+      ledgerAccountId: ledger.id,
+      active: true,
+    };
+    if (conn) {
+      await conn.query(
+        `INSERT INTO money_accounts (id, name, kind, bank_name, account_number, opening_balance, opening_date, ledger_account_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          account.id,
+          account.name,
+          account.kind,
+          account.bankName,
+          account.accountNumber,
+          account.openingBalance,
+          account.openingDate,
+          account.ledgerAccountId,
+        ],
+      );
+    } else {
+      fallbackMoney.accounts.set(account.id, account);
+    }
+    if (openingBalance !== 0) {
+      const amount = Math.abs(openingBalance);
+      const [debit, credit] =
+        openingBalance > 0
+          ? [code, SYSTEM_ACCOUNTS.capital]
+          : [SYSTEM_ACCOUNTS.capital, code];
+      await postJournalEntry(
+        {
+          date: account.openingDate,
+          description: `رصيد افتتاحي - ${account.name}`,
+          posted: true,
+          createdBy,
+          lines: [
+            { accountCode: debit, debit: amount },
+            { accountCode: credit, credit: amount },
+          ],
+        },
+        conn,
+      );
+    }
+    await recordAudit(
+      {
+        action: "create",
+        entityType: "money_account",
+        entityId: account.id,
+        after: account,
+      },
+      conn,
+    );
+    return { ...account, balance: openingBalance };
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return apply();
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const account = await apply(conn);
+    await conn.commit();
+    return account;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/**
+ * An account can only be deactivated once its balance is zero. The row is
+ * locked while that is checked, so no posting through it can slip in.
+ */
+export async function updateMoneyAccount(
+  id: string,
+  input: MoneyAccountUpdateInput,
+): Promise<MoneyAccount> {
+  const apply = async (conn?: PoolConnection) => {
+    const stored = await getStoredAccount(id, conn, "update");
+    if (!stored) throw new Error("Money account not found");
+    const [existing] = await withBalances([stored]);
+    if (input.active === false && existing.active && existing.balance !== 0) {
+      throw new ConflictError(
+        "Transfer the remaining balance before deactivating the account",
+      );
+    }
+    const updated: StoredMoneyAccount = {
+      ...stored,
+      name: input.name?.trim() || existing.name,
+      bankName:
+        input.bankName === undefined
+          ? existing.bankName
+          : input.bankName?.trim() || null,
+      accountNumber:
+        input.accountNumber === undefined
+          ? existing.accountNumber
+          : input.accountNumber?.trim() || null,
+      active: input.active ?? existing.active,
+    };
+    if (conn) {
+      await conn.query(
+        `UPDATE money_accounts SET name = ?, bank_name = ?, account_number = ?, active = ? WHERE id = ?`,
+        [
+          updated.name,
+          updated.bankName,
+          updated.accountNumber,
+          updated.active ? 1 : 0,
+          id,
+        ],
+      );
+    } else {
+      fallbackMoney.accounts.set(id, updated);
+    }
+    await recordAudit(
+      {
+        action: "update",
+        entityType: "money_account",
+        entityId: id,
+        before: stored,
+        after: updated,
+      },
+      conn,
+    );
+    return { ...updated, balance: existing.balance };
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return apply();
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const account = await apply(conn);
+    await conn.commit();
+    return account;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+export async function listMoneyTransfers(): Promise<MoneyTransfer[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return [...fallbackMoney.transfers.values()].sort((a, b) =>
+      b.date.localeCompare(a.date),
+    );
+  }
+  const [rows] = await pool.query<MoneyTransferRow[]>(
+    `SELECT id, from_account_id, to_account_id, amount, date, note, created_by, created_at
+     FROM money_transfers ORDER BY date DESC, created_at DESC`,
+  );
+  return rows.map(mapMoneyTransferRow);
+}
+
+export async function createMoneyTransfer(
+  input: MoneyTransferInput,
+  createdBy: string | null,
+): Promise<MoneyTransfer> {
+  const amount = roundMoney(input.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Invalid amount");
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.date)) {
+    throw new Error("Invalid transfer date");
+  }
+  if (input.fromAccountId === input.toAccountId) {
+    throw new Error("Choose two different accounts");
+  }
+  const transfer: MoneyTransfer = {
+    id: crypto.randomUUID(),
+    fromAccountId: input.fromAccountId,
+    toAccountId: input.toAccountId,
+    amount,
+    date: input.date,
+    note: input.note?.trim() || null,
+    createdBy,
+    createdAt: new Date().toISOString(),
+  };
+  // Both accounts are checked and locked in the transfer's own transaction.
+  const apply = async (conn?: PoolConnection) => {
+    await assertMoneyAccountActive(transfer.fromAccountId, conn);
+    await assertMoneyAccountActive(transfer.toAccountId, conn);
+    const [from, to] = [
+      await getStoredAccount(transfer.fromAccountId, conn),
+      await getStoredAccount(transfer.toAccountId, conn),
+    ];
+    const entry = await postJournalEntry(
+      {
+        date: transfer.date,
+        description: `تحويل من ${from?.name} إلى ${to?.name}`,
+        posted: true,
+        createdBy,
+        lines: [
+          {
+            accountCode: await moneyAccountLedgerCode(
+              transfer.toAccountId,
+              conn,
+            ),
+            debit: amount,
+            memo: transfer.note,
+          },
+          {
+            accountCode: await moneyAccountLedgerCode(
+              transfer.fromAccountId,
+              conn,
+            ),
+            credit: amount,
+            memo: transfer.note,
+          },
+        ],
+      },
+      conn,
+    );
+    if (conn) {
+      await conn.query(
+        `INSERT INTO money_transfers (id, from_account_id, to_account_id, amount, date, note, journal_entry_id, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          transfer.id,
+          transfer.fromAccountId,
+          transfer.toAccountId,
+          transfer.amount,
+          transfer.date,
+          transfer.note,
+          entry.id,
+          createdBy,
+        ],
+      );
+    } else {
+      fallbackMoney.transfers.set(transfer.id, transfer);
+    }
+    await recordAudit(
+      {
+        action: "create",
+        entityType: "money_transfer",
+        entityId: transfer.id,
+        after: transfer,
+      },
+      conn,
+    );
+    return transfer;
+  };
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return apply();
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const result = await apply(conn);
+    await conn.commit();
+    return result;
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/**
+ * Posted movements through one account, oldest first, each with the running
+ * balance after it.
+ */
+export async function getMoneyAccountStatement(
+  id: string,
+  range: { from?: string | null; to?: string | null },
+): Promise<MoneyAccountStatement> {
+  const account = await getMoneyAccount(id);
+  const entries = await listJournalEntries({
+    accountId: account.ledgerAccountId,
+    to: range.to ?? null,
+    postedOnly: true,
+  });
+  entries.sort(
+    (a, b) =>
+      a.date.localeCompare(b.date) ||
+      (a.createdAt ?? "").localeCompare(b.createdAt ?? ""),
+  );
+  let balance = 0;
+  let openingBalance = 0;
+  const lines: MoneyAccountStatementLine[] = [];
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      if (line.accountId !== account.ledgerAccountId) continue;
+      balance = roundMoney(balance + line.debit - line.credit);
+      if (range.from && entry.date < range.from) {
+        openingBalance = balance;
+        continue;
+      }
+      lines.push({
+        entryId: entry.id,
+        date: entry.date,
+        description: entry.description,
+        transactionId: entry.transactionId,
+        debit: line.debit,
+        credit: line.credit,
+        balance,
+      });
+    }
+  }
+  return {
+    account,
+    from: range.from ?? null,
+    to: range.to ?? null,
+    openingBalance,
+    lines,
+    closingBalance: balance,
+  };
+}
@@ -0,0 +1,347 @@
+import crypto from "node:crypto";
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import type {
+  FiscalPeriod,
+  FiscalPeriodEvent,
+  FiscalPeriodStatus,
+  FiscalYear,
+  FiscalYearCreateInput,
+} from "@shared/accounting";
+import { ConflictError } from "../lib/errors";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import { asNumber, formatDate, formatTimestamp } from "../lib/row-values";
+
+interface FiscalYearRow extends RowDataPacket {
+  id: string;
+  name: string;
+  start_date: string | Date;
+  end_date: string | Date;
+}
+
+interface FiscalPeriodRow extends RowDataPacket {
+  id: string;
+  fiscal_year_id: string;
+  period_no: number | string;
+  start_date: string | Date;
+  end_date: string | Date;
+  status: FiscalPeriodStatus;
+  closed_at: string | Date | null;
+  closed_by: string | null;
+}
+
+interface FiscalPeriodEventRow extends RowDataPacket {
+  id: string;
+  period_id: string;
+  action: "close" | "reopen";
+  reason: string | null;
+  user_id: string | null;
+  created_at: string | Date | null;
+}
+
+/** Thrown when a posting, approval or deletion falls inside a closed period. */
+export class ClosedPeriodError extends ConflictError {
+  constructor(readonly date: string) {
+    super(`The accounting period containing ${date} is closed`);
+    this.name = "ClosedPeriodError";
+  }
+}
+
+const fallbackPeriods = {
+  years: new Map<string, Omit<FiscalYear, "periods">>(),
+  periods: new Map<string, FiscalPeriod>(),
+  events: [] as FiscalPeriodEvent[],
+};
+
+const PERIOD_COLUMNS =
+  "id, fiscal_year_id, period_no, start_date, end_date, status, closed_at, closed_by";
+
+function mapFiscalPeriodRow(row: FiscalPeriodRow): FiscalPeriod {
+  return {
+    id: row.id,
+    fiscalYearId: row.fiscal_year_id,
+    periodNo: asNumber(row.period_no),
+    startDate: formatDate(row.start_date),
+    endDate: formatDate(row.end_date),
+    status: row.status,
+    closedAt: formatTimestamp(row.closed_at),
+    closedBy: row.closed_by,
+  };
+}
+
+function mapFiscalPeriodEventRow(row: FiscalPeriodEventRow): FiscalPeriodEvent {
+  return {
+    id: row.id,
+    periodId: row.period_id,
+    action: row.action,
+    reason: row.reason,
+    userId: row.user_id,
+    createdAt: formatTimestamp(row.created_at),
+  };
+}
+
+function toISODate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Splits a year starting on the first of a month into twelve monthly periods. */
+function monthlyPeriods(startDate: string) {
+  const [year, month] = startDate.split("-").map(Number);
+  return Array.from({ length: 12 }, (_, index) => ({
+    periodNo: index + 1,
+    startDate: toISODate(new Date(Date.UTC(year, month - 1 + index, 1))),
+    endDate: toISODate(new Date(Date.UTC(year, month + index, 0))),
+  }));
+}
+
+function sortPeriods(items: FiscalPeriod[]) {
+  return [...items].sort((a, b) => a.periodNo - b.periodNo);
+}
+
+export async function listFiscalYears(): Promise<FiscalYear[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const periods = [...fallbackPeriods.periods.values()];
+    return [...fallbackPeriods.years.values()]
+      .sort((a, b) => (a.startDate < b.startDate ? 1 : -1))
+      .map((year) => ({
+        ...year,
+        periods: sortPeriods(periods.filter((p) => p.fiscalYearId === year.id)),
+      }));
+  }
+  const [yearRows] = await pool.query<FiscalYearRow[]>(
+    `SELECT id, name, start_date, end_date FROM fiscal_years ORDER BY start_date DESC`,
+  );
+  const [periodRows] = await pool.query<FiscalPeriodRow[]>(
+    `SELECT ${PERIOD_COLUMNS} FROM fiscal_periods ORDER BY start_date ASC`,
+  );
+  const periods = periodRows.map(mapFiscalPeriodRow);
+  return yearRows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    startDate: formatDate(row.start_date),
+    endDate: formatDate(row.end_date),
+    periods: sortPeriods(periods.filter((p) => p.fiscalYearId === row.id)),
+  }));
+}
+
+export async function createFiscalYear(
+  input: FiscalYearCreateInput,
+  createdBy: string | null,
+): Promise<FiscalYear> {
+  if (!/^\d{4}-\d{2}-01$/.test(input.startDate)) {
+    throw new Error("A fiscal year must start on the first day of a month");
+  }
+  const ranges = monthlyPeriods(input.startDate);
+  const startDate = ranges[0].startDate;
+  const endDate = ranges[ranges.length - 1].endDate;
+  const name =
+    input.name?.trim() ||
+    (startDate.slice(0, 4) === endDate.slice(0, 4)
+      ? startDate.slice(0, 4)
+      : `${startDate.slice(0, 4)}/${endDate.slice(0, 4)}`);
+  const yearId = crypto.randomUUID();
+
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    for (const year of fallbackPeriods.years.values()) {
+      if (year.startDate <= endDate && year.endDate >= startDate) {
+        throw new Error("Fiscal year overlaps an existing year");
+      }
+    }
+    fallbackPeriods.years.set(yearId, { id: yearId, name, startDate, endDate });
+    const periods = ranges.map((range) => {
+      const period: FiscalPeriod = {
+        id: crypto.randomUUID(),
+        fiscalYearId: yearId,
+        ...range,
+        status: "open",
+        closedAt: null,
+        closedBy: null,
+      };
+      fallbackPeriods.periods.set(period.id, period);
+      return period;
+    });
+    return { id: yearId, name, startDate, endDate, periods };
+  }
+
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [overlaps] = await conn.query<FiscalYearRow[]>(
+      `SELECT id FROM fiscal_years WHERE start_date <= ? AND end_date >= ? LIMIT 1 FOR UPDATE`,
+      [endDate, startDate],
+    );
+    if (overlaps.length) {
+      throw new Error("Fiscal year overlaps an existing year");
+    }
+    await conn.query(
+      `INSERT INTO fiscal_years (id, name, start_date, end_date, created_by)
+       VALUES (?, ?, ?, ?, ?)`,
+      [yearId, name, startDate, endDate, createdBy],
+    );
+    for (const range of ranges) {
+      await conn.query(
+        `INSERT INTO fiscal_periods (id, fiscal_year_id, period_no, start_date, end_date)
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+          crypto.randomUUID(),
+          yearId,
+          range.periodNo,
+          range.startDate,
+          range.endDate,
+        ],
+      );
+    }
+    const [periodRows] = await conn.query<FiscalPeriodRow[]>(
+      `SELECT ${PERIOD_COLUMNS} FROM fiscal_periods WHERE fiscal_year_id = ?`,
+      [yearId],
+    );
+    await conn.commit();
+    return {
+      id: yearId,
+      name,
+      startDate,
+      endDate,
+      periods: sortPeriods(periodRows.map(mapFiscalPeriodRow)),
+    };
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+async function setPeriodStatus(
+  id: string,
+  status: FiscalPeriodStatus,
+  userId: string,
+  reason: string | null,
+): Promise<FiscalPeriod> {
+  const action = status === "closed" ? "close" : "reopen";
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const period = fallbackPeriods.periods.get(id);
+    if (!period) throw new Error("Fiscal period not found");
+    if (period.status === status) {
+      throw new Error(`Fiscal period is already ${status}`);
+    }
+    const updated: FiscalPeriod = {
+      ...period,
+      status,
+      closedAt: status === "closed" ? new Date().toISOString() : null,
+      closedBy: status === "closed" ? userId : null,
+    };
+    fallbackPeriods.periods.set(id, updated);
+    fallbackPeriods.events.push({
+      id: crypto.randomUUID(),
+      periodId: id,
+      action,
+      reason,
+      userId,
+      createdAt: new Date().toISOString(),
+    });
+    return updated;
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [rows] = await conn.query<FiscalPeriodRow[]>(
+      `SELECT ${PERIOD_COLUMNS} FROM fiscal_periods WHERE id = ? LIMIT 1 FOR UPDATE`,
+      [id],
+    );
+    if (!rows.length) throw new Error("Fiscal period not found");
+    if (rows[0].status === status) {
+      throw new Error(`Fiscal period is already ${status}`);
+    }
+    if (status === "closed") {
+      await conn.query(
+        `UPDATE fiscal_periods SET status = 'closed', closed_at = CURRENT_TIMESTAMP, closed_by = ? WHERE id = ?`,
+        [userId, id],
+      );
+    } else {
+      await conn.query(
+        `UPDATE fiscal_periods SET status = 'open', closed_at = NULL, closed_by = NULL WHERE id = ?`,
+        [id],
+      );
+    }
+    await conn.query(
+      `INSERT INTO fiscal_period_events (id, period_id, action, reason, user_id)
+       VALUES (?, ?, ?, ?, ?)`,
+      [crypto.randomUUID(), id, action, reason, userId],
+    );
+    const [updatedRows] = await conn.query<FiscalPeriodRow[]>(
+      `SELECT ${PERIOD_COLUMNS} FROM fiscal_periods WHERE id = ? LIMIT 1`,
+      [id],
+    );
+    await conn.commit();
+    return mapFiscalPeriodRow(updatedRows[0]);
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+export async function closePeriod(id: string, userId: string) {
+  return setPeriodStatus(id, "closed", userId, null);
+}
+
+export async function reopenPeriod(id: string, userId: string, reason: string) {
+  if (!reason.trim()) {
+    throw new Error("A reason is required to reopen a period");
+  }
+  return setPeriodStatus(id, "open", userId, reason.trim());
+}
+
+export async function listPeriodEvents(
+  periodId?: string | null,
+): Promise<FiscalPeriodEvent[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return fallbackPeriods.events
+      .filter((event) => !periodId || event.periodId === periodId)
+      .slice()
+      .reverse();
+  }
+  const [rows] = await pool.query<FiscalPeriodEventRow[]>(
+    `SELECT id, period_id, action, reason, user_id, created_at
+     FROM fiscal_period_events
+     ${periodId ? "WHERE period_id = ?" : ""}
+     ORDER BY created_at DESC`,
+    periodId ? [periodId] : [],
+  );
+  return rows.map(mapFiscalPeriodEventRow);
+}
+
+/**
+ * Rejects dates inside a closed period. Dates outside every defined fiscal
+ * year stay open so that books without a calendar keep working.
+ */
+export async function assertPeriodOpen(
+  date: string,
+  conn?: PoolConnection,
+): Promise<void> {
+  const day = date.slice(0, 10);
+  const db = conn ?? (await getInitializedMysqlPool());
+  if (!db) {
+    for (const period of fallbackPeriods.periods.values()) {
+      if (
+        period.status === "closed" &&
+        period.startDate <= day &&
+        period.endDate >= day
+      ) {
+        throw new ClosedPeriodError(day);
+      }
+    }
+    return;
+  }
+  const [rows] = await db.query<FiscalPeriodRow[]>(
+    `SELECT id FROM fiscal_periods
+     WHERE status = 'closed' AND start_date <= ? AND end_date >= ?
+     LIMIT 1`,
+    [day, day],
+  );
+  if (rows.length) throw new ClosedPeriodError(day);
+}
@@ -0,0 +1,397 @@
+import crypto from "node:crypto";
+import type { RowDataPacket } from "mysql2/promise";
+import type {
+  RecurrenceFrequency,
+  RecurringRunResult,
+  RecurringTemplate,
+  RecurringTemplateInput,
+  RecurringTemplateUpdateInput,
+  TransType,
+} from "@shared/accounting";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import { RECURRENCE_FREQUENCIES, upcomingOccurrences } from "../lib/recurrence";
+import { asBoolean, asNumber, formatDate, roundMoney } from "../lib/row-values";
+import { createTransaction } from "./accounting";
+import { recordAudit } from "./audit";
+import { assertCategoryAssignable } from "./categories";
+
+interface RecurringTemplateRow extends RowDataPacket {
+  id: string;
+  type: TransType;
+  description: string;
+  amount: number | string;
+  category_id: string | null;
+  frequency: RecurrenceFrequency;
+  repeat_every: number | string;
+  start_date: string | Date;
+  end_date: string | Date | null;
+  max_occurrences: number | string | null;
+  occurrences_created: number | string;
+  last_run_date: string | Date | null;
+  paused: number | boolean;
+  created_by: string | null;
+}
+
+const TEMPLATE_COLUMNS =
+  "id, type, description, amount, category_id, frequency, repeat_every, start_date, end_date, max_occurrences, occurrences_created, last_run_date, paused, created_by";
+
+/** How often the server looks for due occurrences. */
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+const fallbackTemplates = new Map<string, RecurringTemplate>();
+
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function withNextRun(
+  template: Omit<RecurringTemplate, "nextRunDate">,
+): RecurringTemplate {
+  return {
+    ...template,
+    nextRunDate: upcomingOccurrences(template, 1)[0] ?? null,
+  };
+}
+
+function mapTemplateRow(row: RecurringTemplateRow): RecurringTemplate {
+  return withNextRun({
+    id: row.id,
+    type: row.type,
+    description: row.description,
+    amount: asNumber(row.amount),
+    categoryId: row.category_id,
+    frequency: row.frequency,
+    interval: asNumber(row.repeat_every),
+    startDate: formatDate(row.start_date),
+    endDate: row.end_date ? formatDate(row.end_date) : null,
+    maxOccurrences:
+      row.max_occurrences === null ? null : asNumber(row.max_occurrences),
+    occurrencesCreated: asNumber(row.occurrences_created),
+    lastRunDate: row.last_run_date ? formatDate(row.last_run_date) : null,
+    paused: asBoolean(row.paused),
+    createdBy: row.created_by,
+  });
+}
+
+function normalizeInput(input: RecurringTemplateInput): RecurringTemplateInput {
+  const description = input.description.trim();
+  if (!description) throw new Error("Description is required");
+  if (!Number.isFinite(input.amount) || input.amount <= 0) {
+    throw new Error("Invalid amount");
+  }
+  if (!RECURRENCE_FREQUENCIES.includes(input.frequency)) {
+    throw new Error("Invalid frequency");
+  }
+  if (!Number.isInteger(input.interval) || input.interval < 1) {
+    throw new Error("Interval must be a positive whole number");
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.startDate)) {
+    throw new Error("Invalid start date");
+  }
+  if (input.endDate && input.endDate < input.startDate) {
+    throw new Error("End date is before the start date");
+  }
+  if (
+    input.maxOccurrences !== null &&
+    (!Number.isInteger(input.maxOccurrences) || input.maxOccurrences < 1)
+  ) {
+    throw new Error("Occurrence count must be a positive whole number");
+  }
+  return {
+    ...input,
+    description,
+    amount: roundMoney(input.amount),
+    categoryId: input.categoryId || null,
+    endDate: input.endDate || null,
+  };
+}
+
+async function getRecurringTemplate(
+  id: string,
+): Promise<RecurringTemplate | null> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return fallbackTemplates.get(id) ?? null;
+  const [rows] = await pool.query<RecurringTemplateRow[]>(
+    `SELECT ${TEMPLATE_COLUMNS} FROM recurring_templates WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  return rows.length ? mapTemplateRow(rows[0]) : null;
+}
+
+export async function listRecurringTemplates(): Promise<RecurringTemplate[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return [...fallbackTemplates.values()].sort((a, b) =>
+      a.description.localeCompare(b.description, "ar"),
+    );
+  }
+  const [rows] = await pool.query<RecurringTemplateRow[]>(
+    `SELECT ${TEMPLATE_COLUMNS} FROM recurring_templates ORDER BY description ASC`,
+  );
+  return rows.map(mapTemplateRow);
+}
+
+export async function createRecurringTemplate(
+  input: RecurringTemplateInput,
+  createdBy: string | null,
+): Promise<RecurringTemplate> {
+  const normalized = normalizeInput(input);
+  if (normalized.categoryId) {
+    await assertCategoryAssignable(normalized.categoryId, normalized.type);
+  }
+  const template = withNextRun({
+    ...normalized,
+    id: crypto.randomUUID(),
+    occurrencesCreated: 0,
+    lastRunDate: null,
+    paused: false,
+    createdBy,
+  });
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    fallbackTemplates.set(template.id, template);
+  } else {
+    await pool.query(
+      `INSERT INTO recurring_templates (id, type, description, amount, category_id, frequency, repeat_every, start_date, end_date, max_occurrences, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        template.id,
+        template.type,
+        template.description,
+        template.amount,
+        template.categoryId,
+        template.frequency,
+        template.interval,
+        template.startDate,
+        template.endDate,
+        template.maxOccurrences,
+        createdBy,
+      ],
+    );
+  }
+  await recordAudit({
+    action: "create",
+    entityType: "recurring_template",
+    entityId: template.id,
+    after: template,
+  });
+  return template;
+}
+
+/**
+ * Schedule changes apply to occurrences after the last one already created;
+ * transactions the template produced earlier are left as they are.
+ */
+export async function updateRecurringTemplate(
+  id: string,
+  input: RecurringTemplateUpdateInput,
+): Promise<RecurringTemplate> {
+  const existing = await getRecurringTemplate(id);
+  if (!existing) throw new Error("Recurring template not found");
+  const normalized = normalizeInput({
+    type: input.type ?? existing.type,
+    description: input.description ?? existing.description,
+    amount: input.amount ?? existing.amount,
+    categoryId:
+      input.categoryId === undefined ? existing.categoryId : input.categoryId,
+    frequency: input.frequency ?? existing.frequency,
+    interval: input.interval ?? existing.interval,
+    startDate: input.startDate ?? existing.startDate,
+    endDate: input.endDate === undefined ? existing.endDate : input.endDate,
+    maxOccurrences:
+      input.maxOccurrences === undefined
+        ? existing.maxOccurrences
+        : input.maxOccurrences,
+  });
+  if (
+    normalized.categoryId &&
+    (normalized.categoryId !== existing.categoryId ||
+      normalized.type !== existing.type)
+  ) {
+    await assertCategoryAssignable(normalized.categoryId, normalized.type);
+  }
+  const updated = withNextRun({
+    ...existing,
+    ...normalized,
+    paused: input.paused ?? existing.paused,
+  });
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    fallbackTemplates.set(id, updated);
+  } else {
+    await pool.query(
+      `UPDATE recurring_templates
+       SET type = ?, description = ?, amount = ?, category_id = ?, frequency = ?, repeat_every = ?,
+           start_date = ?, end_date = ?, max_occurrences = ?, paused = ?
+       WHERE id = ?`,
+      [
+        updated.type,
+        updated.description,
+        updated.amount,
+        updated.categoryId,
+        updated.frequency,
+        updated.interval,
+        updated.startDate,
+        updated.endDate,
+        updated.maxOccurrences,
+        updated.paused ? 1 : 0,
+        id,
+      ],
+    );
+  }
+  await recordAudit({
+    action: "update",
+    entityType: "recurring_template",
+    entityId: id,
+    before: existing,
+    after: updated,
+  });
+  return updated;
+}
+
+export async function previewRecurringTemplate(
+  id: string,
+  count: number,
+): Promise<string[]> {
+  const template = await getRecurringTemplate(id);
+  if (!template) throw new Error("Recurring template not found");
+  return upcomingOccurrences(template, count);
+}
+
+/**
+ * Marks `date` as taken before its transaction is created, so two servers
+ * running the schedule at once cannot both post the same occurrence.
+ */
+async function claimOccurrence(template: RecurringTemplate, date: string) {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const current = fallbackTemplates.get(template.id);
+    if (
+      !current ||
+      current.paused ||
+      current.lastRunDate !== template.lastRunDate
+    ) {
+      return false;
+    }
+    fallbackTemplates.set(
+      template.id,
+      withNextRun({
+        ...current,
+        occurrencesCreated: current.occurrencesCreated + 1,
+        lastRunDate: date,
+      }),
+    );
+    return true;
+  }
+  const [result] = await pool.query(
+    `UPDATE recurring_templates
+     SET occurrences_created = occurrences_created + 1, last_run_date = ?
+     WHERE id = ? AND paused = 0 AND last_run_date <=> ?`,
+    [date, template.id, template.lastRunDate],
+  );
+  return Boolean((result as { affectedRows?: number }).affectedRows);
+}
+
+async function releaseOccurrence(template: RecurringTemplate, date: string) {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const current = fallbackTemplates.get(template.id);
+    if (current && current.lastRunDate === date) {
+      fallbackTemplates.set(
+        template.id,
+        withNextRun({
+          ...current,
+          occurrencesCreated: current.occurrencesCreated - 1,
+          lastRunDate: template.lastRunDate,
+        }),
+      );
+    }
+    return;
+  }
+  await pool.query(
+    `UPDATE recurring_templates
+     SET occurrences_created = occurrences_created - 1, last_run_date = ?
+     WHERE id = ? AND last_run_date = ?`,
+    [template.lastRunDate, template.id, date],
+  );
+}
+
+let currentRun: Promise<RecurringRunResult> | null = null;
+
+async function materializeDueOccurrences(
+  asOf: string,
+): Promise<RecurringRunResult> {
+  const result: RecurringRunResult = { created: [], failures: [] };
+  for (const template of await listRecurringTemplates()) {
+    if (template.paused) continue;
+    let current = template;
+    for (const date of upcomingOccurrences(template, Infinity, asOf)) {
+      if (!(await claimOccurrence(current, date))) break;
+      try {
+        result.created.push(
+          await createTransaction({
+            date,
+            type: current.type,
+            description: current.description,
+            amount: current.amount,
+            approved: false,
+            createdBy: current.createdBy ?? null,
+            categoryId: current.categoryId ?? null,
+          }),
+        );
+      } catch (error) {
+        await releaseOccurrence(current, date);
+        result.failures.push({
+          templateId: current.id,
+          date,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        break;
+      }
+      current = {
+        ...current,
+        occurrencesCreated: current.occurrencesCreated + 1,
+        lastRunDate: date,
+      };
+    }
+  }
+  return result;
+}
+
+/**
+ * Creates a pending transaction for every occurrence due on or before
+ * `asOf`. Concurrent calls share the run already in progress.
+ */
+export async function runRecurringTemplates(
+  asOf = today(),
+): Promise<RecurringRunResult> {
+  if (!currentRun) {
+    currentRun = materializeDueOccurrences(asOf).finally(() => {
+      currentRun = null;
+    });
+  }
+  return currentRun;
+}
+
+let schedulerStarted = false;
+
+/** Runs due templates now and then hourly for the life of the process. */
+export function startRecurringScheduler() {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+  const run = () => {
+    runRecurringTemplates()
+      .then(({ failures }) => {
+        for (const failure of failures) {
+          // eslint-disable-next-line no-console
+          console.error("[recurring] occurrence failed", failure);
+        }
+      })
+      .catch((error) => {
+        // eslint-disable-next-line no-console
+        console.error("[recurring] scheduled run failed", error);
+      });
+  };
+  run();
+  setInterval(run, RUN_INTERVAL_MS).unref();
+}
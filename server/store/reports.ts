@@ -0,0 +1,147 @@
+import type {
+  AccountBalance,
+  AccountType,
+  BalanceSheetReport,
+  IncomeStatementReport,
+  LedgerAccount,
+  ReceivablesAgingReport,
+  TrialBalanceReport,
+} from "@shared/accounting";
+import { buildAgingReport } from "../lib/receivables-aging";
+import { roundMoney } from "../lib/row-values";
+import {
+  listOpenInstallments,
+  listProjectNames,
+  listTransactionIdsByCategory,
+} from "./accounting";
+import { listAccounts, sumAccountActivity } from "./ledger";
+
+function isDebitNormal(type: AccountType) {
+  return type === "asset" || type === "expense";
+}
+
+function sumBalances(rows: AccountBalance[]) {
+  return roundMoney(rows.reduce((total, row) => total + row.balance, 0));
+}
+
+/** Restricts a statement to the postings of one transaction category. */
+export interface StatementFilter {
+  categoryId?: string | null;
+}
+
+async function accountBalances(
+  range: { from?: string | null; to?: string | null },
+  filter: StatementFilter = {},
+): Promise<AccountBalance[]> {
+  const transactionIds = filter.categoryId
+    ? await listTransactionIdsByCategory(filter.categoryId)
+    : null;
+  const [accounts, activity] = await Promise.all([
+    listAccounts(),
+    sumAccountActivity({ ...range, transactionIds }),
+  ]);
+  const byId = new Map<string, LedgerAccount>(accounts.map((a) => [a.id, a]));
+  const rows: AccountBalance[] = [];
+  for (const item of activity) {
+    const account = byId.get(item.accountId);
+    if (!account) continue;
+    if (item.debit === 0 && item.credit === 0) continue;
+    rows.push({
+      accountId: account.id,
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      parentId: account.parentId,
+      debit: item.debit,
+      credit: item.credit,
+      balance: roundMoney(
+        isDebitNormal(account.type)
+          ? item.debit - item.credit
+          : item.credit - item.debit,
+      ),
+    });
+  }
+  return rows.sort((a, b) =>
+    a.code === b.code ? 0 : a.code < b.code ? -1 : 1,
+  );
+}
+
+export async function getTrialBalance(
+  asOf: string,
+  filter?: StatementFilter,
+): Promise<TrialBalanceReport> {
+  const rows = await accountBalances({ to: asOf }, filter);
+  const totalDebit = roundMoney(rows.reduce((t, r) => t + r.debit, 0));
+  const totalCredit = roundMoney(rows.reduce((t, r) => t + r.credit, 0));
+  return {
+    asOf,
+    rows,
+    totalDebit,
+    totalCredit,
+    balanced: totalDebit === totalCredit,
+  };
+}
+
+export async function getBalanceSheet(
+  asOf: string,
+  filter?: StatementFilter,
+): Promise<BalanceSheetReport> {
+  const rows = await accountBalances({ to: asOf }, filter);
+  const assets = rows.filter((r) => r.type === "asset");
+  const liabilities = rows.filter((r) => r.type === "liability");
+  const equity = rows.filter((r) => r.type === "equity");
+  const currentEarnings = roundMoney(
+    sumBalances(rows.filter((r) => r.type === "revenue")) -
+      sumBalances(rows.filter((r) => r.type === "expense")),
+  );
+  const totalAssets = sumBalances(assets);
+  const totalLiabilities = sumBalances(liabilities);
+  const totalEquity = roundMoney(sumBalances(equity) + currentEarnings);
+  return {
+    asOf,
+    assets,
+    liabilities,
+    equity,
+    currentEarnings,
+    totalAssets,
+    totalLiabilities,
+    totalEquity,
+    balanced: totalAssets === roundMoney(totalLiabilities + totalEquity),
+  };
+}
+
+export async function getIncomeStatement(
+  from: string,
+  to: string,
+  filter?: StatementFilter,
+): Promise<IncomeStatementReport> {
+  const rows = await accountBalances({ from, to }, filter);
+  const revenue = rows.filter((r) => r.type === "revenue");
+  const expenses = rows.filter((r) => r.type === "expense");
+  const totalRevenue = sumBalances(revenue);
+  const totalExpenses = sumBalances(expenses);
+  return {
+    from,
+    to,
+    revenue,
+    expenses,
+    totalRevenue,
+    totalExpenses,
+    netIncome: roundMoney(totalRevenue - totalExpenses),
+  };
+}
+
+/**
+ * Installment balances across all projects, aged by how long they are past
+ * due on `agingDate`. Balances are as they stand now, not as of that date.
+ * Archived projects are left out.
+ */
+export async function getReceivablesAging(
+  agingDate: string,
+): Promise<ReceivablesAgingReport> {
+  const [installments, projectNames] = await Promise.all([
+    listOpenInstallments(),
+    listProjectNames(),
+  ]);
+  return buildAgingReport(installments, projectNames, agingDate);
+}
@@ -0,0 +1,300 @@
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import type {
+  UnitReservation,
+  UnitReservationQuery,
+  UnitReservationStatus,
+} from "@shared/accounting";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import { asNumber, formatDate, formatTimestamp } from "../lib/row-values";
+import { recordAudit } from "./audit";
+import { releaseReservedUnit } from "./units";
+
+interface UnitReservationRow extends RowDataPacket {
+  id: string;
+  project_id: string;
+  unit_id: string;
+  unit_no: string;
+  buyer: string;
+  customer_id: string | null;
+  deposit: number | string;
+  date: string | Date;
+  expires_on: string | Date;
+  agent: string;
+  status: UnitReservationStatus;
+  money_account_id: string | null;
+  sale_id: string | null;
+  cancel_reason: string | null;
+  cancelled_on: string | Date | null;
+  deposit_entry_id: string | null;
+  refund_entry_id: string | null;
+  created_by: string | null;
+  created_at: string | Date | null;
+}
+
+const RESERVATION_COLUMNS =
+  "id, project_id, unit_id, unit_no, buyer, customer_id, deposit, date, expires_on, agent, status, money_account_id, sale_id, cancel_reason, cancelled_on, deposit_entry_id, refund_entry_id, created_by, created_at";
+
+/** How often active reservations are checked for expiry. */
+const EXPIRY_INTERVAL_MS = 60 * 60 * 1000;
+
+const fallbackReservations = new Map<string, UnitReservation>();
+
+function mapReservationRow(row: UnitReservationRow): UnitReservation {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    unitId: row.unit_id,
+    unitNo: row.unit_no,
+    buyer: row.buyer,
+    customerId: row.customer_id,
+    deposit: asNumber(row.deposit),
+    date: formatDate(row.date),
+    expiresOn: formatDate(row.expires_on),
+    agent: row.agent,
+    status: row.status,
+    moneyAccountId: row.money_account_id,
+    saleId: row.sale_id,
+    cancelReason: row.cancel_reason,
+    cancelledOn: row.cancelled_on ? formatDate(row.cancelled_on) : null,
+    depositEntryId: row.deposit_entry_id,
+    refundEntryId: row.refund_entry_id,
+    createdBy: row.created_by,
+    createdAt: formatTimestamp(row.created_at),
+  };
+}
+
+/** Newest first. */
+export async function listReservations(
+  query: UnitReservationQuery = {},
+  conn?: PoolConnection,
+): Promise<UnitReservation[]> {
+  const pool = conn ?? (await getInitializedMysqlPool());
+  if (!pool) {
+    return [...fallbackReservations.values()]
+      .filter(
+        (r) =>
+          (!query.projectId || r.projectId === query.projectId) &&
+          (!query.status || r.status === query.status),
+      )
+      .sort((a, b) => (a.date === b.date ? 0 : a.date > b.date ? -1 : 1));
+  }
+  const where: string[] = [];
+  const params: string[] = [];
+  if (query.projectId) {
+    where.push("project_id = ?");
+    params.push(query.projectId);
+  }
+  if (query.status) {
+    where.push("status = ?");
+    params.push(query.status);
+  }
+  const [rows] = await pool.query<UnitReservationRow[]>(
+    `SELECT ${RESERVATION_COLUMNS} FROM unit_reservations
+     ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+     ORDER BY date DESC, created_at DESC`,
+    params,
+  );
+  return rows.map(mapReservationRow);
+}
+
+export async function getReservation(id: string): Promise<UnitReservation> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return lockReservation(id);
+  const [rows] = await pool.query<UnitReservationRow[]>(
+    `SELECT ${RESERVATION_COLUMNS} FROM unit_reservations WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Reservation not found");
+  return mapReservationRow(rows[0]);
+}
+
+/** Reads a reservation, holding its row until `conn`'s transaction ends. */
+export async function lockReservation(
+  id: string,
+  conn?: PoolConnection,
+): Promise<UnitReservation> {
+  if (!conn) {
+    const reservation = fallbackReservations.get(id);
+    if (!reservation) throw new Error("Reservation not found");
+    return reservation;
+  }
+  const [rows] = await conn.query<UnitReservationRow[]>(
+    `SELECT ${RESERVATION_COLUMNS} FROM unit_reservations WHERE id = ? LIMIT 1 FOR UPDATE`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Reservation not found");
+  return mapReservationRow(rows[0]);
+}
+
+/** A project's reservations, held until `conn`'s transaction ends. */
+export async function lockProjectReservations(
+  projectId: string,
+  conn?: PoolConnection,
+): Promise<UnitReservation[]> {
+  if (!conn) return listReservations({ projectId });
+  const [rows] = await conn.query<UnitReservationRow[]>(
+    `SELECT ${RESERVATION_COLUMNS} FROM unit_reservations
+     WHERE project_id = ?
+     ORDER BY date DESC, created_at DESC
+     FOR UPDATE`,
+    [projectId],
+  );
+  return rows.map(mapReservationRow);
+}
+
+export async function insertReservation(
+  reservation: UnitReservation,
+  conn?: PoolConnection,
+): Promise<void> {
+  if (conn) {
+    await conn.query(
+      `INSERT INTO unit_reservations (id, project_id, unit_id, unit_no, buyer, customer_id, deposit, date, expires_on, agent, money_account_id, deposit_entry_id, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        reservation.id,
+        reservation.projectId,
+        reservation.unitId,
+        reservation.unitNo,
+        reservation.buyer,
+        reservation.customerId ?? null,
+        reservation.deposit,
+        reservation.date,
+        reservation.expiresOn,
+        reservation.agent,
+        reservation.moneyAccountId ?? null,
+        reservation.depositEntryId ?? null,
+        reservation.createdBy ?? null,
+      ],
+    );
+  } else {
+    fallbackReservations.set(reservation.id, reservation);
+  }
+  await recordAudit(
+    {
+      action: "create",
+      entityType: "unit_reservation",
+      entityId: reservation.id,
+      after: reservation,
+    },
+    conn,
+  );
+}
+
+/** Records a reservation's move to `updated.status`. */
+export async function saveReservationStatus(
+  existing: UnitReservation,
+  updated: UnitReservation,
+  conn?: PoolConnection,
+): Promise<UnitReservation> {
+  if (conn) {
+    await conn.query(
+      `UPDATE unit_reservations
+       SET status = ?, sale_id = ?, cancel_reason = ?, cancelled_on = ?, refund_entry_id = ?
+       WHERE id = ?`,
+      [
+        updated.status,
+        updated.saleId ?? null,
+        updated.cancelReason ?? null,
+        updated.cancelledOn ?? null,
+        updated.refundEntryId ?? null,
+        existing.id,
+      ],
+    );
+  } else {
+    fallbackReservations.set(existing.id, updated);
+  }
+  await recordAudit(
+    {
+      action: "update",
+      entityType: "unit_reservation",
+      entityId: existing.id,
+      before: existing,
+      after: updated,
+    },
+    conn,
+  );
+  return updated;
+}
+
+export async function deleteProjectReservations(
+  projectId: string,
+  conn?: PoolConnection,
+): Promise<void> {
+  if (conn) {
+    await conn.query(`DELETE FROM unit_reservations WHERE project_id = ?`, [
+      projectId,
+    ]);
+    return;
+  }
+  for (const reservation of [...fallbackReservations.values()]) {
+    if (reservation.projectId === projectId) {
+      fallbackReservations.delete(reservation.id);
+    }
+  }
+}
+
+async function expireReservation(
+  reservation: UnitReservation,
+  conn?: PoolConnection,
+) {
+  await releaseReservedUnit(reservation.unitId, reservation.projectId, conn);
+  await saveReservationStatus(
+    reservation,
+    { ...reservation, status: "expired" },
+    conn,
+  );
+}
+
+/**
+ * Releases the units of active reservations whose expiry date is before
+ * `asOf`. The deposits stay held until each reservation is cancelled.
+ */
+export async function expireReservations(
+  asOf = new Date().toISOString().slice(0, 10),
+): Promise<UnitReservation[]> {
+  const due = (await listReservations({ status: "active" })).filter(
+    (r) => r.expiresOn < asOf,
+  );
+  const pool = await getInitializedMysqlPool();
+  const expired: UnitReservation[] = [];
+  for (const candidate of due) {
+    if (!pool) {
+      await expireReservation(candidate);
+      expired.push({ ...candidate, status: "expired" });
+      continue;
+    }
+    const conn = await pool.getConnection();
+    try {
+      await conn.beginTransaction();
+      // Re-read under lock: it may have been converted meanwhile.
+      const reservation = await lockReservation(candidate.id, conn);
+      if (reservation.status === "active" && reservation.expiresOn < asOf) {
+        await expireReservation(reservation, conn);
+        expired.push({ ...reservation, status: "expired" });
+      }
+      await conn.commit();
+    } catch (error) {
+      await conn.rollback();
+      throw error;
+    } finally {
+      conn.release();
+    }
+  }
+  return expired;
+}
+
+let schedulerStarted = false;
+
+/** Expires reservations now and then hourly for the life of the process. */
+export function startReservationExpiryScheduler() {
+  if (schedulerStarted) return;
+  schedulerStarted = true;
+  const run = () => {
+    expireReservations().catch((error) => {
+      // eslint-disable-next-line no-console
+      console.error("[reservations] expiry run failed", error);
+    });
+  };
+  run();
+  setInterval(run, EXPIRY_INTERVAL_MS).unref();
+}
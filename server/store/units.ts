@@ -0,0 +1,522 @@
+import crypto from "node:crypto";
+import type { PoolConnection, RowDataPacket } from "mysql2/promise";
+import type {
+  PropertyUnit,
+  PropertyUnitGenerateInput,
+  PropertyUnitGenerateResult,
+  PropertyUnitInput,
+  PropertyUnitStatus,
+  PropertyUnitUpdateInput,
+} from "@shared/accounting";
+import { ConflictError } from "../lib/errors";
+import { getInitializedMysqlPool } from "../lib/mysql";
+import {
+  assertManualStatusChange,
+  generateUnitNumbers,
+} from "../lib/property-units";
+import { asNumber, formatTimestamp } from "../lib/row-values";
+import { recordAudit } from "./audit";
+
+interface PropertyUnitRow extends RowDataPacket {
+  id: string;
+  project_id: string;
+  unit_no: string;
+  floor: number | string | null;
+  area: number | string | null;
+  type: string | null;
+  orientation: string | null;
+  list_price: number | string | null;
+  status: PropertyUnitStatus;
+  created_at: string | Date | null;
+}
+
+const PROPERTY_UNIT_COLUMNS =
+  "id, project_id, unit_no, floor, area, type, orientation, list_price, status, created_at";
+
+const fallbackUnits = new Map<string, PropertyUnit>();
+
+function mapUnitRow(row: PropertyUnitRow): PropertyUnit {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    unitNo: row.unit_no,
+    floor: row.floor === null ? null : asNumber(row.floor),
+    area: row.area === null ? null : asNumber(row.area),
+    type: row.type,
+    orientation: row.orientation,
+    listPrice: row.list_price === null ? null : asNumber(row.list_price),
+    status: row.status,
+    createdAt: formatTimestamp(row.created_at),
+  };
+}
+
+/** Floor by floor, then by number; carried-over units without a floor last. */
+function compareUnits(a: PropertyUnit, b: PropertyUnit) {
+  if (a.floor !== b.floor) {
+    if (a.floor === null) return 1;
+    if (b.floor === null) return -1;
+    return a.floor - b.floor;
+  }
+  return a.unitNo.localeCompare(b.unitNo, undefined, { numeric: true });
+}
+
+function optionalPositive(value: number | null | undefined, label: string) {
+  if (value === null || value === undefined) return null;
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${label} must be a positive number`);
+  }
+  return value;
+}
+
+function normalizeInput(input: PropertyUnitInput) {
+  const unitNo = input.unitNo.trim();
+  if (!unitNo) throw new Error("Unit number is required");
+  if (input.floor !== null && !Number.isInteger(input.floor)) {
+    throw new Error("Floor must be a whole number");
+  }
+  return {
+    unitNo,
+    floor: input.floor,
+    area: optionalPositive(input.area, "Area"),
+    type: input.type?.trim() || null,
+    orientation: input.orientation?.trim() || null,
+    listPrice: optionalPositive(input.listPrice, "List price"),
+  };
+}
+
+function duplicateUnitNo(unitNo: string): ConflictError {
+  return new ConflictError(`Unit ${unitNo} already exists in this project`);
+}
+
+async function insertUnits(
+  projectId: string,
+  inputs: ReturnType<typeof normalizeInput>[],
+  conn: PoolConnection,
+): Promise<PropertyUnit[]> {
+  const units = inputs.map((input): PropertyUnit => ({
+    id: crypto.randomUUID(),
+    projectId,
+    ...input,
+    status: "available",
+    createdAt: new Date().toISOString(),
+  }));
+  for (const unit of units) {
+    await conn.query(
+      `INSERT INTO property_units (id, project_id, unit_no, floor, area, type, orientation, list_price)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        unit.id,
+        projectId,
+        unit.unitNo,
+        unit.floor,
+        unit.area,
+        unit.type,
+        unit.orientation,
+        unit.listPrice,
+      ],
+    );
+  }
+  return units;
+}
+
+export async function listProjectUnits(
+  projectId: string,
+): Promise<PropertyUnit[]> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    return [...fallbackUnits.values()]
+      .filter((u) => u.projectId === projectId)
+      .sort(compareUnits);
+  }
+  const [rows] = await pool.query<PropertyUnitRow[]>(
+    `SELECT ${PROPERTY_UNIT_COLUMNS} FROM property_units WHERE project_id = ?`,
+    [projectId],
+  );
+  return rows.map(mapUnitRow).sort(compareUnits);
+}
+
+async function getUnitForUpdate(
+  id: string,
+  conn?: PoolConnection,
+): Promise<PropertyUnit> {
+  if (!conn) {
+    const unit = fallbackUnits.get(id);
+    if (!unit) throw new Error("Unit not found");
+    return unit;
+  }
+  const [rows] = await conn.query<PropertyUnitRow[]>(
+    `SELECT ${PROPERTY_UNIT_COLUMNS} FROM property_units WHERE id = ? LIMIT 1 FOR UPDATE`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Unit not found");
+  return mapUnitRow(rows[0]);
+}
+
+async function saveUnitStatus(
+  unit: PropertyUnit,
+  status: PropertyUnitStatus,
+  conn?: PoolConnection,
+): Promise<PropertyUnit> {
+  const updated = { ...unit, status };
+  if (conn) {
+    await conn.query(`UPDATE property_units SET status = ? WHERE id = ?`, [
+      status,
+      unit.id,
+    ]);
+  } else {
+    fallbackUnits.set(unit.id, updated);
+  }
+  await recordAudit(
+    {
+      action: "update",
+      entityType: "property_unit",
+      entityId: unit.id,
+      before: unit,
+      after: updated,
+    },
+    conn,
+  );
+  return updated;
+}
+
+export async function getUnit(id: string): Promise<PropertyUnit> {
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return getUnitForUpdate(id);
+  const [rows] = await pool.query<PropertyUnitRow[]>(
+    `SELECT ${PROPERTY_UNIT_COLUMNS} FROM property_units WHERE id = ? LIMIT 1`,
+    [id],
+  );
+  if (!rows.length) throw new Error("Unit not found");
+  return mapUnitRow(rows[0]);
+}
+
+export async function createUnit(
+  projectId: string,
+  input: PropertyUnitInput,
+): Promise<PropertyUnit> {
+  const fields = normalizeInput(input);
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    if (
+      [...fallbackUnits.values()].some(
+        (u) => u.projectId === projectId && u.unitNo === fields.unitNo,
+      )
+    ) {
+      throw duplicateUnitNo(fields.unitNo);
+    }
+    const unit: PropertyUnit = {
+      id: crypto.randomUUID(),
+      projectId,
+      ...fields,
+      status: "available",
+      createdAt: new Date().toISOString(),
+    };
+    fallbackUnits.set(unit.id, unit);
+    await recordAudit({
+      action: "create",
+      entityType: "property_unit",
+      entityId: unit.id,
+      after: unit,
+    });
+    return unit;
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const [unit] = await insertUnits(projectId, [fields], conn);
+    await recordAudit(
+      {
+        action: "create",
+        entityType: "property_unit",
+        entityId: unit.id,
+        after: unit,
+      },
+      conn,
+    );
+    await conn.commit();
+    return unit;
+  } catch (error: any) {
+    await conn.rollback();
+    if (error?.code === "ER_DUP_ENTRY") throw duplicateUnitNo(fields.unitNo);
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/**
+ * Fills a project's inventory floor by floor. Numbers already taken, by hand
+ * or by an earlier run, are skipped so the run can be repeated safely.
+ */
+export async function generateUnits(
+  projectId: string,
+  input: PropertyUnitGenerateInput,
+): Promise<PropertyUnitGenerateResult> {
+  const numbers = generateUnitNumbers(input.floors, input.unitsPerFloor);
+  const area = optionalPositive(input.area, "Area");
+  const listPrice = optionalPositive(input.listPrice, "List price");
+  const type = input.type?.trim() || null;
+  const existing = new Set(
+    (await listProjectUnits(projectId)).map((u) => u.unitNo),
+  );
+  const fresh = numbers
+    .filter((n) => !existing.has(n.unitNo))
+    .map((n) => ({ ...n, area, type, orientation: null, listPrice }));
+  const skipped = numbers
+    .filter((n) => existing.has(n.unitNo))
+    .map((n) => n.unitNo);
+
+  const pool = await getInitializedMysqlPool();
+  if (!pool) {
+    const created = fresh.map((fields): PropertyUnit => ({
+      id: crypto.randomUUID(),
+      projectId,
+      ...fields,
+      status: "available",
+      createdAt: new Date().toISOString(),
+    }));
+    for (const unit of created) fallbackUnits.set(unit.id, unit);
+    await recordAudit({
+      action: "create",
+      entityType: "property_unit",
+      entityId: projectId,
+      after: { generated: created.length, skipped },
+    });
+    return { created, skipped };
+  }
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const created = await insertUnits(projectId, fresh, conn);
+    await recordAudit(
+      {
+        action: "create",
+        entityType: "property_unit",
+        entityId: projectId,
+        after: { generated: created.length, skipped },
+      },
+      conn,
+    );
+    await conn.commit();
+    return { created, skipped };
+  } catch (error: any) {
+    await conn.rollback();
+    if (error?.code === "ER_DUP_ENTRY") {
+      throw new ConflictError("Units were added meanwhile; generate again");
+    }
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/**
+ * Edits a unit's details. Its number is fixed once a sale or reservation
+ * refers to it, and only delivery can be recorded by hand.
+ */
+export async function updateUnit(
+  id: string,
+  input: PropertyUnitUpdateInput,
+): Promise<PropertyUnit> {
+  const apply = async (existing: PropertyUnit, conn?: PoolConnection) => {
+    const fields = normalizeInput({
+      unitNo: input.unitNo ?? existing.unitNo,
+      floor: input.floor !== undefined ? input.floor : existing.floor,
+      area: input.area !== undefined ? input.area : existing.area,
+      type: input.type !== undefined ? input.type : existing.type,
+      orientation:
+        input.orientation !== undefined
+          ? input.orientation
+          : existing.orientation,
+      listPrice:
+        input.listPrice !== undefined ? input.listPrice : existing.listPrice,
+    });
+    const status = input.status ?? existing.status;
+    assertManualStatusChange(existing.status, status);
+    if (fields.unitNo !== existing.unitNo && existing.status !== "available") {
+      throw new ConflictError(
+        "The number of a reserved or sold unit cannot be changed",
+      );
+    }
+    const updated: PropertyUnit = { ...existing, ...fields, status };
+    if (conn) {
+      await conn.query(
+        `UPDATE property_units
+         SET unit_no = ?, floor = ?, area = ?, type = ?, orientation = ?, list_price = ?, status = ?
+         WHERE id = ?`,
+        [
+          updated.unitNo,
+          updated.floor,
+          updated.area,
+          updated.type,
+          updated.orientation,
+          updated.listPrice,
+          updated.status,
+          id,
+        ],
+      );
+    } else {
+      if (
+        [...fallbackUnits.values()].some(
+          (u) =>
+            u.id !== id &&
+            u.projectId === updated.projectId &&
+            u.unitNo === updated.unitNo,
+        )
+      ) {
+        throw duplicateUnitNo(updated.unitNo);
+      }
+      fallbackUnits.set(id, updated);
+    }
+    await recordAudit(
+      {
+        action: "update",
+        entityType: "property_unit",
+        entityId: id,
+        before: existing,
+        after: updated,
+      },
+      conn,
+    );
+    return updated;
+  };
+
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return apply(await getUnitForUpdate(id));
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    const updated = await apply(await getUnitForUpdate(id, conn), conn);
+    await conn.commit();
+    return updated;
+  } catch (error: any) {
+    await conn.rollback();
+    if (error?.code === "ER_DUP_ENTRY") {
+      throw duplicateUnitNo(input.unitNo ?? "");
+    }
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+/** Only units nobody has reserved or bought can be removed. */
+export async function deleteUnit(id: string): Promise<void> {
+  const apply = async (unit: PropertyUnit, conn?: PoolConnection) => {
+    if (unit.status !== "available") {
+      throw new ConflictError("Only available units can be deleted");
+    }
+    if (conn) {
+      await conn.query(`DELETE FROM property_units WHERE id = ?`, [id]);
+    } else {
+      fallbackUnits.delete(id);
+    }
+    await recordAudit(
+      {
+        action: "delete",
+        entityType: "property_unit",
+        entityId: id,
+        before: unit,
+      },
+      conn,
+    );
+  };
+
+  const pool = await getInitializedMysqlPool();
+  if (!pool) return apply(await getUnitForUpdate(id));
+  const conn = await pool.getConnection();
+  try {
+    await conn.beginTransaction();
+    await apply(await getUnitForUpdate(id, conn), conn);
+    await conn.commit();
+  } catch (error) {
+    await conn.rollback();
+    throw error;
+  } finally {
+    conn.release();
+  }
+}
+
+async function changeUnitStatus(
+  unitId: string,
+  projectId: string,
+  from: PropertyUnitStatus,
+  to: PropertyUnitStatus,
+  conn?: PoolConnection,
+): Promise<PropertyUnit> {
+  const unit = await getUnitForUpdate(unitId, conn);
+  if (unit.projectId !== projectId) {
+    throw new Error("Unit belongs to another project");
+  }
+  if (unit.status !== from) {
+    throw new ConflictError(`Unit ${unit.unitNo} is ${unit.status}`);
+  }
+  return saveUnitStatus(unit, to, conn);
+}
+
+/**
+ * Takes a unit of the project off the market for a sale: an available one,
+ * or with `reserved` the one a converted reservation holds. The row stays
+ * locked until the sale's transaction ends, so two clerks cannot sell the
+ * same unit.
+ */
+export async function claimUnitForSale(
+  unitId: string,
+  projectId: string,
+  conn?: PoolConnection,
+  reserved = false,
+): Promise<PropertyUnit> {
+  return changeUnitStatus(
+    unitId,
+    projectId,
+    reserved ? "reserved" : "available",
+    "sold",
+    conn,
+  );
+}
+
+export async function reserveUnit(
+  unitId: string,
+  projectId: string,
+  conn?: PoolConnection,
+): Promise<PropertyUnit> {
+  return changeUnitStatus(unitId, projectId, "available", "reserved", conn);
+}
+
+/** Puts a reserved unit back on the market when its reservation ends. */
+export async function releaseReservedUnit(
+  unitId: string,
+  projectId: string,
+  conn?: PoolConnection,
+): Promise<PropertyUnit> {
+  return changeUnitStatus(unitId, projectId, "reserved", "available", conn);
+}
+
+/** Puts a unit back on the market when its sale moves to another unit. */
+export async function releaseSoldUnit(
+  unitId: string,
+  conn?: PoolConnection,
+): Promise<PropertyUnit> {
+  const unit = await getUnitForUpdate(unitId, conn);
+  if (unit.status === "delivered") {
+    throw new ConflictError(
+      `Unit ${unit.unitNo} was delivered and cannot be released`,
+    );
+  }
+  return saveUnitStatus(unit, "available", conn);
+}
+
+export async function deleteProjectUnits(
+  projectId: string,
+  conn?: PoolConnection,
+): Promise<void> {
+  if (conn) {
+    await conn.query(`DELETE FROM property_units WHERE project_id = ?`, [
+      projectId,
+    ]);
+    return;
+  }
+  for (const unit of [...fallbackUnits.values()]) {
+    if (unit.projectId === projectId) fallbackUnits.delete(unit.id);
+  }
+}
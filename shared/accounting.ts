@@ -1,5 +1,12 @@
 export type TransType = "revenue" | "expense";
 
+export type AccountType =
+  "asset" | "liability" | "equity" | "revenue" | "expense";
+
+/** What produced a transaction; `manual` covers entries typed in directly. */
+export type TransactionSourceType =
+  "sale" | "cost" | "movement" | "installment" | "manual";
+
 export interface Transaction {
   id: string;
   date: string;
@@ -9,6 +16,333 @@ export interface Transaction {
   approved: boolean;
   createdBy?: string | null;
   createdAt?: string | null;
+  /** Set on a reversing transaction: the id of the transaction it cancels. */
+  reversalOf?: string | null;
+  /** Set on a reversed transaction: the id of its reversing transaction. */
+  reversedBy?: string | null;
+  reversalReason?: string | null;
+  sourceType: TransactionSourceType;
+  /** Id of the sale, cost, movement or installment; null for manual entries. */
+  sourceId?: string | null;
+  /** `approved` mirrors "approved"; rejected rows wait for a resubmit. */
+  approvalStatus: TransactionApprovalStatus;
+  rejectionReason?: string | null;
+  rejectedAt?: string | null;
+  categoryId?: string | null;
+  /** Cash box or bank account the money moved through; null for none. */
+  moneyAccountId?: string | null;
+}
+
+export type MoneyAccountKind = "cash" | "bank";
+
+/**
+ * A cash box or bank account. Each one owns a ledger sub-account under cash,
+ * so its balance is whatever the posted journal says, opening balance
+ * included. The opening balance is fixed once created; later corrections go
+ * through the journal.
+ */
+export interface MoneyAccount {
+  id: string;
+  name: string;
+  kind: MoneyAccountKind;
+  bankName?: string | null;
+  accountNumber?: string | null;
+  openingBalance: number;
+  openingDate: string;
+  ledgerAccountId: string;
+  active: boolean;
+  balance: number;
+}
+
+export type MoneyAccountCreateInput = Pick<
+  MoneyAccount,
+  | "name"
+  | "kind"
+  | "bankName"
+  | "accountNumber"
+  | "openingBalance"
+  | "openingDate"
+>;
+
+export type MoneyAccountUpdateInput = Partial<
+  Pick<MoneyAccount, "name" | "bankName" | "accountNumber" | "active">
+>;
+
+/** Moves money between two accounts; never touches revenue or expense. */
+export interface MoneyTransfer {
+  id: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  date: string;
+  note?: string | null;
+  createdBy?: string | null;
+  createdAt?: string | null;
+}
+
+export type MoneyTransferInput = Pick<
+  MoneyTransfer,
+  "fromAccountId" | "toAccountId" | "amount" | "date" | "note"
+>;
+
+export interface MoneyAccountStatementLine {
+  entryId: string;
+  date: string;
+  description: string;
+  transactionId: string | null;
+  debit: number;
+  credit: number;
+  /** Running balance after this line. */
+  balance: number;
+}
+
+export interface MoneyAccountStatement {
+  account: MoneyAccount;
+  from: string | null;
+  to: string | null;
+  /** Balance carried in from before `from`. */
+  openingBalance: number;
+  lines: MoneyAccountStatementLine[];
+  closingBalance: number;
+}
+
+export type BankStatementFormat = "csv" | "ofx" | "mt940";
+
+/**
+ * Where each field sits in a CSV export. Columns are header names, or
+ * 1-based positions when the file has no header row. Either `amount`
+ * (signed, deposits positive) or both `debit` and `credit` must be set.
+ */
+export interface CsvColumnMapping {
+  date: string;
+  description: string;
+  amount?: string | null;
+  debit?: string | null;
+  credit?: string | null;
+  reference?: string | null;
+  balance?: string | null;
+  /** Field order of the date column, e.g. "DD/MM/YYYY"; ISO when omitted. */
+  dateFormat?: string | null;
+  delimiter?: string | null;
+  hasHeader?: boolean;
+}
+
+export type BankStatementLineStatus =
+  "unmatched" | "matched" | "created" | "ignored";
+
+export interface BankStatementLine {
+  id: string;
+  importId: string;
+  moneyAccountId: string;
+  date: string;
+  /** Signed from the bank's side: deposits positive, withdrawals negative. */
+  amount: number;
+  description: string;
+  reference?: string | null;
+  status: BankStatementLineStatus;
+  /** The book transaction this line was matched to or created as. */
+  transactionId?: string | null;
+  resolvedBy?: string | null;
+  resolvedAt?: string | null;
+}
+
+export interface BankStatementImport {
+  id: string;
+  moneyAccountId: string;
+  format: BankStatementFormat;
+  fileName?: string | null;
+  /** Closing balance the bank reported, when the file carries one. */
+  closingBalance?: number | null;
+  closingDate?: string | null;
+  importedBy?: string | null;
+  importedAt?: string | null;
+}
+
+export interface BankStatementImportInput {
+  format: BankStatementFormat;
+  content: string;
+  fileName?: string | null;
+  mapping?: CsvColumnMapping | null;
+}
+
+export interface BankStatementImportResult {
+  import: BankStatementImport;
+  lines: BankStatementLine[];
+  /** Lines already imported earlier and skipped this time. */
+  duplicates: number;
+  autoMatched: number;
+}
+
+/** Book balance against the bank's, with whatever explains the gap. */
+export interface BankReconciliationReport {
+  account: MoneyAccount;
+  asOf: string;
+  bookBalance: number;
+  /**
+   * The closing balance of the latest statement up to `asOf`; without one,
+   * the opening balance plus every imported line.
+   */
+  bankBalance: number;
+  bankBalanceReported: boolean;
+  difference: number;
+  /** Bank lines not yet matched, created or ignored. */
+  unreconciledLines: BankStatementLine[];
+  /** Posted book transactions on the account no bank line accounts for. */
+  outstandingTransactions: Transaction[];
+}
+
+/**
+ * Managed classification of transactions for reporting. Categories are never
+ * removed, only deactivated, so past rows keep their label.
+ */
+export interface TransactionCategory {
+  id: string;
+  code: string;
+  name: string;
+  /** Restricts the category to revenue or expense rows; null allows both. */
+  type: TransType | null;
+  /** Description keywords the backfill matches to suggest this category. */
+  keywords: string[];
+  active: boolean;
+}
+
+export type TransactionCategoryInput = Omit<
+  TransactionCategory,
+  "id" | "active"
+>;
+
+export type TransactionCategoryUpdateInput = Partial<
+  Omit<TransactionCategory, "id" | "code">
+>;
+
+export interface CategorySuggestion {
+  transaction: Transaction;
+  categoryId: string;
+}
+
+export interface CategoryAssignment {
+  transactionId: string;
+  categoryId: string;
+}
+
+export interface CategoryBackfillResult {
+  /** Rows that were still uncategorized and received a category. */
+  updated: number;
+}
+
+export type TransactionApprovalStatus = "pending" | "approved" | "rejected";
+
+/** The role that must sign an approval step; managers may sign any step. */
+export type ApprovalLevel = "accountant" | "manager";
+
+/**
+ * Transactions whose absolute amount is at least `minAmount` need one
+ * approval per entry of `levels`, in order, each from a different user. The
+ * matching rule with the highest threshold wins; a rule for a specific type
+ * beats a rule for any type at the same threshold.
+ */
+export interface ApprovalRule {
+  id: string;
+  type: TransType | null;
+  minAmount: number;
+  levels: ApprovalLevel[];
+}
+
+export type ApprovalRuleInput = Omit<ApprovalRule, "id">;
+
+export interface ApprovalDecision {
+  id: string;
+  transactionId: string;
+  decision: "approve" | "reject" | "resubmit";
+  level?: ApprovalLevel | null;
+  userId?: string | null;
+  reason?: string | null;
+  createdAt: string;
+}
+
+export interface TransactionBatchInput {
+  ids: string[];
+  decision: "approve" | "reject";
+  /** Required when rejecting; applied to every ID. */
+  reason?: string | null;
+}
+
+export interface TransactionBatchItemResult {
+  id: string;
+  ok: boolean;
+  error?: string | null;
+  transaction?: Transaction | null;
+}
+
+/** `applied` is false when any ID failed, in which case nothing was written. */
+export interface TransactionBatchResult {
+  applied: boolean;
+  results: TransactionBatchItemResult[];
+}
+
+export interface ApprovalInboxItem {
+  transaction: Transaction;
+  levels: ApprovalLevel[];
+  /** Approvals collected since the last rejection or resubmission. */
+  approvals: ApprovalDecision[];
+  nextLevel: ApprovalLevel;
+}
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly";
+
+/**
+ * Template the scheduler turns into pending transactions: one every
+ * `interval` units of `frequency` counted from `startDate`, until `endDate`
+ * or `maxOccurrences` ends the schedule. Monthly and yearly occurrences keep
+ * the start day, falling back to the month's last day when it is shorter.
+ */
+export interface RecurringTemplate {
+  id: string;
+  type: TransType;
+  description: string;
+  amount: number;
+  categoryId?: string | null;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate: string | null;
+  maxOccurrences: number | null;
+  occurrencesCreated: number;
+  /** Date of the latest occurrence turned into a transaction. */
+  lastRunDate: string | null;
+  /** Null once the schedule has ended. */
+  nextRunDate: string | null;
+  paused: boolean;
+  createdBy?: string | null;
+}
+
+export type RecurringTemplateInput = Pick<
+  RecurringTemplate,
+  | "type"
+  | "description"
+  | "amount"
+  | "categoryId"
+  | "frequency"
+  | "interval"
+  | "startDate"
+  | "endDate"
+  | "maxOccurrences"
+>;
+
+export type RecurringTemplateUpdateInput = Partial<
+  RecurringTemplateInput & { paused: boolean }
+>;
+
+export interface RecurringRunFailure {
+  templateId: string;
+  date: string;
+  error: string;
+}
+
+export interface RecurringRunResult {
+  created: Transaction[];
+  /** A failing template stops at that occurrence and is retried next run. */
+  failures: RecurringRunFailure[];
 }
 
 export interface InventoryItem {
@@ -38,13 +372,132 @@ export interface Project {
   floors: number;
   units: number;
   createdAt: string;
+  /** Set when the project was retired instead of deleted. */
+  archivedAt?: string | null;
+}
+
+/**
+ * `reserved` and `sold` are set by reservations and sales; a sold unit is
+ * marked `delivered` by hand once the buyer takes the keys.
+ */
+export type PropertyUnitStatus =
+  "available" | "reserved" | "sold" | "delivered";
+
+export interface PropertyUnit {
+  id: string;
+  projectId: string;
+  unitNo: string;
+  /** Null for units carried over from sales recorded before the inventory. */
+  floor: number | null;
+  area?: number | null;
+  type?: string | null;
+  orientation?: string | null;
+  listPrice?: number | null;
+  status: PropertyUnitStatus;
+  createdAt?: string | null;
+}
+
+export type PropertyUnitInput = Pick<PropertyUnit, "unitNo" | "floor"> &
+  Partial<Pick<PropertyUnit, "area" | "type" | "orientation" | "listPrice">>;
+
+export type PropertyUnitUpdateInput = Partial<PropertyUnitInput> & {
+  status?: PropertyUnitStatus;
+};
+
+/** Numbers units `<floor><nn>` (101, 102, …) for every floor from 1. */
+export interface PropertyUnitGenerateInput {
+  floors: number;
+  unitsPerFloor: number;
+  area?: number | null;
+  type?: string | null;
+  listPrice?: number | null;
+}
+
+export interface PropertyUnitGenerateResult {
+  created: PropertyUnit[];
+  /** Numbers that already existed in the project and were left alone. */
+  skipped: string[];
+}
+
+/**
+ * `expired` reservations have released their unit but still hold the
+ * deposit until they are cancelled and refunded.
+ */
+export type UnitReservationStatus =
+  "active" | "expired" | "converted" | "cancelled";
+
+export interface UnitReservation {
+  id: string;
+  projectId: string;
+  unitId: string;
+  unitNo: string;
+  buyer: string;
+  customerId?: string | null;
+  deposit: number;
+  date: string;
+  expiresOn: string;
+  /** The sales agent who took the reservation. */
+  agent: string;
+  status: UnitReservationStatus;
+  moneyAccountId?: string | null;
+  saleId?: string | null;
+  cancelReason?: string | null;
+  cancelledOn?: string | null;
+  /** Journal entry that took the deposit into customer deposits. */
+  depositEntryId?: string | null;
+  /** Journal entry that paid the deposit back, once cancelled. */
+  refundEntryId?: string | null;
+  createdBy?: string | null;
+  createdAt?: string | null;
+}
+
+export interface UnitReservationCreateInput {
+  projectId: string;
+  unitId: string;
+  buyer: string;
+  customerId?: string | null;
+  deposit: number;
+  date: string;
+  expiresOn: string;
+  agent: string;
+  moneyAccountId?: string | null;
+  createdBy?: string | null;
+}
+
+/** Refunds the deposit, from `moneyAccountId` when given. */
+export interface UnitReservationCancelInput {
+  date: string;
+  reason: string;
+  moneyAccountId?: string | null;
+}
+
+export interface UnitReservationQuery {
+  projectId?: string | null;
+  status?: UnitReservationStatus | null;
+}
+
+/**
+ * Deposits are not revenue and refunds are not expenses, so both are posted
+ * as journal entries only, with no flat transaction.
+ */
+export interface UnitReservationResult {
+  reservation: UnitReservation;
+  /** The deposit receipt, or the refund when cancelling. */
+  entry: JournalEntry;
+}
+
+export interface ProjectDeleteResult {
+  /**
+   * `deleted` when nothing approved referenced the project; `archived` when
+   * approved postings existed and were reversed instead.
+   */
+  outcome: "deleted" | "archived";
+  reversed: Transaction[];
+  removedTransactionIds: string[];
 }
 
 export type ProjectCostType =
-  | "construction"
-  | "operation"
-  | "expense"
-  | "other";
+  "construction" | "operation" | "expense" | "other";
 
 export interface ProjectCost {
   id: string;
@@ -56,6 +509,9 @@ export interface ProjectCost {
   note: string;
 }
 
+/** `fee` installments bill the buyer for charges outside the sale price. */
+export type InstallmentKind = "plan" | "fee";
+
 export interface Installment {
   id: string;
   projectId: string;
@@ -64,15 +520,265 @@ export interface Installment {
   buyer: string;
   amount: number;
   dueDate: string;
+  kind: InstallmentKind;
+  /** Total applied by payments so far; `paid` once it reaches `amount`. */
+  paidAmount: number;
   paid: boolean;
   paidAt?: string | null;
 }
 
+export interface InstallmentAllocation {
+  installmentId: string;
+  amount: number;
+}
+
+export type InstallmentFrequency =
+  "monthly" | "quarterly" | "semiannual" | "annual";
+
+/** One dated amount in a payment plan. */
+export interface InstallmentPlanEntry {
+  dueDate: string;
+  amount: number;
+}
+
+/**
+ * How the price of a sale is collected: a down payment, an optional run of
+ * regular installments and any fixed-date payments such as a balloon due on
+ * delivery. A plan with only `fixedPayments` is a fully custom schedule.
+ */
+export interface InstallmentPlan {
+  downPayment?: number | null;
+  frequency?: InstallmentFrequency | null;
+  /** Number of regular installments; none when 0 or omitted. */
+  count?: number | null;
+  /** Defaults to one period after the sale date. */
+  firstDueDate?: string | null;
+  /** Months the first regular installment is pushed back by. */
+  graceMonths?: number | null;
+  /**
+   * Amount of each regular installment. When omitted, whatever the down
+   * payment and fixed payments leave of the price is split evenly.
+   */
+  installmentAmount?: number | null;
+  fixedPayments?: InstallmentPlanEntry[] | null;
+}
+
+export interface InstallmentPlanPreviewInput {
+  price: number;
+  date: string;
+  plan: InstallmentPlan;
+}
+
+export interface InstallmentPlanPreview {
+  downPayment: number;
+  /** Every installment in due-date order. */
+  entries: InstallmentPlanEntry[];
+  /** Sum of `entries`, i.e. the price less the down payment. */
+  scheduledTotal: number;
+}
+
+/**
+ * Money received from a buyer against a sale, spread over one or more of its
+ * installments. It posts a single revenue transaction.
+ */
+export interface InstallmentPayment {
+  id: string;
+  /** Number printed on the receipt voucher (سند قبض); never reused. */
+  receiptNo: number;
+  projectId: string;
+  saleId: string;
+  date: string;
+  amount: number;
+  transactionId: string;
+  moneyAccountId?: string | null;
+  allocations: InstallmentAllocation[];
+  /** Set when the transaction was reversed or deleted. */
+  reversed: boolean;
+  /** Client-chosen key; a retried request with it returns this payment. */
+  idempotencyKey?: string | null;
+  createdBy?: string | null;
+  createdAt?: string | null;
+}
+
+/** Without `allocations` the amount goes to the oldest due installments first. */
+export interface InstallmentPaymentInput {
+  amount: number;
+  date?: string | null;
+  moneyAccountId?: string | null;
+  allocations?: InstallmentAllocation[] | null;
+  idempotencyKey?: string | null;
+}
+
+export interface InstallmentPaymentResult {
+  payment: InstallmentPayment;
+  installments: Installment[];
+  transaction: Transaction;
+  /** True when an earlier request with the same key already recorded it. */
+  replayed?: boolean;
+}
+
+export type ChequeStatus = "received" | "deposited" | "cleared" | "bounced";
+
+/**
+ * A post-dated cheque handed over for an installment. It stays off the books
+ * until it clears; only then is the installment paid.
+ */
+export interface Cheque {
+  id: string;
+  installmentId: string;
+  projectId: string;
+  unitNo: string;
+  buyer: string;
+  number: string;
+  bank: string;
+  amount: number;
+  dueDate: string;
+  status: ChequeStatus;
+  receivedAt: string;
+  /** The bank account the cheque was deposited into. */
+  moneyAccountId?: string | null;
+  depositedAt?: string | null;
+  clearedAt?: string | null;
+  /** The installment payment posted when the cheque cleared. */
+  transactionId?: string | null;
+  bouncedAt?: string | null;
+  bounceReason?: string | null;
+  /** Installment raised to charge the buyer for the bounce. */
+  feeInstallmentId?: string | null;
+  createdBy?: string | null;
+}
+
+export interface ChequeCreateInput {
+  installmentId: string;
+  number: string;
+  bank: string;
+  dueDate: string;
+  receivedAt?: string | null;
+}
+
+export interface ChequeBounceInput {
+  reason: string;
+  date?: string | null;
+  fee?: number | null;
+}
+
+export interface ChequeQuery {
+  status?: ChequeStatus | null;
+  projectId?: string | null;
+}
+
+export interface ChequeActionResult {
+  cheque: Cheque;
+  installment?: Installment;
+  transaction?: Transaction;
+  feeInstallment?: Installment | null;
+}
+
+/** `flat` charges `amount` per month overdue; `percent` charges that share of what is still owed. */
+export type LateFeeMode = "flat" | "percent";
+
+/**
+ * How overdue plan installments are penalised. A month of lateness starts
+ * counting once `graceDays` have passed after the due date, and each month
+ * started is charged once.
+ */
+export interface LateFeePolicy {
+  enabled: boolean;
+  mode: LateFeeMode;
+  amount: number;
+  graceDays: number;
+  updatedBy?: string | null;
+  updatedAt?: string | null;
+}
+
+export type LateFeePolicyInput = Pick<
+  LateFeePolicy,
+  "enabled" | "mode" | "amount" | "graceDays"
+>;
+
+export type LateFeeStatus = "charged" | "waived";
+
+/** One month of lateness on one installment, billed as a fee installment. */
+export interface LateFee {
+  id: string;
+  installmentId: string;
+  projectId: string;
+  saleId: string;
+  unitNo: string;
+  buyer: string;
+  /** 1 for the first month overdue, 2 for the second, and so on. */
+  period: number;
+  periodStart: string;
+  amount: number;
+  /** The `fee` installment the buyer owes; cleared when waived. */
+  feeInstallmentId: string | null;
+  status: LateFeeStatus;
+  chargedAt: string;
+  waiveReason?: string | null;
+  waivedBy?: string | null;
+  waivedAt?: string | null;
+}
+
+export interface LateFeeQuery {
+  projectId?: string | null;
+  status?: LateFeeStatus | null;
+}
+
+export interface LateFeeWaiveInput {
+  reason: string;
+  date?: string | null;
+}
+
+export interface LateFeeAccrualResult {
+  charged: LateFee[];
+  failures: { installmentId: string; error: string }[];
+}
+
+/**
+ * Replaces what is still owed on a sale's plan installments with a new
+ * schedule. `plan` is expanded like a sale plan for the outstanding balance,
+ * so it cannot carry a down payment.
+ */
+export interface InstallmentRescheduleInput {
+  plan: InstallmentPlan;
+  reason: string;
+  date?: string | null;
+}
+
+/** A schedule change, with the installments as they stood before it. */
+export interface InstallmentReschedule {
+  id: string;
+  projectId: string;
+  saleId: string;
+  date: string;
+  reason: string;
+  previous: Installment[];
+  replacement: Installment[];
+  createdBy?: string | null;
+  createdAt?: string | null;
+}
+
+export interface InstallmentRescheduleResult {
+  reschedule: InstallmentReschedule;
+  /** The sale's installments after the change. */
+  installments: Installment[];
+  /** Installments that no longer exist. */
+  removedIds: string[];
+}
+
 export interface ProjectSale {
   id: string;
   projectId: string;
   unitNo: string;
+  /** The customer's name at the time of the sale, kept for display. */
   buyer: string;
+  customerId?: string | null;
+  /** The inventory unit sold; absent on sales recorded before units existed. */
+  unitId?: string | null;
+  /** Set when the sale was converted from a reservation. */
+  reservationId?: string | null;
+  /** The reservation deposit counted toward the down payment. */
+  depositApplied?: number;
   price: number;
   date: string;
   terms?: string | null;
@@ -80,11 +786,63 @@ export interface ProjectSale {
   paymentMethod?: string | null;
 }
 
+export interface Customer {
+  id: string;
+  name: string;
+  nationalId?: string | null;
+  phones: string[];
+  address?: string | null;
+  createdAt?: string | null;
+  updatedAt?: string | null;
+}
+
+export interface CustomerInput {
+  name: string;
+  nationalId?: string | null;
+  phones?: string[];
+  address?: string | null;
+}
+
+export interface CustomerStatementSale extends ProjectSale {
+  projectName: string;
+  installments: Installment[];
+  payments: InstallmentPayment[];
+  /** Still owed on the sale's installments. */
+  balance: number;
+}
+
+export interface CustomerStatementLine {
+  date: string;
+  saleId: string;
+  description: string;
+  /** Receipt voucher number for payments. */
+  receiptNo?: number | null;
+  debit: number;
+  credit: number;
+  /** Running balance after this line. */
+  balance: number;
+}
+
+/** Everything a customer bought and paid across projects. */
+export interface CustomerStatement {
+  customer: Customer;
+  asOf: string;
+  sales: CustomerStatementSale[];
+  lines: CustomerStatementLine[];
+  totalDebit: number;
+  totalCredit: number;
+  balance: number;
+  /** Part of the balance that fell due before `asOf`. */
+  overdue: number;
+}
+
 export interface ProjectSnapshot {
   project: Project;
   costs: ProjectCost[];
   sales: ProjectSale[];
   installments: Installment[];
+  payments: InstallmentPayment[];
+  units: PropertyUnit[];
 }
 
 export interface AccountingSnapshot {
@@ -103,6 +861,31 @@ export interface TransactionCreateInput {
   amount: number;
   approved: boolean;
   createdBy?: string | null;
+  categoryId?: string | null;
+  moneyAccountId?: string | null;
+}
+
+export interface TransactionReverseInput {
+  reason: string;
+  /** Defaults to today; the original date may already be in a closed period. */
+  date?: string | null;
+}
+
+export interface TransactionReverseResult {
+  original: Transaction;
+  reversal: Transaction;
+}
+
+export type TransactionSourceDocument =
+  | { type: "sale"; sale: ProjectSale }
+  | { type: "cost"; cost: ProjectCost }
+  | { type: "movement"; movement: Movement }
+  | { type: "installment"; installment: Installment };
+
+export interface TransactionSourceResult {
+  transaction: Transaction;
+  /** Null for manual entries or when the source row no longer exists. */
+  document: TransactionSourceDocument | null;
 }
 
 export interface InventoryItemCreateInput {
@@ -121,6 +904,7 @@ export interface InventoryReceiptInput {
   date: string;
   approved: boolean;
   createdBy?: string | null;
+  moneyAccountId?: string | null;
 }
 
 export interface InventoryIssueInput {
@@ -157,6 +941,7 @@ export interface ProjectCostCreateInput {
   note: string;
   approved: boolean;
   createdBy?: string | null;
+  moneyAccountId?: string | null;
 }
 
 export interface ProjectCostCreateResult {
@@ -169,17 +954,29 @@ export interface ProjectSaleCreateInput {
   projectName: string;
   unitNo: string;
   buyer: string;
+  /** Links the sale to a customer; `buyer` is then taken from its name. */
+  customerId?: string | null;
+  /** The unit being sold; `unitNo` is then taken from it. */
+  unitId?: string | null;
+  /**
+   * Converts this reservation: its unit is sold and its deposit is part of
+   * the down payment (or of the price, for a cash sale).
+   */
+  reservationId?: string | null;
   price: number;
   date: string;
   terms?: string | null;
   area?: string | null;
   paymentMethod?: string | null;
   downPayment?: number | null;
+  /** Equal monthly installments; superseded by `plan` when both are sent. */
   monthlyAmount?: number | null;
   months?: number | null;
   firstDueDate?: string | null;
+  plan?: InstallmentPlan | null;
   approved: boolean;
   createdBy?: string | null;
+  moneyAccountId?: string | null;
 }
 
 export interface ProjectSaleCreateResult {
@@ -187,3 +984,280 @@ export interface ProjectSaleCreateResult {
   transaction: Transaction;
   installments?: Installment[];
 }
+
+/** `categoryId` alone may also be changed on approved transactions. */
+export type TransactionUpdateInput = Partial<
+  Pick<
+    Transaction,
+    "date" | "type" | "description" | "amount" | "categoryId" | "moneyAccountId"
+  >
+>;
+
+export type ProjectUpdateInput = Partial<
+  Pick<Project, "name" | "location" | "floors" | "units">
+>;
+
+/** Quantities only change through receipts and issues. */
+export type InventoryItemUpdateInput = Partial<
+  Pick<InventoryItem, "name" | "unit" | "min">
+>;
+
+export type ProjectCostUpdateInput = Partial<
+  Pick<ProjectCost, "type" | "customTypeLabel" | "amount" | "date" | "note">
+>;
+
+export type ProjectSaleUpdateInput = Partial<
+  Pick<
+    ProjectSale,
+    | "unitNo"
+    | "buyer"
+    | "customerId"
+    | "unitId"
+    | "price"
+    | "date"
+    | "terms"
+    | "area"
+    | "paymentMethod"
+  >
+>;
+
+export interface ProjectCostUpdateResult {
+  cost: ProjectCost;
+  /** The generated transaction after syncing, if the cost has one. */
+  transaction: Transaction | null;
+}
+
+export interface ProjectSaleUpdateResult {
+  sale: ProjectSale;
+  transaction: Transaction | null;
+}
+
+export interface LedgerAccount {
+  id: string;
+  code: string;
+  name: string;
+  type: AccountType;
+  parentId: string | null;
+  active: boolean;
+  system: boolean;
+}
+
+export interface JournalLine {
+  id: string;
+  entryId: string;
+  accountId: string;
+  accountCode: string;
+  accountName: string;
+  debit: number;
+  credit: number;
+  memo?: string | null;
+}
+
+export interface JournalEntry {
+  id: string;
+  date: string;
+  description: string;
+  transactionId: string | null;
+  posted: boolean;
+  createdBy?: string | null;
+  createdAt?: string | null;
+  lines: JournalLine[];
+}
+
+export interface LedgerAccountCreateInput {
+  code: string;
+  name: string;
+  type: AccountType;
+  parentId?: string | null;
+}
+
+export interface JournalLineInput {
+  accountCode: string;
+  debit?: number;
+  credit?: number;
+  memo?: string | null;
+}
+
+export interface JournalEntryCreateInput {
+  date: string;
+  description: string;
+  transactionId?: string | null;
+  posted: boolean;
+  createdBy?: string | null;
+  lines: JournalLineInput[];
+}
+
+export interface JournalQuery {
+  from?: string | null;
+  to?: string | null;
+  accountId?: string | null;
+  transactionId?: string | null;
+  postedOnly?: boolean;
+}
+
+export interface AccountBalance {
+  accountId: string;
+  code: string;
+  name: string;
+  type: AccountType;
+  parentId: string | null;
+  debit: number;
+  credit: number;
+  /** Net balance on the account's normal side (debit for assets and expenses). */
+  balance: number;
+}
+
+export interface TrialBalanceReport {
+  asOf: string;
+  rows: AccountBalance[];
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+}
+
+export interface BalanceSheetReport {
+  asOf: string;
+  assets: AccountBalance[];
+  liabilities: AccountBalance[];
+  equity: AccountBalance[];
+  /** Revenue minus expenses not yet closed into retained earnings. */
+  currentEarnings: number;
+  totalAssets: number;
+  totalLiabilities: number;
+  totalEquity: number;
+  balanced: boolean;
+}
+
+export interface IncomeStatementReport {
+  from: string;
+  to: string;
+  revenue: AccountBalance[];
+  expenses: AccountBalance[];
+  totalRevenue: number;
+  totalExpenses: number;
+  netIncome: number;
+}
+
+/** Days past due, with "current" for installments not yet due. */
+export type AgingBucket = "current" | "1-30" | "31-60" | "61-90" | "90+";
+
+export type AgingAmounts = Record<AgingBucket, number> & { total: number };
+
+/** What one buyer still owes on one unit, spread over the aging buckets. */
+export interface ReceivablesAgingRow extends AgingAmounts {
+  projectId: string;
+  projectName: string;
+  saleId: string;
+  unitNo: string;
+  buyer: string;
+  /** Due date of the oldest installment still owed. */
+  oldestDueDate: string;
+}
+
+export interface ReceivablesAgingProject extends AgingAmounts {
+  projectId: string;
+  projectName: string;
+  rows: ReceivablesAgingRow[];
+}
+
+export interface ReceivablesAgingReport {
+  /** The date installments are aged against; balances are current. */
+  agingDate: string;
+  projects: ReceivablesAgingProject[];
+  totals: AgingAmounts;
+}
+
+export type FiscalPeriodStatus = "open" | "closed";
+
+export interface FiscalPeriod {
+  id: string;
+  fiscalYearId: string;
+  periodNo: number;
+  startDate: string;
+  endDate: string;
+  status: FiscalPeriodStatus;
+  closedAt?: string | null;
+  closedBy?: string | null;
+}
+
+export interface FiscalYear {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  periods: FiscalPeriod[];
+}
+
+export interface FiscalYearCreateInput {
+  name?: string | null;
+  /** First day of the year; it is split into twelve calendar months. */
+  startDate: string;
+}
+
+export interface FiscalPeriodEvent {
+  id: string;
+  periodId: string;
+  action: "close" | "reopen";
+  reason?: string | null;
+  userId?: string | null;
+  createdAt?: string | null;
+}
+
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "approve"
+  | "reverse"
+  | "archive"
+  | "pay"
+  | "reject"
+  | "resubmit"
+  | "login";
+
+export type AuditEntityType =
+  | "transaction"
+  | "inventory_item"
+  | "inventory_movement"
+  | "project"
+  | "project_cost"
+  | "project_sale"
+  | "installment"
+  | "approval_rule"
+  | "category"
+  | "recurring_template"
+  | "money_account"
+  | "money_transfer"
+  | "bank_statement"
+  | "bank_statement_line"
+  | "cheque"
+  | "late_fee"
+  | "late_fee_policy"
+  | "installment_reschedule"
+  | "customer"
+  | "property_unit"
+  | "unit_reservation"
+  | "user";
+
+/** Append-only record of a single mutation; `before`/`after` are row snapshots. */
+export interface AuditLogEntry {
+  id: string;
+  actorId?: string | null;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+  ip?: string | null;
+  createdAt: string;
+}
+
+export interface AuditLogQuery {
+  actorId?: string | null;
+  action?: AuditAction | null;
+  entityType?: AuditEntityType | null;
+  entityId?: string | null;
+  from?: string | null;
+  to?: string | null;
+  limit?: number | null;
+}